@@ -3,14 +3,22 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { ImageUploader } from './components/ImageUploader';
 import { AnalysisDisplay } from './components/AnalysisDisplay';
+import { PromptComparison } from './components/PromptComparison';
 import { Spinner } from './components/Spinner';
 import { ErrorMessage } from './components/ErrorMessage';
 import { WelcomeScreen } from './components/WelcomeScreen';
-import type { AnalysisResult, Location, SatelliteAnalysisResult, AreaHealthAssessment, Defect, GroundTruthDefect, ValidationMetrics } from './types';
-import { analyzeRoadImage, analyzeSatelliteData } from './services/geminiService';
+import type { AnalysisResult, Location, SatelliteAnalysisResult, AreaHealthAssessment, Defect, GroundTruthDefect, ValidationMetrics, DetectionBackendId, InspectionSession, SessionSource, AnalysisOptions, QueuedAnalysis, QueuedVideoRun, ImageAnalysisType, AnnotationFormat, AnnotationSettings, StoredAnalysis } from './types';
+import { analyzeSatelliteData } from './services/geminiService';
+import { analyzeRoadImage, getBackend, getImageAnalysisOptions } from './services/detectionService';
+import { getBackendSettings } from './services/backendSettings';
+import { createSession, saveAnalysis, loadSessionDefects, loadVideoRunDetections, updateAnalysisResult } from './services/sessionStore';
+import { enqueueAnalysis } from './services/analysisQueue';
+import { useAnalysisQueue } from './hooks/useAnalysisQueue';
 import { fileToBase64 } from './utils/fileUtils';
-import { parsePascalVoc } from './utils/xmlParser';
-import { compareDetections } from './utils/validationUtils';
+import { ANNOTATION_FORMAT_LABELS, detectAnnotationFormat, parseGroundTruth } from './utils/annotationParsers';
+import { getAnnotationSettings, resetAnnotationSettings, saveAnnotationSettings } from './services/annotationSettings';
+import { compareDetections, defectsAsGroundTruth } from './utils/validationUtils';
+import { findNewTracks } from './utils/defectTracker';
 import { CameraCapture } from './components/CameraCapture';
 import { SatelliteAnalysis } from './components/SatelliteAnalysis';
 import { SatelliteAnalysisDisplay } from './components/SatelliteAnalysisDisplay';
@@ -18,13 +26,21 @@ import { SatelliteAnalysisDisplay } from './components/SatelliteAnalysisDisplay'
 import { PathIcon, SegmentIcon, HeartPulseIcon, GridIcon, LayersIcon, BenchmarkIcon, MapIcon } from './components/IconComponents';
 import { RealTimeDetector } from './components/RealTimeDetector';
 import { requestLocation } from './utils/locationUtils';
+import { readImageMetadata } from './utils/exifParser';
 import { GisDashboard } from './components/GisDashboard';
 import { VideoAnalysis } from './components/VideoAnalysis';
 import { OfflineBanner } from './components/OfflineBanner';
+import { BackendSelector } from './components/BackendSelector';
+import { SessionManager } from './components/SessionManager';
+import { QueueStatus } from './components/QueueStatus';
+import { BatchAnalysis } from './components/BatchAnalysis';
+import { BenchmarkRunner } from './components/BenchmarkRunner';
+import { LabelMappingEditor } from './components/LabelMappingEditor';
 
 
 export default function App() {
   const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imageSource, setImageSource] = useState<SessionSource>('image');
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -32,6 +48,7 @@ export default function App() {
   const [error, setError] = useState<string | null>(null);
   const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
   const [location, setLocation] = useState<Location | null>(null);
+  const [capturedAt, setCapturedAt] = useState<string | null>(null);
   const [isCrackPathAnalysis, setIsCrackPathAnalysis] = useState<boolean>(false);
   const [isHealthAnalysis, setIsHealthAnalysis] = useState<boolean>(false);
   const [isFidelitySegmentation, setIsFidelitySegmentation] = useState<boolean>(false);
@@ -41,6 +58,9 @@ export default function App() {
 
   // State for AI Validation
   const [groundTruthFile, setGroundTruthFile] = useState<File | null>(null);
+  const [groundTruthFormat, setGroundTruthFormat] = useState<AnnotationFormat | null>(null);
+  const [annotationSettings, setAnnotationSettings] = useState<AnnotationSettings>(() => getAnnotationSettings());
+  const [isLabelMappingOpen, setIsLabelMappingOpen] = useState<boolean>(false);
 
   // New state for Satellite Analysis
   const [satelliteAnalysis, setSatelliteAnalysis] = useState<SatelliteAnalysisResult | null>(null);
@@ -48,13 +68,30 @@ export default function App() {
 
   // New state for GIS Dashboard
   const [sessionDefects, setSessionDefects] = useState<Defect[]>([]);
+  // The stored record of the analysis on screen, so an inspector's corrections can be saved to it.
+  const storedAnalysisRef = useRef<Promise<StoredAnalysis | null> | null>(null);
   const [isGisDashboardOpen, setIsGisDashboardOpen] = useState<boolean>(false);
 
+  // State for the persisted inspection session. The session itself is created lazily on the first save.
+  const [activeSession, setActiveSession] = useState<InspectionSession | null>(null);
+  const [sessionListVersion, setSessionListVersion] = useState<number>(0);
+  const sessionPromiseRef = useRef<Promise<InspectionSession> | null>(null);
+
   // New state for Video Analysis
   const [isVideoAnalysisOpen, setIsVideoAnalysisOpen] = useState<boolean>(false);
+
+  // State for Batch Image Analysis
+  const [isBatchOpen, setIsBatchOpen] = useState<boolean>(false);
+  const [isBenchmarkOpen, setIsBenchmarkOpen] = useState<boolean>(false);
   
   // State for network connectivity
   const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+  const [queueNotice, setQueueNotice] = useState<string | null>(null);
+
+  // State for the selected detection backend
+  const [backendId, setBackendId] = useState<DetectionBackendId>(() => getBackendSettings().backendId);
+  // Offline-capable backends (e.g. the mock backend) keep analysis available without a connection.
+  const isAnalysisAvailable = isOnline || !getBackend(backendId).requiresNetwork;
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -70,23 +107,110 @@ export default function App() {
   }, []);
 
 
+  const ensureActiveSession = useCallback((): Promise<InspectionSession> => {
+    // Share one pending promise so that concurrent saves (e.g. real-time frames) don't create duplicate sessions.
+    if (!sessionPromiseRef.current) {
+      const pending = createSession().then(session => {
+        setActiveSession(session);
+        return session;
+      });
+      pending.catch(() => { sessionPromiseRef.current = null; });
+      sessionPromiseRef.current = pending;
+    }
+    return sessionPromiseRef.current;
+  }, []);
+
+  const persistAnalysis = useCallback(async (source: SessionSource, defects: Defect[], result?: AnalysisResult, media?: Blob): Promise<StoredAnalysis | null> => {
+    try {
+      const session = await ensureActiveSession();
+      const stored = await saveAnalysis(session.id, { source, defects, result, media });
+      setSessionListVersion(v => v + 1);
+      return stored;
+    } catch (err) {
+      // Persistence is best-effort; the in-memory session keeps working even if IndexedDB is unavailable.
+      console.error("Failed to save analysis to the local session store:", err);
+      return null;
+    }
+  }, [ensureActiveSession]);
+
+  const handleQueuedResult = useCallback(async (item: QueuedAnalysis, result: AnalysisResult | AreaHealthAssessment) => {
+    const defectsWithLocation = result.defects.map(defect => ({
+        ...defect,
+        location: item.location,
+        capturedAt: item.capturedAt,
+        ...(item.timestamp !== undefined ? { timestamp: item.timestamp } : {}),
+    }));
+    const finalResult = { ...result, defects: defectsWithLocation, location: item.location, capturedAt: item.capturedAt };
+    // Video frames go through the defect tracker like an online run, against the frames of
+    // the same run stored so far, so a defect seen in several queued frames is stored once.
+    const { videoRun, timestamp } = item;
+    const defectsToStore = videoRun && timestamp !== undefined
+      ? findNewTracks(await loadVideoRunDetections(item.sessionId, videoRun.id), defectsWithLocation.map(defect => ({ ...defect, timestamp })), timestamp, videoRun.frameInterval)
+      : defectsWithLocation;
+    // Let a storage failure propagate so the item stays queued instead of being lost.
+    await saveAnalysis(item.sessionId, { source: item.source, defects: defectsToStore, result: finalResult, media: item.image, videoRunId: videoRun?.id });
+    if (sessionPromiseRef.current) {
+      const session = await sessionPromiseRef.current.catch(() => null);
+      if (session?.id === item.sessionId) {
+        setSessionDefects(prev => [...prev, ...defectsToStore]);
+      }
+    }
+    setSessionListVersion(v => v + 1);
+  }, []);
+
+  const analysisQueue = useAnalysisQueue(isAnalysisAvailable, handleQueuedResult);
+
+  /**
+   * Stores a captured image or frame for later analysis, tagged with the active session.
+   */
+  const queueForAnalysis = useCallback(async (source: SessionSource, image: Blob, frameLocation: Location | null, options: AnalysisOptions, timestamp?: number, frameCapturedAt?: string, videoRun?: QueuedVideoRun) => {
+    const session = await ensureActiveSession();
+    await enqueueAnalysis({ sessionId: session.id, source, image, location: frameLocation, options, timestamp, videoRun, capturedAt: frameCapturedAt });
+    analysisQueue.refresh();
+  }, [ensureActiveSession, analysisQueue.refresh]);
+
+  const handleResumeSession = async (session: InspectionSession) => {
+    try {
+      const defects = await loadSessionDefects(session.id);
+      sessionPromiseRef.current = Promise.resolve(session);
+      setActiveSession(session);
+      setSessionDefects(defects);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? `Failed to resume session: ${err.message}` : "Failed to resume session.");
+    }
+  };
+
+  const handleNewSession = () => {
+    sessionPromiseRef.current = null;
+    setActiveSession(null);
+    setSessionDefects([]);
+  };
+
+  const handleSessionDeleted = (sessionId: string) => {
+    if (activeSession?.id === sessionId) {
+      handleNewSession();
+    }
+  };
+
   const handleImageProvided = async (file: File, scanType?: 'camera') => {
     setImageFile(file);
+    setImageSource(scanType === 'camera' ? 'camera' : 'image');
     setImageUrl(URL.createObjectURL(file));
     setAnalysis(null);
+    storedAnalysisRef.current = null;
+    setQueueNotice(null);
     setError(null); // Clear previous errors first
     setIsCameraOpen(false);
     setLocation(null);
+    setCapturedAt(scanType === 'camera' ? new Date().toISOString() : null);
 
     // Reset validation state on new image upload
     setGroundTruthFile(null);
+    setGroundTruthFormat(null);
     
     // Only fetch location for camera scans
     if (scanType === 'camera') {
-      if (!isOnline) {
-        setError("You are offline. Cannot fetch GPS location.");
-        return;
-      }
       setIsFetchingLocation(true); // Start fetching location
       try {
           const userLocation = await requestLocation();
@@ -101,14 +225,22 @@ export default function App() {
           setIsFetchingLocation(false); // Done fetching location
       }
     } else {
-      // For standard file uploads, ensure location state is clear and we are not fetching.
-      setIsFetchingLocation(false);
-      setLocation(null);
+      // For standard file uploads, use the GPS fix and capture time embedded in the photo, if any.
+      setIsFetchingLocation(true);
+      try {
+          const metadata = await readImageMetadata(file);
+          setLocation(metadata.location);
+          setCapturedAt(metadata.capturedAt);
+      } finally {
+          setIsFetchingLocation(false);
+      }
     }
   };
 
   const handleClear = () => {
+    storedAnalysisRef.current = null;
     setImageFile(null);
+    setQueueNotice(null);
     setImageUrl(null);
     setAnalysis(null);
     setError(null);
@@ -116,6 +248,7 @@ export default function App() {
     setIsFetchingLocation(false);
     setIsCameraOpen(false);
     setLocation(null);
+    setCapturedAt(null);
     setSatelliteAnalysis(null);
     setIsSatelliteViewOpen(false);
     setIsCrackPathAnalysis(false);
@@ -125,36 +258,61 @@ export default function App() {
     setAreaHealth(null);
     setIsRealTimeOpen(false);
     setIsVideoAnalysisOpen(false);
+    setIsBatchOpen(false);
     setGroundTruthFile(null);
+    setGroundTruthFormat(null);
     // Do NOT clear session defects, so the GIS dashboard remains accessible.
     setIsGisDashboardOpen(false);
   }
 
-  const handleGroundTruthFileSelect = (file: File | null) => {
+  const handleGroundTruthFileSelect = async (file: File | null) => {
     setGroundTruthFile(file);
+    setGroundTruthFormat(null);
+    if (!file) return;
+    try {
+      setGroundTruthFormat(detectAnnotationFormat(file.name, await file.text()));
+    } catch (err) {
+      setGroundTruthFile(null);
+      setError(err instanceof Error ? err.message : "Could not read the annotation file.");
+    }
+  };
+
+  const handleAnnotationSettingsChange = (settings: Partial<AnnotationSettings>) => {
+    setAnnotationSettings(saveAnnotationSettings(settings));
   };
 
   const handleAnalyze = useCallback(async (
-      analysisType: 'standard' | 'detailed' | 'health' | 'instance',
+      analysisType: ImageAnalysisType,
       isValidationRun: boolean = false
   ) => {
     if (!imageFile) {
       setError("Please upload an image first.");
       return;
     }
-    if (!isOnline) {
-      setError("You are currently offline. An internet connection is required to perform an analysis.");
-      return;
-    }
     if (isValidationRun && !groundTruthFile) {
         setError("Please select a ground truth annotation file to run validation.");
         return;
     }
+    if (isValidationRun && !isAnalysisAvailable) {
+      setError("You are currently offline. An internet connection is required to run a validation.");
+      return;
+    }
     
     const isDeepScan = analysisType === 'detailed';
     const isDetailed = analysisType === 'detailed';
     const isHealth = analysisType === 'health';
     const isInstance = analysisType === 'instance';
+
+    if (!isAnalysisAvailable) {
+      try {
+          await queueForAnalysis(imageSource, imageFile, location, getImageAnalysisOptions(analysisType), undefined, capturedAt ?? undefined);
+          handleClear();
+          setQueueNotice("You are offline. The image was queued and will be analyzed automatically when the connection returns.");
+      } catch (err) {
+          setError(err instanceof Error ? `Could not queue the image: ${err.message}` : "Could not queue the image for later analysis.");
+      }
+      return;
+    }
     
     setIsCrackPathAnalysis(isDetailed);
     setIsHealthAnalysis(isHealth);
@@ -172,6 +330,7 @@ export default function App() {
       
       let groundTruth: GroundTruthDefect[] | undefined;
       let validationMetrics: ValidationMetrics | undefined;
+      let groundTruthSource: AnalysisResult['groundTruthSource'];
 
       if (isValidationRun && imageUrl && groundTruthFile) {
           try {
@@ -180,9 +339,16 @@ export default function App() {
               await image.decode();
               const { naturalWidth: width, naturalHeight: height } = image;
               
-              const xmlContent = await groundTruthFile.text();
-              groundTruth = parsePascalVoc(xmlContent, width, height);
+              const { defects: parsedGroundTruth } = parseGroundTruth({
+                  fileName: groundTruthFile.name,
+                  content: await groundTruthFile.text(),
+                  imageFileName: imageFile?.name ?? '',
+                  imageWidth: width,
+                  imageHeight: height,
+              }, annotationSettings);
+              groundTruth = parsedGroundTruth;
               validationMetrics = compareDetections(result.defects, groundTruth);
+              groundTruthSource = 'file';
           } catch (validationError) {
               console.error("Validation failed:", validationError);
               const validationErrorMessage = validationError instanceof Error ? `Ground Truth Validation Failed: ${validationError.message}` : "Failed to process ground truth file.";
@@ -193,6 +359,7 @@ export default function App() {
       const defectsWithLocation = result.defects.map(defect => ({
           ...defect,
           location: location,
+          capturedAt: capturedAt ?? undefined,
       }));
 
       setSessionDefects(prev => [...prev, ...defectsWithLocation]);
@@ -203,21 +370,27 @@ export default function App() {
               ...healthResult,
               defects: defectsWithLocation,
               location: location,
+              capturedAt: capturedAt ?? undefined,
               groundTruth,
+              groundTruthSource,
               validationMetrics
           };
           setAreaHealth(finalResult);
-          setAnalysis({ defects: finalResult.defects, location: finalResult.location, groundTruth, validationMetrics });
+          setAnalysis({ defects: finalResult.defects, location: finalResult.location, capturedAt: finalResult.capturedAt, groundTruth, groundTruthSource, validationMetrics, warnings: finalResult.warnings, promptVersion: finalResult.promptVersion, schemaVersion: finalResult.schemaVersion, modelVersion: finalResult.modelVersion });
+          storedAnalysisRef.current = persistAnalysis(imageSource, defectsWithLocation, finalResult, imageFile);
       } else {
           const standardResult = result as AnalysisResult;
           const finalResult: AnalysisResult = {
               ...standardResult,
               defects: defectsWithLocation,
               location: location,
+              capturedAt: capturedAt ?? undefined,
               groundTruth,
+              groundTruthSource,
               validationMetrics
           };
           setAnalysis(finalResult);
+          storedAnalysisRef.current = persistAnalysis(imageSource, defectsWithLocation, finalResult, imageFile);
       }
       
       // Clear analysis-specific errors on success, but preserve validation error if it occurred
@@ -234,7 +407,45 @@ export default function App() {
     } finally {
       setIsLoading(false);
     }
-  }, [imageFile, location, isOnline, imageUrl, groundTruthFile, error]);
+  }, [imageFile, imageSource, location, capturedAt, isAnalysisAvailable, imageUrl, groundTruthFile, annotationSettings, error, persistAnalysis, queueForAnalysis]);
+
+  /**
+   * Applies an inspector's corrections to the analysis on screen and the session. Unless an
+   * annotation file was used, the verified detections become the ground truth the model's
+   * original output is validated against.
+   */
+  const handleSaveCorrections = async (corrected: Defect[]) => {
+    if (!analysis) return;
+    const modelDefects = analysis.modelDefects ?? analysis.defects;
+    const useReviewAsGroundTruth = analysis.groundTruthSource !== 'file';
+    const groundTruth = useReviewAsGroundTruth ? defectsAsGroundTruth(corrected) : analysis.groundTruth;
+    const changes: AnalysisResult = {
+        ...analysis,
+        defects: corrected,
+        modelDefects,
+        reviewedAt: new Date().toISOString(),
+        groundTruth,
+        groundTruthSource: useReviewAsGroundTruth ? 'review' : 'file',
+        validationMetrics: groundTruth ? compareDetections(modelDefects, groundTruth) : undefined,
+    };
+
+    const stored = await storedAnalysisRef.current?.catch(() => null);
+    if (stored) {
+        // Let a storage failure reach the editor so the inspector can retry.
+        await updateAnalysisResult(stored.id, changes);
+        setSessionListVersion(v => v + 1);
+    }
+
+    // Swap this analysis' defects in place so the session keeps its order.
+    const previous = new Set(analysis.defects);
+    setSessionDefects(prev => {
+        const start = prev.findIndex(d => previous.has(d));
+        const rest = prev.filter(d => !previous.has(d));
+        return start < 0 ? [...rest, ...corrected] : [...rest.slice(0, start), ...corrected, ...rest.slice(start)];
+    });
+    setAnalysis(changes);
+    setAreaHealth(prev => prev ? { ...prev, ...changes } : prev);
+  };
 
   const handleSatelliteAnalyze = async (locationInput: string) => {
     setIsLoading(true);
@@ -262,22 +473,61 @@ export default function App() {
     setIsRealTimeOpen(false);
   };
 
+  const handleRealTimeFrame = (defects: Defect[], frame: Blob) => {
+    // Real-time frames are saved as they arrive so that a crashed tab loses at most one frame.
+    persistAnalysis('realtime', defects, undefined, frame);
+  };
+
   const handleVideoAnalysisClose = (sessionData?: Defect[]) => {
     if (sessionData && sessionData.length > 0) {
         setSessionDefects(prev => [...prev, ...sessionData]);
+        persistAnalysis('video', sessionData);
     }
     setIsVideoAnalysisOpen(false);
   };
   
+  const handleBatchImageAnalyzed = async (file: File, result: AnalysisResult | AreaHealthAssessment): Promise<Defect[]> => {
+    const metadata = await readImageMetadata(file);
+    const capturedAt = metadata.capturedAt ?? undefined;
+    const defectsWithLocation = result.defects.map(defect => ({ ...defect, location: metadata.location, capturedAt }));
+    setSessionDefects(prev => [...prev, ...defectsWithLocation]);
+    await persistAnalysis('image', defectsWithLocation, { ...result, defects: defectsWithLocation, location: metadata.location, capturedAt }, file);
+    return defectsWithLocation;
+  };
+
+  const handleBatchQueueImage = async (file: File, options: AnalysisOptions) => {
+    const metadata = await readImageMetadata(file);
+    await queueForAnalysis('image', file, metadata.location, options, undefined, metadata.capturedAt ?? undefined);
+  };
+
+  const handleBatchOpenGisDashboard = () => {
+    setIsBatchOpen(false);
+    setIsGisDashboardOpen(true);
+  };
+  
   const renderContent = () => {
     if (isGisDashboardOpen) {
       return <GisDashboard defects={sessionDefects} onBack={() => setIsGisDashboardOpen(false)} />;
     }
     if (isVideoAnalysisOpen) {
-      return <VideoAnalysis onClose={handleVideoAnalysisClose} isOnline={isOnline} />;
+      return <VideoAnalysis onClose={handleVideoAnalysisClose} onQueueFrame={(frame, frameLocation, options, timestamp, videoRun, frameCapturedAt) => queueForAnalysis('video', frame, frameLocation, options, timestamp, frameCapturedAt, videoRun)} isOnline={isAnalysisAvailable} />;
+    }
+    if (isBatchOpen) {
+      return (
+        <BatchAnalysis
+          onClose={() => setIsBatchOpen(false)}
+          onImageAnalyzed={handleBatchImageAnalyzed}
+          onQueueImage={handleBatchQueueImage}
+          onOpenGisDashboard={handleBatchOpenGisDashboard}
+          isOnline={isAnalysisAvailable}
+        />
+      );
+    }
+    if (isBenchmarkOpen) {
+      return <BenchmarkRunner onClose={() => setIsBenchmarkOpen(false)} isOnline={isAnalysisAvailable} />;
     }
     if (isRealTimeOpen) {
-      return <RealTimeDetector onClose={handleRealTimeClose} isOnline={isOnline} />;
+      return <RealTimeDetector onClose={handleRealTimeClose} onFrameAnalyzed={handleRealTimeFrame} onQueueFrame={(frame, frameLocation, options) => queueForAnalysis('realtime', frame, frameLocation, options, undefined, new Date().toISOString())} isOnline={isAnalysisAvailable} />;
     }
     if (isSatelliteViewOpen) {
         return <SatelliteAnalysis onAnalyze={handleSatelliteAnalyze} onCancel={() => setIsSatelliteViewOpen(false)} isOnline={isOnline} />;
@@ -293,17 +543,39 @@ export default function App() {
           </h2>
           
           {!imageUrl && !satelliteAnalysis ? (
-              <ImageUploader 
-                  onImageUpload={handleImageProvided} 
-                  onUseCamera={() => setIsCameraOpen(true)}
-                  onUseSatellite={() => setIsSatelliteViewOpen(true)}
-                  onUseRealTime={() => setIsRealTimeOpen(true)}
-                  onUseVideoAnalysis={() => setIsVideoAnalysisOpen(true)}
-                  onOpenGisDashboard={() => setIsGisDashboardOpen(true)}
-                  hasSessionData={sessionDefects.length > 0}
-                  disabled={isLoading || !isOnline}
-                  isOnline={isOnline}
-              />
+              <>
+                  <ImageUploader 
+                      onImageUpload={handleImageProvided} 
+                      onUseCamera={() => setIsCameraOpen(true)}
+                      onUseSatellite={() => setIsSatelliteViewOpen(true)}
+                      onUseRealTime={() => setIsRealTimeOpen(true)}
+                      onUseVideoAnalysis={() => setIsVideoAnalysisOpen(true)}
+                      onUseBatch={() => setIsBatchOpen(true)}
+                      onUseBenchmark={() => setIsBenchmarkOpen(true)}
+                      onOpenGisDashboard={() => setIsGisDashboardOpen(true)}
+                      hasSessionData={sessionDefects.length > 0}
+                      disabled={isLoading}
+                      isOnline={isOnline}
+                  />
+                  <QueueStatus
+                      pending={analysisQueue.pending}
+                      failed={analysisQueue.failed}
+                      isProcessing={analysisQueue.isProcessing}
+                      isAnalysisAvailable={isAnalysisAvailable}
+                      onProcessNow={analysisQueue.processNow}
+                      onRetryFailed={analysisQueue.retryFailed}
+                      onDiscardFailed={analysisQueue.discardFailed}
+                  />
+                  <BackendSelector backendId={backendId} onBackendChange={setBackendId} disabled={isLoading} />
+                  <SessionManager
+                      activeSessionId={activeSession?.id ?? null}
+                      refreshKey={sessionListVersion}
+                      onResume={handleResumeSession}
+                      onNewSession={handleNewSession}
+                      onDeleted={handleSessionDeleted}
+                      disabled={isLoading}
+                  />
+              </>
           ) : imageUrl && (
               <div className="mt-4 border-2 border-dashed border-slate-600 rounded-lg p-4">
                   <img src={imageUrl} alt="Uploaded road surface" className="max-h-80 w-auto mx-auto rounded-md shadow-lg" />
@@ -318,28 +590,43 @@ export default function App() {
                         <h3 className="text-xl font-bold text-teal-400">AI Validation</h3>
                     </div>
                     <p className="text-sm text-slate-400 mb-4">
-                        Upload a PASCAL VOC XML annotation file to compare the AI's performance against a ground truth dataset.
+                        Upload a PASCAL VOC (.xml), COCO (.json) or YOLO (.txt) annotation file to compare the AI's performance against a ground truth dataset.
                     </p>
                     <div className="flex flex-col sm:flex-row gap-4 items-center">
                         <label className="relative w-full sm:flex-1 h-12 flex items-center justify-center px-4 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md transition-colors duration-300 cursor-pointer">
                             <input
                                 type="file"
                                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                                accept=".xml, text/xml"
+                                accept=".xml,.json,.txt,text/xml,application/json,text/plain"
                                 onChange={(e) => handleGroundTruthFileSelect(e.target.files?.[0] || null)}
                                 disabled={isLoading}
                             />
-                            <span className="truncate">{groundTruthFile ? groundTruthFile.name : 'Select Annotation File (.xml)'}</span>
+                            <span className="truncate">{groundTruthFile ? groundTruthFile.name : 'Select Annotation File'}</span>
                         </label>
                         <button
                             onClick={() => handleAnalyze('standard', true)}
-                            disabled={!groundTruthFile || isLoading || isFetchingLocation || !isOnline}
+                            disabled={!groundTruthFile || isLoading || isFetchingLocation || !isAnalysisAvailable}
                             className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-teal-600 hover:bg-teal-500 text-white font-bold rounded-lg shadow-lg transition-all duration-300 transform hover:scale-105 disabled:bg-slate-600 disabled:cursor-not-allowed"
                         >
                             {isLoading && groundTruthFile ? <Spinner /> : <BenchmarkIcon className="w-5 h-5"/>}
                             {isLoading && groundTruthFile ? 'Validating...' : 'Run Validation'}
                         </button>
                     </div>
+                    <div className="mt-3 flex items-center justify-between text-xs">
+                        <span className="text-slate-400">
+                            {groundTruthFormat && <>Detected format: <span className="font-semibold text-teal-300">{ANNOTATION_FORMAT_LABELS[groundTruthFormat]}</span></>}
+                        </span>
+                        <button onClick={() => setIsLabelMappingOpen(open => !open)} className="text-teal-400 hover:text-teal-300 underline">
+                            {isLabelMappingOpen ? 'Hide label mapping' : 'Label mapping'}
+                        </button>
+                    </div>
+                    {isLabelMappingOpen && (
+                        <LabelMappingEditor
+                            settings={annotationSettings}
+                            onChange={handleAnnotationSettingsChange}
+                            onReset={() => setAnnotationSettings(resetAnnotationSettings())}
+                        />
+                    )}
                 </div>
                 
                 <div className="my-4 flex items-center justify-center">
@@ -350,13 +637,19 @@ export default function App() {
             </>
           )}
 
+          {imageUrl && !analysis && !isAnalysisAvailable && (
+              <p className="mt-4 text-sm text-center text-yellow-400">
+                  You are offline. Any analysis you start will be queued and run automatically once you reconnect.
+              </p>
+          )}
+
           {(imageUrl || satelliteAnalysis) && (
               <div className="mt-6 flex flex-col sm:flex-row flex-wrap justify-center gap-4">
                   {imageUrl && !analysis && (
                     <>
                       <button
                           onClick={() => handleAnalyze('standard')}
-                          disabled={isLoading || isFetchingLocation || !isOnline}
+                          disabled={isLoading || isFetchingLocation}
                           className="w-full sm:w-auto inline-flex items-center justify-center px-8 py-3 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-lg shadow-lg transition-all duration-300 transform hover:scale-105 disabled:bg-slate-600 disabled:cursor-not-allowed disabled:scale-100"
                       >
                           {isFetchingLocation && !isLoading ? (
@@ -372,7 +665,7 @@ export default function App() {
                       </button>
                       <button
                           onClick={() => handleAnalyze('detailed')}
-                          disabled={isLoading || isFetchingLocation || !isOnline}
+                          disabled={isLoading || isFetchingLocation}
                           className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-teal-600 hover:bg-teal-500 text-white font-bold rounded-lg shadow-lg transition-all duration-300 transform hover:scale-105 disabled:bg-slate-600 disabled:cursor-not-allowed disabled:scale-100"
                       >
                            {isLoading && isFidelitySegmentation ? <Spinner /> : <GridIcon className="w-5 h-5"/>}
@@ -380,7 +673,7 @@ export default function App() {
                       </button>
                       <button
                           onClick={() => handleAnalyze('instance')}
-                          disabled={isLoading || isFetchingLocation || !isOnline}
+                          disabled={isLoading || isFetchingLocation}
                           className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-pink-600 hover:bg-pink-500 text-white font-bold rounded-lg shadow-lg transition-all duration-300 transform hover:scale-105 disabled:bg-slate-600 disabled:cursor-not-allowed disabled:scale-100"
                       >
                            {isLoading && isInstanceAnalysis ? <Spinner /> : <LayersIcon className="w-5 h-5"/>}
@@ -388,7 +681,7 @@ export default function App() {
                       </button>
                        <button
                           onClick={() => handleAnalyze('health')}
-                          disabled={isLoading || isFetchingLocation || !isOnline}
+                          disabled={isLoading || isFetchingLocation}
                           className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-green-600 hover:bg-green-500 text-white font-bold rounded-lg shadow-lg transition-all duration-300 transform hover:scale-105 disabled:bg-slate-600 disabled:cursor-not-allowed disabled:scale-100"
                       >
                            {isLoading && isHealthAnalysis ? <Spinner /> : <HeartPulseIcon className="w-5 h-5"/>}
@@ -430,9 +723,22 @@ export default function App() {
 
           {error && <ErrorMessage message={error} />}
 
+          {queueNotice && !imageUrl && (
+              <p className="mb-4 p-3 text-sm text-yellow-300 bg-yellow-900/30 border border-yellow-700/60 rounded-lg" role="status">{queueNotice}</p>
+          )}
+
           {!isLoading && !error && !analysis && !imageUrl && !satelliteAnalysis && <WelcomeScreen />}
 
-          {analysis && imageUrl && <AnalysisDisplay imageUrl={imageUrl} analysis={analysis} areaHealth={areaHealth} isCrackPathAnalysis={isCrackPathAnalysis} isFidelitySegmentation={isFidelitySegmentation} isInstanceAnalysis={isInstanceAnalysis} />}
+          {analysis && imageUrl && <AnalysisDisplay imageUrl={imageUrl} imageFileName={imageFile?.name} analysis={analysis} onSaveCorrections={handleSaveCorrections} areaHealth={areaHealth} isCrackPathAnalysis={isCrackPathAnalysis} isFidelitySegmentation={isFidelitySegmentation} isInstanceAnalysis={isInstanceAnalysis} />}
+
+          {analysis && imageUrl && imageFile && backendId === 'gemini' && isOnline && (
+              <PromptComparison
+                  key={imageUrl}
+                  imageFile={imageFile}
+                  imageUrl={imageUrl}
+                  analysisType={isInstanceAnalysis ? 'instance' : isHealthAnalysis ? 'health' : isCrackPathAnalysis ? 'detailed' : 'standard'}
+              />
+          )}
 
           {satelliteAnalysis && <SatelliteAnalysisDisplay analysis={satelliteAnalysis} />}
 
@@ -1,23 +1,97 @@
 
-import React, { useState } from 'react';
-import type { AnalysisResult, AreaHealthAssessment, ValidationMetrics } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { AnalysisResult, AnnotationFormat, AreaHealthAssessment, ConfusionMatrix, CostSettings, Defect, IouMode } from '../types';
 import { ResultCard } from './ResultCard';
 import { DEFECT_COLORS, SEGMENT_COLORS } from '../constants';
-import { exportToCSV, exportToPDF } from '../utils/exportUtils';
-import { DownloadIcon, LocationIcon, PathIcon, SegmentIcon, HeartPulseIcon, GridIcon, LayersIcon, BenchmarkIcon } from './IconComponents';
+import { exportAnnotations, exportToCSV, exportToPDF } from '../utils/exportUtils';
+import { ANNOTATION_FORMAT_LABELS } from '../utils/annotationParsers';
+import { DownloadIcon, LocationIcon, PathIcon, SegmentIcon, HeartPulseIcon, GridIcon, LayersIcon, BenchmarkIcon, EditIcon } from './IconComponents';
 import { AreaHealthDisplay } from './AreaHealthDisplay';
+import { PrCurveChart } from './PrCurveChart';
+import { AnnotationEditor } from './AnnotationEditor';
+import { compareDetections } from '../utils/validationUtils';
+import { computePrCurves } from '../utils/benchmarkUtils';
+import { estimateDefectCost } from '../utils/costEstimator';
+import { getCostSettings, resetCostSettings, saveCostSettings } from '../services/costSettings';
+import { RepairCostSummary } from './RepairCostSummary';
 
 interface AnalysisDisplayProps {
   imageUrl: string;
+  // Used to name annotation exports; defaults to 'image'.
+  imageFileName?: string;
   analysis: AnalysisResult;
   areaHealth: AreaHealthAssessment | null;
   isCrackPathAnalysis: boolean;
   isFidelitySegmentation: boolean;
   isInstanceAnalysis: boolean;
+  // When provided, the detections can be corrected in an editor and saved back to the session.
+  onSaveCorrections?: (defects: Defect[]) => Promise<void> | void;
 }
 
-const ValidationReport: React.FC<{ metrics: ValidationMetrics }> = ({ metrics }) => {
+const ConfusionMatrixTable: React.FC<{ matrix: ConfusionMatrix }> = ({ matrix }) => {
+    const max = Math.max(1, ...matrix.counts.flat());
+    const lastRow = matrix.groundTruthLabels.length - 1;
+    const lastCol = matrix.predictedLabels.length - 1;
+
+    return (
+        <div className="overflow-x-auto bg-slate-800/50 rounded-lg border border-slate-700">
+            <table className="w-full text-sm text-slate-300">
+                <thead className="text-xs text-cyan-300 bg-slate-900/70">
+                    <tr>
+                        <th className="px-3 py-2 text-left">Truth ↓ / Predicted →</th>
+                        {matrix.predictedLabels.map(label => <th key={label} className="px-3 py-2 text-center">{label}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {matrix.groundTruthLabels.map((gtLabel, row) => (
+                        <tr key={gtLabel} className="border-b border-slate-700 last:border-b-0">
+                            <td className="px-3 py-2 font-semibold">{gtLabel}</td>
+                            {matrix.counts[row].map((count, col) => {
+                                // Off-diagonal cells in the Background row/column are false positives and misses.
+                                const isCorrect = matrix.predictedLabels[col] === gtLabel && row !== lastRow;
+                                const isError = count > 0 && !isCorrect && !(row === lastRow && col === lastCol);
+                                return (
+                                    <td
+                                        key={col}
+                                        className={`px-3 py-2 text-center font-mono ${isCorrect && count > 0 ? 'text-green-300 font-bold' : isError ? 'text-red-300' : 'text-slate-500'}`}
+                                        style={{ backgroundColor: count > 0 ? `rgba(${isCorrect ? '34, 197, 94' : '239, 68, 68'}, ${0.1 + 0.4 * count / max})` : undefined }}
+                                    >
+                                        {row === lastRow && col === lastCol ? '' : count}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const ValidationReport: React.FC<{ analysis: AnalysisResult }> = ({ analysis }) => {
+    const [iouThreshold, setIouThreshold] = useState(0.5);
+    const [confidenceThreshold, setConfidenceThreshold] = useState(0);
+    // Mask IoU is only meaningful when both the detections and the annotations have polygons.
+    // After an inspector's review, the model's original detections are what gets validated.
+    const predictions = analysis.modelDefects ?? analysis.defects;
+    const hasMasks = predictions.some(d => (d.segmentationPolygon?.length ?? 0) >= 3)
+        && !!analysis.groundTruth?.some(gt => (gt.segmentationPolygon?.length ?? 0) >= 3);
+    const [iouMode, setIouMode] = useState<IouMode>(hasMasks ? 'mask' : 'box');
     const formatPercent = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+    // Metrics are recomputed from the stored detections, so the thresholds can be swept
+    // without calling the model again. Older results without ground truth keep their metrics.
+    const groundTruth = analysis.groundTruth;
+    const metrics = useMemo(
+        () => groundTruth ? compareDetections(predictions, groundTruth, iouThreshold, confidenceThreshold, iouMode) : analysis.validationMetrics!,
+        [analysis, predictions, groundTruth, iouThreshold, confidenceThreshold, iouMode]
+    );
+    const curves = useMemo(
+        () => groundTruth ? computePrCurves([{ predictions, groundTruth }], iouThreshold, iouMode) : [],
+        [predictions, groundTruth, iouThreshold, iouMode]
+    );
+    const apByClass = new Map(curves.filter(c => c.totalGroundTruth > 0).map(c => [c.className, c.averagePrecision]));
+    const meanAp = apByClass.size > 0 ? [...apByClass.values()].reduce((sum, ap) => sum + ap, 0) / apByClass.size : null;
     const sortedClasses = Object.keys(metrics.perClassMetrics).sort();
 
     return (
@@ -25,9 +99,44 @@ const ValidationReport: React.FC<{ metrics: ValidationMetrics }> = ({ metrics })
             <div className="flex items-center gap-3 mb-2 border-b-2 border-slate-700 pb-2">
                 <BenchmarkIcon className="w-7 h-7 text-teal-400"/>
                 <h3 className="text-2xl font-bold text-teal-400">Validation Report</h3>
+                {analysis.groundTruthSource === 'review' && <span className="text-sm text-slate-400">Model output vs. inspector-verified detections</span>}
             </div>
+
+            {groundTruth && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+                    <div>
+                        <label htmlFor="iouThreshold" className="flex justify-between text-sm font-medium text-slate-300 mb-2">
+                            <span>IoU Threshold</span>
+                            <span className="font-mono text-teal-300">{iouThreshold.toFixed(2)}</span>
+                        </label>
+                        <input id="iouThreshold" type="range" min="0.1" max="0.95" step="0.05" value={iouThreshold} onChange={(e) => setIouThreshold(Number(e.target.value))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer" />
+                    </div>
+                    <div>
+                        <label htmlFor="confidenceThreshold" className="flex justify-between text-sm font-medium text-slate-300 mb-2">
+                            <span>Confidence Threshold</span>
+                            <span className="font-mono text-teal-300">{confidenceThreshold.toFixed(2)}</span>
+                        </label>
+                        <input id="confidenceThreshold" type="range" min="0" max="1" step="0.05" value={confidenceThreshold} onChange={(e) => setConfidenceThreshold(Number(e.target.value))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer" />
+                    </div>
+                    {hasMasks && (
+                        <div className="sm:col-span-2 flex items-center gap-3 text-sm">
+                            <span className="font-medium text-slate-300">Match by</span>
+                            {(['mask', 'box'] as IouMode[]).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setIouMode(mode)}
+                                    className={`px-3 py-1 rounded-md font-semibold ${iouMode === mode ? 'bg-teal-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                                >
+                                    {mode === 'mask' ? 'Mask IoU' : 'Box IoU'}
+                                </button>
+                            ))}
+                            {iouMode === 'mask' && <span className="text-xs text-slate-500">Pairs without a polygon fall back to boxes.</span>}
+                        </div>
+                    )}
+                </div>
+            )}
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+            <div className={`grid grid-cols-1 gap-4 text-center ${meanAp !== null ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
                 <div className="bg-slate-800 p-3 rounded-lg border border-slate-700">
                     <p className="text-sm font-semibold text-slate-400">Precision</p>
                     <p className="text-3xl font-bold text-cyan-400">{formatPercent(metrics.precision)}</p>
@@ -40,8 +149,24 @@ const ValidationReport: React.FC<{ metrics: ValidationMetrics }> = ({ metrics })
                     <p className="text-sm font-semibold text-slate-400">F1-Score</p>
                     <p className="text-3xl font-bold text-teal-400">{formatPercent(metrics.f1Score)}</p>
                 </div>
+                {meanAp !== null && (
+                    <div className="bg-slate-800 p-3 rounded-lg border border-slate-700">
+                        <p className="text-sm font-semibold text-slate-400">mAP@{iouThreshold.toFixed(2)}</p>
+                        <p className="text-3xl font-bold text-amber-400">{formatPercent(meanAp)}</p>
+                    </div>
+                )}
             </div>
 
+            {groundTruth && (
+                <div>
+                    <h4 className="text-lg font-bold text-slate-200 mb-3">Precision-Recall Curves</h4>
+                    <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+                        <PrCurveChart curves={curves} confidenceThreshold={confidenceThreshold} />
+                        <p className="mt-2 text-xs text-slate-500">Curves sweep the confidence threshold; dots mark the current threshold.</p>
+                    </div>
+                </div>
+            )}
+
             <div>
                 <h4 className="text-lg font-bold text-slate-200 mb-3">Per-Class Metrics</h4>
                 <div className="overflow-x-auto bg-slate-800/50 rounded-lg border border-slate-700">
@@ -56,6 +181,7 @@ const ValidationReport: React.FC<{ metrics: ValidationMetrics }> = ({ metrics })
                                 <th className="px-4 py-3 text-right">Precision</th>
                                 <th className="px-4 py-3 text-right">Recall</th>
                                 <th className="px-4 py-3 text-right">F1-Score</th>
+                                {apByClass.size > 0 && <th className="px-4 py-3 text-right">AP</th>}
                             </tr>
                         </thead>
                         <tbody>
@@ -71,6 +197,7 @@ const ValidationReport: React.FC<{ metrics: ValidationMetrics }> = ({ metrics })
                                         <td className="px-4 py-2 text-right font-mono">{formatPercent(m.precision)}</td>
                                         <td className="px-4 py-2 text-right font-mono">{formatPercent(m.recall)}</td>
                                         <td className="px-4 py-2 text-right font-mono font-bold">{formatPercent(m.f1Score)}</td>
+                                        {apByClass.size > 0 && <td className="px-4 py-2 text-right font-mono">{apByClass.has(className) ? formatPercent(apByClass.get(className)!) : '–'}</td>}
                                     </tr>
                                 )
                             })}
@@ -78,23 +205,45 @@ const ValidationReport: React.FC<{ metrics: ValidationMetrics }> = ({ metrics })
                     </table>
                 </div>
             </div>
+
+            {metrics.confusionMatrix && (
+                <div>
+                    <h4 className="text-lg font-bold text-slate-200 mb-3">Confusion Matrix</h4>
+                    <ConfusionMatrixTable matrix={metrics.confusionMatrix} />
+                    <p className="mt-2 text-xs text-slate-500">
+                        Detections are matched to the overlapping annotation at IoU ≥ {iouThreshold.toFixed(2)} regardless of class, so misclassifications between crack types show off the diagonal.
+                    </p>
+                </div>
+            )}
         </div>
     );
 };
 
 
-export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, analysis, areaHealth, isCrackPathAnalysis, isFidelitySegmentation, isInstanceAnalysis }) => {
+export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, imageFileName, analysis, areaHealth, isCrackPathAnalysis, isFidelitySegmentation, isInstanceAnalysis, onSaveCorrections }) => {
   const [isExporting, setIsExporting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [annotationFormat, setAnnotationFormat] = useState<AnnotationFormat>('voc');
+  // Natural size of the analyzed image, needed to write pixel coordinates.
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [costSettings, setCostSettings] = useState<CostSettings>(() => getCostSettings());
   const isDetailedAnalysis = isFidelitySegmentation && isCrackPathAnalysis;
+  // Reviewed detections used as ground truth would just duplicate the boxes already drawn.
+  const showGroundTruth = !!analysis.groundTruth && analysis.groundTruthSource !== 'review';
 
   const handleExportCSV = () => {
     exportToCSV(analysis.defects);
   };
 
+  const handleExportAnnotations = () => {
+    if (!imageSize) return;
+    exportAnnotations(annotationFormat, { fileName: imageFileName || 'image.jpg', ...imageSize, defects: analysis.defects });
+  };
+
   const handleExportPDF = async () => {
     setIsExporting(true);
     try {
-        await exportToPDF(analysis);
+        await exportToPDF(analysis, costSettings);
     } catch (e) {
         console.error("PDF export failed", e);
         alert("Sorry, there was an error creating the PDF report.");
@@ -103,6 +252,10 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, anal
     }
   };
 
+  const handleCostSettingsChange = (changes: Partial<CostSettings>) => {
+    setCostSettings(saveCostSettings(changes));
+  };
+
   const colorMap: Record<string, { fill: string; stroke: string }> = {
       'border-red-500': { fill: 'rgba(239, 68, 68, 0.4)', stroke: 'rgb(239, 68, 68)'},
       'border-green-500': { fill: 'rgba(34, 197, 94, 0.4)', stroke: 'rgb(34, 197, 94)'},
@@ -126,7 +279,7 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, anal
 
   return (
     <div className="mt-8 space-y-8">
-      {analysis.validationMetrics && <ValidationReport metrics={analysis.validationMetrics} />}
+      {analysis.validationMetrics && <ValidationReport analysis={analysis} />}
 
       {areaHealth && <AreaHealthDisplay assessment={areaHealth} />}
       <div>
@@ -151,15 +304,52 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, anal
                   Instance Segmentation
                 </span>
               )}
+              {analysis.reviewedAt && (
+                 <span className="flex items-center gap-1.5 bg-green-500/20 text-green-300 text-xs font-bold px-2 py-1 rounded-full" title={`Reviewed ${new Date(analysis.reviewedAt).toLocaleString()}`}>
+                  <EditIcon className="w-4 h-4" />
+                  Human Verified
+                </span>
+              )}
+              {(analysis.promptVersion || analysis.modelVersion) && (
+                 <span className="bg-slate-700 text-slate-300 text-xs font-bold px-2 py-1 rounded-full" title={[analysis.modelVersion, analysis.schemaVersion && `Response schema v${analysis.schemaVersion}`].filter(Boolean).join(' · ') || undefined}>
+                  {analysis.promptVersion ? `Prompt ${analysis.promptVersion}` : analysis.modelVersion}
+                </span>
+              )}
+              {onSaveCorrections && !isEditing && (
+                <button
+                  onClick={() => setIsEditing(true)}
+                  className="inline-flex items-center gap-1.5 px-3 py-1 text-xs font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-full"
+                >
+                  <EditIcon className="w-4 h-4" />
+                  Edit Detections
+                </button>
+              )}
             </div>
             {analysis.location && (
                 <div className="flex items-center gap-2 text-sm text-slate-400 bg-slate-800 px-3 py-1 rounded-full flex-shrink-0">
                     <LocationIcon className="w-4 h-4 text-cyan-400" />
                     <span>Lat: {analysis.location.latitude.toFixed(5)}, Long: {analysis.location.longitude.toFixed(5)}</span>
+                    {typeof analysis.location.heading === 'number' && <span>· {analysis.location.heading.toFixed(0)}°</span>}
+                </div>
+            )}
+            {analysis.capturedAt && (
+                <div className="text-sm text-slate-400 bg-slate-800 px-3 py-1 rounded-full flex-shrink-0" title="Capture time from the photo metadata">
+                    Captured {new Date(analysis.capturedAt).toLocaleString()}
                 </div>
             )}
         </div>
 
+        {analysis.warnings && analysis.warnings.length > 0 && (
+            <details className="mb-4 text-xs text-yellow-300 bg-yellow-500/10 border border-yellow-500/30 rounded-lg px-3 py-2">
+                <summary className="cursor-pointer font-semibold">
+                    {analysis.warnings.length} problem{analysis.warnings.length === 1 ? '' : 's'} found in the model response (repaired or dropped)
+                </summary>
+                <ul className="mt-2 space-y-1 list-disc list-inside text-yellow-200/80">
+                    {analysis.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                </ul>
+            </details>
+        )}
+
         {(isInstanceAnalysis) && (typeof analysis.pothole_count === 'number' || typeof analysis.pothole_density_sq_m === 'number') && (
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4 text-center">
                  {typeof analysis.pothole_count === 'number' && (
@@ -177,8 +367,27 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, anal
             </div>
         )}
 
-        <div id="analysis-image-container" className="relative w-full max-w-2xl mx-auto rounded-lg overflow-hidden border-2 border-slate-700">
-          <img src={imageUrl} alt="Road surface analysis" className="w-full h-auto" />
+        {isEditing && onSaveCorrections && (
+          <AnnotationEditor
+            imageUrl={imageUrl}
+            defects={analysis.defects}
+            location={analysis.location}
+            capturedAt={analysis.capturedAt}
+            onSave={async (defects) => {
+              await onSaveCorrections(defects);
+              setIsEditing(false);
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        )}
+
+        <div id="analysis-image-container" className={`relative w-full max-w-2xl mx-auto rounded-lg overflow-hidden border-2 border-slate-700 ${isEditing ? 'hidden' : ''}`}>
+          <img
+            src={imageUrl}
+            alt="Road surface analysis"
+            className="w-full h-auto"
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
           
           {(isFidelitySegmentation || isInstanceAnalysis) && (
             <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
@@ -239,7 +448,19 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, anal
             </svg>
           )}
 
-          {analysis.groundTruth && analysis.groundTruth.map((defect, index) => {
+          {showGroundTruth && analysis.groundTruth?.some(gt => gt.segmentationPolygon) && (
+            <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+              {analysis.groundTruth.map((defect, index) => defect.segmentationPolygon && (
+                <polygon
+                  key={`gt-poly-${index}`}
+                  points={defect.segmentationPolygon.map(p => `${p.x * 100},${p.y * 100}`).join(' ')}
+                  style={{ fill: 'rgba(74, 222, 128, 0.15)', stroke: 'rgb(74, 222, 128)', strokeWidth: 0.4, strokeDasharray: '1.5 1' }}
+                />
+              ))}
+            </svg>
+          )}
+
+          {showGroundTruth && analysis.groundTruth!.map((defect, index) => {
               const { x_min, y_min, x_max, y_max } = defect.boundingBox;
               const width = (x_max - x_min) * 100;
               const height = (y_max - y_min) * 100;
@@ -292,7 +513,7 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, anal
             );
           })}
 
-          {analysis.validationMetrics && !isInstanceAnalysis && (
+          {showGroundTruth && !isInstanceAnalysis && (
               <div className="absolute top-2 right-2 bg-slate-900/70 p-2 rounded-md text-xs text-slate-300 pointer-events-none">
                   <h4 className="font-bold mb-1">Legend</h4>
                   <div className="flex items-center gap-2">
@@ -312,7 +533,28 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, anal
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-4 pb-2 border-b-2 border-slate-700">
             <h3 className="text-2xl font-bold text-cyan-400">Analysis Details</h3>
             {analysis.defects.length > 0 && (
-                <div className="flex items-center gap-3">
+                <div className="flex flex-wrap items-center gap-3">
+                    <div className="inline-flex items-stretch rounded-lg shadow-md overflow-hidden">
+                        <select
+                            value={annotationFormat}
+                            onChange={(e) => setAnnotationFormat(e.target.value as AnnotationFormat)}
+                            aria-label="Annotation format"
+                            className="bg-slate-800 border border-slate-600 text-slate-200 text-sm px-2"
+                        >
+                            {(Object.keys(ANNOTATION_FORMAT_LABELS) as AnnotationFormat[]).map(format => (
+                                <option key={format} value={format}>{ANNOTATION_FORMAT_LABELS[format]}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleExportAnnotations}
+                            disabled={isExporting || !imageSize}
+                            title="Download the detections as an annotation file for relabeling"
+                            className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <DownloadIcon className="w-4 h-4" />
+                            Annotations
+                        </button>
+                    </div>
                     <button
                         onClick={handleExportCSV}
                         disabled={isExporting}
@@ -333,10 +575,19 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ imageUrl, anal
             )}
         </div>
         {analysis.defects.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {analysis.defects.map((defect, index) => (
-              <ResultCard key={index} defect={defect} />
-            ))}
+          <div className="space-y-6">
+            <RepairCostSummary
+              title="Repair Estimate"
+              defects={analysis.defects}
+              settings={costSettings}
+              onSettingsChange={handleCostSettingsChange}
+              onSettingsReset={() => setCostSettings(resetCostSettings())}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {analysis.defects.map((defect, index) => (
+                <ResultCard key={index} defect={defect} cost={estimateDefectCost(defect, costSettings)} currency={costSettings.currency} />
+              ))}
+            </div>
           </div>
         ) : (
           <div className="text-center py-10 px-6 bg-slate-800 rounded-lg">
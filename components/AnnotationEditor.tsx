@@ -0,0 +1,332 @@
+import React, { useRef, useState } from 'react';
+import type { BoundingBox, Defect, Location, Point } from '../types';
+import { DEFECT_COLORS, DEFECT_TYPES } from '../constants';
+
+interface AnnotationEditorProps {
+  imageUrl: string;
+  defects: Defect[];
+  // Copied onto defects the inspector draws, like the model's detections for this image.
+  location?: Location;
+  capturedAt?: string;
+  onSave: (defects: Defect[]) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+type DragState =
+  | { kind: 'move'; index: number; start: Point; original: Defect }
+  | { kind: 'corner'; index: number; corner: Corner; original: Defect }
+  | { kind: 'vertex'; index: number; vertex: number; original: Defect }
+  | { kind: 'draw'; start: Point; current: Point };
+
+const SEVERITIES: NonNullable<Defect['severity']>[] = ['Low', 'Medium', 'High'];
+const MIN_BOX_SIZE = 0.01;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const boundsOf = (points: Point[]): BoundingBox => ({
+  x_min: Math.min(...points.map(p => p.x)),
+  y_min: Math.min(...points.map(p => p.y)),
+  x_max: Math.max(...points.map(p => p.x)),
+  y_max: Math.max(...points.map(p => p.y)),
+});
+
+/**
+ * Moves a defect's box to `to`, stretching its polygon and crack path with it so the
+ * geometry stays aligned.
+ */
+const remapDefect = (defect: Defect, to: BoundingBox): Defect => {
+  const from = defect.boundingBox;
+  const scaleX = (to.x_max - to.x_min) / Math.max(from.x_max - from.x_min, 1e-6);
+  const scaleY = (to.y_max - to.y_min) / Math.max(from.y_max - from.y_min, 1e-6);
+  const mapPoint = (p: Point): Point => ({
+    x: clamp01(to.x_min + (p.x - from.x_min) * scaleX),
+    y: clamp01(to.y_min + (p.y - from.y_min) * scaleY),
+  });
+  return {
+    ...defect,
+    boundingBox: to,
+    segmentationPolygon: defect.segmentationPolygon?.map(mapPoint),
+    centerlinePath: defect.centerlinePath?.map(mapPoint),
+  };
+};
+
+const resizeBox = (box: BoundingBox, corner: Corner, p: Point): BoundingBox => {
+  const next = { ...box };
+  if (corner === 'nw' || corner === 'sw') next.x_min = Math.min(p.x, box.x_max - MIN_BOX_SIZE);
+  else next.x_max = Math.max(p.x, box.x_min + MIN_BOX_SIZE);
+  if (corner === 'nw' || corner === 'ne') next.y_min = Math.min(p.y, box.y_max - MIN_BOX_SIZE);
+  else next.y_max = Math.max(p.y, box.y_min + MIN_BOX_SIZE);
+  return next;
+};
+
+const strokeFor = (type: Defect['type']) => (DEFECT_COLORS[type] || DEFECT_COLORS['Distress']).hex;
+
+export const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ imageUrl, defects: initialDefects, location, capturedAt, onSave, onCancel }) => {
+  const [defects, setDefects] = useState<Defect[]>(initialDefects);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [isDrawMode, setIsDrawMode] = useState(false);
+  const [drawType, setDrawType] = useState<Defect['type']>('Pothole');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const isDirty = defects !== initialDefects;
+
+  const toPoint = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const updateDefect = (index: number, changes: Partial<Defect> | ((d: Defect) => Defect)) => {
+    setDefects(prev => prev.map((d, i) => (i === index ? (typeof changes === 'function' ? changes(d) : { ...d, ...changes }) : d)));
+  };
+
+  const deleteDefect = (index: number) => {
+    setDefects(prev => prev.filter((_, i) => i !== index));
+    setSelected(null);
+  };
+
+  const startDrag = (e: React.PointerEvent, state: DragState) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDrag(state);
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    if (!isDrawMode) {
+      setSelected(null);
+      return;
+    }
+    const p = toPoint(e);
+    startDrag(e, { kind: 'draw', start: p, current: p });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const p = toPoint(e);
+    if (drag.kind === 'draw') {
+      setDrag({ ...drag, current: p });
+    } else if (drag.kind === 'move') {
+      const box = drag.original.boundingBox;
+      // Keep the whole box inside the image while dragging.
+      const dx = Math.max(-box.x_min, Math.min(1 - box.x_max, p.x - drag.start.x));
+      const dy = Math.max(-box.y_min, Math.min(1 - box.y_max, p.y - drag.start.y));
+      updateDefect(drag.index, remapDefect(drag.original, { x_min: box.x_min + dx, y_min: box.y_min + dy, x_max: box.x_max + dx, y_max: box.y_max + dy }));
+    } else if (drag.kind === 'corner') {
+      updateDefect(drag.index, remapDefect(drag.original, resizeBox(drag.original.boundingBox, drag.corner, p)));
+    } else {
+      const polygon = drag.original.segmentationPolygon!.map((v, i) => (i === drag.vertex ? p : v));
+      updateDefect(drag.index, { segmentationPolygon: polygon, boundingBox: boundsOf(polygon) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (drag?.kind === 'draw') {
+      const box = boundsOf([drag.start, drag.current]);
+      if (box.x_max - box.x_min >= MIN_BOX_SIZE && box.y_max - box.y_min >= MIN_BOX_SIZE) {
+        const added: Defect = {
+          type: drawType,
+          boundingBox: box,
+          severity: 'Medium',
+          description: 'Added by inspector.',
+          location,
+          capturedAt,
+          humanVerified: true,
+        };
+        setDefects(prev => [...prev, added]);
+        setSelected(defects.length);
+      }
+    }
+    setDrag(null);
+  };
+
+  const removeVertex = (index: number, vertex: number) => {
+    const polygon = defects[index].segmentationPolygon;
+    if (!polygon || polygon.length <= 3) return;
+    const next = polygon.filter((_, i) => i !== vertex);
+    updateDefect(index, { segmentationPolygon: next, boundingBox: boundsOf(next) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      // Every detection that survives review is marked as checked by a person.
+      await onSave(defects.map(d => ({ ...d, humanVerified: true })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the corrections.");
+      setIsSaving(false);
+    }
+  };
+
+  const drawBox = drag?.kind === 'draw' ? boundsOf([drag.start, drag.current]) : null;
+  const selectedDefect = selected !== null ? defects[selected] : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 bg-slate-800/50 p-3 rounded-lg border border-slate-700 text-sm">
+        <button
+          onClick={() => setIsDrawMode(mode => !mode)}
+          className={`px-3 py-1.5 rounded-md font-semibold ${isDrawMode ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}
+        >
+          {isDrawMode ? 'Drawing: drag on the image' : 'Draw Missed Defect'}
+        </button>
+        <select value={drawType} onChange={(e) => setDrawType(e.target.value as Defect['type'])} aria-label="Type for new defects" className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-slate-200">
+          {DEFECT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <span className="text-xs text-slate-500">Drag a box to move it, its corners to resize, and polygon vertices to reshape. Double-click a vertex to remove it.</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="relative lg:col-span-2 rounded-lg overflow-hidden border-2 border-cyan-700 select-none">
+          <img src={imageUrl} alt="Road surface being annotated" className="w-full h-auto" draggable={false} />
+          <svg
+            ref={svgRef}
+            className={`absolute top-0 left-0 w-full h-full touch-none ${isDrawMode ? 'cursor-crosshair' : ''}`}
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            onPointerDown={handleBackgroundPointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {defects.map((defect, index) => {
+              const { x_min, y_min, x_max, y_max } = defect.boundingBox;
+              const stroke = strokeFor(defect.type);
+              const isSelected = index === selected;
+              return (
+                <g key={index}>
+                  {defect.segmentationPolygon && (
+                    <polygon
+                      points={defect.segmentationPolygon.map(p => `${p.x * 100},${p.y * 100}`).join(' ')}
+                      fill={stroke}
+                      fillOpacity={isSelected ? 0.35 : 0.2}
+                      stroke={stroke}
+                      strokeWidth={1.5}
+                      vectorEffect="non-scaling-stroke"
+                      pointerEvents="none"
+                    />
+                  )}
+                  <rect
+                    x={x_min * 100}
+                    y={y_min * 100}
+                    width={(x_max - x_min) * 100}
+                    height={(y_max - y_min) * 100}
+                    fill="transparent"
+                    stroke={stroke}
+                    strokeWidth={isSelected ? 2.5 : 1.5}
+                    strokeDasharray={isSelected ? undefined : '4 2'}
+                    vectorEffect="non-scaling-stroke"
+                    className={isDrawMode ? '' : 'cursor-move'}
+                    onPointerDown={(e) => {
+                      if (isDrawMode) return;
+                      setSelected(index);
+                      startDrag(e, { kind: 'move', index, start: toPoint(e), original: defect });
+                    }}
+                  />
+                  {isSelected && !isDrawMode && ([['nw', x_min, y_min], ['ne', x_max, y_min], ['sw', x_min, y_max], ['se', x_max, y_max]] as [Corner, number, number][]).map(([corner, x, y]) => (
+                    <rect
+                      key={corner}
+                      x={x * 100 - 1.2}
+                      y={y * 100 - 1.2}
+                      width={2.4}
+                      height={2.4}
+                      fill="white"
+                      stroke={stroke}
+                      strokeWidth={1}
+                      vectorEffect="non-scaling-stroke"
+                      className={corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}
+                      onPointerDown={(e) => startDrag(e, { kind: 'corner', index, corner, original: defect })}
+                    />
+                  ))}
+                  {isSelected && !isDrawMode && defect.segmentationPolygon?.map((p, vertex) => (
+                    <rect
+                      key={`v-${vertex}`}
+                      x={p.x * 100 - 0.8}
+                      y={p.y * 100 - 0.8}
+                      width={1.6}
+                      height={1.6}
+                      fill={stroke}
+                      stroke="white"
+                      strokeWidth={1}
+                      vectorEffect="non-scaling-stroke"
+                      className="cursor-pointer"
+                      onPointerDown={(e) => startDrag(e, { kind: 'vertex', index, vertex, original: defect })}
+                      onDoubleClick={() => removeVertex(index, vertex)}
+                    />
+                  ))}
+                </g>
+              );
+            })}
+            {drawBox && (
+              <rect
+                x={drawBox.x_min * 100}
+                y={drawBox.y_min * 100}
+                width={(drawBox.x_max - drawBox.x_min) * 100}
+                height={(drawBox.y_max - drawBox.y_min) * 100}
+                fill={strokeFor(drawType)}
+                fillOpacity={0.2}
+                stroke={strokeFor(drawType)}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+                pointerEvents="none"
+              />
+            )}
+          </svg>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-bold text-slate-200">Detections ({defects.length})</h4>
+          <ul className="max-h-96 overflow-y-auto space-y-2">
+            {defects.length === 0 && <li className="text-sm text-slate-500">No detections. Use "Draw Missed Defect" to add one.</li>}
+            {defects.map((defect, index) => (
+              <li
+                key={index}
+                onClick={() => setSelected(index)}
+                className={`p-2 rounded-lg border text-sm cursor-pointer ${index === selected ? 'border-cyan-500 bg-slate-800' : 'border-slate-700 bg-slate-800/50 hover:bg-slate-800'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-slate-200">#{index + 1}</span>
+                  {typeof defect.confidence === 'number' && <span className="text-xs text-slate-500">{(defect.confidence * 100).toFixed(0)}%</span>}
+                  {defect.humanVerified && <span className="text-xs text-green-400">Verified</span>}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); deleteDefect(index); }}
+                    className="ml-auto px-2 py-0.5 text-xs bg-red-800 hover:bg-red-700 text-red-100 rounded"
+                    aria-label={`Delete detection ${index + 1}`}
+                  >
+                    Delete
+                  </button>
+                </div>
+                {index === selected && selectedDefect && (
+                  <div className="mt-2 grid grid-cols-2 gap-2" onClick={(e) => e.stopPropagation()}>
+                    <select value={selectedDefect.type} onChange={(e) => updateDefect(index, { type: e.target.value as Defect['type'] })} aria-label="Defect type" className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200">
+                      {DEFECT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    <select value={selectedDefect.severity ?? ''} onChange={(e) => updateDefect(index, { severity: (e.target.value || undefined) as Defect['severity'] })} aria-label="Severity" className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200">
+                      <option value="">No severity</option>
+                      {SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                  </div>
+                )}
+                {index !== selected && <p className="mt-1 text-slate-400">{defect.type}{defect.severity ? ` · ${defect.severity}` : ''}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex flex-wrap justify-end gap-3">
+        <button onClick={onCancel} disabled={isSaving} className="px-6 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg disabled:opacity-50">
+          Cancel
+        </button>
+        <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 bg-green-600 hover:bg-green-500 text-white font-bold rounded-lg shadow-lg disabled:opacity-50">
+          {isSaving ? 'Saving...' : isDirty ? 'Save Corrections' : 'Mark as Verified'}
+        </button>
+      </div>
+    </div>
+  );
+};
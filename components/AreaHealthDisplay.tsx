@@ -1,12 +1,13 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import type { AreaHealthAssessment } from '../types';
-import { HeartPulseIcon, InfoIcon, LightbulbIcon, WrenchIcon } from './IconComponents';
+import { HeartPulseIcon, InfoIcon, LightbulbIcon, WrenchIcon, AreaIcon } from './IconComponents';
+import { calculatePci, DEFAULT_SAMPLE_AREA_SQ_M } from '../utils/pciCalculator';
 
 interface AreaHealthDisplayProps {
     assessment: AreaHealthAssessment;
 }
 
-const PCIGauge: React.FC<{ score: number }> = ({ score }) => {
+const PCIGauge: React.FC<{ score: number; caption?: string; ratingLabel?: string }> = ({ score, caption = 'PCI Score', ratingLabel }) => {
     const getPciInfo = (s: number) => {
         if (s > 85) return { label: 'Excellent', color: 'text-green-400', stroke: '#4ade80' };
         if (s > 70) return { label: 'Very Good', color: 'text-lime-400', stroke: '#a3e635' };
@@ -17,7 +18,8 @@ const PCIGauge: React.FC<{ score: number }> = ({ score }) => {
         return { label: 'Failed', color: 'text-rose-600', stroke: '#e11d48' };
     };
 
-    const { label, color, stroke } = getPciInfo(score);
+    const { label: defaultLabel, color, stroke } = getPciInfo(score);
+    const label = ratingLabel ?? defaultLabel;
     const circumference = 2 * Math.PI * 45; // r=45
     const arcLength = (score / 100) * circumference;
     const rotation = -90;
@@ -41,7 +43,7 @@ const PCIGauge: React.FC<{ score: number }> = ({ score }) => {
             </svg>
             <div className="absolute flex flex-col items-center">
                 <span className={`text-4xl font-bold ${color}`}>{score.toFixed(0)}</span>
-                <span className="text-sm font-semibold text-slate-300">PCI Score</span>
+                <span className="text-sm font-semibold text-slate-300">{caption}</span>
                 <span className={`text-xs font-bold ${color}`}>{label}</span>
             </div>
         </div>
@@ -61,6 +63,94 @@ const InfoSection: React.FC<{ icon: React.ReactNode; title: string; children: Re
 );
 
 
+const PciBreakdown: React.FC<{ assessment: AreaHealthAssessment }> = ({ assessment }) => {
+    const [sampleArea, setSampleArea] = useState<number>(DEFAULT_SAMPLE_AREA_SQ_M);
+    const pci = useMemo(() => calculatePci(assessment.defects, sampleArea), [assessment.defects, sampleArea]);
+    const difference = pci.pci - assessment.pciScore;
+
+    return (
+        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <AreaIcon className="w-5 h-5 text-cyan-400" />
+                    <h4 className="text-lg font-bold text-slate-200">ASTM D6433 PCI Calculation</h4>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                    Sample unit area
+                    <input
+                        type="number"
+                        min={1}
+                        step={5}
+                        value={sampleArea}
+                        onChange={(e) => setSampleArea(Math.max(1, Number(e.target.value) || DEFAULT_SAMPLE_AREA_SQ_M))}
+                        className="w-24 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                    />
+                    m²
+                </label>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <PCIGauge score={assessment.pciScore} caption="Model Estimate" />
+                </div>
+                <div>
+                    <PCIGauge score={pci.pci} caption="Calculated PCI" ratingLabel={pci.rating} />
+                </div>
+            </div>
+            <p className="text-center text-xs text-slate-400">
+                The calculated PCI is {Math.abs(difference).toFixed(0)} point{Math.abs(difference).toFixed(0) === '1' ? '' : 's'} {difference >= 0 ? 'higher' : 'lower'} than the model's estimate.
+                Max corrected deduct value: <span className="font-mono text-slate-300">{pci.maxCorrectedDeductValue.toFixed(1)}</span>,
+                allowable deducts (m): <span className="font-mono text-slate-300">{pci.allowableDeducts.toFixed(2)}</span>.
+            </p>
+
+            {pci.deducts.length > 0 ? (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-300">
+                        <thead className="text-xs text-cyan-300 uppercase bg-slate-900/70">
+                            <tr>
+                                <th className="px-3 py-2">Distress</th>
+                                <th className="px-3 py-2">Severity</th>
+                                <th className="px-3 py-2">Quantity</th>
+                                <th className="px-3 py-2">Density (%)</th>
+                                <th className="px-3 py-2">Deduct Value</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {pci.deducts.map(d => (
+                                <tr key={`${d.distress}-${d.severity}`} className="border-b border-slate-700">
+                                    <td className="px-3 py-2 font-semibold">{d.distress}</td>
+                                    <td className="px-3 py-2">{d.severity}{d.severityAssumed && <span className="text-xs text-yellow-400" title="Some defects had no severity and were rated Medium"> *</span>}</td>
+                                    <td className="px-3 py-2 font-mono">{d.unit === 'count' ? d.quantity : `${d.quantity.toFixed(2)} ${d.unit}`}</td>
+                                    <td className="px-3 py-2 font-mono">{d.density.toFixed(2)}</td>
+                                    <td className="px-3 py-2 font-mono">{d.deductValue.toFixed(1)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <p className="text-sm text-slate-400 text-center">No rateable distresses were detected in this sample unit.</p>
+            )}
+
+            {pci.iterations.length > 1 && (
+                <details className="text-xs text-slate-400">
+                    <summary className="cursor-pointer text-slate-300 font-semibold">CDV iterations</summary>
+                    <ul className="mt-2 space-y-1 font-mono">
+                        {pci.iterations.map((it, i) => (
+                            <li key={i}>q={it.q}: TDV {it.totalDeductValue.toFixed(1)} → CDV {it.correctedDeductValue.toFixed(1)} [{it.deductValues.map(v => v.toFixed(1)).join(', ')}]</li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+            {pci.unratedDefectCount > 0 && (
+                <p className="text-xs text-slate-500">
+                    {pci.unratedDefectCount} defect{pci.unratedDefectCount === 1 ? ' was' : 's were'} not rated: the type has no ASTM D6433 equivalent or no measured size.
+                </p>
+            )}
+        </div>
+    );
+};
+
 export const AreaHealthDisplay: React.FC<AreaHealthDisplayProps> = ({ assessment }) => {
     return (
         <div className="space-y-6">
@@ -81,6 +171,8 @@ export const AreaHealthDisplay: React.FC<AreaHealthDisplayProps> = ({ assessment
                     </InfoSection>
                 </div>
             </div>
+
+            <PciBreakdown assessment={assessment} />
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <InfoSection icon={<LightbulbIcon className="w-5 h-5 text-yellow-400" />} title="Potential Causes">
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import type { DetectionBackendId } from '../types';
+import { DETECTION_BACKENDS } from '../services/detectionService';
+import { getBackendSettings, saveBackendSettings } from '../services/backendSettings';
+import { clearAnalysisCache, getAnalysisCacheStats, type AnalysisCacheStats } from '../services/analysisCache';
+
+interface BackendSelectorProps {
+  backendId: DetectionBackendId;
+  onBackendChange: (backendId: DetectionBackendId) => void;
+  disabled: boolean;
+}
+
+export const BackendSelector: React.FC<BackendSelectorProps> = ({ backendId, onBackendChange, disabled }) => {
+  const [httpEndpoint, setHttpEndpoint] = useState(getBackendSettings().httpEndpoint);
+  const [httpApiKey, setHttpApiKey] = useState(getBackendSettings().httpApiKey || '');
+  const [cacheStats, setCacheStats] = useState<AnalysisCacheStats | null>(null);
+  const activeBackend = DETECTION_BACKENDS.find(b => b.id === backendId);
+
+  useEffect(() => {
+    getAnalysisCacheStats().then(setCacheStats).catch(err => console.warn("Could not read analysis cache stats:", err));
+  }, []);
+
+  const handleClearCache = async () => {
+    try {
+      await clearAnalysisCache();
+      setCacheStats({ entries: 0, sizeBytes: 0 });
+    } catch (err) {
+      console.error("Failed to clear the analysis cache:", err);
+    }
+  };
+
+  const handleBackendChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value as DetectionBackendId;
+    saveBackendSettings({ backendId: id });
+    onBackendChange(id);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <label htmlFor="detectionBackend" className="text-sm font-medium text-slate-300 sm:w-40 flex-shrink-0">Detection Backend</label>
+        <select
+          id="detectionBackend"
+          value={backendId}
+          onChange={handleBackendChange}
+          disabled={disabled}
+          className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg p-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+        >
+          {DETECTION_BACKENDS.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+        </select>
+      </div>
+      {activeBackend && <p className="text-xs text-slate-500">{activeBackend.description}</p>}
+      {activeBackend?.cacheVersion && cacheStats && (
+        <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+          <span>
+            Repeat analyses of the same image are served from the on-device cache
+            ({cacheStats.entries} result{cacheStats.entries === 1 ? '' : 's'}, {(cacheStats.sizeBytes / (1024 * 1024)).toFixed(1)} MB).
+          </span>
+          <button
+            onClick={handleClearCache}
+            disabled={disabled || cacheStats.entries === 0}
+            className="flex-shrink-0 px-2 py-1 font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md disabled:opacity-50"
+          >
+            Clear cache
+          </button>
+        </div>
+      )}
+      {backendId === 'http' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input
+            type="url"
+            value={httpEndpoint}
+            onChange={(e) => setHttpEndpoint(e.target.value)}
+            onBlur={() => saveBackendSettings({ httpEndpoint: httpEndpoint.trim() })}
+            placeholder="http://localhost:8000/analyze"
+            disabled={disabled}
+            className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg p-2 focus:ring-cyan-500 focus:border-cyan-500"
+          />
+          <input
+            type="password"
+            value={httpApiKey}
+            onChange={(e) => setHttpApiKey(e.target.value)}
+            onBlur={() => saveBackendSettings({ httpApiKey: httpApiKey.trim() || undefined })}
+            placeholder="Bearer token (optional)"
+            disabled={disabled}
+            className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg p-2 focus:ring-cyan-500 focus:border-cyan-500"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { AnalysisOptions, AnalysisResult, AreaHealthAssessment, BatchItem, Defect, ImageAnalysisType } from '../types';
+import { runBatchAnalysis, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY } from '../services/batchAnalysis';
+import { getImageAnalysisOptions } from '../services/detectionService';
+import { getCostSettings } from '../services/costSettings';
+import { exportToCSV, exportSessionToPDF } from '../utils/exportUtils';
+import { BackIcon, DownloadIcon, UploadIcon, LayersIcon, MapIcon } from './IconComponents';
+import { Spinner } from './Spinner';
+import { ErrorMessage } from './ErrorMessage';
+
+interface BatchAnalysisProps {
+    onClose: () => void;
+    // Called once per analyzed image; returns the defects as stored in the session (e.g. with location).
+    onImageAnalyzed: (file: File, result: AnalysisResult | AreaHealthAssessment) => Promise<Defect[]> | Defect[];
+    // When provided, an offline run queues the images for analysis on reconnect.
+    onQueueImage?: (file: File, options: AnalysisOptions) => Promise<void> | void;
+    onOpenGisDashboard: () => void;
+    isOnline: boolean;
+}
+
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const SUPPORTED_EXTENSIONS = /\.(jpe?g|png|webp)$/i;
+
+const isSupportedImage = (file: File) =>
+    SUPPORTED_IMAGE_TYPES.includes(file.type) || (!file.type && SUPPORTED_EXTENSIONS.test(file.name));
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+    pending: 'text-slate-400',
+    analyzing: 'text-cyan-300',
+    done: 'text-green-400',
+    failed: 'text-red-400',
+    queued: 'text-yellow-300',
+};
+
+export const BatchAnalysis: React.FC<BatchAnalysisProps> = ({ onClose, onImageAnalyzed, onQueueImage, onOpenGisDashboard, isOnline }) => {
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [analysisType, setAnalysisType] = useState<ImageAnalysisType>('standard');
+    const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+    const [status, setStatus] = useState<'idle' | 'running' | 'done'>('idle');
+    const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+    const [batchDefects, setBatchDefects] = useState<Defect[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [skippedCount, setSkippedCount] = useState(0);
+
+    const directoryInputRef = useRef<HTMLInputElement>(null);
+    const isCancelledRef = useRef(false);
+    const isMounted = useRef(true);
+
+    useEffect(() => {
+        // `webkitdirectory` is not part of React's input typings, so set it directly.
+        directoryInputRef.current?.setAttribute('webkitdirectory', '');
+        isMounted.current = true;
+        return () => {
+            isMounted.current = false;
+            isCancelledRef.current = true;
+        };
+    }, []);
+
+    const updateItem = (index: number, changes: Partial<BatchItem>) => {
+        if (!isMounted.current) return;
+        setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    };
+
+    const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const fileList = Array.from(e.target.files || []);
+        e.target.value = ''; // Allow picking the same folder again.
+        if (fileList.length === 0) return;
+
+        const images = fileList.filter(isSupportedImage);
+        const newItems: BatchItem[] = images
+            .map(file => ({
+                id: `${file.name}-${file.size}-${file.lastModified}`,
+                file,
+                path: file.webkitRelativePath || file.name,
+                status: 'pending' as const,
+                attempts: 0,
+            }));
+        setItems(prev => {
+            const existing = new Set(prev.map(item => item.id));
+            return [...prev, ...newItems.filter(item => !existing.has(item.id))].sort((a, b) => a.path.localeCompare(b.path));
+        });
+        setSkippedCount(count => count + fileList.length - images.length);
+        setError(images.length === 0 ? "No supported images (JPG, PNG, WEBP) were found in the selection." : null);
+        setStatus('idle');
+    };
+
+    const handleStart = async () => {
+        const pendingIndexes = items
+            .map((item, index) => ({ item, index }))
+            .filter(({ item }) => item.status === 'pending' || item.status === 'failed')
+            .map(({ index }) => index);
+        if (pendingIndexes.length === 0) return;
+
+        const options = getImageAnalysisOptions(analysisType);
+        isCancelledRef.current = false;
+        setStatus('running');
+        setError(null);
+
+        if (!isOnline) {
+            if (!onQueueImage) {
+                setError("You are offline. An internet connection is required for batch analysis.");
+                setStatus('idle');
+                return;
+            }
+            for (const index of pendingIndexes) {
+                if (isCancelledRef.current) break;
+                try {
+                    await onQueueImage(items[index].file, options);
+                    updateItem(index, { status: 'queued', error: undefined });
+                } catch (err) {
+                    updateItem(index, { status: 'failed', error: err instanceof Error ? err.message : "Could not queue image." });
+                }
+            }
+            if (isMounted.current) setStatus('done');
+            return;
+        }
+
+        const files = pendingIndexes.map(index => items[index].file);
+        await runBatchAnalysis(files, options, {
+            concurrency,
+            isCancelled: () => isCancelledRef.current,
+            onStart: i => {
+                const index = pendingIndexes[i];
+                setItems(prev => prev.map((item, j) => (j === index ? { ...item, status: 'analyzing', attempts: item.attempts + 1, error: undefined } : item)));
+            },
+            onSuccess: async (i, result) => {
+                const index = pendingIndexes[i];
+                const defects = await onImageAnalyzed(files[i], result);
+                if (!isMounted.current) return;
+                setBatchDefects(prev => [...prev, ...defects]);
+                updateItem(index, { status: 'done', defectCount: defects.length });
+            },
+            onFailure: (i, message) => updateItem(pendingIndexes[i], { status: 'failed', error: message }),
+            onCooldown: until => { if (isMounted.current) setCooldownUntil(until); },
+        });
+
+        if (!isMounted.current) return;
+        setCooldownUntil(null);
+        // Images that were still waiting when the run was cancelled go back to pending.
+        setItems(prev => prev.map(item => (item.status === 'analyzing' ? { ...item, status: 'pending' } : item)));
+        setStatus('done');
+    };
+
+    const handleCancel = () => {
+        isCancelledRef.current = true;
+    };
+
+    const handleClearList = () => {
+        setItems([]);
+        setBatchDefects([]);
+        setSkippedCount(0);
+        setError(null);
+        setStatus('idle');
+    };
+
+    const handleExportPDF = async () => {
+        setIsExporting(true);
+        try {
+            await exportSessionToPDF(batchDefects, undefined, getCostSettings());
+        } catch (e) {
+            console.error("Batch PDF export failed", e);
+            setError("Sorry, there was an error creating the PDF report.");
+        } finally {
+            if (isMounted.current) setIsExporting(false);
+        }
+    };
+
+    const counts = useMemo(() => {
+        const result = { pending: 0, analyzing: 0, done: 0, failed: 0, queued: 0 };
+        items.forEach(item => { result[item.status]++; });
+        return result;
+    }, [items]);
+
+    const finishedCount = counts.done + counts.failed + counts.queued;
+    const progressPercent = items.length > 0 ? (finishedCount / items.length) * 100 : 0;
+    const isRunning = status === 'running';
+    const hasWork = counts.pending + counts.failed > 0;
+
+    return (
+        <div className="p-6 md:p-8">
+            <h2 className="text-2xl md:text-3xl font-bold text-center text-amber-400 mb-2">Batch Image Analysis</h2>
+            <p className="text-center text-sm text-slate-400 mb-6">
+                Select many photos or a whole folder. Every image is analyzed and its defects are added to the current session.
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <label className={`relative flex items-center justify-center gap-2 h-12 px-4 bg-slate-700 text-slate-200 font-semibold rounded-lg shadow-md ${isRunning ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-600 cursor-pointer'}`}>
+                    <input type="file" multiple accept={SUPPORTED_IMAGE_TYPES.join(',')} onChange={handleFilesSelected} disabled={isRunning} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                    <UploadIcon className="w-5 h-5" /> Select Images
+                </label>
+                <label className={`relative flex items-center justify-center gap-2 h-12 px-4 bg-slate-700 text-slate-200 font-semibold rounded-lg shadow-md ${isRunning ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-600 cursor-pointer'}`}>
+                    <input ref={directoryInputRef} type="file" multiple onChange={handleFilesSelected} disabled={isRunning} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                    <LayersIcon className="w-5 h-5" /> Select Folder
+                </label>
+            </div>
+
+            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4 bg-slate-900/50 p-4 rounded-lg border border-slate-700">
+                <div>
+                    <label htmlFor="batchMode" className="block text-sm font-medium text-slate-300 mb-2">Analysis Mode</label>
+                    <select id="batchMode" value={analysisType} onChange={(e) => setAnalysisType(e.target.value as ImageAnalysisType)} disabled={isRunning} className="w-full bg-slate-700 border border-slate-600 text-slate-200 rounded-md px-3 py-2 text-sm">
+                        <option value="standard">Standard</option>
+                        <option value="detailed">Detailed</option>
+                        <option value="instance">Instance Segmentation</option>
+                        <option value="health">Area Health Assessment</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="batchConcurrency" className="block text-sm font-medium text-slate-300 mb-2">Parallel Requests</label>
+                    <input id="batchConcurrency" type="range" min="1" max={MAX_BATCH_CONCURRENCY} step="1" value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} disabled={isRunning} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer" />
+                    <p className="text-center text-xs text-slate-500 mt-1">{concurrency} at a time (lower this if you hit rate limits)</p>
+                </div>
+            </div>
+
+            {error && <div className="mt-4"><ErrorMessage message={error} /></div>}
+
+            {items.length > 0 && (
+                <div className="mt-6">
+                    <div className="flex flex-wrap justify-between items-center gap-2 text-sm text-slate-300 mb-2">
+                        <span>
+                            {items.length} image{items.length === 1 ? '' : 's'}: <span className="text-green-400">{counts.done} done</span>
+                            {counts.failed > 0 && <>, <span className="text-red-400">{counts.failed} failed</span></>}
+                            {counts.queued > 0 && <>, <span className="text-yellow-300">{counts.queued} queued</span></>}
+                            {skippedCount > 0 && <span className="text-slate-500"> ({skippedCount} unsupported file{skippedCount === 1 ? '' : 's'} skipped)</span>}
+                        </span>
+                        <span className="text-slate-400">{batchDefects.length} defects found</span>
+                    </div>
+                    <div className="w-full bg-slate-700 rounded-full h-3 overflow-hidden border border-slate-600">
+                        <div className="bg-amber-500 h-full rounded-full transition-all duration-300" style={{ width: `${progressPercent}%` }}></div>
+                    </div>
+                    {cooldownUntil && (
+                        <p className="mt-2 text-xs text-yellow-400 text-center">
+                            Rate limit reached. Pausing until {new Date(cooldownUntil).toLocaleTimeString()} before continuing.
+                        </p>
+                    )}
+                    {!isOnline && <p className="mt-2 text-xs text-yellow-400 text-center">You are offline. Images will be queued and analyzed when the connection returns.</p>}
+                    <ul className="mt-4 max-h-80 overflow-y-auto divide-y divide-slate-700 bg-slate-900/50 rounded-lg border border-slate-700">
+                        {items.map(item => (
+                            <li key={item.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                                <span className="truncate text-slate-300" title={item.path}>{item.path}</span>
+                                <span className={`flex items-center gap-2 shrink-0 font-semibold ${STATUS_STYLES[item.status]}`} title={item.error}>
+                                    {item.status === 'analyzing' && <Spinner size="sm" />}
+                                    {item.status === 'done' ? `${item.defectCount} defect${item.defectCount === 1 ? '' : 's'}` : item.status}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="mt-6 flex flex-col sm:flex-row flex-wrap justify-center gap-4">
+                <button onClick={onClose} disabled={isRunning} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-slate-600 hover:bg-slate-500 text-white font-bold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">
+                    <BackIcon className="w-5 h-5" /> Back
+                </button>
+                {isRunning ? (
+                    <button onClick={handleCancel} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-red-700 hover:bg-red-600 text-white font-bold rounded-lg shadow-lg">
+                        Cancel
+                    </button>
+                ) : (
+                    <>
+                        <button onClick={handleStart} disabled={!hasWork || (!isOnline && !onQueueImage)} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-amber-600 hover:bg-amber-500 text-white font-bold rounded-lg shadow-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                            {counts.failed > 0 && counts.pending === 0 ? 'Retry Failed' : isOnline ? 'Analyze All' : 'Queue All'}
+                        </button>
+                        {items.length > 0 && (
+                            <button onClick={handleClearList} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg">
+                                Clear List
+                            </button>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {status === 'done' && batchDefects.length > 0 && (
+                <div className="mt-6 bg-slate-800 p-4 rounded-lg border border-slate-700">
+                    <h3 className="text-lg font-bold text-slate-200 mb-3">Batch Results</h3>
+                    <div className="flex flex-col sm:flex-row justify-center gap-4">
+                        <button onClick={() => exportToCSV(batchDefects)} disabled={isExporting} className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md disabled:opacity-50">
+                            <DownloadIcon className="w-4 h-4" /> Export CSV
+                        </button>
+                        <button onClick={handleExportPDF} disabled={isExporting} className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-lg shadow-lg disabled:opacity-50">
+                            {isExporting ? <Spinner size="sm" /> : <DownloadIcon className="w-4 h-4" />}
+                            {isExporting ? 'Generating PDF...' : 'Export PDF'}
+                        </button>
+                        <button onClick={onOpenGisDashboard} className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-cyan-700 hover:bg-cyan-600 text-white font-bold rounded-lg shadow-lg">
+                            <MapIcon className="w-4 h-4" /> View in GIS Dashboard
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,312 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { AnalysisResult, BenchmarkItem, ImageAnalysisType } from '../types';
+import { runBatchAnalysis, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY } from '../services/batchAnalysis';
+import { getImageAnalysisOptions } from '../services/detectionService';
+import { getAnnotationSettings } from '../services/annotationSettings';
+import { parseGroundTruth } from '../utils/annotationParsers';
+import { evaluateBenchmark, type BenchmarkSample } from '../utils/benchmarkUtils';
+import { getImageDimensions } from '../utils/fileUtils';
+import { exportBenchmarkToCSV } from '../utils/exportUtils';
+import { BackIcon, BenchmarkIcon, DownloadIcon, LayersIcon } from './IconComponents';
+import { Spinner } from './Spinner';
+import { ErrorMessage } from './ErrorMessage';
+
+interface BenchmarkRunnerProps {
+    onClose: () => void;
+    isOnline: boolean;
+}
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp)$/i;
+const ANNOTATION_EXTENSIONS = /\.(xml|txt|json)$/i;
+
+const stem = (path: string) => path.split(/[\\/]/).pop()!.replace(/\.[^.]+$/, '').toLowerCase();
+const pathOf = (file: File) => file.webkitRelativePath || file.name;
+
+const STATUS_STYLES: Record<BenchmarkItem['status'], string> = {
+    pending: 'text-slate-400',
+    analyzing: 'text-cyan-300',
+    done: 'text-green-400',
+    failed: 'text-red-400',
+    queued: 'text-yellow-300',
+};
+
+/**
+ * Pairs each image with its annotation: a per-image VOC .xml or YOLO .txt with the same
+ * base name, otherwise a COCO .json from the selection (which covers many images).
+ */
+const pairFiles = (files: File[]): { items: BenchmarkItem[]; unannotated: number } => {
+    const images = files.filter(f => IMAGE_EXTENSIONS.test(f.name));
+    const annotations = files.filter(f => ANNOTATION_EXTENSIONS.test(f.name) && !/^classes\.txt$/i.test(f.name));
+    const perImage = new Map(annotations.filter(f => !/\.json$/i.test(f.name)).map(f => [stem(f.name), f]));
+    const cocoFile = annotations.find(f => /\.json$/i.test(f.name)) || null;
+
+    const items: BenchmarkItem[] = [];
+    let unannotated = 0;
+    images.forEach(image => {
+        const annotation = perImage.get(stem(image.name)) || cocoFile;
+        if (!annotation) {
+            unannotated++;
+            return;
+        }
+        items.push({ id: `${pathOf(image)}-${image.size}`, image, annotation, path: pathOf(image), status: 'pending' });
+    });
+    return { items: items.sort((a, b) => a.path.localeCompare(b.path)), unannotated };
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const BenchmarkRunner: React.FC<BenchmarkRunnerProps> = ({ onClose, isOnline }) => {
+    const [items, setItems] = useState<BenchmarkItem[]>([]);
+    const [unannotatedCount, setUnannotatedCount] = useState(0);
+    const [yoloClassNames, setYoloClassNames] = useState<string[] | null>(null);
+    const [analysisType, setAnalysisType] = useState<ImageAnalysisType>('standard');
+    const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+    const [status, setStatus] = useState<'idle' | 'running' | 'done'>('idle');
+    const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+    const [samples, setSamples] = useState<Record<string, BenchmarkSample>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    const directoryInputRef = useRef<HTMLInputElement>(null);
+    const isCancelledRef = useRef(false);
+    const isMounted = useRef(true);
+
+    useEffect(() => {
+        // `webkitdirectory` is not part of React's input typings, so set it directly.
+        directoryInputRef.current?.setAttribute('webkitdirectory', '');
+        isMounted.current = true;
+        return () => {
+            isMounted.current = false;
+            isCancelledRef.current = true;
+        };
+    }, []);
+
+    const updateItem = (id: string, changes: Partial<BenchmarkItem>) => {
+        if (!isMounted.current) return;
+        setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    };
+
+    const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        const { items: paired, unannotated } = pairFiles(files);
+        // A classes.txt next to YOLO labels lists class names in index order.
+        const classesFile = files.find(f => /^classes\.txt$/i.test(f.name));
+        setYoloClassNames(classesFile ? (await classesFile.text()).split(/\r?\n/).map(l => l.trim()).filter(Boolean) : null);
+        setItems(paired);
+        setUnannotatedCount(unannotated);
+        setSamples({});
+        setStatus('idle');
+        setError(paired.length === 0 ? "No images with matching annotation files (.xml, .txt or a COCO .json) were found." : null);
+    };
+
+    const handleStart = async () => {
+        const toRun = items.filter(item => item.status === 'pending' || item.status === 'failed');
+        if (toRun.length === 0) return;
+        if (!isOnline) {
+            setError("You are offline. An internet connection is required to run a benchmark.");
+            return;
+        }
+
+        const settings = getAnnotationSettings();
+        const annotationSettings = yoloClassNames ? { ...settings, yoloClassNames } : settings;
+        isCancelledRef.current = false;
+        setStatus('running');
+        setError(null);
+
+        await runBatchAnalysis(toRun.map(item => item.image), getImageAnalysisOptions(analysisType), {
+            concurrency,
+            isCancelled: () => isCancelledRef.current,
+            onStart: i => updateItem(toRun[i].id, { status: 'analyzing', error: undefined }),
+            onSuccess: async (i, result) => {
+                const item = toRun[i];
+                try {
+                    const { width, height } = await getImageDimensions(item.image);
+                    const { defects: groundTruth } = parseGroundTruth({
+                        fileName: item.annotation!.name,
+                        content: await item.annotation!.text(),
+                        imageFileName: item.image.name,
+                        imageWidth: width,
+                        imageHeight: height,
+                    }, annotationSettings);
+                    const predictions = (result as AnalysisResult).defects || [];
+                    if (!isMounted.current) return;
+                    setSamples(prev => ({ ...prev, [item.id]: { predictions, groundTruth } }));
+                    updateItem(item.id, { status: 'done', predictionCount: predictions.length, groundTruthCount: groundTruth.length });
+                } catch (err) {
+                    updateItem(item.id, { status: 'failed', error: err instanceof Error ? `Annotation error: ${err.message}` : "Could not read the annotation." });
+                }
+            },
+            onFailure: (i, message) => updateItem(toRun[i].id, { status: 'failed', error: message }),
+            onCooldown: until => { if (isMounted.current) setCooldownUntil(until); },
+        });
+
+        if (!isMounted.current) return;
+        setCooldownUntil(null);
+        setItems(prev => prev.map(item => (item.status === 'analyzing' ? { ...item, status: 'pending' } : item)));
+        setStatus('done');
+    };
+
+    const report = useMemo(() => {
+        const collected = Object.values(samples);
+        return collected.length > 0 ? evaluateBenchmark(collected) : null;
+    }, [samples]);
+
+    const counts = useMemo(() => {
+        const result = { pending: 0, analyzing: 0, done: 0, failed: 0, queued: 0 };
+        items.forEach(item => { result[item.status]++; });
+        return result;
+    }, [items]);
+
+    const isRunning = status === 'running';
+    const progressPercent = items.length > 0 ? ((counts.done + counts.failed) / items.length) * 100 : 0;
+
+    return (
+        <div className="p-6 md:p-8">
+            <h2 className="text-2xl md:text-3xl font-bold text-center text-teal-400 mb-2">Dataset Benchmark</h2>
+            <p className="text-center text-sm text-slate-400 mb-6">
+                Select a folder of images with PASCAL VOC, YOLO or COCO annotations. Every image is analyzed and the results are scored against the ground truth.
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <label className={`relative flex items-center justify-center gap-2 h-12 px-4 bg-slate-700 text-slate-200 font-semibold rounded-lg shadow-md ${isRunning ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-600 cursor-pointer'}`}>
+                    <input ref={directoryInputRef} type="file" multiple onChange={handleFilesSelected} disabled={isRunning} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                    <LayersIcon className="w-5 h-5" /> Select Dataset Folder
+                </label>
+                <label className={`relative flex items-center justify-center gap-2 h-12 px-4 bg-slate-700 text-slate-200 font-semibold rounded-lg shadow-md ${isRunning ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-600 cursor-pointer'}`}>
+                    <input type="file" multiple accept="image/*,.xml,.txt,.json" onChange={handleFilesSelected} disabled={isRunning} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                    <BenchmarkIcon className="w-5 h-5" /> Select Images + Annotations
+                </label>
+            </div>
+
+            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4 bg-slate-900/50 p-4 rounded-lg border border-slate-700">
+                <div>
+                    <label htmlFor="benchmarkMode" className="block text-sm font-medium text-slate-300 mb-2">Analysis Mode</label>
+                    <select id="benchmarkMode" value={analysisType} onChange={(e) => setAnalysisType(e.target.value as ImageAnalysisType)} disabled={isRunning} className="w-full bg-slate-700 border border-slate-600 text-slate-200 rounded-md px-3 py-2 text-sm">
+                        <option value="standard">Standard</option>
+                        <option value="detailed">Detailed</option>
+                        <option value="instance">Instance Segmentation</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="benchmarkConcurrency" className="block text-sm font-medium text-slate-300 mb-2">Parallel Requests</label>
+                    <input id="benchmarkConcurrency" type="range" min="1" max={MAX_BATCH_CONCURRENCY} step="1" value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} disabled={isRunning} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer" />
+                    <p className="text-center text-xs text-slate-500 mt-1">{concurrency} at a time</p>
+                </div>
+            </div>
+
+            {error && <div className="mt-4"><ErrorMessage message={error} /></div>}
+
+            {items.length > 0 && (
+                <div className="mt-6">
+                    <div className="flex flex-wrap justify-between items-center gap-2 text-sm text-slate-300 mb-2">
+                        <span>
+                            {items.length} annotated image{items.length === 1 ? '' : 's'}: <span className="text-green-400">{counts.done} scored</span>
+                            {counts.failed > 0 && <>, <span className="text-red-400">{counts.failed} failed</span></>}
+                            {unannotatedCount > 0 && <span className="text-slate-500"> ({unannotatedCount} without annotations skipped)</span>}
+                        </span>
+                        {yoloClassNames && <span className="text-xs text-slate-500">Using classes.txt ({yoloClassNames.length} classes)</span>}
+                    </div>
+                    <div className="w-full bg-slate-700 rounded-full h-3 overflow-hidden border border-slate-600">
+                        <div className="bg-teal-500 h-full rounded-full transition-all duration-300" style={{ width: `${progressPercent}%` }}></div>
+                    </div>
+                    {cooldownUntil && (
+                        <p className="mt-2 text-xs text-yellow-400 text-center">
+                            Rate limit reached. Pausing until {new Date(cooldownUntil).toLocaleTimeString()} before continuing.
+                        </p>
+                    )}
+                    <ul className="mt-4 max-h-64 overflow-y-auto divide-y divide-slate-700 bg-slate-900/50 rounded-lg border border-slate-700">
+                        {items.map(item => (
+                            <li key={item.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                                <span className="truncate text-slate-300" title={`${item.path} ← ${item.annotation?.name}`}>{item.path}</span>
+                                <span className={`flex items-center gap-2 shrink-0 font-semibold ${STATUS_STYLES[item.status]}`} title={item.error}>
+                                    {item.status === 'analyzing' && <Spinner size="sm" />}
+                                    {item.status === 'done' ? `${item.predictionCount} pred / ${item.groundTruthCount} GT` : item.status}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="mt-6 flex flex-col sm:flex-row flex-wrap justify-center gap-4">
+                <button onClick={onClose} disabled={isRunning} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-slate-600 hover:bg-slate-500 text-white font-bold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">
+                    <BackIcon className="w-5 h-5" /> Back
+                </button>
+                {isRunning ? (
+                    <button onClick={() => { isCancelledRef.current = true; }} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-red-700 hover:bg-red-600 text-white font-bold rounded-lg shadow-lg">
+                        Cancel
+                    </button>
+                ) : (
+                    <button onClick={handleStart} disabled={counts.pending + counts.failed === 0 || !isOnline} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-teal-600 hover:bg-teal-500 text-white font-bold rounded-lg shadow-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                        <BenchmarkIcon className="w-5 h-5" />
+                        {counts.failed > 0 && counts.pending === 0 ? 'Retry Failed' : 'Run Benchmark'}
+                    </button>
+                )}
+            </div>
+
+            {report && (
+                <div className="mt-6 bg-slate-800 p-4 rounded-lg border border-slate-700">
+                    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                        <h3 className="text-lg font-bold text-slate-200">Results over {report.imageCount} image{report.imageCount === 1 ? '' : 's'}</h3>
+                        <button onClick={() => exportBenchmarkToCSV(report, analysisType)} className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg">
+                            <DownloadIcon className="w-4 h-4" /> Export CSV
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center mb-4">
+                        {[
+                            { label: 'mAP@0.5', value: percent(report.map50) },
+                            { label: 'mAP@[.5:.95]', value: percent(report.map5095) },
+                            { label: 'Precision', value: percent(report.precision) },
+                            { label: 'Recall', value: percent(report.recall) },
+                            { label: 'F1 Score', value: percent(report.f1Score) },
+                        ].map(stat => (
+                            <div key={stat.label} className="bg-slate-900/50 p-3 rounded-lg">
+                                <p className="text-xs text-slate-400">{stat.label}</p>
+                                <p className="text-xl font-bold text-teal-300">{stat.value}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left text-slate-300">
+                            <thead className="text-xs text-teal-300 uppercase bg-slate-900/70">
+                                <tr>
+                                    <th className="px-3 py-2">Class</th>
+                                    <th className="px-3 py-2 text-center">GT</th>
+                                    <th className="px-3 py-2 text-center">TP</th>
+                                    <th className="px-3 py-2 text-center">FP</th>
+                                    <th className="px-3 py-2 text-center">FN</th>
+                                    <th className="px-3 py-2 text-center">Precision</th>
+                                    <th className="px-3 py-2 text-center">Recall</th>
+                                    <th className="px-3 py-2 text-center">F1</th>
+                                    <th className="px-3 py-2 text-center">AP@0.5</th>
+                                    <th className="px-3 py-2 text-center">AP@[.5:.95]</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {Object.entries(report.perClassMetrics).map(([className, m]) => (
+                                    <tr key={className} className="border-b border-slate-700">
+                                        <td className="px-3 py-2 font-semibold">{className}</td>
+                                        <td className="px-3 py-2 text-center">{m.totalGroundTruth}</td>
+                                        <td className="px-3 py-2 text-center text-green-400">{m.tp}</td>
+                                        <td className="px-3 py-2 text-center text-yellow-400">{m.fp}</td>
+                                        <td className="px-3 py-2 text-center text-red-400">{m.fn}</td>
+                                        <td className="px-3 py-2 text-center">{percent(m.precision)}</td>
+                                        <td className="px-3 py-2 text-center">{percent(m.recall)}</td>
+                                        <td className="px-3 py-2 text-center">{percent(m.f1Score)}</td>
+                                        <td className="px-3 py-2 text-center">{m.totalGroundTruth > 0 ? percent(m.ap50) : '–'}</td>
+                                        <td className="px-3 py-2 text-center">{m.totalGroundTruth > 0 ? percent(m.ap5095) : '–'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="mt-3 text-xs text-slate-500">
+                        Precision, recall and F1 use IoU ≥ 0.5. AP ranks detections by the model's confidence; classes without ground truth are excluded from mAP.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ChangeReport, ChangeStatus, Defect, InspectionSession } from '../types';
+import { TrendingDownIcon } from './IconComponents';
+import { Spinner } from './Spinner';
+import { GisMap } from './GisMap';
+import { listSessions, loadSessionDefects } from '../services/sessionStore';
+import { compareRuns, DEFAULT_CHANGE_MATCH_RADIUS_M } from '../utils/changeDetection';
+import { parseResultFile } from '../utils/resultFileParser';
+import { clusterDefects } from '../utils/spatialClustering';
+import { defectArea } from '../utils/roadSegments';
+
+const STATUS_STYLES: Record<ChangeStatus, { label: string; hex: string; badge: string }> = {
+    new: { label: 'New', hex: '#ef4444', badge: 'bg-red-500/20 text-red-300' },
+    grown: { label: 'Grown', hex: '#f97316', badge: 'bg-orange-500/20 text-orange-300' },
+    unchanged: { label: 'Unchanged', hex: '#94a3b8', badge: 'bg-slate-500/20 text-slate-300' },
+    repaired: { label: 'Repaired', hex: '#22c55e', badge: 'bg-green-500/20 text-green-300' },
+};
+
+const STATUS_ORDER: ChangeStatus[] = ['new', 'grown', 'unchanged', 'repaired'];
+
+// 'dashboard' is the run shown in the GIS dashboard, 'file' a loaded export, anything else a session id.
+type RunChoice = 'dashboard' | 'file' | string;
+
+interface LoadedFile {
+    name: string;
+    defects: Defect[];
+    date: string;
+}
+
+interface RunPickerProps {
+    label: string;
+    value: RunChoice;
+    onChange: (value: RunChoice) => void;
+    sessions: InspectionSession[];
+    allowDashboard: boolean;
+    file: LoadedFile | null;
+    onFile: (file: LoadedFile | null) => void;
+    onError: (message: string) => void;
+}
+
+const RunPicker: React.FC<RunPickerProps> = ({ label, value, onChange, sessions, allowDashboard, file, onFile, onError }) => {
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = event.target.files?.[0];
+        event.target.value = '';
+        if (!selected) return;
+        try {
+            onFile({ name: selected.name, defects: parseResultFile(await selected.text()), date: new Date(selected.lastModified).toISOString() });
+        } catch (err) {
+            console.error("Failed to load results file:", err);
+            onFile(null);
+            onError(err instanceof Error ? err.message : "Failed to load the results file.");
+        }
+    };
+
+    return (
+        <div className="flex-1 space-y-2">
+            <label className="block text-sm font-semibold text-slate-400">
+                {label}
+                <select
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="mt-1 block w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200 font-normal"
+                >
+                    {allowDashboard && <option value="dashboard">Defects shown in this dashboard</option>}
+                    {sessions.map(session => (
+                        <option key={session.id} value={session.id}>
+                            {session.name} ({session.defectCount} defects, {new Date(session.createdAt).toLocaleDateString()})
+                        </option>
+                    ))}
+                    <option value="file">Results file (GeoJSON / JSON)…</option>
+                </select>
+            </label>
+            {value === 'file' && (
+                <label className="inline-block px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-md cursor-pointer">
+                    {file ? `${file.name} (${file.defects.length} defects)` : 'Choose file'}
+                    <input type="file" accept=".geojson,.json,application/geo+json,application/json" onChange={handleFile} className="hidden" />
+                </label>
+            )}
+        </div>
+    );
+};
+
+const formatSeverity = (defect?: Defect) => defect?.severity ?? '—';
+
+const formatArea = (defect?: Defect) => {
+    const area = defect ? defectArea(defect) : 0;
+    return area > 0 ? area.toFixed(2) : '—';
+};
+
+const formatAreaChange = (areaSqM: number) => {
+    const text = Math.abs(areaSqM).toFixed(2);
+    if (Number(text) === 0) return text;
+    return `${areaSqM > 0 ? '+' : '−'}${text}`;
+};
+
+interface ChangeDetectionPanelProps {
+    // The raw defects of the dashboard's session; both runs are merged the same way before matching.
+    currentDefects: Defect[];
+    mergeRadius: number;
+}
+
+export const ChangeDetectionPanel: React.FC<ChangeDetectionPanelProps> = ({ currentDefects, mergeRadius }) => {
+    const [sessions, setSessions] = useState<InspectionSession[]>([]);
+    const [baselineChoice, setBaselineChoice] = useState<RunChoice>('file');
+    const [currentChoice, setCurrentChoice] = useState<RunChoice>('dashboard');
+    const [baselineFile, setBaselineFile] = useState<LoadedFile | null>(null);
+    const [currentFile, setCurrentFile] = useState<LoadedFile | null>(null);
+    const [matchRadius, setMatchRadius] = useState<number>(DEFAULT_CHANGE_MATCH_RADIUS_M);
+    const [report, setReport] = useState<ChangeReport | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        listSessions()
+            .then(list => {
+                setSessions(list);
+                // Default the baseline to the second most recent run, usually last month's drive.
+                if (list.length > 1) setBaselineChoice(list[1].id);
+            })
+            .catch(err => console.error("Failed to list sessions for comparison:", err));
+    }, []);
+
+    const loadRun = async (choice: RunChoice, file: LoadedFile | null): Promise<{ defects: Defect[]; date?: string }> => {
+        if (choice === 'dashboard') return { defects: currentDefects };
+        if (choice === 'file') {
+            if (!file) throw new Error("Please choose a results file for both runs.");
+            return { defects: file.defects, date: file.date };
+        }
+        const session = sessions.find(s => s.id === choice);
+        return { defects: await loadSessionDefects(choice), date: session?.createdAt };
+    };
+
+    const handleCompare = async () => {
+        setIsComparing(true);
+        setError(null);
+        try {
+            const [baseline, current] = await Promise.all([loadRun(baselineChoice, baselineFile), loadRun(currentChoice, currentFile)]);
+            setReport(compareRuns(clusterDefects(baseline.defects, mergeRadius), clusterDefects(current.defects, mergeRadius), {
+                matchRadiusM: matchRadius,
+                baselineDate: baseline.date,
+                currentDate: current.date,
+            }));
+        } catch (err) {
+            console.error("Run comparison failed:", err);
+            setError(err instanceof Error ? err.message : "Failed to compare the inspection runs.");
+        } finally {
+            setIsComparing(false);
+        }
+    };
+
+    const mapDefects = useMemo(() => report?.changes.map(change => change.current ?? change.baseline!) ?? [], [report]);
+    const statusByDefect = useMemo(
+        () => new Map(report?.changes.map(change => [change.current ?? change.baseline!, change.status]) ?? []),
+        [report]
+    );
+    const colorFor = useCallback((defect: Defect) => STATUS_STYLES[statusByDefect.get(defect) ?? 'unchanged'].hex, [statusByDefect]);
+    const titleFor = useCallback((defect: Defect) => `${STATUS_STYLES[statusByDefect.get(defect) ?? 'unchanged'].label}: ${defect.type}`, [statusByDefect]);
+
+    const sortedChanges = useMemo(
+        () => [...(report?.changes ?? [])].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.type.localeCompare(b.type)),
+        [report]
+    );
+
+    return (
+        <div>
+            <h3 className="text-xl font-bold text-slate-200 mb-3 flex items-center gap-2"><TrendingDownIcon className="w-6 h-6 text-cyan-400" /> Compare Inspection Runs</h3>
+            <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-4">
+                <div className="flex flex-col md:flex-row gap-4">
+                    <RunPicker label="Baseline (earlier run)" value={baselineChoice} onChange={setBaselineChoice} sessions={sessions} allowDashboard={false} file={baselineFile} onFile={setBaselineFile} onError={setError} />
+                    <RunPicker label="Current (later run)" value={currentChoice} onChange={setCurrentChoice} sessions={sessions} allowDashboard file={currentFile} onFile={setCurrentFile} onError={setError} />
+                </div>
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                        Match radius
+                        <input
+                            type="number"
+                            min={1}
+                            max={50}
+                            step={1}
+                            value={matchRadius}
+                            onChange={(e) => setMatchRadius(Math.min(50, Math.max(1, Number(e.target.value) || DEFAULT_CHANGE_MATCH_RADIUS_M)))}
+                            className="w-20 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                        />
+                        m
+                    </label>
+                    <button onClick={handleCompare} disabled={isComparing} className="inline-flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-lg shadow-md disabled:opacity-50">
+                        {isComparing && <Spinner size="sm" />} Compare Runs
+                    </button>
+                </div>
+                {error && <p className="text-sm text-red-400">{error}</p>}
+            </div>
+
+            {report && (
+                <div className="mt-4 space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {STATUS_ORDER.map(status => (
+                            <div key={status} className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+                                <p className="text-sm font-semibold text-slate-400">{STATUS_STYLES[status].label}</p>
+                                <p className="text-3xl font-bold" style={{ color: STATUS_STYLES[status].hex }}>{report.counts[status]}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 text-sm text-slate-300 space-y-1">
+                        <p className="font-semibold text-slate-200">Deterioration</p>
+                        {report.intervalDays !== undefined ? (
+                            <p>
+                                {Math.round(report.intervalDays)} days between runs
+                                {report.baselineDate && report.currentDate && ` (${new Date(report.baselineDate).toLocaleDateString()} → ${new Date(report.currentDate).toLocaleDateString()})`}.
+                                {report.intervalDays <= 0 && <span className="text-yellow-400"> The baseline is not older than the current run; swap them for meaningful rates.</span>}
+                            </p>
+                        ) : (
+                            <p className="text-slate-400">Capture dates are unknown for one of the runs, so monthly rates cannot be computed.</p>
+                        )}
+                        {report.newPerMonth !== undefined && <p>New defects: <span className="font-bold text-red-300">{report.newPerMonth.toFixed(1)} per month</span></p>}
+                        {report.areaGrowthSqMPerMonth !== undefined && <p>Damaged area growth: <span className="font-bold text-orange-300">{report.areaGrowthSqMPerMonth.toFixed(2)} m² per month</span></p>}
+                        <p>Net change in damaged area: <span className="font-bold">{formatAreaChange(report.netAreaChangeSqM)} m²</span></p>
+                        {report.unlocatedCount > 0 && (
+                            <p className="text-yellow-400">{report.unlocatedCount} defect{report.unlocatedCount === 1 ? ' has' : 's have'} no GPS location and {report.unlocatedCount === 1 ? 'was' : 'were'} not compared.</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <div className="flex flex-wrap gap-4 text-xs text-slate-300 mb-2">
+                            {STATUS_ORDER.map(status => (
+                                <span key={status} className="flex items-center gap-1.5">
+                                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: STATUS_STYLES[status].hex }}></span>
+                                    {STATUS_STYLES[status].label}
+                                </span>
+                            ))}
+                        </div>
+                        <GisMap defects={mapDefects} colorFor={colorFor} titleFor={titleFor} />
+                    </div>
+
+                    <div className="max-h-96 overflow-y-auto bg-slate-800/50 rounded-lg border border-slate-700">
+                        <table className="w-full text-sm text-left text-slate-300">
+                            <thead className="text-xs text-cyan-300 uppercase bg-slate-900/70 sticky top-0">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3">Status</th>
+                                    <th scope="col" className="px-4 py-3">Type</th>
+                                    <th scope="col" className="px-4 py-3">Location (Lat, Lng)</th>
+                                    <th scope="col" className="px-4 py-3">Area (m²)</th>
+                                    <th scope="col" className="px-4 py-3">Severity</th>
+                                    <th scope="col" className="px-4 py-3">Offset (m)</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sortedChanges.length === 0 && (
+                                    <tr><td colSpan={6} className="px-4 py-3 text-center text-slate-500">Neither run has located defects to compare.</td></tr>
+                                )}
+                                {sortedChanges.map((change, index) => {
+                                    const location = (change.current ?? change.baseline)!.location!;
+                                    return (
+                                        <tr key={index} className="border-b border-slate-700">
+                                            <td className="px-4 py-2"><span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[change.status].badge}`}>{STATUS_STYLES[change.status].label}</span></td>
+                                            <td className="px-4 py-2 font-semibold">{change.type}</td>
+                                            <td className="px-4 py-2">{location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}</td>
+                                            <td className="px-4 py-2">{formatArea(change.baseline)} → {formatArea(change.current)}</td>
+                                            <td className="px-4 py-2">{formatSeverity(change.baseline)} → {formatSeverity(change.current)}</td>
+                                            <td className="px-4 py-2">{change.distanceM !== undefined ? change.distanceM.toFixed(1) : '—'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
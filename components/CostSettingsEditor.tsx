@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import type { CostSettings } from '../types';
+
+interface CostSettingsEditorProps {
+    settings: CostSettings;
+    onChange: (settings: Partial<CostSettings>) => void;
+    onReset: () => void;
+}
+
+type NumericSetting = { [K in keyof CostSettings]: CostSettings[K] extends number ? K : never }[keyof CostSettings];
+
+const RATE_FIELDS: { key: NumericSetting; label: string; unit: string; step: number }[] = [
+    { key: 'coldMixPerTonne', label: 'Cold mix', unit: 'per t', step: 1 },
+    { key: 'hotMixPerTonne', label: 'Hot mix asphalt', unit: 'per t', step: 1 },
+    { key: 'crackSealantPerMetre', label: 'Crack sealant', unit: 'per m', step: 0.1 },
+    { key: 'labourPerHour', label: 'Labour', unit: 'per hour', step: 1 },
+];
+
+const QUANTITY_FIELDS: { key: NumericSetting; label: string; unit: string; step: number }[] = [
+    { key: 'coldMixDensity', label: 'Cold mix density', unit: 't/m³', step: 0.05 },
+    { key: 'hotMixDensity', label: 'Hot mix density', unit: 't/m³', step: 0.05 },
+    { key: 'defaultPatchDepthM', label: 'Default patch depth', unit: 'm', step: 0.01 },
+    { key: 'patchHoursPerSqM', label: 'Patching labour', unit: 'h/m²', step: 0.05 },
+    { key: 'crackSealHoursPerMetre', label: 'Sealing labour', unit: 'h/m', step: 0.005 },
+];
+
+export const CostSettingsEditor: React.FC<CostSettingsEditorProps> = ({ settings, onChange, onReset }) => {
+    const [currencyText, setCurrencyText] = useState(settings.currency);
+
+    useEffect(() => {
+        setCurrencyText(settings.currency);
+    }, [settings.currency]);
+
+    const handleCurrencyBlur = () => {
+        const currency = currencyText.trim().toUpperCase();
+        if (/^[A-Z]{3}$/.test(currency)) onChange({ currency });
+        else setCurrencyText(settings.currency);
+    };
+
+    const renderField = ({ key, label, unit, step }: typeof RATE_FIELDS[number]) => (
+        <label key={key} className="flex items-center justify-between gap-2">
+            <span className="text-slate-400">{label}</span>
+            <span className="flex items-center gap-1">
+                <input
+                    type="number"
+                    min={0}
+                    step={step}
+                    value={settings[key]}
+                    onChange={(e) => onChange({ [key]: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-24 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200 text-right"
+                />
+                <span className="w-14 text-xs text-slate-500">{unit}</span>
+            </span>
+        </label>
+    );
+
+    return (
+        <div className="mt-4 p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+                <p className="font-semibold text-slate-300">Unit rates</p>
+                <button onClick={onReset} className="text-xs text-slate-400 hover:text-slate-200 underline">
+                    Reset to defaults
+                </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                <label className="flex items-center justify-between gap-2">
+                    <span className="text-slate-400">Currency</span>
+                    <input
+                        type="text"
+                        value={currencyText}
+                        maxLength={3}
+                        onChange={(e) => setCurrencyText(e.target.value)}
+                        onBlur={handleCurrencyBlur}
+                        onKeyDown={(e) => e.key === 'Enter' && handleCurrencyBlur()}
+                        placeholder="USD"
+                        className="w-24 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200 uppercase"
+                    />
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                    <span className="text-slate-400">Patch material</span>
+                    <select
+                        value={settings.patchMaterial}
+                        onChange={(e) => onChange({ patchMaterial: e.target.value as CostSettings['patchMaterial'] })}
+                        className="w-40 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                    >
+                        <option value="Cold Mix">Cold mix</option>
+                        <option value="Hot Mix">Hot mix asphalt</option>
+                    </select>
+                </label>
+                {RATE_FIELDS.map(renderField)}
+                {QUANTITY_FIELDS.map(renderField)}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,138 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import type { Defect, ForecastBasis, RoadSegmentSummary } from '../types';
+import { AlertIcon } from './IconComponents';
+import { GisMap } from './GisMap';
+import { forecastDefect, forecastSegment } from '../utils/deteriorationForecast';
+import { formatChainageRange } from '../utils/roadSegments';
+import { MILL_AND_OVERLAY_MAX_PCI } from '../utils/workOrders';
+
+const HORIZON_OPTIONS = [3, 6, 12, 24, 36];
+
+interface PriorityItem {
+    key: string;
+    kind: 'Defect' | 'Segment';
+    label: string;
+    detail: string;
+    monthsToFailure: number;
+    failureDate?: string;
+    basis: ForecastBasis;
+}
+
+const formatMonths = (months: number) => months <= 0 ? 'Now' : months < 1 ? '< 1 month' : `${Math.round(months)} month${Math.round(months) === 1 ? '' : 's'}`;
+
+interface ForecastPanelProps {
+    defects: Defect[];
+    // Road segments with the defects counted in each, when a road network is loaded.
+    segments: { segment: RoadSegmentSummary; defects: Defect[] }[];
+}
+
+export const ForecastPanel: React.FC<ForecastPanelProps> = ({ defects, segments }) => {
+    const [horizon, setHorizon] = useState<number>(12);
+
+    const defectForecasts = useMemo(() => new Map(defects.map(d => [d, forecastDefect(d)])), [defects]);
+    const segmentForecasts = useMemo(
+        () => segments.map(({ segment, defects: segmentDefects }) =>
+            forecastSegment(segment, segmentDefects.map(d => defectForecasts.get(d) ?? forecastDefect(d)))),
+        [segments, defectForecasts]
+    );
+
+    const failing = useMemo(
+        () => [...defectForecasts.values()].filter(f => f.monthsToFailure <= horizon),
+        [defectForecasts, horizon]
+    );
+
+    const priorities = useMemo<PriorityItem[]>(() => {
+        const defectItems: PriorityItem[] = failing.map((f, index) => ({
+            key: `d${index}`,
+            kind: 'Defect',
+            label: f.defect.type,
+            detail: `${f.defect.severity ?? 'Unrated'}${f.defect.location ? ` · ${f.defect.location.latitude.toFixed(5)}, ${f.defect.location.longitude.toFixed(5)}` : ''}`,
+            monthsToFailure: f.monthsToFailure,
+            failureDate: f.failureDate,
+            basis: f.basis,
+        }));
+        const segmentItems: PriorityItem[] = segmentForecasts
+            .filter(f => f.monthsToFailure <= horizon)
+            .map(f => ({
+                key: `s${f.segment.roadId}-${f.segment.startChainageM}`,
+                kind: 'Segment',
+                label: `${f.segment.roadName} ${formatChainageRange(f.segment.startChainageM, f.segment.endChainageM)}`,
+                detail: `PCI ${f.segment.pci} now, ${f.pciIn12Months} in 12 months`,
+                monthsToFailure: f.monthsToFailure,
+                basis: f.basis,
+            }));
+        // Segments first on ties: resurfacing a stretch also fixes the defects on it.
+        return [...segmentItems, ...defectItems].sort((a, b) => a.monthsToFailure - b.monthsToFailure);
+    }, [failing, segmentForecasts, horizon]);
+
+    const colorFor = useCallback((defect: Defect) => {
+        const months = defectForecasts.get(defect)?.monthsToFailure ?? Infinity;
+        return months <= 0 ? '#ef4444' : months <= horizon / 2 ? '#f97316' : '#eab308';
+    }, [defectForecasts, horizon]);
+    const titleFor = useCallback((defect: Defect) => {
+        const months = defectForecasts.get(defect)?.monthsToFailure ?? Infinity;
+        return months <= 0 ? `High severity: ${defect.type}` : `Fails in ${formatMonths(months)}: ${defect.type}`;
+    }, [defectForecasts]);
+    const failingDefects = useMemo(() => failing.map(f => f.defect), [failing]);
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3">
+                <h3 className="text-xl font-bold text-slate-200 flex items-center gap-2"><AlertIcon className="w-6 h-6 text-cyan-400" /> Deterioration Forecast</h3>
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                    Predicted to fail within
+                    <select
+                        value={horizon}
+                        onChange={(e) => setHorizon(Number(e.target.value))}
+                        className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                    >
+                        {HORIZON_OPTIONS.map(months => <option key={months} value={months}>{months} months</option>)}
+                    </select>
+                </label>
+            </div>
+            <p className="text-xs text-slate-400 mb-3">
+                Defects fail when they reach High severity; segments when their PCI falls to {MILL_AND_OVERLAY_MAX_PCI} or below. Forecasts follow standard deterioration curves unless an asset has repeat observations, whose measured progression is used instead.
+            </p>
+            <div className="flex flex-wrap gap-4 text-xs text-slate-300 mb-2">
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-full bg-red-500"></span>Already High</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-full bg-orange-500"></span>Within {horizon / 2} months</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-full bg-yellow-500"></span>Within {horizon} months</span>
+            </div>
+            <GisMap defects={failingDefects} colorFor={colorFor} titleFor={titleFor} />
+
+            <div className="mt-4 max-h-96 overflow-y-auto bg-slate-800/50 rounded-lg border border-slate-700">
+                <table className="w-full text-sm text-left text-slate-300">
+                    <thead className="text-xs text-cyan-300 uppercase bg-slate-900/70 sticky top-0">
+                        <tr>
+                            <th scope="col" className="px-4 py-3">#</th>
+                            <th scope="col" className="px-4 py-3">Asset</th>
+                            <th scope="col" className="px-4 py-3">Condition</th>
+                            <th scope="col" className="px-4 py-3">Fails In</th>
+                            <th scope="col" className="px-4 py-3">Basis</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {priorities.length === 0 && (
+                            <tr><td colSpan={5} className="px-4 py-3 text-center text-slate-500">Nothing is predicted to fail within {horizon} months.</td></tr>
+                        )}
+                        {priorities.map((item, index) => (
+                            <tr key={item.key} className="border-b border-slate-700">
+                                <td className="px-4 py-2 text-slate-500">{index + 1}</td>
+                                <td className="px-4 py-2">
+                                    <span className="font-semibold">{item.label}</span>
+                                    <span className="ml-2 text-xs text-slate-500">{item.kind}</span>
+                                </td>
+                                <td className="px-4 py-2 text-xs">{item.detail}</td>
+                                <td className={`px-4 py-2 font-bold ${item.monthsToFailure <= 0 ? 'text-red-400' : item.monthsToFailure <= horizon / 2 ? 'text-orange-400' : 'text-yellow-400'}`}>
+                                    {formatMonths(item.monthsToFailure)}
+                                    {item.failureDate && item.monthsToFailure > 0 && <span className="block text-xs font-normal text-slate-400">{new Date(item.failureDate).toLocaleDateString()}</span>}
+                                </td>
+                                <td className="px-4 py-2 text-xs">{item.basis === 'observed' ? 'Observed trend' : 'Standard curve'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -1,10 +1,27 @@
-import React, { useMemo, useState, useEffect, useRef } from 'react';
-import type { Defect } from '../types';
-import { BackIcon, MapIcon } from './IconComponents';
+import React, { useMemo, useState, useEffect } from 'react';
+import type { CostSettings, Defect, MergedDefect, RoadNetwork, RoadSegmentSummary, WorkOrder, WorkOrderDraft } from '../types';
+import { BackIcon, DownloadIcon, MapIcon, RoadIcon } from './IconComponents';
 import { Spinner } from './Spinner';
+import { clusterDefects, DEFAULT_MERGE_RADIUS_M } from '../utils/spatialClustering';
+import { aggregateBySegment, defectsInSegment, DEFAULT_ROAD_WIDTH_M, DEFAULT_SEGMENT_LENGTH_M, formatChainageRange, parseRoadNetwork } from '../utils/roadSegments';
+import { buildSegmentWorkOrders, buildWorkOrders } from '../utils/workOrders';
+import { getRoadNetwork, saveRoadNetwork } from '../services/roadNetworkStore';
+import { createWorkOrders, deleteWorkOrder, listWorkOrders, updateWorkOrder } from '../services/workOrderStore';
+import { getCostSettings, resetCostSettings, saveCostSettings } from '../services/costSettings';
+import { estimateDefectCost, formatCost } from '../utils/costEstimator';
+import { exportSegmentsToCSV, exportSessionToPDF, exportToCSV, exportToGeoJSON, exportToGeoPackage, exportToKML, exportToKMZ, exportToShapefile } from '../utils/exportUtils';
+import { WorkOrderPanel } from './WorkOrderPanel';
+import { GisMap } from './GisMap';
+import { ChangeDetectionPanel } from './ChangeDetectionPanel';
+import { ForecastPanel } from './ForecastPanel';
+import { RepairPlanner } from './RepairPlanner';
+import { RepairCostSummary } from './RepairCostSummary';
 
-// Import ArcGIS types dynamically later
-type MapView = import('@arcgis/core/views/MapView').default;
+type ViewMode = 'merged' | 'raw';
+
+const SEGMENT_LENGTH_OPTIONS = [50, 100, 200, 500];
+
+const pciColorClass = (pci: number) => pci > 70 ? 'text-green-400' : pci > 40 ? 'text-yellow-400' : 'text-red-400';
 
 const StatCard: React.FC<{ title: string; value?: string | number; children?: React.ReactNode }> = ({ title, value, children }) => (
     <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
@@ -14,132 +31,31 @@ const StatCard: React.FC<{ title: string; value?: string | number; children?: Re
     </div>
 );
 
-const GisMap: React.FC<{ defects: Defect[] }> = ({ defects }) => {
-    const mapRef = useRef<HTMLDivElement>(null);
-    const [isLoading, setIsLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-
-    const locatedDefects = useMemo(() => defects.filter(d => d.location), [defects]);
-    const pointColorMap = useMemo(() => ({
-        'Pothole': '#ef4444', 'Rutting': '#22c55e', 'Alligator Crack': '#3b82f6',
-        'Longitudinal Crack': '#f97316', 'Transverse Crack': '#14b8a6', 'Block Crack': '#8b5cf6',
-        'Roughness': '#eab308', 'Distress': '#6366f1',
-    }), []);
-    
-    useEffect(() => {
-        let view: MapView;
-
-        if (mapRef.current && locatedDefects.length > 0) {
-            import('@arcgis/core/Map.js')
-            .then(({default: Map}) => import('@arcgis/core/views/MapView.js').then(({default: MapView}) => ({ Map, MapView })))
-            .then(({ Map, MapView }) => import('@arcgis/core/layers/GraphicsLayer.js').then(({default: GraphicsLayer}) => ({ Map, MapView, GraphicsLayer })))
-            .then(({ Map, MapView, GraphicsLayer }) => import('@arcgis/core/Graphic.js').then(({default: Graphic}) => ({ Map, MapView, GraphicsLayer, Graphic })))
-            .then(({ Map, MapView, GraphicsLayer, Graphic }) => {
-                
-                const graphicsLayer = new GraphicsLayer();
-
-                const graphics = locatedDefects.map(defect => {
-                    const point = {
-                        type: "point",
-                        longitude: defect.location!.longitude,
-                        latitude: defect.location!.latitude
-                    };
-
-                    const simpleMarkerSymbol = {
-                        type: "simple-marker",
-                        color: pointColorMap[defect.type] || '#ef4444',
-                        outline: { color: [255, 255, 255], width: 1 }
-                    };
-
-                    const popupTemplate = {
-                        title: "{type}",
-                        content: `
-                          <div style="font-family: sans-serif; color: #111827;">
-                            {severity:formatString}
-                            <p style="margin: 0; white-space: pre-wrap; word-wrap: break-word;">{description}</p>
-                            <p style="margin-top: 8px; font-size: 0.8rem; color: #4b5563;">
-                              Lat: {latitude}, Lng: {longitude}
-                            </p>
-                          </div>
-                        `,
-                        fieldInfos: [{
-                          fieldName: "severity",
-                          format: {
-                            // Custom function to format severity, only showing if it exists
-                            formatString: (value: string) => {
-                               return value && value !== 'N/A' ? `<p style="margin: 0 0 4px;"><strong>Severity:</strong> ${value}</p>` : '';
-                            }
-                          }
-                        }]
-                    };
-
-                    return new Graphic({
-                        geometry: point as any,
-                        symbol: simpleMarkerSymbol as any,
-                        attributes: {
-                            type: defect.type,
-                            severity: defect.severity || 'N/A',
-                            description: defect.description,
-                            latitude: defect.location!.latitude.toFixed(5),
-                            longitude: defect.location!.longitude.toFixed(5),
-                        },
-                        popupTemplate: popupTemplate
-                    });
-                });
-
-                graphicsLayer.addMany(graphics);
-
-                const map = new Map({
-                    basemap: "dark-gray-vector",
-                    layers: [graphicsLayer]
-                });
-
-                view = new MapView({
-                    container: mapRef.current!,
-                    map: map,
-                });
-
-                view.when(() => {
-                    view.goTo(graphics).catch(err => console.error("Zoom failed:", err));
-                    setIsLoading(false);
-                });
-                
-            }).catch(err => {
-                console.error("Failed to load ArcGIS modules", err);
-                setError("Failed to load map components. Please check your network connection and refresh.");
-                setIsLoading(false);
-            });
-        } else {
-            setIsLoading(false); // No defects to show, not loading.
-        }
-
-        return () => {
-            if (view) {
-                // cleanup the view
-                view.destroy();
-            }
-        };
-
-    }, [locatedDefects, pointColorMap]);
-
-    if (error) {
-        return <div className="aspect-video w-full bg-slate-800 rounded-lg flex items-center justify-center text-red-400 p-4 text-center">{error}</div>;
-    }
-
-    if (locatedDefects.length === 0 && !isLoading) {
-        return <div className="aspect-video w-full bg-slate-800 rounded-lg flex items-center justify-center text-slate-500">No location data to display on map.</div>;
-    }
+interface DefectRowProps {
+    defect: Defect;
+    asset?: MergedDefect;
+    isExpanded?: boolean;
+    onToggle?: () => void;
+    isSelected: boolean;
+    onSelect: () => void;
+    costSettings: CostSettings;
+}
 
+const DefectRow: React.FC<DefectRowProps> = ({ defect, asset, isExpanded, onToggle, isSelected, onSelect, costSettings }) => {
+    const cost = estimateDefectCost(defect, costSettings);
     return (
-        <div className="aspect-video w-full bg-slate-800 rounded-lg relative">
-            {isLoading && (
-                <div className="absolute inset-0 flex items-center justify-center z-10 bg-slate-800/80">
-                    <Spinner />
-                    <span className="ml-2 text-slate-300">Loading Map...</span>
-                </div>
-            )}
-            <div ref={mapRef} className="w-full h-full rounded-lg" />
-        </div>
+        <tr onClick={onToggle} className={`border-b border-slate-700 hover:bg-slate-700/50 ${onToggle ? 'cursor-pointer' : ''}`}>
+            <td className="px-4 py-2" onClick={(e) => e.stopPropagation()}>
+                <input type="checkbox" checked={isSelected} onChange={onSelect} aria-label={`Select ${defect.type}`} className="accent-cyan-500" />
+            </td>
+            {asset && <td className="px-4 py-2 font-mono text-xs">{isExpanded ? '▾' : '▸'} {asset.assetId}</td>}
+            <td className="px-4 py-2 font-semibold">{defect.type}</td>
+            <td className="px-4 py-2">{defect.severity || 'N/A'}</td>
+            <td className="px-4 py-2">{defect.location ? `${defect.location.latitude.toFixed(5)}, ${defect.location.longitude.toFixed(5)}` : 'N/A'}</td>
+            <td className="px-4 py-2">{defect.dimensions ? `${defect.dimensions.length_m.toFixed(2)} x ${defect.dimensions.width_m.toFixed(2)}` : 'N/A'}</td>
+            <td className="px-4 py-2">{cost.pricedCount > 0 ? formatCost(cost.totalCost, costSettings.currency) : 'N/A'}</td>
+            {asset && <td className="px-4 py-2">{asset.observations.length}</td>}
+        </tr>
     );
 };
 
@@ -149,12 +65,34 @@ interface GisDashboardProps {
 }
 
 export const GisDashboard: React.FC<GisDashboardProps> = ({ defects, onBack }) => {
+    const [viewMode, setViewMode] = useState<ViewMode>('merged');
+    const [mergeRadius, setMergeRadius] = useState<number>(DEFAULT_MERGE_RADIUS_M);
+    const [expandedAssetId, setExpandedAssetId] = useState<string | null>(null);
+    const [network, setNetwork] = useState<RoadNetwork | null>(() => getRoadNetwork());
+    const [networkError, setNetworkError] = useState<string | null>(null);
+    const [segmentLength, setSegmentLength] = useState<number>(DEFAULT_SEGMENT_LENGTH_M);
+    const [isExporting, setIsExporting] = useState(false);
+    const [selected, setSelected] = useState<Set<Defect>>(new Set());
+    const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+    const [costSettings, setCostSettings] = useState<CostSettings>(() => getCostSettings());
+
+    const mergedDefects = useMemo(() => clusterDefects(defects, mergeRadius), [defects, mergeRadius]);
+    const displayedDefects: Defect[] = viewMode === 'merged' ? mergedDefects : defects;
+
+    // Merging re-creates the asset objects, so a selection only lasts as long as the rows it was made on.
+    useEffect(() => setSelected(new Set()), [displayedDefects]);
+
+    useEffect(() => {
+        listWorkOrders()
+            .then(setWorkOrders)
+            .catch(err => console.error("Failed to load work orders:", err));
+    }, []);
 
     const stats = useMemo(() => {
         const severityCounts = { Low: 0, Medium: 0, High: 0 };
         const typeCounts: { [key: string]: number } = {};
 
-        defects.forEach(defect => {
+        displayedDefects.forEach(defect => {
             if (defect.severity) {
                 severityCounts[defect.severity]++;
             }
@@ -162,7 +100,109 @@ export const GisDashboard: React.FC<GisDashboardProps> = ({ defects, onBack }) =
         });
 
         return { severityCounts, typeCounts };
-    }, [defects]);
+    }, [displayedDefects]);
+
+    const segmentation = useMemo(
+        () => network ? aggregateBySegment(displayedDefects, network, { segmentLengthM: segmentLength }) : null,
+        [displayedDefects, network, segmentLength]
+    );
+
+    const segmentsWithDefects = useMemo(
+        () => segmentation ? segmentation.segments.map(segment => ({ segment, defects: defectsInSegment(segmentation, segment, segmentLength) })) : [],
+        [segmentation, segmentLength]
+    );
+
+    const handleNetworkFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setNetworkError(null);
+        try {
+            const parsed = parseRoadNetwork(await file.text(), file.name);
+            setNetwork(parsed);
+            saveRoadNetwork(parsed);
+        } catch (err) {
+            console.error("Failed to load road network:", err);
+            setNetworkError(err instanceof Error ? err.message : "Failed to load the road network.");
+        }
+    };
+
+    const handleClearNetwork = () => {
+        setNetwork(null);
+        saveRoadNetwork(null);
+    };
+
+    const handleGisExport = (exporter: typeof exportToShapefile) => {
+        try {
+            exporter(displayedDefects, network);
+        } catch (err) {
+            console.error("GIS export failed:", err);
+            alert(err instanceof Error ? err.message : "Sorry, there was an error generating the export.");
+        }
+    };
+
+    const toggleSelected = (defect: Defect) => {
+        setSelected(current => {
+            const next = new Set(current);
+            if (next.has(defect)) next.delete(defect);
+            else next.add(defect);
+            return next;
+        });
+    };
+
+    const addWorkOrders = async (drafts: WorkOrderDraft[]) => {
+        if (drafts.length === 0) return;
+        try {
+            const created = await createWorkOrders(drafts);
+            setWorkOrders(current => [...created, ...current]);
+        } catch (err) {
+            console.error("Failed to create work orders:", err);
+            alert("Sorry, the work orders could not be saved.");
+        }
+    };
+
+    const handleCreateFromSelection = async () => {
+        await addWorkOrders(buildWorkOrders(displayedDefects.filter(d => selected.has(d))));
+        setSelected(new Set());
+    };
+
+    const handleCreateFromSegment = (segment: RoadSegmentSummary) => {
+        if (!segmentation || !network) return;
+        const segmentDefects = defectsInSegment(segmentation, segment, segmentLength);
+        const widthM = network.roads.find(road => road.id === segment.roadId)?.widthM ?? DEFAULT_ROAD_WIDTH_M;
+        addWorkOrders(buildSegmentWorkOrders(segment, segmentDefects, widthM));
+    };
+
+    const handleUpdateWorkOrder = async (id: string, changes: Partial<Pick<WorkOrder, 'status' | 'scheduledFor'>>) => {
+        try {
+            const updated = await updateWorkOrder(id, changes);
+            setWorkOrders(current => current.map(order => (order.id === id ? updated : order)));
+        } catch (err) {
+            console.error("Failed to update work order:", err);
+            alert(err instanceof Error ? err.message : "Sorry, the work order could not be updated.");
+        }
+    };
+
+    const handleDeleteWorkOrder = async (id: string) => {
+        try {
+            await deleteWorkOrder(id);
+            setWorkOrders(current => current.filter(order => order.id !== id));
+        } catch (err) {
+            console.error("Failed to delete work order:", err);
+        }
+    };
+
+    const handleExportPDF = async () => {
+        setIsExporting(true);
+        try {
+            await exportSessionToPDF(displayedDefects, segmentation?.segments, costSettings);
+        } catch (err) {
+            console.error("Failed to export session PDF:", err);
+            alert("Sorry, there was an error generating the PDF report.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
     return (
         <div className="p-6 md:p-8 space-y-8">
@@ -177,8 +217,36 @@ export const GisDashboard: React.FC<GisDashboardProps> = ({ defects, onBack }) =
                 </button>
             </div>
 
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+                <div className="inline-flex rounded-lg border border-slate-600 overflow-hidden" role="group" aria-label="Defect view">
+                    {(['merged', 'raw'] as ViewMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => setViewMode(mode)}
+                            className={`px-4 py-2 text-sm font-semibold ${viewMode === mode ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                        >
+                            {mode === 'merged' ? `Merged Assets (${mergedDefects.length})` : `Raw Detections (${defects.length})`}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                    Merge radius
+                    <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        step={1}
+                        value={mergeRadius}
+                        onChange={(e) => setMergeRadius(Math.min(100, Math.max(1, Number(e.target.value) || DEFAULT_MERGE_RADIUS_M)))}
+                        disabled={viewMode !== 'merged'}
+                        className="w-20 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200 disabled:opacity-50"
+                    />
+                    m
+                </label>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <StatCard title="Total Defects Detected" value={defects.length} />
+                <StatCard title={viewMode === 'merged' ? 'Unique Defect Assets' : 'Total Defects Detected'} value={displayedDefects.length} />
                 <StatCard title="Severity Breakdown">
                     <div className="flex justify-around mt-2">
                         <div className="text-center"><p className="font-bold text-lg text-green-400">{stats.severityCounts.Low}</p><p className="text-xs text-slate-400">Low</p></div>
@@ -189,31 +257,188 @@ export const GisDashboard: React.FC<GisDashboardProps> = ({ defects, onBack }) =
                 <StatCard title="Defect Types" value={Object.keys(stats.typeCounts).length} />
             </div>
 
+            <RepairCostSummary
+                title="Session Repair Estimate"
+                defects={displayedDefects}
+                settings={costSettings}
+                onSettingsChange={(changes) => setCostSettings(saveCostSettings(changes))}
+                onSettingsReset={() => setCostSettings(resetCostSettings())}
+            />
+
             <div>
                 <h3 className="text-xl font-bold text-slate-200 mb-3">Defect Location Map</h3>
-                <GisMap defects={defects} />
+                <GisMap defects={displayedDefects} />
+            </div>
+
+            <div>
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3">
+                    <h3 className="text-xl font-bold text-slate-200 flex items-center gap-2"><RoadIcon className="w-6 h-6 text-cyan-400" /> Road Segments</h3>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <label className="flex items-center gap-2 text-sm text-slate-300">
+                            Segment length
+                            <select
+                                value={segmentLength}
+                                onChange={(e) => setSegmentLength(Number(e.target.value))}
+                                className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                            >
+                                {SEGMENT_LENGTH_OPTIONS.map(length => <option key={length} value={length}>{length} m</option>)}
+                            </select>
+                        </label>
+                        <label className="px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-md cursor-pointer">
+                            {network ? 'Replace Network' : 'Load Centreline GeoJSON'}
+                            <input type="file" accept=".geojson,.json,application/geo+json,application/json" onChange={handleNetworkFile} className="hidden" />
+                        </label>
+                        {network && (
+                            <button onClick={handleClearNetwork} className="px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-md">
+                                Clear
+                            </button>
+                        )}
+                    </div>
+                </div>
+                {networkError && <p className="text-sm text-red-400 mb-3">{networkError}</p>}
+                {!network ? (
+                    <p className="text-sm text-slate-500 bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+                        Load a road centreline network (GeoJSON LineStrings with an id, name and optional start chainage) to report defects by road and chainage.
+                    </p>
+                ) : (
+                    <>
+                        <p className="text-xs text-slate-400 mb-2">
+                            {network.name}: {network.roads.length} centreline{network.roads.length === 1 ? '' : 's'}.
+                            {segmentation && segmentation.unmatched.length > 0 && (
+                                <span className="text-yellow-400"> {segmentation.unmatched.length} defect{segmentation.unmatched.length === 1 ? '' : 's'} could not be matched to a road.</span>
+                            )}
+                        </p>
+                        <div className="max-h-80 overflow-y-auto bg-slate-800/50 rounded-lg border border-slate-700">
+                            <table className="w-full text-sm text-left text-slate-300">
+                                <thead className="text-xs text-cyan-300 uppercase bg-slate-900/70 sticky top-0">
+                                    <tr>
+                                        <th scope="col" className="px-4 py-3">Road</th>
+                                        <th scope="col" className="px-4 py-3">Chainage</th>
+                                        <th scope="col" className="px-4 py-3">Defects</th>
+                                        <th scope="col" className="px-4 py-3">Area (m²)</th>
+                                        <th scope="col" className="px-4 py-3">PCI</th>
+                                        <th scope="col" className="px-4 py-3"><span className="sr-only">Actions</span></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {segmentation && segmentation.segments.length === 0 && (
+                                        <tr><td colSpan={6} className="px-4 py-3 text-center text-slate-500">No located defects fall on the loaded network.</td></tr>
+                                    )}
+                                    {segmentation?.segments.map(segment => (
+                                        <tr key={`${segment.roadId}-${segment.startChainageM}`} className="border-b border-slate-700">
+                                            <td className="px-4 py-2 font-semibold">{segment.roadName}</td>
+                                            <td className="px-4 py-2 font-mono text-xs">{formatChainageRange(segment.startChainageM, segment.endChainageM)}</td>
+                                            <td className="px-4 py-2">{segment.defectCount}</td>
+                                            <td className="px-4 py-2">{segment.areaSqM.toFixed(2)}</td>
+                                            <td className={`px-4 py-2 font-bold ${pciColorClass(segment.pci)}`}>{segment.pci} <span className="font-normal text-xs text-slate-400">{segment.pciRating}</span></td>
+                                            <td className="px-4 py-2 text-right">
+                                                <button onClick={() => handleCreateFromSegment(segment)} disabled={segment.defectCount === 0} className="text-xs font-semibold text-cyan-400 hover:text-cyan-300 disabled:opacity-40">
+                                                    Work order
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
             </div>
 
+            <div className="flex flex-wrap items-center gap-3">
+                <button onClick={() => exportToCSV(displayedDefects, network)} disabled={displayedDefects.length === 0} className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md disabled:opacity-50">
+                    <DownloadIcon className="w-5 h-5" /> Defects CSV
+                </button>
+                {segmentation && (
+                    <button onClick={() => exportSegmentsToCSV(segmentation.segments)} disabled={segmentation.segments.length === 0} className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md disabled:opacity-50">
+                        <DownloadIcon className="w-5 h-5" /> Segments CSV
+                    </button>
+                )}
+                <button onClick={() => exportToGeoJSON(displayedDefects)} disabled={displayedDefects.length === 0} className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md disabled:opacity-50">
+                    <DownloadIcon className="w-5 h-5" /> GeoJSON
+                </button>
+                <button onClick={() => exportToKML(displayedDefects)} disabled={displayedDefects.length === 0} className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md disabled:opacity-50">
+                    <DownloadIcon className="w-5 h-5" /> KML
+                </button>
+                <button onClick={() => exportToKMZ(displayedDefects)} disabled={displayedDefects.length === 0} className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md disabled:opacity-50">
+                    <DownloadIcon className="w-5 h-5" /> KMZ
+                </button>
+                <button onClick={() => handleGisExport(exportToShapefile)} disabled={displayedDefects.length === 0} className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md disabled:opacity-50">
+                    <DownloadIcon className="w-5 h-5" /> Shapefile (.zip)
+                </button>
+                <button onClick={() => handleGisExport(exportToGeoPackage)} disabled={displayedDefects.length === 0} className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md disabled:opacity-50">
+                    <DownloadIcon className="w-5 h-5" /> GeoPackage
+                </button>
+                <button onClick={handleExportPDF} disabled={isExporting || displayedDefects.length === 0} className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md disabled:opacity-50">
+                    {isExporting ? <Spinner size="sm" /> : <DownloadIcon className="w-5 h-5" />} PDF Report
+                </button>
+            </div>
+
+            <ForecastPanel defects={displayedDefects} segments={segmentsWithDefects} />
+
+            <RepairPlanner defects={displayedDefects} costSettings={costSettings} network={network} segmentation={segmentation} segmentLength={segmentLength} />
+
+            <ChangeDetectionPanel currentDefects={defects} mergeRadius={mergeRadius} />
+
+            <WorkOrderPanel orders={workOrders} onUpdate={handleUpdateWorkOrder} onDelete={handleDeleteWorkOrder} />
+
             <div>
-                 <h3 className="text-xl font-bold text-slate-200 mb-3">Session Data Table</h3>
+                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3">
+                    <h3 className="text-xl font-bold text-slate-200">Session Data Table</h3>
+                    <button onClick={handleCreateFromSelection} disabled={selected.size === 0} className="px-3 py-1 text-sm bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-md disabled:opacity-50">
+                        Create Work Orders ({selected.size})
+                    </button>
+                 </div>
                  <div className="max-h-96 overflow-y-auto bg-slate-800/50 rounded-lg border border-slate-700">
                     <table className="w-full text-sm text-left text-slate-300">
                         <thead className="text-xs text-cyan-300 uppercase bg-slate-900/70 sticky top-0">
                             <tr>
+                                <th scope="col" className="px-4 py-3">
+                                    <input
+                                        type="checkbox"
+                                        checked={displayedDefects.length > 0 && selected.size === displayedDefects.length}
+                                        onChange={() => setSelected(selected.size === displayedDefects.length ? new Set() : new Set(displayedDefects))}
+                                        aria-label="Select all defects"
+                                        className="accent-cyan-500"
+                                    />
+                                </th>
+                                {viewMode === 'merged' && <th scope="col" className="px-4 py-3">Asset</th>}
                                 <th scope="col" className="px-4 py-3">Type</th>
                                 <th scope="col" className="px-4 py-3">Severity</th>
                                 <th scope="col" className="px-4 py-3">Location (Lat, Lng)</th>
                                 <th scope="col" className="px-4 py-3">Dimensions (m)</th>
+                                <th scope="col" className="px-4 py-3">Est. Cost</th>
+                                {viewMode === 'merged' && <th scope="col" className="px-4 py-3">Observations</th>}
                             </tr>
                         </thead>
                         <tbody>
-                            {defects.map((defect, index) => (
-                                <tr key={index} className="border-b border-slate-700 hover:bg-slate-700/50">
-                                    <td className="px-4 py-2 font-semibold">{defect.type}</td>
-                                    <td className="px-4 py-2">{defect.severity || 'N/A'}</td>
-                                    <td className="px-4 py-2">{defect.location ? `${defect.location.latitude.toFixed(5)}, ${defect.location.longitude.toFixed(5)}` : 'N/A'}</td>
-                                    <td className="px-4 py-2">{defect.dimensions ? `${defect.dimensions.length_m.toFixed(2)} x ${defect.dimensions.width_m.toFixed(2)}` : 'N/A'}</td>
-                                </tr>
+                            {viewMode === 'raw' && defects.map((defect, index) => (
+                                <DefectRow key={index} defect={defect} isSelected={selected.has(defect)} onSelect={() => toggleSelected(defect)} costSettings={costSettings} />
+                            ))}
+                            {viewMode === 'merged' && mergedDefects.map(asset => (
+                                <React.Fragment key={asset.assetId}>
+                                    <DefectRow
+                                        defect={asset}
+                                        asset={asset}
+                                        isExpanded={expandedAssetId === asset.assetId}
+                                        onToggle={() => setExpandedAssetId(id => (id === asset.assetId ? null : asset.assetId))}
+                                        isSelected={selected.has(asset)}
+                                        onSelect={() => toggleSelected(asset)}
+                                        costSettings={costSettings}
+                                    />
+                                    {expandedAssetId === asset.assetId && asset.observations.map((observation, index) => (
+                                        <tr key={index} className="bg-slate-900/40 text-xs text-slate-400 border-b border-slate-800">
+                                            <td className="px-4 py-1"></td>
+                                            <td className="px-4 py-1 pl-8">#{index + 1}</td>
+                                            <td className="px-4 py-1">{observation.capturedAt ? new Date(observation.capturedAt).toLocaleString() : 'Time unknown'}</td>
+                                            <td className="px-4 py-1">{observation.severity || 'N/A'}</td>
+                                            <td className="px-4 py-1">{observation.location ? `${observation.location.latitude.toFixed(5)}, ${observation.location.longitude.toFixed(5)}` : 'N/A'}</td>
+                                            <td className="px-4 py-1">{observation.dimensions ? `${observation.dimensions.length_m.toFixed(2)} x ${observation.dimensions.width_m.toFixed(2)}` : 'N/A'}</td>
+                                            <td className="px-4 py-1"></td>
+                                            <td className="px-4 py-1">{typeof observation.confidence === 'number' ? `${(observation.confidence * 100).toFixed(0)}%` : ''}</td>
+                                        </tr>
+                                    ))}
+                                </React.Fragment>
                             ))}
                         </tbody>
                     </table>
@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Defect, MergedDefect } from '../types';
+import { Spinner } from './Spinner';
+import { DEFECT_COLORS } from '../constants';
+
+const isMerged = (defect: Defect): defect is MergedDefect => 'observations' in defect;
+
+// Import ArcGIS types dynamically later
+type MapView = import('@arcgis/core/views/MapView').default;
+
+interface GisMapProps {
+    defects: Defect[];
+    // Overrides the per-type marker colour and popup title, e.g. to show change status.
+    // Pass a stable function (module-level or memoized): a new one redraws the map.
+    colorFor?: (defect: Defect) => string;
+    titleFor?: (defect: Defect) => string;
+}
+
+export const GisMap: React.FC<GisMapProps> = ({ defects, colorFor, titleFor }) => {
+    const mapRef = useRef<HTMLDivElement>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const locatedDefects = useMemo(() => defects.filter(d => d.location), [defects]);
+    const pointColorMap = useMemo(() => Object.fromEntries(
+        Object.entries(DEFECT_COLORS).map(([type, colors]) => [type, colors.hex])
+    ) as Record<Defect['type'], string>, []);
+    
+    useEffect(() => {
+        let view: MapView;
+
+        if (mapRef.current && locatedDefects.length > 0) {
+            import('@arcgis/core/Map.js')
+            .then(({default: Map}) => import('@arcgis/core/views/MapView.js').then(({default: MapView}) => ({ Map, MapView })))
+            .then(({ Map, MapView }) => import('@arcgis/core/layers/GraphicsLayer.js').then(({default: GraphicsLayer}) => ({ Map, MapView, GraphicsLayer })))
+            .then(({ Map, MapView, GraphicsLayer }) => import('@arcgis/core/Graphic.js').then(({default: Graphic}) => ({ Map, MapView, GraphicsLayer, Graphic })))
+            .then(({ Map, MapView, GraphicsLayer, Graphic }) => {
+                
+                const graphicsLayer = new GraphicsLayer();
+
+                const graphics = locatedDefects.map(defect => {
+                    const point = {
+                        type: "point",
+                        longitude: defect.location!.longitude,
+                        latitude: defect.location!.latitude
+                    };
+
+                    const simpleMarkerSymbol = {
+                        type: "simple-marker",
+                        color: colorFor ? colorFor(defect) : pointColorMap[defect.type] || '#ef4444',
+                        outline: { color: [255, 255, 255], width: 1 }
+                    };
+
+                    const popupTemplate = {
+                        title: "{title}",
+                        content: `
+                          <div style="font-family: sans-serif; color: #111827;">
+                            {severity:formatString}
+                            {observations:formatString}
+                            <p style="margin: 0; white-space: pre-wrap; word-wrap: break-word;">{description}</p>
+                            <p style="margin-top: 8px; font-size: 0.8rem; color: #4b5563;">
+                              Lat: {latitude}, Lng: {longitude}
+                            </p>
+                          </div>
+                        `,
+                        fieldInfos: [{
+                          fieldName: "severity",
+                          format: {
+                            // Custom function to format severity, only showing if it exists
+                            formatString: (value: string) => {
+                               return value && value !== 'N/A' ? `<p style="margin: 0 0 4px;"><strong>Severity:</strong> ${value}</p>` : '';
+                            }
+                          }
+                        }, {
+                          fieldName: "observations",
+                          format: {
+                            // Only merged assets carry an observation count
+                            formatString: (value: number) => {
+                               return value ? `<p style="margin: 0 0 4px;"><strong>Observations:</strong> ${value}</p>` : '';
+                            }
+                          }
+                        }]
+                    };
+
+                    return new Graphic({
+                        geometry: point as any,
+                        symbol: simpleMarkerSymbol as any,
+                        attributes: {
+                            type: defect.type,
+                            title: titleFor ? titleFor(defect) : defect.type,
+                            severity: defect.severity || 'N/A',
+                            description: defect.description,
+                            latitude: defect.location!.latitude.toFixed(5),
+                            longitude: defect.location!.longitude.toFixed(5),
+                            observations: isMerged(defect) ? defect.observations.length : 0,
+                        },
+                        popupTemplate: popupTemplate
+                    });
+                });
+
+                graphicsLayer.addMany(graphics);
+
+                const map = new Map({
+                    basemap: "dark-gray-vector",
+                    layers: [graphicsLayer]
+                });
+
+                view = new MapView({
+                    container: mapRef.current!,
+                    map: map,
+                });
+
+                view.when(() => {
+                    view.goTo(graphics).catch(err => console.error("Zoom failed:", err));
+                    setIsLoading(false);
+                });
+                
+            }).catch(err => {
+                console.error("Failed to load ArcGIS modules", err);
+                setError("Failed to load map components. Please check your network connection and refresh.");
+                setIsLoading(false);
+            });
+        } else {
+            setIsLoading(false); // No defects to show, not loading.
+        }
+
+        return () => {
+            if (view) {
+                // cleanup the view
+                view.destroy();
+            }
+        };
+
+    }, [locatedDefects, pointColorMap, colorFor, titleFor]);
+
+    if (error) {
+        return <div className="aspect-video w-full bg-slate-800 rounded-lg flex items-center justify-center text-red-400 p-4 text-center">{error}</div>;
+    }
+
+    if (locatedDefects.length === 0 && !isLoading) {
+        return <div className="aspect-video w-full bg-slate-800 rounded-lg flex items-center justify-center text-slate-500">No location data to display on map.</div>;
+    }
+
+    return (
+        <div className="aspect-video w-full bg-slate-800 rounded-lg relative">
+            {isLoading && (
+                <div className="absolute inset-0 flex items-center justify-center z-10 bg-slate-800/80">
+                    <Spinner />
+                    <span className="ml-2 text-slate-300">Loading Map...</span>
+                </div>
+            )}
+            <div ref={mapRef} className="w-full h-full rounded-lg" />
+        </div>
+    );
+};
@@ -1,5 +1,5 @@
 import React, { useRef } from 'react';
-import { UploadIcon, CameraIcon, SatelliteIcon, VideoIcon, MapIcon } from './IconComponents';
+import { UploadIcon, CameraIcon, SatelliteIcon, VideoIcon, MapIcon, LayersIcon, BenchmarkIcon } from './IconComponents';
 
 interface ImageUploaderProps {
   onImageUpload: (file: File) => void;
@@ -7,6 +7,8 @@ interface ImageUploaderProps {
   onUseSatellite: () => void;
   onUseRealTime: () => void;
   onUseVideoAnalysis: () => void;
+  onUseBatch: () => void;
+  onUseBenchmark: () => void;
   onOpenGisDashboard: () => void;
   hasSessionData: boolean;
   disabled: boolean;
@@ -14,7 +16,7 @@ interface ImageUploaderProps {
   isOnline: boolean;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onUseCamera, onUseSatellite, onUseRealTime, onUseVideoAnalysis, onOpenGisDashboard, hasSessionData, disabled }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onUseCamera, onUseSatellite, onUseRealTime, onUseVideoAnalysis, onUseBatch, onUseBenchmark, onOpenGisDashboard, hasSessionData, disabled }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -86,6 +88,22 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onU
           <VideoIcon className="w-5 h-5" />
           Analyze Uploaded Video
         </button>
+        <button
+          onClick={onUseBatch}
+          disabled={disabled}
+          className="inline-flex w-full items-center justify-center gap-2 px-6 py-3 bg-amber-700 hover:bg-amber-600 text-amber-100 font-semibold rounded-lg shadow-md transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <LayersIcon className="w-5 h-5" />
+          Batch Analyze Photos
+        </button>
+        <button
+          onClick={onUseBenchmark}
+          disabled={disabled}
+          className="inline-flex w-full items-center justify-center gap-2 px-6 py-3 bg-teal-700 hover:bg-teal-600 text-teal-100 font-semibold rounded-lg shadow-md transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <BenchmarkIcon className="w-5 h-5" />
+          Benchmark Dataset
+        </button>
         <button
           onClick={onUseSatellite}
           disabled={disabled}
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import type { AnnotationSettings, Defect } from '../types';
+import { DEFECT_TYPES } from '../constants';
+
+interface LabelMappingEditorProps {
+  settings: AnnotationSettings;
+  onChange: (settings: Partial<AnnotationSettings>) => void;
+  onReset: () => void;
+}
+
+export const LabelMappingEditor: React.FC<LabelMappingEditorProps> = ({ settings, onChange, onReset }) => {
+  const [newLabel, setNewLabel] = useState('');
+  const [newType, setNewType] = useState<Defect['type']>(DEFECT_TYPES[0]);
+  const [classNamesText, setClassNamesText] = useState(settings.yoloClassNames.join(', '));
+
+  useEffect(() => {
+    setClassNamesText(settings.yoloClassNames.join(', '));
+  }, [settings.yoloClassNames]);
+
+  const entries = Object.entries(settings.labelMapping);
+
+  const updateMapping = (labelMapping: AnnotationSettings['labelMapping']) => onChange({ labelMapping });
+
+  const handleAdd = () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    updateMapping({ ...settings.labelMapping, [label]: newType });
+    setNewLabel('');
+  };
+
+  const handleRemove = (label: string) => {
+    const { [label]: _removed, ...rest } = settings.labelMapping;
+    updateMapping(rest);
+  };
+
+  const handleClassNamesBlur = () => {
+    const yoloClassNames = classNamesText.split(',').map(name => name.trim()).filter(Boolean);
+    onChange({ yoloClassNames });
+  };
+
+  return (
+    <div className="mt-4 p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-slate-300">Dataset label → defect type</p>
+        <button onClick={onReset} className="text-xs text-slate-400 hover:text-slate-200 underline">
+          Reset to RDD2022 defaults
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {entries.length === 0 && <li className="text-slate-500 text-xs">No mappings: labels are compared as they appear in the file.</li>}
+        {entries.map(([label, type]) => (
+          <li key={label} className="flex items-center gap-2">
+            <span className="font-mono text-slate-200 w-28 truncate" title={label}>{label}</span>
+            <span className="text-slate-500">→</span>
+            <select
+              value={type}
+              onChange={(e) => updateMapping({ ...settings.labelMapping, [label]: e.target.value as Defect['type'] })}
+              className="flex-1 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+            >
+              {DEFECT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+            <button onClick={() => handleRemove(label)} className="px-2 text-slate-400 hover:text-red-400" aria-label={`Remove mapping for ${label}`}>×</button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Label, e.g. D40"
+          className="w-28 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+        />
+        <span className="text-slate-500">→</span>
+        <select value={newType} onChange={(e) => setNewType(e.target.value as Defect['type'])} className="flex-1 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200">
+          {DEFECT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <button onClick={handleAdd} disabled={!newLabel.trim()} className="px-3 py-1 text-xs bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-md disabled:opacity-50">
+          Add
+        </button>
+      </div>
+      <label className="block">
+        <span className="text-slate-400 text-xs">YOLO class names, in class-index order (from data.yaml)</span>
+        <input
+          type="text"
+          value={classNamesText}
+          onChange={(e) => setClassNamesText(e.target.value)}
+          onBlur={handleClassNamesBlur}
+          placeholder="D00, D10, D20, D40"
+          className="mt-1 w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200 font-mono"
+        />
+      </label>
+    </div>
+  );
+};
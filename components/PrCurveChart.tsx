@@ -0,0 +1,69 @@
+import React from 'react';
+import type { Defect, PrCurve } from '../types';
+import { DEFECT_COLORS } from '../constants';
+
+interface PrCurveChartProps {
+    curves: PrCurve[];
+    // Detections below this confidence are dropped; the matching point is marked on each curve.
+    confidenceThreshold: number;
+}
+
+// Colours for coarse ground-truth classes (e.g. 'Crack') that are not app defect types.
+const FALLBACK_COLORS = ['#22d3ee', '#a78bfa', '#f472b6', '#facc15', '#4ade80'];
+
+const SIZE = 200;
+const PADDING = 28;
+const PLOT = SIZE - PADDING - 8;
+
+const toX = (recall: number) => PADDING + recall * PLOT;
+const toY = (precision: number) => 8 + (1 - precision) * PLOT;
+
+const curveColor = (className: string, index: number) =>
+    DEFECT_COLORS[className as Defect['type']]?.hex ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length];
+
+export const PrCurveChart: React.FC<PrCurveChartProps> = ({ curves, confidenceThreshold }) => {
+    const plotted = curves.filter(c => c.totalGroundTruth > 0 && c.points.length > 0);
+
+    return (
+        <div className="flex flex-col sm:flex-row items-center gap-4">
+            <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-xs" role="img" aria-label="Precision-recall curves">
+                {[0, 0.25, 0.5, 0.75, 1].map(t => (
+                    <g key={t}>
+                        <line x1={toX(0)} x2={toX(1)} y1={toY(t)} y2={toY(t)} stroke="#334155" strokeWidth="0.5" />
+                        <line x1={toX(t)} x2={toX(t)} y1={toY(0)} y2={toY(1)} stroke="#334155" strokeWidth="0.5" />
+                        <text x={toX(0) - 3} y={toY(t) + 2} fontSize="6" fill="#94a3b8" textAnchor="end">{t}</text>
+                        <text x={toX(t)} y={toY(0) + 8} fontSize="6" fill="#94a3b8" textAnchor="middle">{t}</text>
+                    </g>
+                ))}
+                <text x={toX(0.5)} y={SIZE - 2} fontSize="7" fill="#cbd5e1" textAnchor="middle">Recall</text>
+                <text x={6} y={toY(0.5)} fontSize="7" fill="#cbd5e1" textAnchor="middle" transform={`rotate(-90 6 ${toY(0.5)})`}>Precision</text>
+
+                {plotted.map((curve, i) => {
+                    const color = curveColor(curve.className, i);
+                    // Step from (0, first precision) so a single detection still draws a line.
+                    const path = [{ recall: 0, precision: curve.points[0].precision }, ...curve.points]
+                        .map(p => `${toX(p.recall).toFixed(1)},${toY(p.precision).toFixed(1)}`)
+                        .join(' ');
+                    const kept = curve.points.filter(p => p.confidence >= confidenceThreshold);
+                    const operatingPoint = kept[kept.length - 1];
+                    return (
+                        <g key={curve.className}>
+                            <polyline points={path} fill="none" stroke={color} strokeWidth="1.5" strokeLinejoin="round" />
+                            {operatingPoint && <circle cx={toX(operatingPoint.recall)} cy={toY(operatingPoint.precision)} r="3" fill={color} stroke="#0f172a" strokeWidth="1" />}
+                        </g>
+                    );
+                })}
+            </svg>
+            <ul className="text-sm space-y-1">
+                {plotted.length === 0 && <li className="text-slate-500">No detections of annotated classes to plot.</li>}
+                {plotted.map((curve, i) => (
+                    <li key={curve.className} className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: curveColor(curve.className, i) }}></span>
+                        <span className="text-slate-300">{curve.className}</span>
+                        <span className="font-mono text-slate-400">AP {(curve.averagePrecision * 100).toFixed(1)}%</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import type { AnalysisResult, Defect, ImageAnalysisType } from '../types';
+import { BenchmarkIcon } from './IconComponents';
+import { Spinner } from './Spinner';
+import { analyzeRoadImageWithOptions, getImageAnalysisOptions } from '../services/detectionService';
+import { CURRENT_PROMPT_VERSION, PROMPT_VERSIONS, getPromptVersion } from '../services/promptRegistry';
+import { diffDetections } from '../utils/detectionDiff';
+import { fileToBase64 } from '../utils/fileUtils';
+
+const COLOR_A = '#22d3ee';
+const COLOR_B = '#f472b6';
+
+interface DiffRow {
+    key: string;
+    change: string;
+    a?: Defect;
+    b?: Defect;
+    iou?: number;
+}
+
+const describe = (defect?: Defect) => defect ? `${defect.type}${defect.severity ? ` (${defect.severity})` : ''}` : '—';
+
+interface PromptComparisonProps {
+    imageFile: File;
+    imageUrl: string;
+    analysisType: ImageAnalysisType;
+}
+
+export const PromptComparison: React.FC<PromptComparisonProps> = ({ imageFile, imageUrl, analysisType }) => {
+    const [versionA, setVersionA] = useState<string>(CURRENT_PROMPT_VERSION);
+    const [versionB, setVersionB] = useState<string>(() => PROMPT_VERSIONS.find(v => v.id !== CURRENT_PROMPT_VERSION)?.id ?? CURRENT_PROMPT_VERSION);
+    const [results, setResults] = useState<{ a: AnalysisResult; b: AnalysisResult } | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleRun = async () => {
+        setIsRunning(true);
+        setError(null);
+        setResults(null);
+        try {
+            const base64Image = await fileToBase64(imageFile);
+            const options = getImageAnalysisOptions(analysisType);
+            // Run one after the other to stay clear of the API rate limit; cached versions return at once.
+            const a = await analyzeRoadImageWithOptions(base64Image, imageFile.type, { ...options, promptVersion: versionA });
+            const b = await analyzeRoadImageWithOptions(base64Image, imageFile.type, { ...options, promptVersion: versionB });
+            setResults({ a, b });
+        } catch (err) {
+            console.error("Prompt comparison failed:", err);
+            setError(err instanceof Error ? `Comparison failed: ${err.message}` : "Comparison failed.");
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const diff = useMemo(() => results ? diffDetections(results.a.defects, results.b.defects) : null, [results]);
+
+    const rows = useMemo<DiffRow[]>(() => {
+        if (!diff) return [];
+        return [
+            ...diff.onlyA.map((a, i) => ({ key: `a${i}`, change: `Only ${versionA}`, a })),
+            ...diff.onlyB.map((b, i) => ({ key: `b${i}`, change: `Only ${versionB}`, b })),
+            ...diff.pairs
+                .filter(p => p.typeChanged || p.severityChanged)
+                .map((p, i) => ({ key: `p${i}`, change: p.typeChanged ? 'Type changed' : 'Severity changed', a: p.a, b: p.b, iou: p.iou })),
+        ];
+    }, [diff, versionA, versionB]);
+
+    const versionSelect = (value: string, onChange: (id: string) => void, label: string, color: string) => (
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: color }}></span>
+            {label}
+            <select
+                value={value}
+                onChange={(e) => { onChange(e.target.value); setResults(null); }}
+                disabled={isRunning}
+                className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+            >
+                {PROMPT_VERSIONS.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+            </select>
+        </label>
+    );
+
+    const drawBoxes = (defects: Defect[], color: string, dashed: boolean) => defects.map((d, i) => (
+        <rect
+            key={`${color}-${i}`}
+            x={d.boundingBox.x_min * 100}
+            y={d.boundingBox.y_min * 100}
+            width={(d.boundingBox.x_max - d.boundingBox.x_min) * 100}
+            height={(d.boundingBox.y_max - d.boundingBox.y_min) * 100}
+            style={{ fill: 'none', stroke: color, strokeWidth: 0.6, strokeDasharray: dashed ? '1.5 1' : undefined }}
+        />
+    ));
+
+    return (
+        <div className="mt-8 space-y-4">
+            <div className="flex items-center gap-3 border-b-2 border-slate-700 pb-2">
+                <BenchmarkIcon className="w-7 h-7 text-cyan-400" />
+                <h3 className="text-2xl font-bold text-cyan-400">Prompt A/B Comparison</h3>
+            </div>
+            <p className="text-xs text-slate-400">
+                Runs this image through two prompt versions with the same analysis mode and diffs the detections. Detections are paired by bounding-box overlap (IoU 0.5 or more).
+            </p>
+            <div className="flex flex-wrap items-center gap-4">
+                {versionSelect(versionA, setVersionA, 'A', COLOR_A)}
+                {versionSelect(versionB, setVersionB, 'B', COLOR_B)}
+                <button
+                    onClick={handleRun}
+                    disabled={isRunning || versionA === versionB}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-lg shadow-md disabled:opacity-50"
+                >
+                    {isRunning ? <Spinner size="sm" /> : <BenchmarkIcon className="w-5 h-5" />} Compare
+                </button>
+            </div>
+            <ul className="text-xs text-slate-500 space-y-1">
+                {[versionA, versionB].map((id, i) => <li key={i}><span className="font-semibold text-slate-400">{getPromptVersion(id).label}:</span> {getPromptVersion(id).notes}</li>)}
+            </ul>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {results && diff && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+                        {[
+                            { label: `${versionA} detections`, value: results.a.defects.length },
+                            { label: `${versionB} detections`, value: results.b.defects.length },
+                            { label: 'Found by both', value: diff.pairs.length },
+                            { label: 'Type or severity changed', value: diff.pairs.filter(p => p.typeChanged || p.severityChanged).length },
+                            { label: 'Mean IoU', value: diff.meanIou !== null ? diff.meanIou.toFixed(2) : 'N/A' },
+                        ].map(card => (
+                            <div key={card.label} className="bg-slate-800 p-3 rounded-lg border border-slate-700">
+                                <p className="text-xs font-semibold text-slate-400">{card.label}</p>
+                                <p className="text-2xl font-bold text-cyan-400">{card.value}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="relative">
+                        <img src={imageUrl} alt="Prompt comparison" className="w-full h-auto rounded-lg" />
+                        <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                            {drawBoxes(results.a.defects, COLOR_A, false)}
+                            {drawBoxes(results.b.defects, COLOR_B, true)}
+                        </svg>
+                    </div>
+
+                    <div className="max-h-96 overflow-y-auto bg-slate-800/50 rounded-lg border border-slate-700">
+                        <table className="w-full text-sm text-left text-slate-300">
+                            <thead className="text-xs text-cyan-300 uppercase bg-slate-900/70 sticky top-0">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3">Change</th>
+                                    <th scope="col" className="px-4 py-3">{versionA}</th>
+                                    <th scope="col" className="px-4 py-3">{versionB}</th>
+                                    <th scope="col" className="px-4 py-3">IoU</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.length === 0 && (
+                                    <tr><td colSpan={4} className="px-4 py-3 text-center text-slate-500">Both versions returned the same detections.</td></tr>
+                                )}
+                                {rows.map(row => (
+                                    <tr key={row.key} className="border-b border-slate-700">
+                                        <td className="px-4 py-2 font-semibold">{row.change}</td>
+                                        <td className="px-4 py-2">{describe(row.a)}</td>
+                                        <td className="px-4 py-2">{describe(row.b)}</td>
+                                        <td className="px-4 py-2">{row.iou !== undefined ? row.iou.toFixed(2) : '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Spinner } from './Spinner';
+
+interface QueueStatusProps {
+  pending: number;
+  failed: number;
+  isProcessing: boolean;
+  isAnalysisAvailable: boolean;
+  onProcessNow: () => void;
+  onRetryFailed: () => void;
+  onDiscardFailed: () => void;
+}
+
+export const QueueStatus: React.FC<QueueStatusProps> = ({ pending, failed, isProcessing, isAnalysisAvailable, onProcessNow, onRetryFailed, onDiscardFailed }) => {
+  if (pending === 0 && failed === 0 && !isProcessing) return null;
+
+  return (
+    <div className="mt-4 p-3 bg-slate-900/50 rounded-lg border border-yellow-700/60 flex flex-col sm:flex-row sm:items-center justify-between gap-3" role="status" aria-live="polite">
+      <div className="flex items-center gap-2 text-sm">
+        {isProcessing && <Spinner size="sm" />}
+        <span className="text-slate-300">
+          <span className="font-bold text-yellow-300">{pending}</span> queued for analysis
+          {failed > 0 && <>, <span className="font-bold text-red-400">{failed}</span> failed</>}
+        </span>
+        {!isAnalysisAvailable && <span className="text-xs text-slate-500">(waiting for connection)</span>}
+      </div>
+      <div className="flex items-center gap-2">
+        {pending > 0 && (
+          <button
+            onClick={onProcessNow}
+            disabled={isProcessing || !isAnalysisAvailable}
+            className="px-3 py-1 text-xs bg-yellow-600 hover:bg-yellow-500 text-white font-semibold rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? 'Processing...' : 'Process Now'}
+          </button>
+        )}
+        {failed > 0 && (
+          <>
+            <button onClick={onRetryFailed} disabled={isProcessing} className="px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-md disabled:opacity-50">
+              Retry Failed
+            </button>
+            <button onClick={onDiscardFailed} disabled={isProcessing} className="px-3 py-1 text-xs bg-red-700/80 hover:bg-red-600 text-white font-semibold rounded-md disabled:opacity-50">
+              Discard Failed
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
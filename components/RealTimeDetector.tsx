@@ -1,8 +1,10 @@
 import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { Spinner } from './Spinner';
 import { BackIcon, PauseIcon, PlayIcon, RecordIcon, StopIcon, ConfidenceIcon, DownloadIcon } from './IconComponents';
-import { analyzeRoadImage } from '../services/geminiService';
-import type { Defect, Location } from '../types';
+import { analyzeRoadImage } from '../services/detectionService';
+import { hasQueueStorageRoom } from '../services/analysisQueue';
+import { getCostSettings } from '../services/costSettings';
+import type { AnalysisOptions, Defect, Location } from '../types';
 import { DEFECT_COLORS } from '../constants';
 import { requestLocation } from '../utils/locationUtils';
 import { exportToCSV, exportSessionToPDF } from '../utils/exportUtils';
@@ -10,12 +12,31 @@ import { exportToCSV, exportSessionToPDF } from '../utils/exportUtils';
 
 interface RealTimeDetectorProps {
   onClose: (sessionData?: Defect[]) => void;
+  // Called for every analyzed frame that contained defects, with the JPEG frame itself.
+  onFrameAnalyzed?: (defects: Defect[], frame: Blob) => void;
+  // When provided, frames captured while offline are queued for later analysis instead of pausing the session.
+  onQueueFrame?: (frame: Blob, location: Location | null, options: AnalysisOptions) => Promise<void> | void;
   isOnline: boolean;
 }
 
+const REALTIME_OPTIONS: AnalysisOptions = {
+  isDeepScan: false,
+  isCrackPathAnalysis: false,
+  isHealthAnalysis: false,
+  isRealTime: true,
+  isFidelitySegmentation: false,
+  isInstanceSegmentation: false,
+};
+
+const OFFLINE_PAUSE_MESSAGE = 'Network connection lost. Analysis paused.';
+const OFFLINE_QUEUE_MESSAGE = 'Offline: frames are being queued and will be analyzed when the connection returns.';
+const QUEUE_FULL_MESSAGE = 'Offline frame queue is full. Analysis paused until the connection returns.';
+// Each queued frame is a full JPEG; this is 10 minutes of driving at one frame every 4 s.
+const MAX_QUEUED_FRAMES = 150;
+
 type SessionState = 'initializing_camera' | 'acquiring_gps' | 'running' | 'paused' | 'finished' | 'error';
 
-export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isOnline }) => {
+export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, onFrameAnalyzed, onQueueFrame, isOnline }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const isMounted = useRef(true);
@@ -23,6 +44,13 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
   const mediaRecorder = useRef<MediaRecorder | null>(null);
   const recordedChunks = useRef<Blob[]>([]);
   const locationInterval = useRef<number | null>(null);
+  // Kept in a ref so a new callback identity from the parent doesn't restart the analysis loop.
+  const onFrameAnalyzedRef = useRef(onFrameAnalyzed);
+  onFrameAnalyzedRef.current = onFrameAnalyzed;
+  const onQueueFrameRef = useRef(onQueueFrame);
+  onQueueFrameRef.current = onQueueFrame;
+  const isOnlineRef = useRef(isOnline);
+  isOnlineRef.current = isOnline;
 
   const [sessionState, setSessionState] = useState<SessionState>('initializing_camera');
   const [stream, setStream] = useState<MediaStream | null>(null);
@@ -34,6 +62,8 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
   const [recordedVideoUrl, setRecordedVideoUrl] = useState<string | null>(null);
   const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
   const [isExporting, setIsExporting] = useState(false);
+  const [queuedFrameCount, setQueuedFrameCount] = useState(0);
+  const queuedFrameCountRef = useRef(0);
 
 
   useEffect(() => {
@@ -85,25 +115,34 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
 
   // Effect to handle network status changes
   useEffect(() => {
+      if (onQueueFrame) {
+          // Keep running offline; the analysis loop queues frames instead of analyzing them.
+          if (!isOnline && sessionState === 'running' && error !== OFFLINE_QUEUE_MESSAGE) {
+              setError(OFFLINE_QUEUE_MESSAGE);
+          }
+          if (isOnline && error === OFFLINE_QUEUE_MESSAGE) {
+              setError(null);
+          }
+          if (isOnline && sessionState === 'paused' && error === QUEUE_FULL_MESSAGE) {
+              setSessionState('running');
+              setError(null);
+          }
+          return;
+      }
       if (!isOnline && sessionState === 'running') {
           setSessionState('paused');
-          setError('Network connection lost. Analysis paused.');
+          setError(OFFLINE_PAUSE_MESSAGE);
       }
-      if (isOnline && sessionState === 'paused' && error === 'Network connection lost. Analysis paused.') {
+      if (isOnline && sessionState === 'paused' && error === OFFLINE_PAUSE_MESSAGE) {
           setSessionState('running');
           setError(null);
       }
-  }, [isOnline, sessionState, error]);
+  }, [isOnline, sessionState, error, onQueueFrame]);
 
 
   // Effect for initial GPS lock
   useEffect(() => {
     if (sessionState !== 'acquiring_gps' || !isMounted.current) return;
-    if (!isOnline) {
-      setError("You are offline. Cannot get GPS signal.");
-      setSessionState('error');
-      return;
-    }
 
     const getInitialLocation = async () => {
       try {
@@ -124,7 +163,7 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
     };
 
     getInitialLocation();
-  }, [sessionState, isOnline]);
+  }, [sessionState]);
 
   // Effect for periodic location updates
   useEffect(() => {
@@ -137,7 +176,7 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
       }
     };
 
-    if (sessionState === 'running' && isOnline) {
+    if (sessionState === 'running') {
       // Start periodic updates after the initial lock is acquired.
       locationInterval.current = window.setInterval(fetchLocation, 5000); // Every 5 seconds
     } else {
@@ -146,7 +185,26 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
         locationInterval.current = null;
       }
     }
-  }, [sessionState, isOnline]);
+  }, [sessionState]);
+
+  const queueCurrentFrame = async (canvas: HTMLCanvasElement) => {
+    if (queuedFrameCountRef.current >= MAX_QUEUED_FRAMES || !(await hasQueueStorageRoom())) {
+      if (isMounted.current) {
+        setError(QUEUE_FULL_MESSAGE);
+        setSessionState('paused');
+      }
+      return;
+    }
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+    if (!blob || !onQueueFrameRef.current) return;
+    try {
+      await onQueueFrameRef.current(blob, currentLocation, REALTIME_OPTIONS);
+      queuedFrameCountRef.current++;
+      if (isMounted.current) setQueuedFrameCount(count => count + 1);
+    } catch (err) {
+      console.error("Failed to queue frame for later analysis:", err);
+    }
+  };
 
   useEffect(() => {
     if (sessionState !== 'running' || !stream) return;
@@ -168,27 +226,45 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
             canvas.height = video.videoHeight;
             context.drawImage(video, 0, 0, canvas.width, canvas.height);
 
+            if (!isOnlineRef.current && onQueueFrameRef.current) {
+              await queueCurrentFrame(canvas);
+              continue;
+            }
+
             const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
             const base64 = dataUrl.split(',')[1];
             if (!base64) continue;
             
+            const frameCapturedAt = new Date().toISOString();
             const result = await analyzeRoadImage(base64, 'image/jpeg', false, false, false, false, true);
             
             if (isMounted.current && sessionState === 'running') {
               const defectsWithLocation = result.defects.map(defect => ({
                 ...defect,
                 location: currentLocation,
+                capturedAt: frameCapturedAt,
               }));
               setLiveDefects(defectsWithLocation);
               setSessionDefects(prev => [...prev, ...defectsWithLocation]);
+              if (onFrameAnalyzedRef.current && defectsWithLocation.length > 0) {
+                canvas.toBlob(blob => {
+                  if (blob) onFrameAnalyzedRef.current?.(defectsWithLocation, blob);
+                }, 'image/jpeg', 0.8);
+              }
             }
           } catch (err) {
             console.error("Real-time analysis failed:", err);
             if (isMounted.current) {
               setLiveDefects([]); // Clear transient defects on error
               if (err instanceof Error && err.message.toLowerCase().includes('network error')) {
-                setError(err.message);
-                setSessionState('paused'); // Pause on network error
+                const canvas = canvasRef.current;
+                if (onQueueFrameRef.current && canvas) {
+                  // The frame is still on the canvas; queue it rather than losing it.
+                  await queueCurrentFrame(canvas);
+                } else {
+                  setError(err.message);
+                  setSessionState('paused'); // Pause on network error
+                }
               }
             }
           } finally {
@@ -209,7 +285,7 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
       setSessionState('paused');
       mediaRecorder.current?.pause();
     } else if (sessionState === 'paused') {
-      if (!isOnline) {
+      if (!isOnline && !onQueueFrame) {
           setError('Cannot resume. You are offline.');
           return;
       }
@@ -260,7 +336,7 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
   const handleExportPDF = async () => {
     setIsExporting(true);
     try {
-        await exportSessionToPDF(sessionDefects);
+        await exportSessionToPDF(sessionDefects, undefined, getCostSettings());
     } catch (e) {
         console.error("Session PDF export failed", e);
         alert("Sorry, there was an error creating the PDF report.");
@@ -419,6 +495,7 @@ export const RealTimeDetector: React.FC<RealTimeDetectorProps> = ({ onClose, isO
       </div>
       <p className="text-center text-xs text-slate-500 mt-2">To prevent exceeding API rate limits, analysis is performed every 4 seconds.</p>
       {error && sessionState !== 'error' && <p className="text-center text-sm text-yellow-400 mt-2">{error}</p>}
+      {queuedFrameCount > 0 && <p className="text-center text-xs text-slate-400 mt-1">{queuedFrameCount} frame{queuedFrameCount === 1 ? '' : 's'} queued for analysis.</p>}
       <div className="mt-4 flex flex-col sm:flex-row justify-center items-center gap-4 flex-wrap">
         <button onClick={() => onClose(sessionDefects)} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-slate-600 hover:bg-slate-500 text-white font-bold rounded-lg shadow-lg">
             <BackIcon className="w-5 h-5" /> Back to Menu
@@ -0,0 +1,52 @@
+import React, { useMemo, useState } from 'react';
+import type { CostSettings, Defect } from '../types';
+import { CostSettingsEditor } from './CostSettingsEditor';
+import { estimateTotalCost, formatCost } from '../utils/costEstimator';
+
+interface RepairCostSummaryProps {
+    title: string;
+    defects: Defect[];
+    settings: CostSettings;
+    onSettingsChange: (settings: Partial<CostSettings>) => void;
+    onSettingsReset: () => void;
+}
+
+const SummaryCard: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+        <p className="text-sm font-semibold text-slate-400">{label}</p>
+        <p className="text-2xl font-bold text-amber-400">{value}</p>
+        {detail && <p className="text-xs text-slate-500 mt-1">{detail}</p>}
+    </div>
+);
+
+export const RepairCostSummary: React.FC<RepairCostSummaryProps> = ({ title, defects, settings, onSettingsChange, onSettingsReset }) => {
+    const [showRates, setShowRates] = useState(false);
+    const estimate = useMemo(() => estimateTotalCost(defects, settings), [defects, settings]);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between gap-3 mb-3">
+                <h3 className="text-xl font-bold text-slate-200">{title}</h3>
+                <button onClick={() => setShowRates(show => !show)} className="text-sm text-slate-400 hover:text-slate-200 underline">
+                    {showRates ? 'Hide unit rates' : 'Edit unit rates'}
+                </button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <SummaryCard
+                    label="Estimated Cost"
+                    value={formatCost(estimate.totalCost, settings.currency)}
+                    detail={`${formatCost(estimate.materialCost, settings.currency)} materials + ${formatCost(estimate.labourCost, settings.currency)} labour`}
+                />
+                <SummaryCard label="Asphalt" value={`${estimate.asphaltTonnes.toFixed(2)} t`} />
+                <SummaryCard label="Crack Sealant" value={`${estimate.sealantMetres.toFixed(1)} m`} />
+                <SummaryCard label="Labour" value={`${estimate.labourHours.toFixed(1)} h`} />
+            </div>
+            {estimate.unpricedCount > 0 && (
+                <p className="text-xs text-yellow-400 mt-2">
+                    {estimate.unpricedCount} defect{estimate.unpricedCount === 1 ? ' has' : 's have'} no measured size and {estimate.unpricedCount === 1 ? 'is' : 'are'} not included.
+                </p>
+            )}
+            {showRates && <CostSettingsEditor settings={settings} onChange={onSettingsChange} onReset={onSettingsReset} />}
+        </div>
+    );
+};
@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import type { CostSettings, Defect, RoadNetwork } from '../types';
+import { BenchmarkIcon, DownloadIcon } from './IconComponents';
+import { buildRepairCandidates, planRepairProgramme } from '../utils/repairPlanner';
+import { formatCost } from '../utils/costEstimator';
+import { exportRepairProgrammeToCSV } from '../utils/exportUtils';
+import type { SegmentAggregation } from '../utils/roadSegments';
+
+const YEAR_OPTIONS = [1, 2, 3, 5];
+const DEFAULT_ANNUAL_BUDGET = 50000;
+
+interface RepairPlannerProps {
+    defects: Defect[];
+    costSettings: CostSettings;
+    // With a road network, segment overlays become candidates and traffic weights apply.
+    network: RoadNetwork | null;
+    segmentation: SegmentAggregation | null;
+    segmentLength: number;
+}
+
+export const RepairPlanner: React.FC<RepairPlannerProps> = ({ defects, costSettings, network, segmentation, segmentLength }) => {
+    const [annualBudget, setAnnualBudget] = useState<number>(DEFAULT_ANNUAL_BUDGET);
+    const [years, setYears] = useState<number>(1);
+
+    const candidates = useMemo(
+        () => buildRepairCandidates(defects, costSettings, network && segmentation ? { network, aggregation: segmentation, segmentLengthM: segmentLength } : null),
+        [defects, costSettings, network, segmentation, segmentLength]
+    );
+    const programme = useMemo(() => planRepairProgramme(candidates, annualBudget, years), [candidates, annualBudget, years]);
+    const unpricedCount = defects.length - candidates.filter(c => c.kind === 'defect').length;
+    const money = (amount: number) => formatCost(amount, costSettings.currency);
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3">
+                <h3 className="text-xl font-bold text-slate-200 flex items-center gap-2"><BenchmarkIcon className="w-6 h-6 text-cyan-400" /> Repair Programme</h3>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                        Annual budget ({costSettings.currency})
+                        <input
+                            type="number"
+                            min={0}
+                            step={1000}
+                            value={annualBudget}
+                            onChange={(e) => setAnnualBudget(Math.max(0, Number(e.target.value) || 0))}
+                            className="w-32 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                        />
+                    </label>
+                    <select
+                        value={years}
+                        onChange={(e) => setYears(Number(e.target.value))}
+                        aria-label="Programme length"
+                        className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-sm text-slate-200"
+                    >
+                        {YEAR_OPTIONS.map(y => <option key={y} value={y}>{y} year{y === 1 ? '' : 's'}</option>)}
+                    </select>
+                    <button
+                        onClick={() => exportRepairProgrammeToCSV(programme, costSettings.currency)}
+                        disabled={programme.scheduled.length === 0 && programme.deferred.length === 0}
+                        className="inline-flex items-center gap-2 px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-md disabled:opacity-50"
+                    >
+                        <DownloadIcon className="w-4 h-4" /> Schedule CSV
+                    </button>
+                </div>
+            </div>
+            <p className="text-xs text-slate-400 mb-3">
+                Repairs are funded in order of benefit per cost, where benefit is the PCI gain weighted by severity and road traffic{network ? '' : ' (load a road network to add segment overlays and traffic weights)'}. Costs use the unit rates of the repair estimate.
+                {unpricedCount > 0 && <span className="text-yellow-400"> {unpricedCount} defect{unpricedCount === 1 ? ' has' : 's have'} no measured size and cannot be planned.</span>}
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                {programme.spentByYear.map((spent, index) => (
+                    <div key={index} className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+                        <p className="text-sm font-semibold text-slate-400">Year {index + 1}</p>
+                        <p className="text-2xl font-bold text-cyan-400">{money(spent)}</p>
+                        <p className="text-xs text-slate-500">{programme.scheduled.filter(r => r.year === index + 1).length} repairs, {annualBudget > 0 ? Math.round(spent / annualBudget * 100) : 0}% of budget</p>
+                    </div>
+                ))}
+                <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+                    <p className="text-sm font-semibold text-slate-400">Deferred</p>
+                    <p className="text-2xl font-bold text-yellow-400">{programme.deferred.length}</p>
+                    <p className="text-xs text-slate-500">{money(programme.deferred.reduce((sum, c) => sum + c.cost, 0))} unfunded</p>
+                </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto bg-slate-800/50 rounded-lg border border-slate-700">
+                <table className="w-full text-sm text-left text-slate-300">
+                    <thead className="text-xs text-cyan-300 uppercase bg-slate-900/70 sticky top-0">
+                        <tr>
+                            <th scope="col" className="px-4 py-3">Year</th>
+                            <th scope="col" className="px-4 py-3">#</th>
+                            <th scope="col" className="px-4 py-3">Repair</th>
+                            <th scope="col" className="px-4 py-3">Treatment</th>
+                            <th scope="col" className="px-4 py-3">Cost</th>
+                            <th scope="col" className="px-4 py-3">PCI Gain</th>
+                            <th scope="col" className="px-4 py-3">Benefit / 1k</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {programme.scheduled.length === 0 && (
+                            <tr><td colSpan={7} className="px-4 py-3 text-center text-slate-500">No repair fits within the budget.</td></tr>
+                        )}
+                        {programme.scheduled.map(repair => (
+                            <tr key={repair.id} className="border-b border-slate-700">
+                                <td className="px-4 py-2">{repair.year}</td>
+                                <td className="px-4 py-2 text-slate-500">{repair.rank}</td>
+                                <td className="px-4 py-2">
+                                    <span className="font-semibold">{repair.label}</span>
+                                    {repair.kind === 'defect' && repair.roadName && <span className="ml-2 text-xs text-slate-500">{repair.roadName}</span>}
+                                </td>
+                                <td className="px-4 py-2">{repair.treatment}</td>
+                                <td className="px-4 py-2">{money(repair.cost)}</td>
+                                <td className="px-4 py-2">{repair.pciGain.toFixed(1)}</td>
+                                <td className="px-4 py-2">{(repair.benefit / repair.cost * 1000).toFixed(2)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -1,10 +1,14 @@
 import React from 'react';
-import type { Defect } from '../types';
+import type { CostEstimate, Defect } from '../types';
 import { DEFECT_COLORS } from '../constants';
-import { RulerIcon, AreaIcon, AlertIcon, InfoIcon, DepthIcon, VolumeIcon, LocationIcon, SegmentIcon, ConfidenceIcon, PathIcon, PerimeterIcon, CircularityIcon, LayersIcon } from './IconComponents';
+import { RulerIcon, AreaIcon, AlertIcon, InfoIcon, DepthIcon, VolumeIcon, LocationIcon, SegmentIcon, ConfidenceIcon, PathIcon, PerimeterIcon, CircularityIcon, LayersIcon, WrenchIcon } from './IconComponents';
+import { formatCost } from '../utils/costEstimator';
 
 interface ResultCardProps {
   defect: Defect;
+  // Repair estimate for this defect, shown when it could be priced.
+  cost?: CostEstimate;
+  currency?: string;
 }
 
 const SeverityBadge: React.FC<{ severity: 'Low' | 'Medium' | 'High' }> = ({ severity }) => {
@@ -21,13 +25,16 @@ const SeverityBadge: React.FC<{ severity: 'Low' | 'Medium' | 'High' }> = ({ seve
 };
 
 
-export const ResultCard: React.FC<ResultCardProps> = ({ defect }) => {
+export const ResultCard: React.FC<ResultCardProps> = ({ defect, cost, currency = 'USD' }) => {
   const colorInfo = DEFECT_COLORS[defect.type] || DEFECT_COLORS['Distress'];
 
   return (
     <div className={`rounded-xl overflow-hidden bg-slate-800/70 border ${colorInfo.border} shadow-lg transition-all duration-300 hover:shadow-cyan-500/20 hover:-translate-y-1`}>
       <div className={`p-4 border-b-2 ${colorInfo.border}`}>
-        <h4 className={`text-xl font-bold ${colorInfo.text}`}>{defect.type}</h4>
+        <div className="flex items-center justify-between gap-2">
+          <h4 className={`text-xl font-bold ${colorInfo.text}`}>{defect.type}</h4>
+          {defect.humanVerified && <span className="px-2 py-0.5 text-xs font-bold rounded bg-green-500/20 text-green-300">Verified</span>}
+        </div>
       </div>
       <div className="p-4 space-y-4 text-sm">
         <div className="flex items-start space-x-3">
@@ -125,6 +132,16 @@ export const ResultCard: React.FC<ResultCardProps> = ({ defect }) => {
                 </p>
             </div>
         )}
+
+        {cost && cost.pricedCount > 0 && (
+            <div className="flex items-center space-x-3">
+                 <WrenchIcon className="w-5 h-5 text-slate-400 flex-shrink-0"/>
+                <p className="text-slate-300">
+                    <span className="font-semibold text-slate-400">Est. Repair:</span> {formatCost(cost.totalCost, currency)}
+                    <span className="text-slate-500"> ({cost.sealantMetres > 0 ? `${cost.sealantMetres.toFixed(1)} m sealant` : `${cost.asphaltTonnes.toFixed(3)} t asphalt`}, {cost.labourHours.toFixed(1)} h)</span>
+                </p>
+            </div>
+        )}
         
         {typeof defect.perimeter_m === 'number' && (
             <div className="border-t border-slate-700 mt-4 pt-4 space-y-3">
@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { InspectionSession } from '../types';
+import { listSessions, renameSession, deleteSession } from '../services/sessionStore';
+import { EditIcon, PlayIcon, LayersIcon } from './IconComponents';
+import { Spinner } from './Spinner';
+
+interface SessionManagerProps {
+  activeSessionId: string | null;
+  // Bumped by the parent whenever the active session changes so the list stays current.
+  refreshKey: number;
+  onResume: (session: InspectionSession) => void;
+  onNewSession: () => void;
+  onDeleted: (sessionId: string) => void;
+  disabled: boolean;
+}
+
+export const SessionManager: React.FC<SessionManagerProps> = ({ activeSessionId, refreshKey, onResume, onNewSession, onDeleted, disabled }) => {
+  const [sessions, setSessions] = useState<InspectionSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load saved sessions.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions, refreshKey]);
+
+  const handleStartRename = (session: InspectionSession) => {
+    setEditingId(session.id);
+    setEditName(session.name);
+  };
+
+  const handleRename = async (sessionId: string) => {
+    try {
+      await renameSession(sessionId, editName);
+      setEditingId(null);
+      await loadSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rename session.");
+    }
+  };
+
+  const handleDelete = async (session: InspectionSession) => {
+    if (!window.confirm(`Delete "${session.name}" and all of its ${session.defectCount} defect(s)? This cannot be undone.`)) return;
+    try {
+      await deleteSession(session.id);
+      onDeleted(session.id);
+      await loadSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete session.");
+    }
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-slate-900/50 rounded-lg border border-slate-700">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <div className="flex items-center gap-2">
+          <LayersIcon className="w-5 h-5 text-cyan-400" />
+          <h3 className="text-lg font-bold text-slate-200">Inspection Sessions</h3>
+        </div>
+        <button
+          onClick={onNewSession}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          New Session
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4"><Spinner size="sm" /><span className="ml-2 text-sm text-slate-400">Loading sessions...</span></div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-slate-500">No saved sessions yet. Analyses are saved automatically once you start inspecting.</p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {sessions.map(session => {
+            const isActive = session.id === activeSessionId;
+            return (
+              <li key={session.id} className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-md ${isActive ? 'bg-cyan-900/30 border border-cyan-700' : 'bg-slate-800'}`}>
+                <div className="flex-grow min-w-0">
+                  {editingId === session.id ? (
+                    <form onSubmit={(e) => { e.preventDefault(); handleRename(session.id); }} className="flex gap-2">
+                      <input
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        autoFocus
+                        className="flex-grow bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg p-1.5"
+                      />
+                      <button type="submit" className="px-2 text-sm text-cyan-400 hover:text-cyan-300 font-semibold">Save</button>
+                      <button type="button" onClick={() => setEditingId(null)} className="px-2 text-sm text-slate-400 hover:text-slate-300">Cancel</button>
+                    </form>
+                  ) : (
+                    <>
+                      <p className="font-semibold text-slate-200 truncate">
+                        {session.name}
+                        {isActive && <span className="ml-2 text-xs font-bold text-cyan-300">(active)</span>}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {session.defectCount} defect(s) · {session.analysisCount} analyses · updated {new Date(session.updatedAt).toLocaleString()}
+                      </p>
+                    </>
+                  )}
+                </div>
+                {editingId !== session.id && (
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => onResume(session)}
+                      disabled={disabled || isActive}
+                      className="inline-flex items-center gap-1 px-3 py-1 text-xs bg-cyan-700 hover:bg-cyan-600 text-white font-semibold rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <PlayIcon className="w-3 h-3" /> Resume
+                    </button>
+                    <button
+                      onClick={() => handleStartRename(session)}
+                      disabled={disabled}
+                      className="inline-flex items-center gap-1 px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-md disabled:opacity-50"
+                    >
+                      <EditIcon className="w-3 h-3" /> Rename
+                    </button>
+                    <button
+                      onClick={() => handleDelete(session)}
+                      disabled={disabled}
+                      className="px-3 py-1 text-xs bg-red-700/80 hover:bg-red-600 text-white font-semibold rounded-md disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
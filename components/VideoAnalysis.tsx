@@ -1,9 +1,11 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { VideoDefect, GpxPoint, Defect } from '../types';
-import { analyzeRoadImage } from '../services/geminiService';
+import type { VideoDefect, TrackedDefect, GpxPoint, Defect, AnalysisOptions, Location, QueuedVideoRun } from '../types';
+import { analyzeRoadImage } from '../services/detectionService';
 import { parseGpx } from '../utils/gpxParser';
-import { exportVideoReportToCSV, exportVideoReportToPDF } from '../utils/exportUtils';
+import { createVideoDefectTracker, cropFrameThumbnail } from '../utils/defectTracker';
+import { createId } from '../services/indexedDb';
+import { exportToGeoJSON, exportToKML, exportVideoReportToCSV, exportVideoReportToPDF } from '../utils/exportUtils';
 import { BackIcon, DownloadIcon, GpxIcon, VideoIcon, FullscreenIcon, ExitFullscreenIcon } from './IconComponents';
 import { Spinner } from './Spinner';
 import { ErrorMessage } from './ErrorMessage';
@@ -11,9 +13,20 @@ import { DEFECT_COLORS, DEFECT_TYPES } from '../constants';
 
 interface VideoAnalysisProps {
     onClose: (sessionData?: Defect[]) => void;
+    // When provided, an offline run extracts the frames and queues them for analysis on reconnect.
+    onQueueFrame?: (frame: Blob, location: Location | null, options: AnalysisOptions, timestamp: number, videoRun: QueuedVideoRun, capturedAt?: string) => Promise<void> | void;
     isOnline: boolean;
 }
 
+const VIDEO_FRAME_OPTIONS: AnalysisOptions = {
+    isDeepScan: false,
+    isCrackPathAnalysis: false,
+    isHealthAnalysis: false,
+    isRealTime: true,
+    isFidelitySegmentation: false,
+    isInstanceSegmentation: false,
+};
+
 // A custom hook for managing the analysis process in a cancellable way
 function useCancellableProcess() {
     const isCancelledRef = useRef(false);
@@ -37,14 +50,17 @@ function useCancellableProcess() {
     return { run, cancel };
 }
 
-export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline }) => {
+export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, onQueueFrame, isOnline }) => {
     const [videoFile, setVideoFile] = useState<File | null>(null);
     const [gpxFile, setGpxFile] = useState<File | null>(null);
     const [videoUrl, setVideoUrl] = useState<string>('');
-    const [status, setStatus] = useState<'idle' | 'processing' | 'done' | 'error'>('idle');
+    const [status, setStatus] = useState<'idle' | 'processing' | 'done' | 'queued' | 'error'>('idle');
+    const [queuedFrameCount, setQueuedFrameCount] = useState(0);
     const [progress, setProgress] = useState({ current: 0, total: 100, message: '', elapsedTime: '00:00', etr: '00:00' });
     const [error, setError] = useState<string | null>(null);
+    // Raw per-frame detections drive the video overlays; tracks are the de-duplicated report.
     const [results, setResults] = useState<VideoDefect[]>([]);
+    const [tracks, setTracks] = useState<TrackedDefect[]>([]);
     const [isExporting, setIsExporting] = useState(false);
     const [isRendering, setIsRendering] = useState(false);
     const [renderProgress, setRenderProgress] = useState(0);
@@ -83,6 +99,7 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
             setVideoUrl(URL.createObjectURL(file));
             setError(null);
             setResults([]);
+            setTracks([]);
             setStatus('idle');
         }
     };
@@ -126,15 +143,18 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
 
     const handleAnalyze = async () => {
         if (!videoFile) return;
-        if (!isOnline) {
+        if (!isOnline && !onQueueFrame) {
             setError("You are offline. An internet connection is required for video analysis.");
             setStatus('error');
             return;
         }
+        const isQueueRun = !isOnline;
 
         setStatus('processing');
+        setQueuedFrameCount(0);
         setError(null);
         setResults([]);
+        setTracks([]);
         setProgress({ current: 0, total: 100, message: 'Starting analysis...', elapsedTime: '00:00', etr: 'Calculating...' });
 
         const process = async (isCancelled: () => boolean) => {
@@ -170,6 +190,9 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
                 setProgress({ current: 0, total: totalFrames, message: 'Starting frame analysis...', elapsedTime: '00:00', etr: 'Calculating...' });
                 
                 const allDefects: VideoDefect[] = [];
+                const tracker = createVideoDefectTracker(analysisRate);
+                // Queued frames are analyzed one by one later and tracked per run then.
+                const videoRun: QueuedVideoRun = { id: createId(), frameInterval: analysisRate };
 
                 for (let i = 0; i < totalFrames; i++) {
                     if (isCancelled()) return;
@@ -190,7 +213,7 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
                     setProgress({ 
                         current: i, 
                         total: totalFrames, 
-                        message: `Analyzing frame ${i + 1}/${totalFrames} at ${timestamp.toFixed(1)}s`,
+                        message: `${isQueueRun ? 'Queuing' : 'Analyzing'} frame ${i + 1}/${totalFrames} at ${timestamp.toFixed(1)}s`,
                         elapsedTime: formatTime(elapsedSeconds),
                         etr: i > 1 ? formatTime(etrSeconds) : 'Calculating...'
                     });
@@ -208,17 +231,34 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
                     if (!ctx) continue;
                     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
 
+                    const location = gpxTrack.length > 0 ? interpolateLocation(timestamp, gpxTrack, videoStartTime) : null;
+                    // With a GPX track the frame's wall-clock time is known; without one only the video offset is.
+                    const capturedAt = gpxTrack.length > 0 ? new Date(videoStartTime + timestamp * 1000).toISOString() : undefined;
+
+                    if (isQueueRun && onQueueFrame) {
+                        const frame = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+                        if (!frame) continue;
+                        await onQueueFrame(frame, location, { ...VIDEO_FRAME_OPTIONS, targetDefects: selectedDefects }, timestamp, videoRun, capturedAt);
+                        setQueuedFrameCount(count => count + 1);
+                        continue;
+                    }
+
                     const base64 = canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
                     if (!base64) continue;
                     
                     // FIX: Corrected arguments for analyzeRoadImage call to match function signature.
                     const analysisResult = await analyzeRoadImage(base64, 'image/jpeg', false, false, false, false, true, false, selectedDefects);
-                    const location = gpxTrack.length > 0 ? interpolateLocation(timestamp, gpxTrack, videoStartTime) : null;
 
-                    const newDefects = analysisResult.defects.map(d => ({...d, timestamp, location: location || undefined }));
+                    const newDefects = analysisResult.defects.map(d => ({...d, timestamp, location: location || undefined, capturedAt }));
                     allDefects.push(...newDefects);
+                    tracker.update(newDefects, timestamp, box => cropFrameThumbnail(canvas, box));
                     if(isCancelled()) return;
                     setResults(prev => [...prev, ...newDefects]);
+                    setTracks(tracker.getTracks());
+                }
+                if (isQueueRun) {
+                    setStatus('queued');
+                    return;
                 }
                 setResults(allDefects.sort((a,b) => a.timestamp - b.timestamp));
                 setStatus('done');
@@ -285,12 +325,15 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
         }
     };
     
-    const handleExport = async (format: 'csv' | 'pdf') => {
+    const handleExport = async (format: 'csv' | 'pdf' | 'geojson' | 'kml') => {
         if (!videoFile) return;
         setIsExporting(true);
         try {
-            if (format === 'csv') exportVideoReportToCSV(results);
-            else await exportVideoReportToPDF(results, videoFile.name);
+            const baseName = videoFile.name.replace(/\.[^.]+$/, '');
+            if (format === 'csv') exportVideoReportToCSV(tracks);
+            else if (format === 'geojson') exportToGeoJSON(tracks, `${baseName}_defects.geojson`);
+            else if (format === 'kml') exportToKML(tracks, `${baseName}_defects.kml`);
+            else await exportVideoReportToPDF(tracks, videoFile.name, results.length);
         } catch (e) {
             setError(`Failed to export ${format} report.`);
         } finally {
@@ -303,6 +346,7 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
         setStatus('idle');
         setError(null);
         setResults([]);
+        setTracks([]);
     };
 
     const handleRenderVideo = async () => {
@@ -443,8 +487,8 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
                 )}
             </div>
              <div className="mt-6 flex flex-col sm:flex-row-reverse justify-center gap-4">
-                <button onClick={handleAnalyze} disabled={!videoFile || !isOnline || selectedDefects.length === 0} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-fuchsia-600 hover:bg-fuchsia-500 text-white font-bold rounded-lg shadow-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
-                    {selectedDefects.length === 0 ? "Select a defect type" : "Analyze Video"}
+                <button onClick={handleAnalyze} disabled={!videoFile || (!isOnline && !onQueueFrame) || selectedDefects.length === 0} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-fuchsia-600 hover:bg-fuchsia-500 text-white font-bold rounded-lg shadow-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    {selectedDefects.length === 0 ? "Select a defect type" : isOnline ? "Analyze Video" : "Queue Video for Analysis"}
                 </button>
                 <button onClick={() => onClose()} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-slate-600 hover:bg-slate-500 text-white font-bold rounded-lg">
                     <BackIcon className="w-5 h-5"/> Back
@@ -488,12 +532,25 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
              <p className="text-center text-xs text-slate-500 -mt-6">Hint: Use the fullscreen button on the video player for the best viewing experience with overlays.</p>
             <div>
                  <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mb-4">
-                    <h3 className="text-xl font-bold text-slate-200">Distress Report ({results.length})</h3>
-                    {results.length > 0 && (
+                    <h3 className="text-xl font-bold text-slate-200">
+                        Distress Report ({tracks.length} unique)
+                        {results.length > tracks.length && <span className="block text-xs font-normal text-slate-400">{results.length} detections merged across frames</span>}
+                    </h3>
+                    {tracks.length > 0 && (
                         <div className="flex items-center gap-3 flex-wrap justify-center">
                             <button onClick={() => handleExport('csv')} disabled={isExporting || isRendering} className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg disabled:opacity-50">
                                 <DownloadIcon className="w-4 h-4" /> Export CSV
                             </button>
+                            {tracks.some(track => track.location) && (
+                                <>
+                                    <button onClick={() => handleExport('geojson')} disabled={isExporting || isRendering} className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg disabled:opacity-50">
+                                        <DownloadIcon className="w-4 h-4" /> GeoJSON
+                                    </button>
+                                    <button onClick={() => handleExport('kml')} disabled={isExporting || isRendering} className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg disabled:opacity-50">
+                                        <DownloadIcon className="w-4 h-4" /> KML
+                                    </button>
+                                </>
+                            )}
                              <button onClick={() => handleExport('pdf')} disabled={isExporting || isRendering} className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-lg disabled:opacity-50">
                                 {isExporting ? <Spinner size="sm" /> : <DownloadIcon className="w-4 h-4" />} {isExporting ? 'Exporting...' : 'Export PDF'}
                             </button>
@@ -503,12 +560,13 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
                         </div>
                     )}
                 </div>
-                {results.length > 0 ? (
+                {tracks.length > 0 ? (
                     <div className="max-h-96 overflow-y-auto bg-slate-800/50 rounded-lg border border-slate-700">
                         <table className="w-full text-sm text-left text-slate-300">
                             <thead className="text-xs text-cyan-300 uppercase bg-slate-900/70 sticky top-0 backdrop-blur-sm">
                                 <tr>
-                                    <th className="px-4 py-3">Timestamp</th>
+                                    <th className="px-4 py-3">Best View</th>
+                                    <th className="px-4 py-3">Seen</th>
                                     <th className="px-4 py-3">Type</th>
                                     <th className="px-4 py-3">Severity</th>
                                     <th className="px-4 py-3">Confidence</th>
@@ -516,9 +574,15 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
                                 </tr>
                             </thead>
                             <tbody>
-                                {results.map((defect, index) => (
-                                    <tr key={index} onClick={() => handleRowClick(defect.timestamp)} className="border-b border-slate-700 hover:bg-slate-700/50 cursor-pointer">
-                                        <td className="px-4 py-2 font-mono">{defect.timestamp.toFixed(2)}s</td>
+                                {tracks.map(defect => (
+                                    <tr key={defect.trackId} onClick={() => handleRowClick(defect.timestamp)} className="border-b border-slate-700 hover:bg-slate-700/50 cursor-pointer">
+                                        <td className="px-4 py-2">
+                                            {defect.bestFrameUrl ? <img src={defect.bestFrameUrl} alt={`Best view of ${defect.type}`} className="h-12 w-auto rounded border border-slate-600" /> : <span className="font-mono">{defect.timestamp.toFixed(2)}s</span>}
+                                        </td>
+                                        <td className="px-4 py-2 font-mono whitespace-nowrap">
+                                            {defect.firstSeen === defect.lastSeen ? `${defect.firstSeen.toFixed(2)}s` : `${defect.firstSeen.toFixed(2)}–${defect.lastSeen.toFixed(2)}s`}
+                                            <span className="block text-xs text-slate-500">{defect.observationCount} frame{defect.observationCount === 1 ? '' : 's'}</span>
+                                        </td>
                                         <td className="px-4 py-2 font-semibold">{defect.type}</td>
                                         <td className="px-4 py-2">{defect.severity || 'N/A'}</td>
                                         <td className="px-4 py-2 font-mono">{typeof defect.confidence === 'number' ? `${(defect.confidence * 100).toFixed(1)}%` : 'N/A'}</td>
@@ -545,7 +609,7 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
                 )}
             </div>
             <div className="text-center pt-4">
-                <button onClick={() => onClose(results)} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-slate-600 hover:bg-slate-500 text-white font-bold rounded-lg shadow-lg">
+                <button onClick={() => onClose(tracks)} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-slate-600 hover:bg-slate-500 text-white font-bold rounded-lg shadow-lg">
                     <BackIcon className="w-5 h-5" /> Back to Menu
                 </button>
             </div>
@@ -557,6 +621,19 @@ export const VideoAnalysis: React.FC<VideoAnalysisProps> = ({ onClose, isOnline
             {status === 'idle' && renderIdle()}
             {status === 'processing' && renderProcessing()}
             {status === 'done' && renderDone()}
+            {status === 'queued' && (
+                <div className="p-6 md:p-8 text-center">
+                    <h2 className="text-2xl md:text-3xl font-bold text-center text-fuchsia-400 mb-4">Frames Queued</h2>
+                    <p className="text-slate-300">
+                        You are offline. {queuedFrameCount} frame{queuedFrameCount === 1 ? ' was' : 's were'} extracted and queued; they will be analyzed automatically when the connection returns and added to the current session.
+                    </p>
+                    <div className="mt-6">
+                        <button onClick={() => onClose()} className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 bg-slate-600 hover:bg-slate-500 text-white font-bold rounded-lg shadow-lg">
+                            <BackIcon className="w-5 h-5" /> Back to Menu
+                        </button>
+                    </div>
+                </div>
+            )}
             {status === 'error' && (
                 <div className="p-6 md:p-8">
                     {error && <ErrorMessage message={error} />}
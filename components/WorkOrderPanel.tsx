@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import type { WorkOrder, WorkOrderStatus } from '../types';
+import { DownloadIcon, WrenchIcon } from './IconComponents';
+import { exportWorkOrdersToCSV, exportWorkOrdersToJSON } from '../utils/exportUtils';
+import { formatChainageRange } from '../utils/roadSegments';
+
+const STATUSES: WorkOrderStatus[] = ['open', 'scheduled', 'done'];
+
+const STATUS_LABELS: Record<WorkOrderStatus, string> = { open: 'Open', scheduled: 'Scheduled', done: 'Done' };
+
+const PRIORITY_CLASSES: Record<WorkOrder['priority'], string> = {
+    High: 'bg-red-500/20 text-red-300',
+    Medium: 'bg-yellow-500/20 text-yellow-300',
+    Low: 'bg-green-500/20 text-green-300',
+};
+
+interface WorkOrderPanelProps {
+    orders: WorkOrder[];
+    onUpdate: (id: string, changes: Partial<Pick<WorkOrder, 'status' | 'scheduledFor'>>) => void;
+    onDelete: (id: string) => void;
+}
+
+export const WorkOrderPanel: React.FC<WorkOrderPanelProps> = ({ orders, onUpdate, onDelete }) => {
+    const [statusFilter, setStatusFilter] = useState<WorkOrderStatus | 'all'>('all');
+
+    const visibleOrders = useMemo(
+        () => statusFilter === 'all' ? orders : orders.filter(o => o.status === statusFilter),
+        [orders, statusFilter]
+    );
+    const counts = useMemo(() => {
+        const byStatus: Record<WorkOrderStatus, number> = { open: 0, scheduled: 0, done: 0 };
+        orders.forEach(o => { byStatus[o.status]++; });
+        return byStatus;
+    }, [orders]);
+
+    const handleStatusChange = (order: WorkOrder, status: WorkOrderStatus) => {
+        // Default a newly scheduled job to today so it can be adjusted rather than typed in.
+        const scheduledFor = status === 'scheduled' && !order.scheduledFor ? new Date().toISOString().slice(0, 10) : order.scheduledFor;
+        onUpdate(order.id, { status, scheduledFor });
+    };
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3">
+                <h3 className="text-xl font-bold text-slate-200 flex items-center gap-2"><WrenchIcon className="w-6 h-6 text-cyan-400" /> Work Orders</h3>
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value as WorkOrderStatus | 'all')}
+                        className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-sm text-slate-200"
+                        aria-label="Filter work orders by status"
+                    >
+                        <option value="all">All ({orders.length})</option>
+                        {STATUSES.map(status => <option key={status} value={status}>{STATUS_LABELS[status]} ({counts[status]})</option>)}
+                    </select>
+                    <button onClick={() => exportWorkOrdersToCSV(visibleOrders)} disabled={visibleOrders.length === 0} className="inline-flex items-center gap-2 px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-md disabled:opacity-50">
+                        <DownloadIcon className="w-4 h-4" /> CSV
+                    </button>
+                    <button onClick={() => exportWorkOrdersToJSON(visibleOrders)} disabled={visibleOrders.length === 0} className="inline-flex items-center gap-2 px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-md disabled:opacity-50">
+                        <DownloadIcon className="w-4 h-4" /> JSON
+                    </button>
+                </div>
+            </div>
+            {orders.length === 0 ? (
+                <p className="text-sm text-slate-500 bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+                    Select defects in the data table below, or use a road segment's "Work order" button, to raise maintenance jobs.
+                </p>
+            ) : (
+                <div className="max-h-96 overflow-y-auto bg-slate-800/50 rounded-lg border border-slate-700">
+                    <table className="w-full text-sm text-left text-slate-300">
+                        <thead className="text-xs text-cyan-300 uppercase bg-slate-900/70 sticky top-0">
+                            <tr>
+                                <th scope="col" className="px-4 py-3">Priority</th>
+                                <th scope="col" className="px-4 py-3">Work Order</th>
+                                <th scope="col" className="px-4 py-3">Treatment</th>
+                                <th scope="col" className="px-4 py-3">Quantity</th>
+                                <th scope="col" className="px-4 py-3">Status</th>
+                                <th scope="col" className="px-4 py-3"><span className="sr-only">Actions</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleOrders.map(order => (
+                                <tr key={order.id} className="border-b border-slate-700 align-top">
+                                    <td className="px-4 py-2">
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${PRIORITY_CLASSES[order.priority]}`}>{order.priority}</span>
+                                    </td>
+                                    <td className="px-4 py-2">
+                                        <p className="font-semibold">{order.title}</p>
+                                        <p className="text-xs text-slate-400">
+                                            {order.defectCount} defect{order.defectCount === 1 ? '' : 's'}
+                                            {order.roadName && order.startChainageM !== undefined && order.endChainageM !== undefined
+                                                ? ` · ${order.roadName} ${formatChainageRange(order.startChainageM, order.endChainageM)}`
+                                                : order.location ? ` · ${order.location.latitude.toFixed(5)}, ${order.location.longitude.toFixed(5)}` : ''}
+                                        </p>
+                                        {order.notes && <p className="text-xs text-slate-500">{order.notes}</p>}
+                                    </td>
+                                    <td className="px-4 py-2">{order.treatment}</td>
+                                    <td className="px-4 py-2 whitespace-nowrap">
+                                        {order.quantity.toFixed(1)} {order.unit}
+                                        {order.volumeM3 > 0 && <span className="block text-xs text-slate-400">{order.volumeM3.toFixed(3)} m³ fill</span>}
+                                    </td>
+                                    <td className="px-4 py-2 space-y-1">
+                                        <select
+                                            value={order.status}
+                                            onChange={(e) => handleStatusChange(order, e.target.value as WorkOrderStatus)}
+                                            className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                                            aria-label={`Status of ${order.title}`}
+                                        >
+                                            {STATUSES.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+                                        </select>
+                                        {order.status === 'scheduled' && (
+                                            <input
+                                                type="date"
+                                                value={order.scheduledFor ?? ''}
+                                                onChange={(e) => onUpdate(order.id, { scheduledFor: e.target.value || undefined })}
+                                                className="block bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-xs text-slate-200"
+                                                aria-label={`Scheduled date of ${order.title}`}
+                                            />
+                                        )}
+                                        {order.status === 'done' && order.completedAt && (
+                                            <p className="text-xs text-slate-400">{new Date(order.completedAt).toLocaleDateString()}</p>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-2 text-right">
+                                        <button onClick={() => onDelete(order.id)} className="text-xs text-slate-400 hover:text-red-400">Delete</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,46 +1,55 @@
 
 import type { Defect } from './types';
 
-export const DEFECT_COLORS: Record<Defect['type'], { border: string; bg: string; text: string }> = {
+// `hex` is the Tailwind 500 shade of each entry, for map and GIS export styling outside Tailwind.
+export const DEFECT_COLORS: Record<Defect['type'], { border: string; bg: string; text: string; hex: string }> = {
   'Pothole': {
     border: 'border-orange-500',
     bg: 'bg-orange-500/20',
-    text: 'text-orange-400'
+    text: 'text-orange-400',
+    hex: '#f97316'
   },
   'Rutting': {
     border: 'border-green-500',
     bg: 'bg-green-500/20',
-    text: 'text-green-400'
+    text: 'text-green-400',
+    hex: '#22c55e'
   },
   'Alligator Crack': {
     border: 'border-blue-500',
     bg: 'bg-blue-500/20',
-    text: 'text-blue-400'
+    text: 'text-blue-400',
+    hex: '#3b82f6'
   },
   'Longitudinal Crack': {
     border: 'border-orange-500',
     bg: 'bg-orange-500/20',
-    text: 'text-orange-400'
+    text: 'text-orange-400',
+    hex: '#f97316'
   },
   'Transverse Crack': {
     border: 'border-teal-500',
     bg: 'bg-teal-500/20',
-    text: 'text-teal-400'
+    text: 'text-teal-400',
+    hex: '#14b8a6'
   },
   'Block Crack': {
     border: 'border-purple-500',
     bg: 'bg-purple-500/20',
-    text: 'text-purple-400'
+    text: 'text-purple-400',
+    hex: '#a855f7'
   },
   'Roughness': {
     border: 'border-yellow-500',
     bg: 'bg-yellow-500/20',
-    text: 'text-yellow-400'
+    text: 'text-yellow-400',
+    hex: '#eab308'
   },
   'Distress': {
     border: 'border-indigo-500',
     bg: 'bg-indigo-500/20',
-    text: 'text-indigo-400'
+    text: 'text-indigo-400',
+    hex: '#6366f1'
   }
 };
 
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AnalysisResult, AreaHealthAssessment, QueuedAnalysis, QueueSummary } from '../types';
+import { getQueueSummary, processQueue, retryFailedItems, discardFailedItems, QUEUE_SYNC_MESSAGE } from '../services/analysisQueue';
+
+const RETRY_INTERVAL_MS = 30000;
+
+type OnItemAnalyzed = (item: QueuedAnalysis, result: AnalysisResult | AreaHealthAssessment) => Promise<void> | void;
+
+/**
+ * Drains the offline analysis queue whenever analysis becomes available again: on
+ * reconnect, when the service worker relays a background sync, and periodically as a
+ * fallback for browsers without Background Sync.
+ */
+export const useAnalysisQueue = (isAnalysisAvailable: boolean, onItemAnalyzed: OnItemAnalyzed) => {
+    const [summary, setSummary] = useState<QueueSummary>({ pending: 0, failed: 0 });
+    const [isProcessing, setIsProcessing] = useState(false);
+    const isProcessingRef = useRef(false);
+    const isAvailableRef = useRef(isAnalysisAvailable);
+    const onItemAnalyzedRef = useRef(onItemAnalyzed);
+
+    isAvailableRef.current = isAnalysisAvailable;
+    onItemAnalyzedRef.current = onItemAnalyzed;
+
+    const refresh = useCallback(async () => {
+        try {
+            setSummary(await getQueueSummary());
+        } catch (err) {
+            console.warn("Could not read the analysis queue:", err);
+        }
+    }, []);
+
+    const processNow = useCallback(async () => {
+        if (isProcessingRef.current || !isAvailableRef.current) return;
+        isProcessingRef.current = true;
+        setIsProcessing(true);
+        try {
+            await processQueue((item, result) => onItemAnalyzedRef.current(item, result));
+        } catch (err) {
+            console.error("Processing the analysis queue failed:", err);
+        } finally {
+            isProcessingRef.current = false;
+            setIsProcessing(false);
+            refresh();
+        }
+    }, [refresh]);
+
+    const retryFailed = useCallback(async () => {
+        await retryFailedItems();
+        await refresh();
+        processNow();
+    }, [refresh, processNow]);
+
+    const discardFailed = useCallback(async () => {
+        await discardFailedItems();
+        await refresh();
+    }, [refresh]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    useEffect(() => {
+        if (isAnalysisAvailable) processNow();
+    }, [isAnalysisAvailable, processNow]);
+
+    useEffect(() => {
+        const intervalId = window.setInterval(() => {
+            if (isAvailableRef.current) processNow();
+        }, RETRY_INTERVAL_MS);
+        return () => clearInterval(intervalId);
+    }, [processNow]);
+
+    useEffect(() => {
+        if (!('serviceWorker' in navigator)) return;
+        const handleMessage = (event: MessageEvent) => {
+            if (event.data?.type === QUEUE_SYNC_MESSAGE) processNow();
+        };
+        navigator.serviceWorker.addEventListener('message', handleMessage);
+        return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+    }, [processNow]);
+
+    return { ...summary, isProcessing, refresh, processNow, retryFailed, discardFailed };
+};
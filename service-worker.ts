@@ -2,7 +2,7 @@
 // FIX: Removed redundant declaration of 'self'. The 'webworker' lib reference already defines it.
 // declare const self: ServiceWorkerGlobalScope;
 
-const CACHE_NAME = 'roadguard-ai-cache-v2'; // Bumped version to ensure new SW activates
+const CACHE_NAME = 'roadguard-ai-cache-v3'; // Bumped version to ensure new SW activates
 const URLS_TO_CACHE = [
   '/',
   '/index.html',
@@ -13,29 +13,81 @@ const URLS_TO_CACHE = [
   '/App.tsx',
   // Components
   '/components/AnalysisDisplay.tsx',
+  '/components/AnnotationEditor.tsx',
   '/components/AreaHealthDisplay.tsx',
+  '/components/BackendSelector.tsx',
+  '/components/BatchAnalysis.tsx',
+  '/components/BenchmarkRunner.tsx',
   '/components/CameraCapture.tsx',
+  '/components/ChangeDetectionPanel.tsx',
+  '/components/CostSettingsEditor.tsx',
   '/components/ErrorMessage.tsx',
+  '/components/ForecastPanel.tsx',
   '/components/GisDashboard.tsx',
+  '/components/GisMap.tsx',
   '/components/Header.tsx',
   '/components/IconComponents.tsx',
   '/components/ImageUploader.tsx',
+  '/components/LabelMappingEditor.tsx',
   '/components/OfflineBanner.tsx',
+  '/components/PrCurveChart.tsx',
+  '/components/PromptComparison.tsx',
+  '/components/QueueStatus.tsx',
   '/components/RealTimeDetector.tsx',
+  '/components/RepairCostSummary.tsx',
+  '/components/RepairPlanner.tsx',
   '/components/ResultCard.tsx',
   '/components/SatelliteAnalysis.tsx',
+  '/components/SessionManager.tsx',
   '/components/SatelliteAnalysisDisplay.tsx',
   '/components/Spinner.tsx',
   '/components/VideoAnalysis.tsx',
   '/components/WelcomeScreen.tsx',
+  '/components/WorkOrderPanel.tsx',
+  // Hooks
+  '/hooks/useAnalysisQueue.ts',
   // Services & Utils
+  '/services/analysisCache.ts',
+  '/services/analysisQueue.ts',
+  '/services/annotationSettings.ts',
+  '/services/backendSettings.ts',
+  '/services/batchAnalysis.ts',
+  '/services/costSettings.ts',
+  '/services/detectionService.ts',
   '/services/geminiService.ts',
+  '/services/httpBackend.ts',
+  '/services/indexedDb.ts',
+  '/services/mockBackend.ts',
+  '/services/promptRegistry.ts',
+  '/services/roadNetworkStore.ts',
+  '/services/sessionStore.ts',
+  '/services/workOrderStore.ts',
+  '/utils/annotationParsers.ts',
+  '/utils/annotationWriters.ts',
+  '/utils/benchmarkUtils.ts',
+  '/utils/changeDetection.ts',
+  '/utils/costEstimator.ts',
+  '/utils/defectTracker.ts',
+  '/utils/detectionDiff.ts',
+  '/utils/deteriorationForecast.ts',
+  '/utils/exifParser.ts',
   '/utils/exportUtils.ts',
   '/utils/fileUtils.ts',
+  '/utils/geoPackageWriter.ts',
   '/utils/gpxParser.ts',
   '/utils/locationUtils.ts',
+  '/utils/pciCalculator.ts',
+  '/utils/repairPlanner.ts',
+  '/utils/responseValidator.ts',
+  '/utils/resultFileParser.ts',
+  '/utils/roadSegments.ts',
+  '/utils/shapefileWriter.ts',
+  '/utils/spatialClustering.ts',
+  '/utils/sqliteWriter.ts',
   '/utils/validationUtils.ts',
+  '/utils/workOrders.ts',
   '/utils/xmlParser.ts',
+  '/utils/zipUtils.ts',
   // App Logic & Types
   '/constants.ts',
   '/types.ts',
@@ -123,4 +175,22 @@ self.addEventListener('fetch', (event: FetchEvent) => {
       }
     })()
   );
-});
\ No newline at end of file
+});
+// Must match QUEUE_SYNC_TAG / QUEUE_SYNC_MESSAGE in services/analysisQueue.ts.
+const ANALYSIS_QUEUE_SYNC_TAG = 'roadguard-analysis-queue';
+const ANALYSIS_QUEUE_SYNC_MESSAGE = 'PROCESS_ANALYSIS_QUEUE';
+
+// The sync event fires once connectivity returns after the app queued offline analyses.
+// The analysis itself runs in the page (it needs the detection backend), so we wake every
+// open client and ask it to drain the queue.
+self.addEventListener('sync', (event: Event) => {
+  const syncEvent = event as ExtendableEvent & { tag: string };
+  if (syncEvent.tag !== ANALYSIS_QUEUE_SYNC_TAG) return;
+
+  syncEvent.waitUntil(
+    (self as unknown as ServiceWorkerGlobalScope).clients.matchAll({ type: 'window', includeUncontrolled: true })
+      .then((clients) => {
+        clients.forEach((client) => client.postMessage({ type: ANALYSIS_QUEUE_SYNC_MESSAGE }));
+      })
+  );
+});
@@ -0,0 +1,124 @@
+import type { AnalysisOptions, AnalysisResult, AreaHealthAssessment } from '../types';
+import type { DetectionBackend } from './detectionService';
+import { openDatabase, requestToPromise, transactionDone, STORES } from './indexedDb';
+
+// Whichever limit is reached first evicts the least recently used results.
+const MAX_ENTRIES = 500;
+const MAX_TOTAL_BYTES = 25 * 1024 * 1024;
+
+interface AnalysisCacheEntry {
+    key: string;
+    result: AnalysisResult | AreaHealthAssessment;
+    sizeBytes: number;
+    createdAt: string;
+    lastUsedAt: string;
+}
+
+export interface AnalysisCacheStats {
+    entries: number;
+    sizeBytes: number;
+}
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of the decoded image bytes, so the same photo hashes the same whatever it was
+ * loaded from. Returns null where Web Crypto is unavailable (insecure origins).
+ */
+const hashImage = async (base64Image: string): Promise<string | null> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+    const binary = atob(base64Image);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+const modeKey = (options: AnalysisOptions) => [
+    options.isDeepScan ? 'deep' : '',
+    options.isCrackPathAnalysis ? 'crackpath' : '',
+    options.isHealthAnalysis ? 'health' : '',
+    options.isFidelitySegmentation ? 'fidelity' : '',
+    options.isInstanceSegmentation ? 'instance' : '',
+    options.targetDefects?.length ? `targets=${[...options.targetDefects].sort().join(',')}` : '',
+].filter(Boolean).join('+') || 'standard';
+
+/**
+ * Builds the cache key for an analysis: the backend and its model/prompt version, the image
+ * hash and the mode flags. Returns null when the request should not be cached: the backend
+ * has no `cacheVersion`, it is a real-time frame, or the image cannot be hashed.
+ */
+export async function getAnalysisCacheKey(base64Image: string, backend: DetectionBackend, options: AnalysisOptions): Promise<string | null> {
+    if (!backend.cacheVersion || options.isRealTime) return null;
+    try {
+        const hash = await hashImage(base64Image);
+        return hash ? `${backend.id}|${backend.cacheVersion(options)}|${modeKey(options)}|${hash}` : null;
+    } catch (e) {
+        console.warn("Could not hash the image for the analysis cache.", e);
+        return null;
+    }
+}
+
+/**
+ * Returns the stored result for `key` and marks it as recently used, or null on a miss.
+ * Cache errors are logged and treated as a miss.
+ */
+export async function getCachedAnalysis(key: string): Promise<AnalysisResult | AreaHealthAssessment | null> {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction(STORES.analysisCache, 'readwrite');
+        const store = tx.objectStore(STORES.analysisCache);
+        const entry = await requestToPromise<AnalysisCacheEntry | undefined>(store.get(key));
+        if (!entry) return null;
+        store.put({ ...entry, lastUsedAt: new Date().toISOString() });
+        await transactionDone(tx);
+        return entry.result;
+    } catch (e) {
+        console.warn("Could not read the analysis cache.", e);
+        return null;
+    }
+}
+
+/**
+ * Stores a validated result, then evicts the least recently used entries until the cache is
+ * within `MAX_ENTRIES` and `MAX_TOTAL_BYTES`. Failures are logged and otherwise ignored.
+ */
+export async function putCachedAnalysis(key: string, result: AnalysisResult | AreaHealthAssessment): Promise<void> {
+    try {
+        const now = new Date().toISOString();
+        const entry: AnalysisCacheEntry = { key, result, sizeBytes: JSON.stringify(result).length, createdAt: now, lastUsedAt: now };
+        if (entry.sizeBytes > MAX_TOTAL_BYTES) return;
+
+        const db = await openDatabase();
+        const tx = db.transaction(STORES.analysisCache, 'readwrite');
+        const store = tx.objectStore(STORES.analysisCache);
+        store.put(entry);
+        const entries = await requestToPromise<AnalysisCacheEntry[]>(store.getAll());
+        entries.sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+        let count = entries.length;
+        let totalBytes = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+        for (const oldest of entries) {
+            if (count <= MAX_ENTRIES && totalBytes <= MAX_TOTAL_BYTES) break;
+            if (oldest.key === key) continue;
+            store.delete(oldest.key);
+            count--;
+            totalBytes -= oldest.sizeBytes;
+        }
+        await transactionDone(tx);
+    } catch (e) {
+        console.warn("Could not write to the analysis cache.", e);
+    }
+}
+
+export async function getAnalysisCacheStats(): Promise<AnalysisCacheStats> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.analysisCache, 'readonly');
+    const entries = await requestToPromise<AnalysisCacheEntry[]>(tx.objectStore(STORES.analysisCache).getAll());
+    return { entries: entries.length, sizeBytes: entries.reduce((sum, e) => sum + e.sizeBytes, 0) };
+}
+
+export async function clearAnalysisCache(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.analysisCache, 'readwrite');
+    tx.objectStore(STORES.analysisCache).clear();
+    await transactionDone(tx);
+}
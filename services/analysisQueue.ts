@@ -0,0 +1,180 @@
+import type { AnalysisOptions, AnalysisResult, AreaHealthAssessment, Location, QueuedAnalysis, QueuedVideoRun, QueueSummary, SessionSource } from '../types';
+import { openDatabase, requestToPromise, transactionDone, createId, STORES } from './indexedDb';
+import { analyzeRoadImageWithOptions } from './detectionService';
+import { fileToBase64 } from '../utils/fileUtils';
+
+export const QUEUE_SYNC_TAG = 'roadguard-analysis-queue';
+export const QUEUE_SYNC_MESSAGE = 'PROCESS_ANALYSIS_QUEUE';
+
+// Held while a tab drains the queue, so other tabs (each woken by the same sync message) skip it.
+const QUEUE_LOCK_NAME = 'roadguard-analysis-queue';
+const MAX_ATTEMPTS = 5;
+const STORAGE_FULL_RATIO = 0.9;
+const BASE_RETRY_DELAY_MS = 15000;
+
+interface EnqueueInput {
+    sessionId: string;
+    source: SessionSource;
+    image: Blob;
+    location: Location | null;
+    options: AnalysisOptions;
+    timestamp?: number;
+    videoRun?: QueuedVideoRun;
+    capturedAt?: string;
+}
+
+// The Background Sync API is not part of the standard DOM typings.
+interface SyncManager {
+    register: (tag: string) => Promise<void>;
+}
+
+const hasSyncManager = (registration: ServiceWorkerRegistration): registration is ServiceWorkerRegistration & { sync: SyncManager } =>
+    'sync' in registration;
+
+/**
+ * Asks the service worker to fire a background sync once connectivity returns.
+ * Browsers without the Background Sync API fall back to the in-app retry scheduler.
+ */
+const requestBackgroundSync = async () => {
+    if (!('serviceWorker' in navigator)) return;
+    try {
+        const registration = await navigator.serviceWorker.ready;
+        if (hasSyncManager(registration)) {
+            await registration.sync.register(QUEUE_SYNC_TAG);
+        }
+    } catch (err) {
+        console.warn("Background sync registration failed; relying on in-app retries.", err);
+    }
+};
+
+export async function enqueueAnalysis(input: EnqueueInput): Promise<QueuedAnalysis> {
+    const db = await openDatabase();
+    const item: QueuedAnalysis = {
+        ...input,
+        id: createId(),
+        createdAt: new Date().toISOString(),
+        mimeType: input.image.type || 'image/jpeg',
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: 0,
+    };
+    const tx = db.transaction(STORES.analysisQueue, 'readwrite');
+    tx.objectStore(STORES.analysisQueue).add(item);
+    await transactionDone(tx);
+    requestBackgroundSync();
+    return item;
+}
+
+/**
+ * False when the origin's storage is nearly full, so callers that queue continuously can
+ * stop before writes start failing. Browsers without a storage estimate always have room.
+ */
+export async function hasQueueStorageRoom(): Promise<boolean> {
+    if (!navigator.storage?.estimate) return true;
+    try {
+        const { usage, quota } = await navigator.storage.estimate();
+        return !usage || !quota || usage / quota < STORAGE_FULL_RATIO;
+    } catch (err) {
+        console.warn("Could not estimate storage usage:", err);
+        return true;
+    }
+}
+
+export async function listQueue(): Promise<QueuedAnalysis[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.analysisQueue, 'readonly');
+    const items = await requestToPromise<QueuedAnalysis[]>(tx.objectStore(STORES.analysisQueue).getAll());
+    return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getQueueSummary(): Promise<QueueSummary> {
+    const items = await listQueue();
+    return {
+        pending: items.filter(i => i.status === 'pending').length,
+        failed: items.filter(i => i.status === 'failed').length,
+    };
+}
+
+const putItem = async (item: QueuedAnalysis) => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.analysisQueue, 'readwrite');
+    tx.objectStore(STORES.analysisQueue).put(item);
+    await transactionDone(tx);
+};
+
+const removeItem = async (id: string) => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.analysisQueue, 'readwrite');
+    tx.objectStore(STORES.analysisQueue).delete(id);
+    await transactionDone(tx);
+};
+
+/**
+ * Moves every failed item back to pending so the next run retries it from scratch.
+ */
+export async function retryFailedItems(): Promise<void> {
+    const failed = (await listQueue()).filter(i => i.status === 'failed');
+    for (const item of failed) {
+        await putItem({ ...item, status: 'pending', attempts: 0, nextAttemptAt: 0, lastError: undefined });
+    }
+}
+
+export async function discardFailedItems(): Promise<void> {
+    const failed = (await listQueue()).filter(i => i.status === 'failed');
+    for (const item of failed) {
+        await removeItem(item.id);
+    }
+}
+
+const isConnectivityError = (message: string) => {
+    const lower = message.toLowerCase();
+    return lower.includes('network error') || lower.includes('failed to fetch') || lower.includes('rate limit');
+};
+
+type OnAnalyzed = (item: QueuedAnalysis, result: AnalysisResult | AreaHealthAssessment) => Promise<void> | void;
+
+const drainQueue = async (onAnalyzed: OnAnalyzed): Promise<number> => {
+    const now = Date.now();
+    const due = (await listQueue()).filter(i => i.status === 'pending' && i.nextAttemptAt <= now);
+    let processed = 0;
+
+    for (const item of due) {
+        try {
+            const base64 = await fileToBase64(item.image);
+            const result = await analyzeRoadImageWithOptions(base64, item.mimeType, item.options);
+            await onAnalyzed(item, result);
+            await removeItem(item.id);
+            processed++;
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            const attempts = item.attempts + 1;
+            const failed = attempts >= MAX_ATTEMPTS;
+            await putItem({
+                ...item,
+                attempts,
+                status: failed ? 'failed' : 'pending',
+                nextAttemptAt: Date.now() + BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1),
+                lastError: message,
+            });
+            if (isConnectivityError(message)) {
+                console.warn("Queued analysis paused: connectivity problem.", message);
+                break;
+            }
+        }
+    }
+    return processed;
+};
+
+/**
+ * Analyzes every pending item that is due, oldest first. Successful items are handed to
+ * `onAnalyzed` and removed from the queue. A connectivity or rate-limit error stops the
+ * run (the remaining items would fail the same way); other errors are retried with
+ * exponential backoff until MAX_ATTEMPTS, after which the item is marked as failed.
+ * Only one tab drains the queue at a time; a call made while another tab is draining
+ * returns straight away.
+ * @returns The number of items analyzed successfully.
+ */
+export async function processQueue(onAnalyzed: OnAnalyzed): Promise<number> {
+    if (!('locks' in navigator)) return drainQueue(onAnalyzed);
+    return navigator.locks.request(QUEUE_LOCK_NAME, { ifAvailable: true }, lock => lock ? drainQueue(onAnalyzed) : 0);
+}
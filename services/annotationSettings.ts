@@ -0,0 +1,45 @@
+import type { AnnotationSettings } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'roadguard-annotation-settings';
+
+// RDD2022 damage codes and class order, the most common public road-damage dataset.
+const DEFAULT_SETTINGS: AnnotationSettings = {
+    labelMapping: {
+        'D00': 'Longitudinal Crack',
+        'D10': 'Transverse Crack',
+        'D20': 'Alligator Crack',
+        'D40': 'Pothole',
+    },
+    yoloClassNames: ['D00', 'D10', 'D20', 'D40'],
+};
+
+let currentSettings: AnnotationSettings | null = null;
+
+/**
+ * Reads the ground-truth label mapping used by validation, falling back to the RDD2022
+ * defaults when nothing has been stored.
+ */
+export const getAnnotationSettings = (): AnnotationSettings => {
+    if (currentSettings) return currentSettings;
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : {};
+        currentSettings = { ...DEFAULT_SETTINGS, ...parsed };
+    } catch (e) {
+        console.warn("Could not read annotation settings, using defaults.", e);
+        currentSettings = { ...DEFAULT_SETTINGS };
+    }
+    return currentSettings!;
+};
+
+export const saveAnnotationSettings = (settings: Partial<AnnotationSettings>): AnnotationSettings => {
+    currentSettings = { ...getAnnotationSettings(), ...settings };
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(currentSettings));
+    } catch (e) {
+        console.warn("Could not persist annotation settings.", e);
+    }
+    return currentSettings;
+};
+
+export const resetAnnotationSettings = (): AnnotationSettings => saveAnnotationSettings(DEFAULT_SETTINGS);
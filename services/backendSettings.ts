@@ -0,0 +1,41 @@
+import type { DetectionBackendId, DetectionBackendSettings } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'roadguard-detection-backend';
+const KNOWN_BACKENDS: DetectionBackendId[] = ['gemini', 'mock', 'http'];
+
+const DEFAULT_SETTINGS: DetectionBackendSettings = {
+    backendId: 'gemini',
+    httpEndpoint: 'http://localhost:8000/analyze',
+};
+
+let currentSettings: DetectionBackendSettings | null = null;
+
+/**
+ * Reads the detection backend settings, falling back to the Gemini backend when
+ * nothing (or something unrecognised) has been stored.
+ */
+export const getBackendSettings = (): DetectionBackendSettings => {
+    if (currentSettings) return currentSettings;
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : {};
+        currentSettings = { ...DEFAULT_SETTINGS, ...parsed };
+    } catch (e) {
+        console.warn("Could not read detection backend settings, using defaults.", e);
+        currentSettings = { ...DEFAULT_SETTINGS };
+    }
+    if (!KNOWN_BACKENDS.includes(currentSettings!.backendId)) {
+        currentSettings!.backendId = DEFAULT_SETTINGS.backendId;
+    }
+    return currentSettings!;
+};
+
+export const saveBackendSettings = (settings: Partial<DetectionBackendSettings>): DetectionBackendSettings => {
+    currentSettings = { ...getBackendSettings(), ...settings };
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(currentSettings));
+    } catch (e) {
+        console.warn("Could not persist detection backend settings.", e);
+    }
+    return currentSettings;
+};
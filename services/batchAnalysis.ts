@@ -0,0 +1,90 @@
+import type { AnalysisOptions, AnalysisResult, AreaHealthAssessment } from '../types';
+import { analyzeRoadImageWithOptions } from './detectionService';
+import { fileToBase64 } from '../utils/fileUtils';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// Each backend already retries 429s internally (see generateContentWithRetry); when it
+// finally gives up, the whole pool cools down before trying that image again.
+const RATE_LIMIT_COOLDOWN_MS = 15000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+const isRateLimitError = (err: unknown) =>
+    err instanceof Error && err.message.toLowerCase().includes('rate limit');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface BatchRunHandlers {
+    concurrency?: number;
+    isCancelled: () => boolean;
+    onStart: (index: number) => void;
+    onSuccess: (index: number, result: AnalysisResult | AreaHealthAssessment) => Promise<void> | void;
+    onFailure: (index: number, message: string) => void;
+    // Called when the pool pauses because the backend is rate limiting; `until` is epoch ms.
+    onCooldown?: (until: number | null) => void;
+}
+
+/**
+ * Analyzes a list of images with at most `concurrency` requests in flight. A rate-limit
+ * error that survives the backend's own retries puts every worker into a shared cooldown
+ * (doubling on each consecutive hit) and re-runs the image afterwards, so a large batch
+ * slows down instead of failing wholesale.
+ */
+export async function runBatchAnalysis(
+    files: File[],
+    options: AnalysisOptions,
+    { concurrency = DEFAULT_BATCH_CONCURRENCY, isCancelled, onStart, onSuccess, onFailure, onCooldown }: BatchRunHandlers
+): Promise<void> {
+    const workerCount = Math.max(1, Math.min(concurrency, MAX_BATCH_CONCURRENCY, files.length));
+    const rateLimitRetries = new Array<number>(files.length).fill(0);
+    const retryQueue: number[] = [];
+    let nextIndex = 0;
+    let cooldownUntil = 0;
+    let consecutiveRateLimits = 0;
+
+    const takeNext = (): number | null => {
+        if (retryQueue.length > 0) return retryQueue.shift()!;
+        if (nextIndex < files.length) return nextIndex++;
+        return null;
+    };
+
+    const waitForCooldown = async () => {
+        while (!isCancelled() && Date.now() < cooldownUntil) {
+            await sleep(Math.min(500, cooldownUntil - Date.now()));
+        }
+    };
+
+    const worker = async () => {
+        while (!isCancelled()) {
+            await waitForCooldown();
+            if (isCancelled()) return;
+            const index = takeNext();
+            if (index === null) return;
+
+            const file = files[index];
+            onStart(index);
+            try {
+                const base64 = await fileToBase64(file);
+                const result = await analyzeRoadImageWithOptions(base64, file.type || 'image/jpeg', options);
+                consecutiveRateLimits = 0;
+                if (!isCancelled()) await onSuccess(index, result);
+            } catch (err) {
+                if (isRateLimitError(err) && rateLimitRetries[index] < MAX_RATE_LIMIT_RETRIES) {
+                    rateLimitRetries[index]++;
+                    consecutiveRateLimits++;
+                    cooldownUntil = Math.max(cooldownUntil, Date.now() + RATE_LIMIT_COOLDOWN_MS * Math.pow(2, consecutiveRateLimits - 1));
+                    onCooldown?.(cooldownUntil);
+                    retryQueue.push(index);
+                    console.warn(`Batch analysis rate limited; pausing until ${new Date(cooldownUntil).toLocaleTimeString()}.`);
+                    continue;
+                }
+                const message = err instanceof Error ? err.message : "An unknown error occurred during analysis.";
+                onFailure(index, message);
+            }
+            if (Date.now() >= cooldownUntil) onCooldown?.(null);
+        }
+    };
+
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+}
@@ -0,0 +1,49 @@
+import type { CostSettings } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'roadguard-cost-settings';
+
+// Indicative rates only; agencies are expected to enter their own contract prices.
+const DEFAULT_SETTINGS: CostSettings = {
+    currency: 'USD',
+    patchMaterial: 'Cold Mix',
+    coldMixPerTonne: 180,
+    hotMixPerTonne: 110,
+    crackSealantPerMetre: 2.5,
+    labourPerHour: 45,
+    coldMixDensity: 2.2,
+    hotMixDensity: 2.35,
+    defaultPatchDepthM: 0.05,
+    patchHoursPerSqM: 0.5,
+    crackSealHoursPerMetre: 0.02,
+};
+
+let currentSettings: CostSettings | null = null;
+
+/**
+ * Reads the unit-rate table used for repair estimates, falling back to the defaults for
+ * anything that has not been stored.
+ */
+export const getCostSettings = (): CostSettings => {
+    if (currentSettings) return currentSettings;
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : {};
+        currentSettings = { ...DEFAULT_SETTINGS, ...parsed };
+    } catch (e) {
+        console.warn("Could not read cost settings, using defaults.", e);
+        currentSettings = { ...DEFAULT_SETTINGS };
+    }
+    return currentSettings!;
+};
+
+export const saveCostSettings = (settings: Partial<CostSettings>): CostSettings => {
+    currentSettings = { ...getCostSettings(), ...settings };
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(currentSettings));
+    } catch (e) {
+        console.warn("Could not persist cost settings.", e);
+    }
+    return currentSettings;
+};
+
+export const resetCostSettings = (): CostSettings => saveCostSettings(DEFAULT_SETTINGS);
@@ -0,0 +1,93 @@
+import type { AnalysisResult, AreaHealthAssessment, AnalysisOptions, DetectionBackendId, ImageAnalysisType } from '../types';
+import { geminiBackend } from './geminiService';
+import { mockBackend } from './mockBackend';
+import { httpBackend } from './httpBackend';
+import { getBackendSettings } from './backendSettings';
+import { validateAnalysisResponse } from '../utils/responseValidator';
+import { getAnalysisCacheKey, getCachedAnalysis, putCachedAnalysis } from './analysisCache';
+
+/**
+ * A pluggable inference backend. Every screen goes through `analyzeRoadImage`,
+ * which forwards the request to whichever backend is currently selected.
+ */
+export interface DetectionBackend {
+    id: DetectionBackendId;
+    label: string;
+    description: string;
+    // When false, the backend can be used while the device is offline.
+    requiresNetwork: boolean;
+    // Identifies the model and prompt used for a request. Results are cached per version;
+    // backends without one are never cached.
+    cacheVersion?: (options: AnalysisOptions) => string;
+    analyze: (base64Image: string, mimeType: string, options: AnalysisOptions) => Promise<AnalysisResult | AreaHealthAssessment>;
+}
+
+export const DETECTION_BACKENDS: DetectionBackend[] = [geminiBackend, mockBackend, httpBackend];
+
+export const getBackend = (id: DetectionBackendId): DetectionBackend => {
+    return DETECTION_BACKENDS.find(b => b.id === id) || geminiBackend;
+};
+
+export const getActiveBackend = (): DetectionBackend => getBackend(getBackendSettings().backendId);
+
+/**
+ * Maps a still-image analysis mode to the backend flags. Detailed analysis combines the
+ * deep scan, crack path tracing and high-fidelity segmentation.
+ */
+export const getImageAnalysisOptions = (analysisType: ImageAnalysisType): AnalysisOptions => {
+    const isDetailed = analysisType === 'detailed';
+    return {
+        isDeepScan: isDetailed,
+        isCrackPathAnalysis: isDetailed,
+        isHealthAnalysis: analysisType === 'health',
+        isRealTime: false,
+        isFidelitySegmentation: isDetailed,
+        isInstanceSegmentation: analysisType === 'instance',
+    };
+};
+
+export async function analyzeRoadImage(
+    base64Image: string,
+    mimeType: string,
+    isDeepScan: boolean,
+    isCrackPathAnalysis: boolean,
+    isHealthAnalysis: boolean,
+    isRealTime: boolean = false,
+    isFidelitySegmentation: boolean = false,
+    isInstanceSegmentation: boolean = false,
+    targetDefects?: string[]
+): Promise<AnalysisResult | AreaHealthAssessment> {
+    const options: AnalysisOptions = {
+        isDeepScan,
+        isCrackPathAnalysis,
+        isHealthAnalysis,
+        isRealTime,
+        isFidelitySegmentation,
+        isInstanceSegmentation,
+        targetDefects,
+    };
+    return analyzeRoadImageWithOptions(base64Image, mimeType, options);
+}
+
+export async function analyzeRoadImageWithOptions(
+    base64Image: string,
+    mimeType: string,
+    options: AnalysisOptions
+): Promise<AnalysisResult | AreaHealthAssessment> {
+    const backend = getActiveBackend();
+    // Repeat analyses of the same image and mode are served from the cache, so they are
+    // instant and return the same detections.
+    const cacheKey = await getAnalysisCacheKey(base64Image, backend, options);
+    if (cacheKey) {
+        const cached = await getCachedAnalysis(cacheKey);
+        if (cached) return cached;
+    }
+
+    const raw = await backend.analyze(base64Image, mimeType, options);
+    const result = validateAnalysisResponse(raw, options);
+    if (result.warnings) {
+        console.warn(`Repaired or dropped ${result.warnings.length} problem(s) in the detection response:`, result.warnings);
+    }
+    if (cacheKey) await putCachedAnalysis(cacheKey, result);
+    return result;
+}
@@ -1,11 +1,23 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { AnalysisResult, SatelliteAnalysisResult, AreaHealthAssessment, Defect } from '../types';
+import { GoogleGenAI, Type } from "@google/genai";
+import type { AnalysisResult, SatelliteAnalysisResult, AreaHealthAssessment, AnalysisOptions } from '../types';
+import type { DetectionBackend } from './detectionService';
+import { buildAnalysisPrompt, getPromptVersion } from './promptRegistry';
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
+let ai: GoogleGenAI | null = null;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Lazily creates the Gemini client so that the app can still boot (e.g. with the
+ * mock backend) when no API key has been configured.
+ */
+const getClient = (): GoogleGenAI => {
+    if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable not set");
+    }
+    if (!ai) {
+        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return ai;
+};
 
 /**
  * A wrapper for the Gemini API call that includes a retry mechanism with exponential backoff.
@@ -23,7 +35,7 @@ async function generateContentWithRetry(
     let attempt = 0;
     while (attempt <= maxRetries) {
         try {
-            const response = await ai.models.generateContent(params);
+            const response = await getClient().models.generateContent(params);
             return response;
         } catch (error: any) {
             // The @google/genai SDK often includes the status code in the error's string representation.
@@ -50,6 +62,10 @@ async function generateContentWithRetry(
 }
 
 
+/**
+ * Builds the Gemini response schema, version 1 in `PromptVersion.schemaVersion` terms.
+ * Breaking changes here need a new schema version and a prompt version that targets it.
+ */
 const getResponseSchema = (
     isDeepScan: boolean, 
     isCrackPathAnalysis: boolean, 
@@ -234,127 +250,18 @@ const getResponseSchema = (
 };
 
 
-export async function analyzeRoadImage(
+// The model used for road image analysis; recorded on every result.
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+async function analyzeRoadImageWithGemini(
     base64Image: string, 
     mimeType: string, 
-    isDeepScan: boolean, 
-    isCrackPathAnalysis: boolean, 
-    isHealthAnalysis: boolean,
-    isRealTime: boolean = false,
-    isFidelitySegmentation: boolean = false,
-    isInstanceSegmentation: boolean = false,
-    targetDefects?: string[]
+    options: AnalysisOptions
 ): Promise<AnalysisResult | AreaHealthAssessment> {
+    const { isDeepScan, isCrackPathAnalysis, isHealthAnalysis, isRealTime, isFidelitySegmentation, isInstanceSegmentation } = options;
 
-    const realTimePromptAddition = `
-        IMPORTANT: You are in Video Frame Analysis mode. Your primary goal is maximum precision and detail.
-        Analyze this single video frame as if you were a meticulous on-site inspector.
-        For each detected defect, you MUST provide a comprehensive set of data:
-        - A precise bounding box.
-        - A confidence score.
-        - A clear, descriptive text of the defect.
-        - Estimated real-world dimensions (length, width, depth in m), area (sq_m), and volume (m³) where applicable.
-        - A severity classification ('Low', 'Medium', 'High').
-        Do NOT prioritize speed over accuracy; thoroughness is paramount. Base your estimations for depth and volume on visual cues like shadows and perspective.
-    `;
-    
-    const detailedAnalysisPromptAddition = `
-        IMPORTANT: You are in Detailed Analysis mode. Your analysis must be highly comprehensive.
-        - For EVERY detected defect, you MUST provide a 'segmentationPolygon'. This polygon must be precise, tracing the exact pixel-level boundary.
-        - ADDITIONALLY, for each defect identified as a crack ('Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', 'Block Crack'), you MUST also provide a 'centerlinePath', which is a simplified line representing the main path of the crack.
-        - For all defects, provide standard analysis like boundingBox, dimensions, and severity.
-    `;
-
-    const fidelitySegmentationPromptAddition = `
-        IMPORTANT: You are in High-Fidelity Pothole Segmentation mode.
-        Your primary task is to act as a highly specialized U-Net computer vision model trained exclusively for pothole segmentation.
-        - You MUST focus ONLY on defects of type 'Pothole'. Ignore all other defect types like cracks or rutting.
-        - For each detected pothole, you MUST provide a 'segmentationPolygon'. This polygon must be extremely precise, tracing the exact pixel-level boundary of the pothole, similar to the output of a U-Net model.
-        - Provide a standard 'boundingBox' as well.
-        - Your response must be highly accurate and focused.
-    `;
-
-    const crackPathPromptAddition = `
-        IMPORTANT: You are in Crack Path Analysis mode.
-        For each defect identified as a crack ('Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', 'Block Crack'), you MUST provide a 'centerlinePath'.
-        The 'centerlinePath' is an array of {x, y} point objects that trace the skeleton or centerline of the crack. This should be a simplified line representing the main path of the crack, not its full outline.
-        The coordinates must be percentages of the image's dimensions (from 0.0 to 1.0).
-        For non-crack defects like 'Pothole', this 'centerlinePath' field should be omitted.
-    `;
-    
-    const healthPromptAddition = `
-        IMPORTANT: You are in Area Health Assessment mode.
-        In addition to identifying individual defects, you MUST provide a holistic assessment of the entire road section shown in the image.
-        Provide the following in the root of the JSON object:
-        - "pciScore": An estimated Pavement Condition Index score from 0 (failed) to 100 (excellent).
-        - "summary": A concise, expert summary of the overall pavement condition.
-        - "potentialCauses": A list of potential root causes for the observed distress (e.g., "Sub-base failure due to moisture", "Material fatigue").
-        - "recommendations": A list of recommended maintenance or repair actions (e.g., "Mill and overlay", "Full-depth patching", "Crack sealing").
-    `;
-
-    const instancePromptAddition = `
-        IMPORTANT: You must perform an INSTANCE SEGMENTATION of the road defects.
-        Your task is to identify and outline every individual instance of a defect.
-        
-        The final JSON output MUST contain a 'defects' array and root-level keys for pothole statistics.
-
-        1.  "defects" array: This is for countable objects ("things").
-            - The "thing" classes are: 'Pothole', 'Rutting', 'Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', 'Block Crack', 'Roughness', 'Distress'.
-            - For EACH detected instance, you MUST provide:
-                - A precise 'segmentationPolygon'.
-                - A unique 'instanceId' (integer, e.g., 1, 2, 3...).
-                - A 'boundingBox', 'type', 'description', and 'confidence'.
-        
-        2. "Pothole Statistics" (at the root of the JSON):
-            - "pothole_count": The total number of individual pothole instances detected.
-            - "pothole_density_sq_m": An estimation of the number of potholes per square meter of visible road surface in the image.
-
-        Do NOT identify or segment amorphous background regions like 'Road' or 'Sky'. Focus only on the defect instances.
-    `;
-
-    const targetDefectsPromptAddition = (targetDefects && targetDefects.length > 0)
-    ? `
-IMPORTANT: Focus your analysis ONLY on the following defect types: ${targetDefects.join(', ')}. Ignore all other types of road distress.`
-    : '';
-
-    let modeSpecificPrompt = "";
-    if (isInstanceSegmentation) {
-        modeSpecificPrompt = instancePromptAddition;
-    } else if (isFidelitySegmentation && isCrackPathAnalysis) {
-        modeSpecificPrompt = detailedAnalysisPromptAddition;
-    } else if (isFidelitySegmentation) {
-        modeSpecificPrompt = fidelitySegmentationPromptAddition;
-    } else if (isCrackPathAnalysis) {
-        modeSpecificPrompt = crackPathPromptAddition;
-    }
-    
-    if (isHealthAnalysis) {
-        modeSpecificPrompt += `\n${healthPromptAddition}`;
-    }
-
-    const basePrompt = `
-        You are an expert civil engineer specializing in road infrastructure assessment using advanced computer vision techniques.
-        Analyze the provided image of a road surface. Your task is to identify and locate all instances of road distress and segment the entire scene.
-        For every defect you identify, you MUST provide a 'confidence' score between 0.0 and 1.0, representing your certainty in the detection.
-        ${targetDefectsPromptAddition}
-        ${isRealTime ? realTimePromptAddition : modeSpecificPrompt}
-        
-        ${!isRealTime ? `
-            For defects of type 'Pothole', you MUST also provide:
-            - Estimated real-world dimensions (length_m, width_m, depth_m).
-            - Calculated area_sq_m.
-            - Calculated volume_m3 (in cubic meters).
-            - A severity classification.
-            Base your estimations for depth and volume on visual cues like shadows and perspective.
-
-            For defect types 'Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', and 'Block Crack', you MUST also provide estimated real-world dimensions (total length, average width) in meters and a severity classification.
-            For other defect types, these measurement fields can be omitted.
-        ` : ""}
-        
-        The defect types to identify are: 'Pothole', 'Rutting', 'Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', 'Block Crack', 'Roughness', 'Distress'.
-        
-        Return your findings as a structured JSON object according to the provided schema. Bounding boxes are always required for all defects.
-    `;
+    const promptVersion = getPromptVersion(options.promptVersion);
+    const basePrompt = buildAnalysisPrompt(promptVersion, options);
 
     const config: any = {
         responseMimeType: "application/json",
@@ -367,7 +274,7 @@ IMPORTANT: Focus your analysis ONLY on the following defect types: ${targetDefec
 
     try {
         const response = await generateContentWithRetry({
-            model: 'gemini-2.5-flash',
+            model: ANALYSIS_MODEL,
             contents: {
                 parts: [
                     { inlineData: { data: base64Image, mimeType: mimeType } },
@@ -378,11 +285,21 @@ IMPORTANT: Focus your analysis ONLY on the following defect types: ${targetDefec
         });
 
         const jsonText = response.text.trim();
-        const result: AnalysisResult | AreaHealthAssessment = JSON.parse(jsonText);
+        let result: AnalysisResult | AreaHealthAssessment;
+        try {
+            result = JSON.parse(jsonText);
+        } catch (e) {
+            throw new Error("Invalid response format from AI. The response was not valid JSON.");
+        }
+        if (result && typeof result === 'object') {
+            result.promptVersion = promptVersion.id;
+            result.schemaVersion = promptVersion.schemaVersion;
+            result.modelVersion = ANALYSIS_MODEL;
+        }
         
-        if (isFidelitySegmentation && result.defects) {
+        if (isFidelitySegmentation && Array.isArray(result?.defects)) {
             for (const defect of result.defects) {
-                if (defect.segmentationPolygon && defect.segmentationPolygon.length > 2 && defect.dimensions && defect.area_sq_m) {
+                if (Array.isArray(defect?.segmentationPolygon) && defect.segmentationPolygon.length > 2 && defect.dimensions && defect.boundingBox && defect.area_sq_m) {
                     const { length_m, width_m } = defect.dimensions;
                     const { x_min, y_min, x_max, y_max } = defect.boundingBox;
         
@@ -415,21 +332,8 @@ IMPORTANT: Focus your analysis ONLY on the following defect types: ${targetDefec
             }
         }
         
-        if (isInstanceSegmentation) {
-             if (!result.defects || !Array.isArray(result.defects) || typeof result.pothole_count !== 'number') {
-                throw new Error("Invalid response for Instance Segmentation. 'defects' array or 'pothole_count' not found.");
-            }
-        } else if (isHealthAnalysis) {
-             const healthResult = result as AreaHealthAssessment;
-             if (typeof healthResult.pciScore !== 'number' || !healthResult.summary || !Array.isArray(healthResult.defects)) {
-                 throw new Error("Invalid response format for Health Assessment.");
-             }
-             return healthResult;
-        } else if (!isHealthAnalysis && (!result.defects || !Array.isArray(result.defects))) {
-            throw new Error("Invalid response format from AI. 'defects' array not found.");
-        }
-
-        return result as AnalysisResult;
+        // The response shape is checked and repaired in `analyzeRoadImageWithOptions`.
+        return result;
 
     } catch (error) {
         console.error("Error during Gemini API call or processing:", error);
@@ -446,6 +350,15 @@ IMPORTANT: Focus your analysis ONLY on the following defect types: ${targetDefec
     }
 }
 
+export const geminiBackend: DetectionBackend = {
+    id: 'gemini',
+    label: 'Google Gemini (gemini-2.5-flash)',
+    description: 'Cloud inference using the Gemini API. Requires an internet connection and an API key.',
+    requiresNetwork: true,
+    cacheVersion: (options) => `${ANALYSIS_MODEL}/${getPromptVersion(options.promptVersion).id}`,
+    analyze: analyzeRoadImageWithGemini,
+};
+
 const satelliteResponseSchema = {
     type: Type.OBJECT,
     properties: {
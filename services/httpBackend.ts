@@ -0,0 +1,81 @@
+import type { AnalysisResult, AreaHealthAssessment, AnalysisOptions } from '../types';
+import type { DetectionBackend } from './detectionService';
+import { getBackendSettings } from './backendSettings';
+
+const REQUEST_TIMEOUT_MS = 60000;
+// Recorded when the server does not report which model produced a result.
+const UNVERSIONED_MODEL = 'self-hosted (unversioned)';
+
+/**
+ * Sends the image to a self-hosted inference server.
+ *
+ * The server receives `{ image, mimeType, options }` as JSON (the image is base64 encoded,
+ * `options` mirrors `AnalysisOptions`) and must answer with an `AnalysisResult`-shaped JSON
+ * body (plus the Area Health fields when `options.isHealthAnalysis` is set). The body should
+ * name the model that produced it in `modelVersion`, so stored results stay traceable.
+ */
+async function analyzeRoadImageWithHttp(
+    base64Image: string,
+    mimeType: string,
+    options: AnalysisOptions
+): Promise<AnalysisResult | AreaHealthAssessment> {
+    const { httpEndpoint, httpApiKey } = getBackendSettings();
+    if (!httpEndpoint) {
+        throw new Error("No endpoint configured for the self-hosted detection backend.");
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (httpApiKey) {
+        headers['Authorization'] = `Bearer ${httpApiKey}`;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = window.setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+        const response = await fetch(httpEndpoint, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ image: base64Image, mimeType, options }),
+            signal: controller.signal,
+        });
+
+        if (response.status === 429) {
+            throw new Error("API rate limit exceeded. The application made too many requests. Please wait a moment and try again.");
+        }
+        if (!response.ok) {
+            throw new Error(`Detection server responded with ${response.status} ${response.statusText}.`);
+        }
+
+        const result = await response.json();
+        if (result && typeof result === 'object' && typeof result.modelVersion !== 'string') {
+            result.modelVersion = UNVERSIONED_MODEL;
+        }
+
+        // The response shape is checked and repaired in `analyzeRoadImageWithOptions`.
+        return result as AnalysisResult | AreaHealthAssessment;
+
+    } catch (error) {
+        console.error("Error during self-hosted detection call:", error);
+        if (error instanceof Error) {
+            if (error.name === 'AbortError') {
+                throw new Error("The detection server did not respond in time.");
+            }
+            if (error.message.toLowerCase().includes('failed to fetch')) {
+                throw new Error("Network error. Could not reach the detection server.");
+            }
+            throw error;
+        }
+        throw new Error("An unexpected error occurred during analysis.");
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+export const httpBackend: DetectionBackend = {
+    id: 'http',
+    label: 'Self-hosted model (HTTP)',
+    description: 'Posts each image to your own inference server, e.g. a YOLO or U-Net model on the local network.',
+    requiresNetwork: true,
+    analyze: analyzeRoadImageWithHttp,
+};
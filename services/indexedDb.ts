@@ -0,0 +1,108 @@
+const DB_NAME = 'roadguard-ai';
+const DB_VERSION = 4;
+
+export const STORES = {
+    sessions: 'sessions',
+    media: 'media',
+    analyses: 'analyses',
+    defects: 'defects',
+    analysisQueue: 'analysisQueue',
+    workOrders: 'workOrders',
+    analysisCache: 'analysisCache',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const createId = (): string => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/**
+ * Creates or migrates the object stores. Each `oldVersion` step only adds what that
+ * schema version introduced, so existing user data survives upgrades.
+ */
+const upgradeSchema = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+
+        const media = db.createObjectStore(STORES.media, { keyPath: 'id' });
+        media.createIndex('sessionId', 'sessionId', { unique: false });
+
+        const analyses = db.createObjectStore(STORES.analyses, { keyPath: 'id' });
+        analyses.createIndex('sessionId', 'sessionId', { unique: false });
+
+        const defects = db.createObjectStore(STORES.defects, { keyPath: 'id', autoIncrement: true });
+        defects.createIndex('sessionId', 'sessionId', { unique: false });
+    }
+    if (oldVersion < 2) {
+        const queue = db.createObjectStore(STORES.analysisQueue, { keyPath: 'id' });
+        queue.createIndex('sessionId', 'sessionId', { unique: false });
+    }
+    if (oldVersion < 3) {
+        db.createObjectStore(STORES.workOrders, { keyPath: 'id' });
+    }
+    if (oldVersion < 4) {
+        db.createObjectStore(STORES.analysisCache, { keyPath: 'key' });
+    }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+            reject(new Error("IndexedDB is not supported by your browser. Sessions cannot be saved."));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => upgradeSchema(request.result, event.oldVersion);
+        request.onsuccess = () => {
+            const db = request.result;
+            // Let a newer version open in another tab upgrade the schema; the next call reopens.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error || new Error("Failed to open the local database."));
+        // The upgrade waits for older tabs to close their connection, then onsuccess fires.
+        request.onblocked = () => console.warn("The local database upgrade is waiting for other RoadGuard tabs to close.");
+    });
+    // Allow a later retry if opening failed.
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error("Database transaction was aborted."));
+    });
+};
+
+/**
+ * Deletes every record in `storeName` whose `sessionId` index matches the given id.
+ */
+export const deleteByIndex = (tx: IDBTransaction, storeName: string, indexValue: string) => {
+    const index = tx.objectStore(storeName).index('sessionId');
+    const cursorRequest = index.openCursor(IDBKeyRange.only(indexValue));
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+            cursor.delete();
+            cursor.continue();
+        }
+    };
+};
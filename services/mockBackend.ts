@@ -0,0 +1,152 @@
+import type { AnalysisResult, AreaHealthAssessment, AnalysisOptions, Defect, Point, BoundingBox } from '../types';
+import type { DetectionBackend } from './detectionService';
+import { DEFECT_TYPES } from '../constants';
+
+const CRACK_TYPES: Defect['type'][] = ['Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', 'Block Crack'];
+const SEVERITIES: NonNullable<Defect['severity']>[] = ['Low', 'Medium', 'High'];
+const SIMULATED_LATENCY_MS = 300;
+// Recorded as the results' model version. Bump it whenever the generated fixtures change.
+const MOCK_FIXTURE_VERSION = 'mock-fixtures-1';
+
+/**
+ * FNV-1a hash of the image payload. Identical images always produce the same seed,
+ * which keeps the fixture output stable across runs.
+ */
+const hashString = (input: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Mulberry32 PRNG: small, fast and good enough for fixture data.
+const createRandom = (seed: number) => {
+    let state = seed;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const round = (n: number, digits = 3) => Number(n.toFixed(digits));
+
+const ellipsePolygon = (box: BoundingBox, vertexCount = 12): Point[] => {
+    const cx = (box.x_min + box.x_max) / 2;
+    const cy = (box.y_min + box.y_max) / 2;
+    const rx = (box.x_max - box.x_min) / 2;
+    const ry = (box.y_max - box.y_min) / 2;
+    return Array.from({ length: vertexCount }, (_, i) => {
+        const angle = (2 * Math.PI * i) / vertexCount;
+        return { x: round(cx + rx * Math.cos(angle), 4), y: round(cy + ry * Math.sin(angle), 4) };
+    });
+};
+
+const diagonalPath = (box: BoundingBox): Point[] => {
+    const steps = 4;
+    return Array.from({ length: steps + 1 }, (_, i) => ({
+        x: round(box.x_min + ((box.x_max - box.x_min) * i) / steps, 4),
+        y: round(box.y_min + ((box.y_max - box.y_min) * i) / steps, 4),
+    }));
+};
+
+/**
+ * Produces a plausible, fully deterministic analysis without any network access.
+ * Intended for offline development, demos and UI testing.
+ */
+async function analyzeRoadImageWithMock(
+    base64Image: string,
+    _mimeType: string,
+    options: AnalysisOptions
+): Promise<AnalysisResult | AreaHealthAssessment> {
+    await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+
+    const random = createRandom(hashString(base64Image));
+
+    let candidateTypes: Defect['type'][] = options.isFidelitySegmentation && !options.isCrackPathAnalysis
+        ? ['Pothole']
+        : [...DEFECT_TYPES];
+    if (options.targetDefects && options.targetDefects.length > 0) {
+        candidateTypes = candidateTypes.filter(t => options.targetDefects!.includes(t));
+    }
+
+    const defectCount = candidateTypes.length > 0 ? Math.floor(random() * 5) : 0;
+    const withPolygons = options.isDeepScan || options.isFidelitySegmentation || options.isInstanceSegmentation;
+    const defects: Defect[] = [];
+
+    for (let i = 0; i < defectCount; i++) {
+        const type = candidateTypes[Math.floor(random() * candidateTypes.length)];
+        const width = 0.1 + random() * 0.3;
+        const height = 0.08 + random() * 0.25;
+        const x_min = random() * (1 - width);
+        const y_min = random() * (1 - height);
+        const boundingBox: BoundingBox = {
+            x_min: round(x_min, 4),
+            y_min: round(y_min, 4),
+            x_max: round(x_min + width, 4),
+            y_max: round(y_min + height, 4),
+        };
+        const severity = SEVERITIES[Math.floor(random() * SEVERITIES.length)];
+        const defect: Defect = {
+            type,
+            boundingBox,
+            description: `Simulated ${type.toLowerCase()} (${severity.toLowerCase()} severity) generated by the offline mock backend.`,
+            confidence: round(0.55 + random() * 0.44, 2),
+            severity,
+        };
+
+        if (type === 'Pothole') {
+            const length_m = round(0.3 + random() * 1.2, 2);
+            const width_m = round(0.2 + random() * 0.9, 2);
+            const depth_m = round(0.02 + random() * 0.12, 3);
+            defect.dimensions = { length_m, width_m, depth_m };
+            defect.area_sq_m = round(Math.PI * (length_m / 2) * (width_m / 2), 3);
+            defect.volume_m3 = round(defect.area_sq_m * depth_m, 4);
+        } else if (CRACK_TYPES.includes(type)) {
+            defect.dimensions = { length_m: round(0.5 + random() * 4, 2), width_m: round(0.003 + random() * 0.02, 3) };
+            if (options.isCrackPathAnalysis) {
+                defect.centerlinePath = diagonalPath(boundingBox);
+            }
+        }
+
+        if (withPolygons) {
+            defect.segmentationPolygon = ellipsePolygon(boundingBox);
+        }
+        if (options.isInstanceSegmentation) {
+            defect.instanceId = i + 1;
+        }
+        defects.push(defect);
+    }
+
+    const result: AnalysisResult = { defects, modelVersion: MOCK_FIXTURE_VERSION };
+
+    if (options.isInstanceSegmentation) {
+        result.pothole_count = defects.filter(d => d.type === 'Pothole').length;
+        result.pothole_density_sq_m = round(result.pothole_count / 25, 3);
+    }
+
+    if (options.isHealthAnalysis) {
+        const highCount = defects.filter(d => d.severity === 'High').length;
+        const assessment: AreaHealthAssessment = {
+            ...result,
+            pciScore: Math.max(5, Math.round(95 - defects.length * 8 - highCount * 10 - random() * 10)),
+            summary: `Mock assessment: ${defects.length} simulated defect(s) found in this road section.`,
+            potentialCauses: defects.length > 0 ? ['Simulated material fatigue', 'Simulated drainage deficiency'] : [],
+            recommendations: defects.length > 0 ? ['Crack sealing', 'Localized patching'] : ['Routine monitoring'],
+        };
+        return assessment;
+    }
+
+    return result;
+}
+
+export const mockBackend: DetectionBackend = {
+    id: 'mock',
+    label: 'Offline mock (deterministic)',
+    description: 'Generates repeatable fixture detections locally. Works offline; results are not real.',
+    requiresNetwork: false,
+    analyze: analyzeRoadImageWithMock,
+};
@@ -0,0 +1,184 @@
+import type { AnalysisOptions } from '../types';
+
+/**
+ * One version of the image analysis prompts. Versions are never edited once results have
+ * been produced with them: change a prompt by adding a new version, so every stored result
+ * can be traced back to the exact wording (and response schema) that produced it.
+ * Only the Gemini backend uses prompts; the mock and self-hosted backends trace their
+ * results through `AnalysisResult.modelVersion` alone.
+ */
+export interface PromptVersion {
+    id: string;
+    label: string;
+    // What changed compared with the previous version.
+    notes: string;
+    // The version of the Gemini response schema the prompts were written for.
+    schemaVersion: number;
+    realTime: string;
+    detailedAnalysis: string;
+    fidelitySegmentation: string;
+    crackPath: string;
+    health: string;
+    instance: string;
+    targetDefects: (types: string[]) => string;
+    // Wraps the mode-specific instructions into the full prompt.
+    base: (parts: { targetDefects: string; modeSpecific: string; isRealTime: boolean }) => string;
+}
+
+const V1: PromptVersion = {
+    id: 'v1',
+    label: 'v1 – original prompts',
+    notes: 'The prompts the app shipped with.',
+    schemaVersion: 1,
+
+    realTime: `
+        IMPORTANT: You are in Video Frame Analysis mode. Your primary goal is maximum precision and detail.
+        Analyze this single video frame as if you were a meticulous on-site inspector.
+        For each detected defect, you MUST provide a comprehensive set of data:
+        - A precise bounding box.
+        - A confidence score.
+        - A clear, descriptive text of the defect.
+        - Estimated real-world dimensions (length, width, depth in m), area (sq_m), and volume (m³) where applicable.
+        - A severity classification ('Low', 'Medium', 'High').
+        Do NOT prioritize speed over accuracy; thoroughness is paramount. Base your estimations for depth and volume on visual cues like shadows and perspective.
+    `,
+
+    detailedAnalysis: `
+        IMPORTANT: You are in Detailed Analysis mode. Your analysis must be highly comprehensive.
+        - For EVERY detected defect, you MUST provide a 'segmentationPolygon'. This polygon must be precise, tracing the exact pixel-level boundary.
+        - ADDITIONALLY, for each defect identified as a crack ('Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', 'Block Crack'), you MUST also provide a 'centerlinePath', which is a simplified line representing the main path of the crack.
+        - For all defects, provide standard analysis like boundingBox, dimensions, and severity.
+    `,
+
+    fidelitySegmentation: `
+        IMPORTANT: You are in High-Fidelity Pothole Segmentation mode.
+        Your primary task is to act as a highly specialized U-Net computer vision model trained exclusively for pothole segmentation.
+        - You MUST focus ONLY on defects of type 'Pothole'. Ignore all other defect types like cracks or rutting.
+        - For each detected pothole, you MUST provide a 'segmentationPolygon'. This polygon must be extremely precise, tracing the exact pixel-level boundary of the pothole, similar to the output of a U-Net model.
+        - Provide a standard 'boundingBox' as well.
+        - Your response must be highly accurate and focused.
+    `,
+
+    crackPath: `
+        IMPORTANT: You are in Crack Path Analysis mode.
+        For each defect identified as a crack ('Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', 'Block Crack'), you MUST provide a 'centerlinePath'.
+        The 'centerlinePath' is an array of {x, y} point objects that trace the skeleton or centerline of the crack. This should be a simplified line representing the main path of the crack, not its full outline.
+        The coordinates must be percentages of the image's dimensions (from 0.0 to 1.0).
+        For non-crack defects like 'Pothole', this 'centerlinePath' field should be omitted.
+    `,
+
+    health: `
+        IMPORTANT: You are in Area Health Assessment mode.
+        In addition to identifying individual defects, you MUST provide a holistic assessment of the entire road section shown in the image.
+        Provide the following in the root of the JSON object:
+        - "pciScore": An estimated Pavement Condition Index score from 0 (failed) to 100 (excellent).
+        - "summary": A concise, expert summary of the overall pavement condition.
+        - "potentialCauses": A list of potential root causes for the observed distress (e.g., "Sub-base failure due to moisture", "Material fatigue").
+        - "recommendations": A list of recommended maintenance or repair actions (e.g., "Mill and overlay", "Full-depth patching", "Crack sealing").
+    `,
+
+    instance: `
+        IMPORTANT: You must perform an INSTANCE SEGMENTATION of the road defects.
+        Your task is to identify and outline every individual instance of a defect.
+
+        The final JSON output MUST contain a 'defects' array and root-level keys for pothole statistics.
+
+        1.  "defects" array: This is for countable objects ("things").
+            - The "thing" classes are: 'Pothole', 'Rutting', 'Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', 'Block Crack', 'Roughness', 'Distress'.
+            - For EACH detected instance, you MUST provide:
+                - A precise 'segmentationPolygon'.
+                - A unique 'instanceId' (integer, e.g., 1, 2, 3...).
+                - A 'boundingBox', 'type', 'description', and 'confidence'.
+
+        2. "Pothole Statistics" (at the root of the JSON):
+            - "pothole_count": The total number of individual pothole instances detected.
+            - "pothole_density_sq_m": An estimation of the number of potholes per square meter of visible road surface in the image.
+
+        Do NOT identify or segment amorphous background regions like 'Road' or 'Sky'. Focus only on the defect instances.
+    `,
+
+    targetDefects: (types) => types.length > 0
+        ? `
+IMPORTANT: Focus your analysis ONLY on the following defect types: ${types.join(', ')}. Ignore all other types of road distress.`
+        : '',
+
+    base: ({ targetDefects, modeSpecific, isRealTime }) => `
+        You are an expert civil engineer specializing in road infrastructure assessment using advanced computer vision techniques.
+        Analyze the provided image of a road surface. Your task is to identify and locate all instances of road distress and segment the entire scene.
+        For every defect you identify, you MUST provide a 'confidence' score between 0.0 and 1.0, representing your certainty in the detection.
+        ${targetDefects}
+        ${modeSpecific}
+
+        ${!isRealTime ? `
+            For defects of type 'Pothole', you MUST also provide:
+            - Estimated real-world dimensions (length_m, width_m, depth_m).
+            - Calculated area_sq_m.
+            - Calculated volume_m3 (in cubic meters).
+            - A severity classification.
+            Base your estimations for depth and volume on visual cues like shadows and perspective.
+
+            For defect types 'Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', and 'Block Crack', you MUST also provide estimated real-world dimensions (total length, average width) in meters and a severity classification.
+            For other defect types, these measurement fields can be omitted.
+        ` : ""}
+
+        The defect types to identify are: 'Pothole', 'Rutting', 'Alligator Crack', 'Longitudinal Crack', 'Transverse Crack', 'Block Crack', 'Roughness', 'Distress'.
+
+        Return your findings as a structured JSON object according to the provided schema. Bounding boxes are always required for all defects.
+    `,
+};
+
+const V2: PromptVersion = {
+    ...V1,
+    id: 'v2',
+    label: 'v2 – explicit geometry and severity rules',
+    notes: 'Adds coordinate rules and ASTM D6433-style severity thresholds to v1.',
+    base: (parts) => `${V1.base(parts)}
+        Geometry rules:
+        - All coordinates are fractions of the image width and height from 0.0 to 1.0, with x_min < x_max and y_min < y_max.
+        - Each bounding box must tightly enclose one defect; do not merge separate defects into one box.
+
+        Severity rules:
+        - Pothole: 'Low' up to 25 mm deep, 'Medium' 25–50 mm, 'High' deeper than 50 mm.
+        - Longitudinal, Transverse and Block Crack: 'Low' narrower than 10 mm, 'Medium' 10–75 mm, 'High' wider than 75 mm or with spalling.
+        - Alligator Crack: 'Low' for fine hairline cracking, 'Medium' when the pieces are clearly defined, 'High' when pieces are loose or rocking.
+        - Report only what is visible; if no defect is present, return an empty 'defects' array.
+    `,
+};
+
+export const PROMPT_VERSIONS: PromptVersion[] = [V1, V2];
+
+// The version used unless a request asks for another one, e.g. from an A/B comparison.
+export const CURRENT_PROMPT_VERSION = 'v1';
+
+export const getPromptVersion = (id?: string): PromptVersion =>
+    PROMPT_VERSIONS.find(v => v.id === (id ?? CURRENT_PROMPT_VERSION)) || PROMPT_VERSIONS.find(v => v.id === CURRENT_PROMPT_VERSION)!;
+
+/**
+ * Assembles the full image analysis prompt for the requested modes from one prompt version.
+ * Detailed analysis (fidelity segmentation plus crack paths) has its own instructions;
+ * the health assessment is appended to whichever mode is active.
+ */
+export function buildAnalysisPrompt(version: PromptVersion, options: AnalysisOptions): string {
+    const { isCrackPathAnalysis, isHealthAnalysis, isRealTime, isFidelitySegmentation, isInstanceSegmentation, targetDefects } = options;
+
+    let modeSpecific = "";
+    if (isInstanceSegmentation) {
+        modeSpecific = version.instance;
+    } else if (isFidelitySegmentation && isCrackPathAnalysis) {
+        modeSpecific = version.detailedAnalysis;
+    } else if (isFidelitySegmentation) {
+        modeSpecific = version.fidelitySegmentation;
+    } else if (isCrackPathAnalysis) {
+        modeSpecific = version.crackPath;
+    }
+
+    if (isHealthAnalysis) {
+        modeSpecific += `\n${version.health}`;
+    }
+
+    return version.base({
+        targetDefects: version.targetDefects(targetDefects ?? []),
+        modeSpecific: isRealTime ? version.realTime : modeSpecific,
+        isRealTime,
+    });
+}
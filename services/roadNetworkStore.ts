@@ -0,0 +1,34 @@
+import type { RoadNetwork } from '../types';
+
+const NETWORK_STORAGE_KEY = 'roadguard-road-network';
+
+let currentNetwork: RoadNetwork | null | undefined;
+
+/**
+ * Returns the road centreline network the user last loaded, or null if none has been loaded.
+ */
+export const getRoadNetwork = (): RoadNetwork | null => {
+    if (currentNetwork !== undefined) return currentNetwork;
+    try {
+        const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+        currentNetwork = stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        console.warn("Could not read the stored road network.", e);
+        currentNetwork = null;
+    }
+    return currentNetwork;
+};
+
+/**
+ * Stores the network for later sessions. Large networks may exceed the storage quota, in
+ * which case the network is only kept for the current page load.
+ */
+export const saveRoadNetwork = (network: RoadNetwork | null): void => {
+    currentNetwork = network;
+    try {
+        if (network) localStorage.setItem(NETWORK_STORAGE_KEY, JSON.stringify(network));
+        else localStorage.removeItem(NETWORK_STORAGE_KEY);
+    } catch (e) {
+        console.warn("Could not persist the road network; it will be kept for this session only.", e);
+    }
+};
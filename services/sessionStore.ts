@@ -0,0 +1,205 @@
+import type { AnalysisResult, Defect, InspectionSession, SessionSource, StoredAnalysis, StoredDefect, StoredMedia, VideoDefect } from '../types';
+import { openDatabase, requestToPromise, transactionDone, deleteByIndex, createId, STORES } from './indexedDb';
+
+export const defaultSessionName = (date = new Date()) => `Inspection ${date.toLocaleString()}`;
+
+export async function createSession(name: string = defaultSessionName()): Promise<InspectionSession> {
+    const db = await openDatabase();
+    const now = new Date().toISOString();
+    const session: InspectionSession = {
+        id: createId(),
+        name,
+        createdAt: now,
+        updatedAt: now,
+        defectCount: 0,
+        analysisCount: 0,
+    };
+    const tx = db.transaction(STORES.sessions, 'readwrite');
+    tx.objectStore(STORES.sessions).add(session);
+    await transactionDone(tx);
+    return session;
+}
+
+/**
+ * Lists all stored sessions, most recently updated first.
+ */
+export async function listSessions(): Promise<InspectionSession[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.sessions, 'readonly');
+    const sessions = await requestToPromise<InspectionSession[]>(tx.objectStore(STORES.sessions).getAll());
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getSession(sessionId: string): Promise<InspectionSession | null> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.sessions, 'readonly');
+    const session = await requestToPromise<InspectionSession | undefined>(tx.objectStore(STORES.sessions).get(sessionId));
+    return session || null;
+}
+
+export async function renameSession(sessionId: string, name: string): Promise<InspectionSession> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+        throw new Error("Session name cannot be empty.");
+    }
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.sessions, 'readwrite');
+    const store = tx.objectStore(STORES.sessions);
+    const session = await requestToPromise<InspectionSession | undefined>(store.get(sessionId));
+    if (!session) {
+        throw new Error("Session not found.");
+    }
+    const updated: InspectionSession = { ...session, name: trimmed, updatedAt: new Date().toISOString() };
+    store.put(updated);
+    await transactionDone(tx);
+    return updated;
+}
+
+/**
+ * Deletes a session together with all of its media, analyses, defects and queued analyses.
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.sessions, STORES.media, STORES.analyses, STORES.defects, STORES.analysisQueue], 'readwrite');
+    tx.objectStore(STORES.sessions).delete(sessionId);
+    deleteByIndex(tx, STORES.media, sessionId);
+    deleteByIndex(tx, STORES.analyses, sessionId);
+    deleteByIndex(tx, STORES.defects, sessionId);
+    deleteByIndex(tx, STORES.analysisQueue, sessionId);
+    await transactionDone(tx);
+}
+
+interface SaveAnalysisInput {
+    source: SessionSource;
+    defects: Defect[];
+    result?: AnalysisResult;
+    media?: Blob;
+    videoRunId?: string;
+}
+
+/**
+ * Persists one analysis (an uploaded image, a camera shot, a real-time frame or a whole
+ * video run) and its defects in a single transaction, updating the session counters.
+ */
+export async function saveAnalysis(sessionId: string, { source, defects, result, media, videoRunId }: SaveAnalysisInput): Promise<StoredAnalysis> {
+    const db = await openDatabase();
+    const now = new Date().toISOString();
+    const tx = db.transaction([STORES.sessions, STORES.media, STORES.analyses, STORES.defects], 'readwrite');
+
+    const sessionStore = tx.objectStore(STORES.sessions);
+    const session = await requestToPromise<InspectionSession | undefined>(sessionStore.get(sessionId));
+    if (!session) {
+        tx.abort();
+        throw new Error("Cannot save analysis: the inspection session no longer exists.");
+    }
+
+    let mediaId: string | undefined;
+    if (media) {
+        const storedMedia: StoredMedia = { id: createId(), sessionId, blob: media, mimeType: media.type, createdAt: now };
+        tx.objectStore(STORES.media).add(storedMedia);
+        mediaId = storedMedia.id;
+    }
+
+    const analysis: StoredAnalysis = {
+        id: createId(),
+        sessionId,
+        source,
+        createdAt: now,
+        mediaId,
+        result: result || { defects },
+    };
+    if (videoRunId) analysis.videoRunId = videoRunId;
+    tx.objectStore(STORES.analyses).add(analysis);
+
+    const defectStore = tx.objectStore(STORES.defects);
+    defects.forEach(defect => {
+        const record: StoredDefect = { sessionId, analysisId: analysis.id, defect };
+        defectStore.add(record);
+    });
+
+    sessionStore.put({
+        ...session,
+        updatedAt: now,
+        defectCount: session.defectCount + defects.length,
+        analysisCount: session.analysisCount + 1,
+    });
+
+    await transactionDone(tx);
+    return analysis;
+}
+
+/**
+ * Saves an inspector's corrections to a stored analysis: `changes` are merged into its
+ * result and the analysis' defect records are replaced by `changes.defects`. Existing record
+ * keys are reused so the session keeps its recording order.
+ */
+export async function updateAnalysisResult(analysisId: string, changes: Partial<AnalysisResult> & { defects: Defect[] }): Promise<StoredAnalysis> {
+    const db = await openDatabase();
+    const now = new Date().toISOString();
+    const tx = db.transaction([STORES.sessions, STORES.analyses, STORES.defects], 'readwrite');
+
+    const analysisStore = tx.objectStore(STORES.analyses);
+    const analysis = await requestToPromise<StoredAnalysis | undefined>(analysisStore.get(analysisId));
+    if (!analysis) {
+        tx.abort();
+        throw new Error("Cannot save corrections: the analysis is no longer stored in this session.");
+    }
+    const updated: StoredAnalysis = { ...analysis, result: { ...analysis.result, ...changes } };
+    analysisStore.put(updated);
+
+    const defectStore = tx.objectStore(STORES.defects);
+    const existing = (await requestToPromise<StoredDefect[]>(defectStore.index('sessionId').getAll(IDBKeyRange.only(analysis.sessionId))))
+        .filter(record => record.analysisId === analysisId)
+        .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+    changes.defects.forEach((defect, index) => {
+        const record: StoredDefect = { ...(existing[index] || { sessionId: analysis.sessionId, analysisId }), defect };
+        defectStore.put(record);
+    });
+    existing.slice(changes.defects.length).forEach(record => defectStore.delete(record.id!));
+
+    const sessionStore = tx.objectStore(STORES.sessions);
+    const session = await requestToPromise<InspectionSession | undefined>(sessionStore.get(analysis.sessionId));
+    if (session) {
+        sessionStore.put({ ...session, updatedAt: now, defectCount: session.defectCount + changes.defects.length - existing.length });
+    }
+
+    await transactionDone(tx);
+    return updated;
+}
+
+export async function loadSessionDefects(sessionId: string): Promise<Defect[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.defects, 'readonly');
+    const records = await requestToPromise<StoredDefect[]>(
+        tx.objectStore(STORES.defects).index('sessionId').getAll(IDBKeyRange.only(sessionId))
+    );
+    // Auto-incremented keys preserve the order in which defects were recorded.
+    return records.sort((a, b) => (a.id ?? 0) - (b.id ?? 0)).map(r => r.defect);
+}
+
+export async function loadSessionAnalyses(sessionId: string): Promise<StoredAnalysis[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.analyses, 'readonly');
+    const analyses = await requestToPromise<StoredAnalysis[]>(
+        tx.objectStore(STORES.analyses).index('sessionId').getAll(IDBKeyRange.only(sessionId))
+    );
+    return analyses.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Every detection of the already stored frames of a queued video run, in frame order.
+ */
+export async function loadVideoRunDetections(sessionId: string, videoRunId: string): Promise<VideoDefect[]> {
+    const analyses = await loadSessionAnalyses(sessionId);
+    return analyses
+        .filter(a => a.videoRunId === videoRunId)
+        .flatMap(a => a.result.defects as VideoDefect[])
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export async function getMedia(mediaId: string): Promise<StoredMedia | null> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.media, 'readonly');
+    const media = await requestToPromise<StoredMedia | undefined>(tx.objectStore(STORES.media).get(mediaId));
+    return media || null;
+}
@@ -0,0 +1,56 @@
+import type { WorkOrder, WorkOrderDraft } from '../types';
+import { openDatabase, requestToPromise, transactionDone, createId, STORES } from './indexedDb';
+
+/**
+ * Stores generated work orders as open jobs and returns them with their ids.
+ */
+export async function createWorkOrders(drafts: WorkOrderDraft[]): Promise<WorkOrder[]> {
+    const db = await openDatabase();
+    const now = new Date().toISOString();
+    const orders: WorkOrder[] = drafts.map(draft => ({ ...draft, id: createId(), status: 'open', createdAt: now, updatedAt: now }));
+    const tx = db.transaction(STORES.workOrders, 'readwrite');
+    const store = tx.objectStore(STORES.workOrders);
+    orders.forEach(order => store.add(order));
+    await transactionDone(tx);
+    return orders;
+}
+
+/**
+ * Lists all work orders, newest first.
+ */
+export async function listWorkOrders(): Promise<WorkOrder[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.workOrders, 'readonly');
+    const orders = await requestToPromise<WorkOrder[]>(tx.objectStore(STORES.workOrders).getAll());
+    return orders.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Updates a work order's status, schedule or notes. Moving to 'done' stamps `completedAt`;
+ * moving away from it clears the stamp again.
+ */
+export async function updateWorkOrder(id: string, changes: Partial<Pick<WorkOrder, 'status' | 'scheduledFor' | 'notes' | 'priority'>>): Promise<WorkOrder> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.workOrders, 'readwrite');
+    const store = tx.objectStore(STORES.workOrders);
+    const order = await requestToPromise<WorkOrder | undefined>(store.get(id));
+    if (!order) {
+        tx.abort();
+        throw new Error("Work order not found.");
+    }
+    const now = new Date().toISOString();
+    const updated: WorkOrder = { ...order, ...changes, updatedAt: now };
+    if (changes.status) {
+        updated.completedAt = changes.status === 'done' ? (order.completedAt ?? now) : undefined;
+    }
+    store.put(updated);
+    await transactionDone(tx);
+    return updated;
+}
+
+export async function deleteWorkOrder(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.workOrders, 'readwrite');
+    tx.objectStore(STORES.workOrders).delete(id);
+    await transactionDone(tx);
+}
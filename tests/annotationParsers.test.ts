@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseCocoAnnotations } from '../utils/annotationParsers';
+
+const coco = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+    images: [{ id: 1, file_name: 'road.jpg', width: 200, height: 100 }, { id: 2, file_name: 'other.jpg', width: 200, height: 100 }],
+    categories: [{ id: 7, name: 'pothole' }],
+    annotations: [
+        { image_id: 1, category_id: 7, bbox: [20, 10, 40, 30] },
+        { image_id: 1, category_id: 9, segmentation: [[0, 0, 100, 0, 100, 50], [0, 0, 10, 0, 10, 10]] },
+        { image_id: 2, category_id: 7, bbox: [0, 0, 10, 10] },
+        null,
+        { image_id: 1, category_id: 7, bbox: ['a', 0, 10, 10] },
+    ],
+    ...overrides,
+});
+
+describe('parseCocoAnnotations', () => {
+    it('converts the boxes and polygons of the matching image', () => {
+        const defects = parseCocoAnnotations(coco(), 'photos/road.jpg', 0, 0);
+        expect(defects).toHaveLength(2);
+        expect(defects[0]).toEqual({ type: 'pothole', boundingBox: { x_min: 0.1, y_min: 0.1, x_max: 0.3, y_max: 0.4 }, segmentationPolygon: undefined });
+        expect(defects[1].type).toBe('9');
+        expect(defects[1].segmentationPolygon).toEqual([{ x: 0, y: 0 }, { x: 0.5, y: 0 }, { x: 0.5, y: 0.5 }]);
+        expect(defects[1].boundingBox).toEqual({ x_min: 0, y_min: 0, x_max: 0.5, y_max: 0.5 });
+    });
+
+    it('falls back to the given image size', () => {
+        const data = coco({ images: [{ id: 1, file_name: 'road.jpg' }] });
+        expect(parseCocoAnnotations(data, 'road.jpg', 400, 200)[0].boundingBox).toEqual({ x_min: 0.05, y_min: 0.05, x_max: 0.15, y_max: 0.2 });
+        expect(() => parseCocoAnnotations(data, 'road.jpg', 0, 0)).toThrow('Image dimensions must be greater than zero');
+    });
+
+    it('rejects files that are not a COCO dataset', () => {
+        expect(() => parseCocoAnnotations('{', 'road.jpg', 1, 1)).toThrow('Failed to parse JSON file');
+        expect(() => parseCocoAnnotations('[]', 'road.jpg', 1, 1)).toThrow("'images' or 'annotations' not found");
+        expect(() => parseCocoAnnotations(coco(), 'missing.jpg', 1, 1)).toThrow('No entry for "missing.jpg"');
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { BoundingBox, Defect, GroundTruthDefect } from '../types';
+import { computePrCurves, evaluateBenchmark } from '../utils/benchmarkUtils';
+
+const box = (x: number, y: number, size = 0.2): BoundingBox => ({ x_min: x, y_min: y, x_max: x + size, y_max: y + size });
+
+const prediction = (boundingBox: BoundingBox, confidence: number, type: Defect['type'] = 'Pothole'): Defect => ({
+    type,
+    description: '',
+    boundingBox,
+    confidence,
+});
+
+const truth = (boundingBox: BoundingBox, type = 'Pothole'): GroundTruthDefect => ({ type, boundingBox });
+
+describe('evaluateBenchmark', () => {
+    it('scores a perfect run as AP 1 at every IoU threshold', () => {
+        const report = evaluateBenchmark([
+            { predictions: [prediction(box(0, 0), 0.9)], groundTruth: [truth(box(0, 0))] },
+            { predictions: [prediction(box(0.5, 0.5), 0.6)], groundTruth: [truth(box(0.5, 0.5))] },
+        ]);
+        expect(report).toMatchObject({ imageCount: 2, tp: 2, fp: 0, fn: 0, precision: 1, recall: 1, map50: 1, map5095: 1 });
+    });
+
+    it('samples interpolated precision at 101 recall levels', () => {
+        // TP, FP, TP: precision 1 up to recall 0.5, then 2/3 up to recall 1.
+        const report = evaluateBenchmark([{
+            predictions: [prediction(box(0, 0), 0.9), prediction(box(0.8, 0), 0.8), prediction(box(0.5, 0.5), 0.7)],
+            groundTruth: [truth(box(0, 0)), truth(box(0.5, 0.5))],
+        }]);
+        expect(report.perClassMetrics['Pothole'].ap50).toBeCloseTo((51 + 50 * (2 / 3)) / 101, 10);
+        expect(report.map50).toBe(report.perClassMetrics['Pothole'].ap50);
+    });
+
+    it('counts a second prediction on an already matched object as a false positive', () => {
+        const report = evaluateBenchmark([{
+            predictions: [prediction(box(0, 0), 0.9), prediction(box(0.01, 0), 0.8)],
+            groundTruth: [truth(box(0, 0))],
+        }]);
+        expect(report).toMatchObject({ tp: 1, fp: 1, fn: 0 });
+        expect(report.perClassMetrics['Pothole'].ap50).toBe(1);
+    });
+
+    it('leaves a class with no ground truth out of mAP but counts its false positives', () => {
+        const report = evaluateBenchmark([{
+            predictions: [prediction(box(0, 0), 0.9), prediction(box(0.5, 0.5), 0.8, 'Rutting')],
+            groundTruth: [truth(box(0, 0))],
+        }]);
+        expect(report.perClassMetrics['Rutting']).toMatchObject({ tp: 0, fp: 1, totalGroundTruth: 0, ap50: 0 });
+        expect(report.map50).toBe(1);
+        expect(report.fp).toBe(1);
+    });
+
+    it('misses matches below the IoU threshold and counts unmatched ground truth', () => {
+        const samples = [{ predictions: [prediction(box(0.1, 0), 0.9)], groundTruth: [truth(box(0, 0)), truth(box(0.5, 0.5))] }];
+        expect(evaluateBenchmark(samples, 0.5)).toMatchObject({ tp: 0, fp: 1, fn: 2 });
+        expect(evaluateBenchmark(samples, 0.3)).toMatchObject({ tp: 1, fp: 0, fn: 1 });
+    });
+});
+
+describe('computePrCurves', () => {
+    it('reports precision and recall after each ranked prediction', () => {
+        const [curve] = computePrCurves([{
+            predictions: [prediction(box(0.5, 0.5), 0.7), prediction(box(0, 0), 0.9), prediction(box(0.8, 0), 0.8)],
+            groundTruth: [truth(box(0, 0)), truth(box(0.5, 0.5))],
+        }]);
+        expect(curve.className).toBe('Pothole');
+        expect(curve.points.map(p => [p.confidence, p.precision, p.recall])).toEqual([[0.9, 1, 0.5], [0.8, 0.5, 0.5], [0.7, 2 / 3, 1]]);
+        expect(curve.averagePrecision).toBeCloseTo((51 + 50 * (2 / 3)) / 101, 10);
+    });
+
+    it('lists classes alphabetically with recall 0 when a class has no ground truth', () => {
+        const curves = computePrCurves([{
+            predictions: [prediction(box(0, 0), 0.9, 'Rutting'), prediction(box(0.5, 0.5), 0.8)],
+            groundTruth: [truth(box(0.5, 0.5))],
+        }]);
+        expect(curves.map(c => c.className)).toEqual(['Pothole', 'Rutting']);
+        expect(curves[1].points).toEqual([{ confidence: 0.9, precision: 0, recall: 0 }]);
+        expect(curves[1].averagePrecision).toBe(0);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { CostSettings, Defect } from '../types';
+import { estimateDefectCost, estimateTotalCost } from '../utils/costEstimator';
+
+const SETTINGS: CostSettings = {
+    currency: 'USD',
+    patchMaterial: 'Cold Mix',
+    coldMixPerTonne: 200,
+    hotMixPerTonne: 100,
+    crackSealantPerMetre: 3,
+    labourPerHour: 40,
+    coldMixDensity: 2,
+    hotMixDensity: 2.4,
+    defaultPatchDepthM: 0.05,
+    patchHoursPerSqM: 0.5,
+    crackSealHoursPerMetre: 0.1,
+};
+
+const defect = (type: Defect['type'], overrides: Partial<Defect> = {}): Defect => ({
+    type,
+    description: '',
+    boundingBox: { x_min: 0.4, y_min: 0.4, x_max: 0.6, y_max: 0.6 },
+    ...overrides,
+});
+
+describe('estimateDefectCost', () => {
+    it('prices crack sealing per metre of crack', () => {
+        const estimate = estimateDefectCost(defect('Transverse Crack', { dimensions: { length_m: 10, width_m: 0.01 } }), SETTINGS);
+        expect(estimate).toMatchObject({ sealantMetres: 10, asphaltTonnes: 0, materialCost: 30, labourHours: 1, labourCost: 40, totalCost: 70, pricedCount: 1 });
+    });
+
+    it('converts a patch volume to tonnes with the mix density', () => {
+        const estimate = estimateDefectCost(defect('Pothole', { area_sq_m: 2, volume_m3: 0.1 }), SETTINGS);
+        expect(estimate.asphaltTonnes).toBeCloseTo(0.2);
+        expect(estimate.materialCost).toBeCloseTo(40);
+        expect(estimate.labourCost).toBeCloseTo(40);
+        expect(estimate.totalCost).toBeCloseTo(80);
+    });
+
+    it('falls back to the measured, then the default depth, and honours hot mix', () => {
+        const measured = estimateDefectCost(defect('Pothole', { dimensions: { length_m: 1, width_m: 1, depth_m: 0.1 } }), SETTINGS);
+        expect(measured.asphaltTonnes).toBeCloseTo(0.2);
+        const hot = estimateDefectCost(defect('Pothole', { area_sq_m: 1 }), { ...SETTINGS, patchMaterial: 'Hot Mix' });
+        expect(hot.asphaltTonnes).toBeCloseTo(0.12);
+        expect(hot.materialCost).toBeCloseTo(12);
+    });
+
+    it('counts defects without the needed measurements as unpriced', () => {
+        expect(estimateDefectCost(defect('Longitudinal Crack', { area_sq_m: 4 }), SETTINGS)).toMatchObject({ totalCost: 0, pricedCount: 0, unpricedCount: 1 });
+        expect(estimateDefectCost(defect('Pothole'), SETTINGS)).toMatchObject({ totalCost: 0, pricedCount: 0, unpricedCount: 1 });
+    });
+});
+
+describe('estimateTotalCost', () => {
+    it('sums estimates and counts priced and unpriced defects', () => {
+        const total = estimateTotalCost([
+            defect('Transverse Crack', { dimensions: { length_m: 10, width_m: 0.01 } }),
+            defect('Pothole', { area_sq_m: 2, volume_m3: 0.1 }),
+            defect('Pothole'),
+        ], SETTINGS);
+        expect(total.totalCost).toBeCloseTo(150);
+        expect(total.sealantMetres).toBe(10);
+        expect(total.asphaltTonnes).toBeCloseTo(0.2);
+        expect([total.pricedCount, total.unpricedCount]).toEqual([2, 1]);
+    });
+
+    it('is zero for no defects', () => {
+        expect(estimateTotalCost([], SETTINGS)).toMatchObject({ totalCost: 0, pricedCount: 0, unpricedCount: 0 });
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { Location, VideoDefect } from '../types';
+import { createDefectTracker, findNewTracks } from '../utils/defectTracker';
+
+const detection = (timestamp: number, x: number, overrides: Partial<VideoDefect> = {}): VideoDefect => ({
+    type: 'Pothole',
+    timestamp,
+    description: '',
+    boundingBox: { x_min: x, y_min: 0.5, x_max: x + 0.2, y_max: 0.7 },
+    ...overrides,
+});
+
+// About 11 m north of ORIGIN per 0.0001° of latitude.
+const ORIGIN: Location = { latitude: 51.5, longitude: -0.12 };
+const north = (degrees: number): Location => ({ latitude: ORIGIN.latitude + degrees, longitude: ORIGIN.longitude });
+
+describe('createDefectTracker', () => {
+    it('links detections within the frame-gap window and closes tracks after it', () => {
+        const tracker = createDefectTracker({ maxGapSeconds: 2 });
+        tracker.update([detection(0, 0.1)], 0);
+        tracker.update([detection(2, 0.1)], 2);
+        tracker.update([detection(5, 0.1)], 5);
+        const tracks = tracker.getTracks();
+        expect(tracks).toHaveLength(2);
+        expect(tracks[0]).toMatchObject({ firstSeen: 0, lastSeen: 2, observationCount: 2 });
+        expect(tracks[1]).toMatchObject({ firstSeen: 5, lastSeen: 5, observationCount: 1 });
+    });
+
+    it('assigns detections greedily by overlap and never links different types', () => {
+        const tracker = createDefectTracker();
+        const [left, right] = tracker.update([detection(0, 0.1), detection(0, 0.5)], 0);
+        // Both detections overlap the left track; the better overlap wins it.
+        expect(tracker.update([detection(1, 0.2), detection(1, 0.12), detection(1, 0.5, { type: 'Rutting' })], 1))
+            .toEqual([3, left, 4]);
+        expect(right).not.toBe(left);
+    });
+
+    it('accepts a small overlap when GPS puts both frames close together', () => {
+        const tracker = createDefectTracker();
+        const [first] = tracker.update([detection(0, 0.1, { location: ORIGIN })], 0);
+        // IoU of about 0.05-0.3: too little on its own, enough within the GPS match radius.
+        const [near] = tracker.update([detection(1, 0.26, { location: north(0.0001) })], 1);
+        expect(near).toBe(first);
+
+        const plain = createDefectTracker();
+        const [a] = plain.update([detection(0, 0.1)], 0);
+        expect(plain.update([detection(1, 0.26)], 1)).not.toEqual([a]);
+    });
+
+    it('never links detections further apart than the maximum distance', () => {
+        const tracker = createDefectTracker();
+        const [first] = tracker.update([detection(0, 0.1, { location: ORIGIN })], 0);
+        expect(tracker.update([detection(1, 0.1, { location: north(0.001) })], 1)).not.toEqual([first]);
+    });
+
+    it('replaces the best view only when a detection is a better view', () => {
+        const tracker = createDefectTracker();
+        let frame = 0;
+        const thumbnail = () => `frame-${frame}`;
+        tracker.update([detection(0, 0.1, { confidence: 0.5 })], 0, thumbnail);
+        frame = 1;
+        tracker.update([detection(1, 0.1, { confidence: 0.9, description: 'clear view' })], 1, thumbnail);
+        frame = 2;
+        tracker.update([detection(2, 0.1, { confidence: 0.4 })], 2, thumbnail);
+        const [track] = tracker.getTracks();
+        expect(track).toMatchObject({ bestFrameUrl: 'frame-1', description: 'clear view', timestamp: 1, lastSeen: 2, observationCount: 3 });
+    });
+});
+
+describe('findNewTracks', () => {
+    it('keeps every detection of the first frame of a run', () => {
+        expect(findNewTracks([], [detection(0, 0.1), detection(0, 0.6)], 0, 1)).toHaveLength(2);
+    });
+
+    it('drops detections that continue a stored track', () => {
+        const stored = [detection(0, 0.1), detection(1, 0.12)];
+        expect(findNewTracks(stored, [detection(2, 0.13)], 2, 1)).toEqual([]);
+    });
+
+    it('keeps detections of a different type or position', () => {
+        const found = findNewTracks([detection(0, 0.1)], [detection(1, 0.11, { type: 'Rutting' }), detection(1, 0.7)], 1, 1);
+        expect(found.map(d => d.type)).toEqual(['Rutting', 'Pothole']);
+    });
+
+    it('keeps a detection once the stored one has been out of view too long', () => {
+        expect(findNewTracks([detection(0, 0.1)], [detection(5, 0.1)], 5, 1)).toHaveLength(1);
+    });
+
+    it('drops a retried frame that drains after later frames of the same track', () => {
+        const stored = [detection(3, 0.12), detection(1, 0.1)];
+        expect(findNewTracks(stored, [detection(2, 0.11)], 2, 1)).toEqual([]);
+    });
+
+    it('drops a frame whose analysis was already stored', () => {
+        expect(findNewTracks([detection(2, 0.1)], [detection(2, 0.1)], 2, 1)).toEqual([]);
+    });
+});
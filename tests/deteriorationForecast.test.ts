@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { Defect, MergedDefect } from '../types';
+import { forecastDefect, MONTHS_PER_SEVERITY_STEP } from '../utils/deteriorationForecast';
+
+const BOX = { x_min: 0.4, y_min: 0.4, x_max: 0.6, y_max: 0.6 };
+
+const observation = (capturedAt: string, severity: Defect['severity']): Defect => ({
+    type: 'Pothole',
+    description: '',
+    boundingBox: BOX,
+    severity,
+    capturedAt,
+});
+
+const asset = (observations: Defect[]): MergedDefect => ({
+    ...observations[observations.length - 1],
+    assetId: 'asset-1',
+    observations,
+    firstObservedAt: observations[0].capturedAt,
+    lastObservedAt: observations[observations.length - 1].capturedAt,
+});
+
+describe('forecastDefect', () => {
+    it('follows the standard curve without an observation history', () => {
+        const forecast = forecastDefect(observation('2024-01-01T00:00:00.000Z', 'Low'));
+        expect(forecast.basis).toBe('curve');
+        expect(forecast.speedFactor).toBe(1);
+        expect(forecast.monthsToFailure).toBe(2 * MONTHS_PER_SEVERITY_STEP['Pothole']);
+        expect(forecast.failureDate).toBeDefined();
+    });
+
+    it('progresses at the observed rate when the history shows deterioration', () => {
+        const forecast = forecastDefect(asset([
+            observation('2024-01-01T00:00:00.000Z', 'Low'),
+            observation('2024-03-01T00:00:00.000Z', 'Medium'),
+        ]));
+        expect(forecast.basis).toBe('observed');
+        expect(forecast.monthsToFailure).toBeCloseTo(60 / 30.44, 2);
+        expect(forecast.speedFactor).toBeCloseTo(MONTHS_PER_SEVERITY_STEP['Pothole'] / (60 / 30.44), 2);
+        expect(forecast.failureDate! > '2024-03-01').toBe(true);
+    });
+
+    it('does not expect failure when the history shows no change', () => {
+        const forecast = forecastDefect(asset([
+            observation('2024-01-01T00:00:00.000Z', 'Low'),
+            observation('2024-07-01T00:00:00.000Z', 'Low'),
+        ]));
+        expect(forecast.basis).toBe('observed');
+        expect(forecast.speedFactor).toBe(0);
+        expect(forecast.monthsToFailure).toBe(Infinity);
+        expect(forecast.failureDate).toBeUndefined();
+    });
+
+    it('reports an unchanged High defect as already failed', () => {
+        const forecast = forecastDefect(asset([
+            observation('2024-01-01T00:00:00.000Z', 'High'),
+            observation('2024-07-01T00:00:00.000Z', 'High'),
+        ]));
+        expect(forecast.monthsToFailure).toBe(0);
+        expect(forecast.failureDate).toBe('2024-07-01T00:00:00.000Z');
+    });
+});
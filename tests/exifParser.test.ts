@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseImageMetadata, readImageMetadata } from '../utils/exifParser';
+
+// Byte fixtures are assembled here rather than checked in as photos, so each case only
+// contains the tags it is about.
+
+interface TiffEntry {
+    tag: number;
+    type: 2 | 3 | 4 | 5;
+    // A string for ASCII, numerator/denominator pairs for rationals, plain numbers otherwise.
+    value: string | number[];
+}
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_GPS_IFD = 0x8825;
+const TAG_GPS_LATITUDE_REF = 0x01;
+const TAG_GPS_LATITUDE = 0x02;
+const TAG_GPS_LONGITUDE_REF = 0x03;
+const TAG_GPS_LONGITUDE = 0x04;
+const TAG_GPS_IMG_DIRECTION = 0x11;
+
+const ascii = (text: string): number[] => Array.from(text, c => c.charCodeAt(0));
+
+const entryBytes = ({ type, value }: TiffEntry): { count: number; data: number[] } => {
+    if (typeof value === 'string') return { count: value.length + 1, data: [...ascii(value), 0] };
+    const data: number[] = [];
+    const view = new DataView(new ArrayBuffer(4));
+    value.forEach(v => {
+        if (type === 3) {
+            view.setUint16(0, v, true);
+            data.push(view.getUint8(0), view.getUint8(1));
+        } else {
+            view.setUint32(0, v, true);
+            data.push(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+        }
+    });
+    return { count: type === 5 ? value.length / 2 : value.length, data };
+};
+
+/** A little-endian TIFF block with IFD0 and, optionally, a GPS sub-IFD. */
+const buildTiff = (ifd0: TiffEntry[], gps?: TiffEntry[]): Uint8Array => {
+    const ifdSize = (entries: TiffEntry[]) => 2 + entries.length * 12 + 4;
+    const ifd0Entries = gps ? [...ifd0, { tag: TAG_GPS_IFD, type: 4 as const, value: [0] }] : ifd0;
+    const gpsOffset = 8 + ifdSize(ifd0Entries);
+    if (gps) ifd0Entries[ifd0Entries.length - 1].value = [gpsOffset];
+
+    const buffer = new ArrayBuffer(4096);
+    const view = new DataView(buffer);
+    view.setUint16(0, 0x4949);
+    view.setUint16(2, 42, true);
+    view.setUint32(4, 8, true);
+    let dataOffset = gpsOffset + (gps ? ifdSize(gps) : 0);
+
+    const writeIfd = (start: number, entries: TiffEntry[]) => {
+        view.setUint16(start, entries.length, true);
+        entries.forEach((entry, i) => {
+            const entryStart = start + 2 + i * 12;
+            const { count, data } = entryBytes(entry);
+            view.setUint16(entryStart, entry.tag, true);
+            view.setUint16(entryStart + 2, entry.type, true);
+            view.setUint32(entryStart + 4, count, true);
+            if (data.length <= 4) {
+                data.forEach((b, j) => view.setUint8(entryStart + 8 + j, b));
+            } else {
+                view.setUint32(entryStart + 8, dataOffset, true);
+                data.forEach((b, j) => view.setUint8(dataOffset + j, b));
+                dataOffset += data.length;
+            }
+        });
+    };
+    writeIfd(8, ifd0Entries);
+    if (gps) writeIfd(gpsOffset, gps);
+    return new Uint8Array(buffer, 0, dataOffset);
+};
+
+const segment = (marker: number, payload: number[]): number[] =>
+    [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+
+const exifSegment = (tiff: Uint8Array) => segment(0xe1, [...ascii('Exif\0\0'), ...tiff]);
+
+const xmpSegment = (xmp: string) => segment(0xe1, [...ascii('http://ns.adobe.com/xap/1.0/\0'), ...ascii(xmp)]);
+
+const jpeg = (...segments: number[][]): ArrayBuffer =>
+    new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]).buffer;
+
+const JFIF_SEGMENT = segment(0xe0, [...ascii('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+// 51° 30' 0" and 0° 7' 30"
+const LATITUDE: TiffEntry = { tag: TAG_GPS_LATITUDE, type: 5, value: [51, 1, 30, 1, 0, 1] };
+const LONGITUDE: TiffEntry = { tag: TAG_GPS_LONGITUDE, type: 5, value: [0, 1, 7, 1, 30, 1] };
+
+const EMPTY = { location: null, capturedAt: null };
+
+describe('parseImageMetadata', () => {
+    it('reads GPS position, references and heading from EXIF', () => {
+        const tiff = buildTiff([], [
+            { tag: TAG_GPS_LATITUDE_REF, type: 2, value: 'N' },
+            LATITUDE,
+            { tag: TAG_GPS_LONGITUDE_REF, type: 2, value: 'W' },
+            LONGITUDE,
+            { tag: TAG_GPS_IMG_DIRECTION, type: 5, value: [450, 1] },
+        ]);
+        expect(parseImageMetadata(jpeg(JFIF_SEGMENT, exifSegment(tiff)))).toEqual({
+            location: { latitude: 51.5, longitude: -0.125, heading: 90 },
+            capturedAt: null,
+        });
+    });
+
+    it('returns no metadata for a JPEG without an APP1 segment', () => {
+        expect(parseImageMetadata(jpeg(JFIF_SEGMENT))).toEqual(EMPTY);
+    });
+
+    it('returns the capture time but no location when there is no GPS IFD', () => {
+        const tiff = buildTiff([{ tag: TAG_DATE_TIME, type: 2, value: '2024:05:01 10:00:00' }]);
+        expect(parseImageMetadata(jpeg(exifSegment(tiff)))).toEqual({
+            location: null,
+            capturedAt: new Date('2024-05-01T10:00:00').toISOString(),
+        });
+    });
+
+    it('reads coordinates without a reference as north and east, and omits a missing heading', () => {
+        const tiff = buildTiff([], [LATITUDE, LONGITUDE]);
+        const { location } = parseImageMetadata(jpeg(exifSegment(tiff)));
+        expect(location).toEqual({ latitude: 51.5, longitude: 0.125 });
+        expect(location).not.toHaveProperty('heading');
+    });
+
+    it('returns no location when only one coordinate is present', () => {
+        const tiff = buildTiff([], [LATITUDE]);
+        expect(parseImageMetadata(jpeg(exifSegment(tiff)))).toEqual(EMPTY);
+    });
+
+    it('ignores IFD offsets that point past the end of the data', () => {
+        const tiff = buildTiff([], [LATITUDE, LONGITUDE]);
+        // IFD0 pointer far outside the block
+        const badIfd0 = tiff.slice();
+        new DataView(badIfd0.buffer).setUint32(4, 0xfffff0, true);
+        expect(parseImageMetadata(jpeg(exifSegment(badIfd0)))).toEqual(EMPTY);
+        // GPS IFD pointer (the only IFD0 entry's value) outside the block
+        const badGps = tiff.slice();
+        new DataView(badGps.buffer).setUint32(8 + 2 + 8, 0xfffff0, true);
+        expect(parseImageMetadata(jpeg(exifSegment(badGps)))).toEqual(EMPTY);
+    });
+
+    it('returns no location for a truncated GPS IFD', () => {
+        const tiff = buildTiff([], [LATITUDE, LONGITUDE]);
+        // Cut the block inside the GPS IFD entries.
+        expect(parseImageMetadata(jpeg(exifSegment(tiff.slice(0, 8 + 18 + 14))))).toEqual(EMPTY);
+    });
+
+    it('rejects zero denominators and unknown byte orders', () => {
+        const zeroDenominator = buildTiff([], [{ ...LATITUDE, value: [51, 0, 30, 1, 0, 1] }, LONGITUDE]);
+        expect(parseImageMetadata(jpeg(exifSegment(zeroDenominator)))).toEqual(EMPTY);
+        const badByteOrder = buildTiff([], [LATITUDE, LONGITUDE]).slice();
+        badByteOrder[0] = 0x00;
+        expect(parseImageMetadata(jpeg(exifSegment(badByteOrder)))).toEqual(EMPTY);
+    });
+
+    it('stops at a JPEG segment whose length runs past the end of the file', () => {
+        const truncated = new Uint8Array(jpeg(exifSegment(buildTiff([], [LATITUDE, LONGITUDE])))).slice(0, 20);
+        expect(() => parseImageMetadata(truncated.buffer)).not.toThrow();
+        expect(parseImageMetadata(truncated.buffer)).toEqual(EMPTY);
+    });
+
+    it('falls back to XMP when there is no EXIF GPS', () => {
+        const xmp = '<x:xmpmeta><rdf:Description exif:GPSLatitude="51,30.0N" exif:GPSLongitude="0,7.5W" '
+            + 'exif:GPSImgDirection="90/1" exif:DateTimeOriginal="2024-05-01T10:00:00Z"/></x:xmpmeta>';
+        expect(parseImageMetadata(jpeg(JFIF_SEGMENT, xmpSegment(xmp)))).toEqual({
+            location: { latitude: 51.5, longitude: -0.125, heading: 90 },
+            capturedAt: '2024-05-01T10:00:00.000Z',
+        });
+    });
+
+    it('returns no location for malformed XMP coordinates', () => {
+        const xmp = '<x:xmpmeta><rdf:Description exif:GPSLatitude="north" exif:GPSLongitude="0,7.5W"/></x:xmpmeta>';
+        expect(parseImageMetadata(jpeg(xmpSegment(xmp)))).toEqual(EMPTY);
+    });
+
+    it('scans HEIC and other containers for a raw EXIF block', () => {
+        const tiff = buildTiff([], [{ tag: TAG_GPS_LATITUDE_REF, type: 2, value: 'S' }, LATITUDE, LONGITUDE]);
+        const heic = new Uint8Array([0, 0, 0, 24, ...ascii('ftypheic'), ...new Array(12).fill(0), 0, 0, 0, 6, ...ascii('Exif\0\0'), ...tiff]);
+        expect(parseImageMetadata(heic.buffer)).toEqual({
+            location: { latitude: -51.5, longitude: 0.125 },
+            capturedAt: null,
+        });
+    });
+
+    it('scans HEIC for an XMP packet when there is no EXIF block', () => {
+        const heic = new Uint8Array([0, 0, 0, 24, ...ascii('ftypheic'), ...ascii('<x:xmpmeta exif:GPSLatitude="10.5" exif:GPSLongitude="20.25"></x:xmpmeta>')]);
+        expect(parseImageMetadata(heic.buffer)).toEqual({ location: { latitude: 10.5, longitude: 20.25 }, capturedAt: null });
+    });
+
+    it('returns no metadata for empty or unrelated data', () => {
+        expect(parseImageMetadata(new ArrayBuffer(0))).toEqual(EMPTY);
+        expect(parseImageMetadata(new Uint8Array(ascii('not an image')).buffer)).toEqual(EMPTY);
+    });
+});
+
+describe('readImageMetadata', () => {
+    afterEach(() => vi.restoreAllMocks());
+
+    it('reads metadata from a file', async () => {
+        const tiff = buildTiff([], [LATITUDE, LONGITUDE]);
+        const file = new Blob([jpeg(exifSegment(tiff))], { type: 'image/jpeg' });
+        expect(await readImageMetadata(file)).toEqual({ location: { latitude: 51.5, longitude: 0.125 }, capturedAt: null });
+    });
+
+    it('resolves to no metadata when the file cannot be read', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const unreadable = { slice: () => ({ arrayBuffer: () => Promise.reject(new Error('read failed')) }) } as unknown as Blob;
+        await expect(readImageMetadata(unreadable)).resolves.toEqual(EMPTY);
+    });
+});
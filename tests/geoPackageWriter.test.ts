@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { GisLayer } from '../types';
+import { writeGeoPackage } from '../utils/geoPackageWriter';
+import { readSqliteFile } from './helpers/sqliteReader';
+
+const points: GisLayer = {
+    name: 'defects',
+    geometryType: 'Point',
+    fields: [{ name: 'type', type: 'text' }, { name: 'area', type: 'real' }],
+    features: [
+        { geometry: { type: 'Point', coordinates: [-0.12, 51.5] }, attributes: ['Pothole', 0.5] },
+        { geometry: { type: 'Point', coordinates: [-0.1, 51.6] }, attributes: ['', undefined] },
+    ],
+};
+
+const footprints: GisLayer = {
+    name: 'footprints',
+    geometryType: 'Polygon',
+    fields: [{ name: 'type', type: 'text' }],
+    // A clockwise outer ring without the closing point.
+    features: [{ geometry: { type: 'Polygon', rings: [[[0, 0], [0, 1], [1, 1], [1, 0]]] }, attributes: ['Rutting'] }],
+};
+
+const readGeometry = (blob: Uint8Array) => {
+    const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+    const wkb = 40;
+    return {
+        magic: String.fromCharCode(blob[0], blob[1]),
+        srsId: view.getInt32(4, true),
+        envelope: [0, 1, 2, 3].map(i => view.getFloat64(8 + i * 8, true)),
+        wkbType: view.getUint32(wkb + 1, true),
+        view,
+        wkb,
+    };
+};
+
+describe('writeGeoPackage', () => {
+    const db = readSqliteFile(writeGeoPackage([points, footprints, { ...footprints, name: 'empty', features: [] }]));
+    const rowsOf = (name: string) => db.readTree(db.schema.find(entry => entry.name === name)!.rootPage).rows.map(r => r.values);
+
+    it('marks the file as a GeoPackage 1.3', () => {
+        expect(db.applicationId).toBe(0x47504b47);
+        expect(db.userVersion).toBe(10300);
+    });
+
+    it('registers each non-empty layer with its bounds', () => {
+        expect(db.schema.filter(entry => entry.type === 'table').map(entry => entry.name))
+            .toEqual(['gpkg_spatial_ref_sys', 'gpkg_contents', 'gpkg_geometry_columns', 'defects', 'footprints']);
+        const contents = rowsOf('gpkg_contents');
+        expect(contents.map(row => row[0])).toEqual(['defects', 'footprints']);
+        expect(contents[0].slice(5)).toEqual([-0.12, 51.5, -0.1, 51.6, 4326]);
+        expect(rowsOf('gpkg_geometry_columns')).toEqual([['defects', 'geom', 'POINT', 4326, 0, 0], ['footprints', 'geom', 'POLYGON', 4326, 0, 0]]);
+    });
+
+    it('stores point features as GeoPackage WKB with null for missing attributes', () => {
+        const [first, second] = rowsOf('defects');
+        expect(first[0]).toBeNull();
+        expect(first.slice(2)).toEqual(['Pothole', 0.5]);
+        expect(second.slice(2)).toEqual([null, null]);
+        const geometry = readGeometry(first[1] as Uint8Array);
+        expect([geometry.magic, geometry.srsId, geometry.wkbType]).toEqual(['GP', 4326, 1]);
+        expect([geometry.view.getFloat64(geometry.wkb + 5, true), geometry.view.getFloat64(geometry.wkb + 13, true)]).toEqual([-0.12, 51.5]);
+    });
+
+    it('closes polygon rings and orients them counter-clockwise', () => {
+        const geometry = readGeometry(rowsOf('footprints')[0][1] as Uint8Array);
+        expect(geometry.wkbType).toBe(3);
+        expect(geometry.envelope).toEqual([0, 1, 0, 1]);
+        const { view, wkb } = geometry;
+        expect(view.getUint32(wkb + 5, true)).toBe(1);
+        const count = view.getUint32(wkb + 9, true);
+        const ring = Array.from({ length: count }, (_, i) => [view.getFloat64(wkb + 13 + i * 16, true), view.getFloat64(wkb + 21 + i * 16, true)]);
+        expect(ring).toEqual([[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]);
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * An independent reader for the parts of the SQLite file format that `writeSqliteDatabase`
+ * produces, so tests can read the written files back without a native SQLite.
+ */
+
+export type SqliteRecordValue = null | number | string | Uint8Array;
+
+export interface SqliteRow {
+    rowid: number;
+    values: SqliteRecordValue[];
+}
+
+export interface SqliteTree {
+    rows: SqliteRow[]; // Rowid tables only
+    keys: SqliteRecordValue[][]; // Index entries only
+    pages: number[]; // Every page the tree uses, including overflow pages
+    depth: number;
+}
+
+export interface SqliteFile {
+    pageSize: number;
+    pageCount: number;
+    applicationId: number;
+    userVersion: number;
+    textEncoding: number;
+    schema: { type: string; name: string; tableName: string; rootPage: number; sql: string | null }[];
+    readTree: (rootPage: number) => SqliteTree;
+}
+
+const decoder = new TextDecoder();
+
+const readVarint = (bytes: Uint8Array, offset: number): [value: number, length: number] => {
+    let value = 0n;
+    for (let i = 0; i < 8; i++) {
+        const byte = bytes[offset + i];
+        value = (value << 7n) | BigInt(byte & 0x7f);
+        if (!(byte & 0x80)) return [Number(value), i + 1];
+    }
+    value = (value << 8n) | BigInt(bytes[offset + 8]);
+    return [Number(BigInt.asIntN(64, value)), 9];
+};
+
+const readInteger = (bytes: Uint8Array, offset: number, size: number): number => {
+    let value = 0;
+    for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+    return value >= 2 ** (size * 8 - 1) ? value - 2 ** (size * 8) : value;
+};
+
+const INTEGER_SIZES: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 4, 5: 6, 6: 8 };
+
+export const decodeRecord = (record: Uint8Array): SqliteRecordValue[] => {
+    const [headerSize, headerVarintLength] = readVarint(record, 0);
+    const serialTypes: number[] = [];
+    for (let offset = headerVarintLength; offset < headerSize;) {
+        const [serialType, length] = readVarint(record, offset);
+        serialTypes.push(serialType);
+        offset += length;
+    }
+    let offset = headerSize;
+    return serialTypes.map(serialType => {
+        if (serialType === 0) return null;
+        if (serialType === 8) return 0;
+        if (serialType === 9) return 1;
+        if (serialType === 7) {
+            const value = new DataView(record.buffer, record.byteOffset + offset, 8).getFloat64(0);
+            offset += 8;
+            return value;
+        }
+        if (INTEGER_SIZES[serialType]) {
+            const value = readInteger(record, offset, INTEGER_SIZES[serialType]);
+            offset += INTEGER_SIZES[serialType];
+            return value;
+        }
+        const length = Math.floor((serialType - 12) / 2);
+        const bytes = record.slice(offset, offset + length);
+        offset += length;
+        return serialType % 2 === 1 ? decoder.decode(bytes) : bytes;
+    });
+};
+
+export function readSqliteFile(file: Uint8Array): SqliteFile {
+    const header = new DataView(file.buffer, file.byteOffset, 100);
+    if (decoder.decode(file.subarray(0, 16)) !== 'SQLite format 3\0') throw new Error("Not an SQLite file.");
+    const pageSize = header.getUint16(16);
+    const usable = pageSize - file[20];
+    const page = (n: number) => file.subarray((n - 1) * pageSize, n * pageSize);
+    const pageView = (n: number) => new DataView(file.buffer, file.byteOffset + (n - 1) * pageSize, pageSize);
+
+    /** Reads a cell's payload, following its overflow chain. */
+    const readPayload = (bytes: Uint8Array, offset: number, payloadSize: number, maxLocal: number, pages: number[]): Uint8Array => {
+        if (payloadSize <= maxLocal) return bytes.slice(offset, offset + payloadSize);
+        const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+        let local = minLocal + ((payloadSize - minLocal) % (usable - 4));
+        if (local > maxLocal) local = minLocal;
+        const payload = new Uint8Array(payloadSize);
+        payload.set(bytes.subarray(offset, offset + local));
+        let next = new DataView(bytes.buffer, bytes.byteOffset + offset + local, 4).getUint32(0);
+        for (let written = local; next !== 0;) {
+            pages.push(next);
+            const overflow = page(next);
+            const chunk = overflow.subarray(4, 4 + Math.min(usable - 4, payloadSize - written));
+            payload.set(chunk, written);
+            written += chunk.length;
+            next = pageView(next).getUint32(0);
+        }
+        return payload;
+    };
+
+    const readTree = (rootPage: number): SqliteTree => {
+        const tree: SqliteTree = { rows: [], keys: [], pages: [], depth: 0 };
+        const visit = (n: number, depth: number) => {
+            tree.pages.push(n);
+            tree.depth = Math.max(tree.depth, depth);
+            const bytes = page(n);
+            const view = pageView(n);
+            const headerOffset = n === 1 ? 100 : 0;
+            const type = bytes[headerOffset];
+            const cellCount = view.getUint16(headerOffset + 3);
+            const pointersStart = headerOffset + (type === 0x05 || type === 0x02 ? 12 : 8);
+            for (let i = 0; i < cellCount; i++) {
+                let offset = view.getUint16(pointersStart + i * 2);
+                if (type === 0x05) {
+                    visit(view.getUint32(offset), depth + 1);
+                } else if (type === 0x0d) {
+                    const [payloadSize, a] = readVarint(bytes, offset);
+                    const [rowid, b] = readVarint(bytes, offset + a);
+                    offset += a + b;
+                    tree.rows.push({ rowid, values: decodeRecord(readPayload(bytes, offset, payloadSize, usable - 35, tree.pages)) });
+                } else if (type === 0x0a) {
+                    const [payloadSize, a] = readVarint(bytes, offset);
+                    const maxLocal = Math.floor(((usable - 12) * 64) / 255) - 23;
+                    tree.keys.push(decodeRecord(readPayload(bytes, offset + a, payloadSize, maxLocal, tree.pages)));
+                } else {
+                    throw new Error(`Unsupported page type ${type} on page ${n}.`);
+                }
+            }
+            if (type === 0x05) visit(view.getUint32(headerOffset + 8), depth + 1);
+        };
+        visit(rootPage, 0);
+        return tree;
+    };
+
+    const schema = readTree(1).rows.map(({ values }) => ({
+        type: values[0] as string,
+        name: values[1] as string,
+        tableName: values[2] as string,
+        rootPage: values[3] as number,
+        sql: values[4] as string | null,
+    }));
+
+    return {
+        pageSize,
+        pageCount: header.getUint32(28),
+        applicationId: header.getUint32(68),
+        userVersion: header.getUint32(60),
+        textEncoding: header.getUint32(56),
+        schema,
+        readTree,
+    };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { Defect } from '../types';
+import { calculatePci, correctedDeductValue, deductFromCurve, getPciRating } from '../utils/pciCalculator';
+
+const defect = (type: Defect['type'], severity: Defect['severity'], overrides: Partial<Defect> = {}): Defect => ({
+    type,
+    description: '',
+    boundingBox: { x_min: 0.4, y_min: 0.4, x_max: 0.6, y_max: 0.6 },
+    severity,
+    ...overrides,
+});
+
+const potholes = (count: number, severity: Defect['severity']) => Array.from({ length: count }, () => defect('Pothole', severity));
+
+describe('deductFromCurve', () => {
+    const curve: [number, number][] = [[1, 10], [100, 30]];
+
+    it('interpolates on log density between digitized points', () => {
+        expect(deductFromCurve(curve, 10)).toBeCloseTo(20);
+        expect(deductFromCurve(curve, 1)).toBe(10);
+    });
+
+    it('runs linearly to the origin below the first point and flat above the last', () => {
+        expect(deductFromCurve(curve, 0.5)).toBeCloseTo(5);
+        expect(deductFromCurve(curve, 0)).toBe(0);
+        expect(deductFromCurve(curve, 1000)).toBe(30);
+    });
+});
+
+describe('correctedDeductValue', () => {
+    it('uses the total directly for q = 1, capped at 100', () => {
+        expect(correctedDeductValue(42, 1)).toBe(42);
+        expect(correctedDeductValue(130, 1)).toBe(100);
+    });
+
+    it('interpolates the q curve and reuses the q = 7 curve beyond it', () => {
+        expect(correctedDeductValue(30, 2)).toBeCloseTo(23.5);
+        expect(correctedDeductValue(100, 9)).toBe(correctedDeductValue(100, 7));
+    });
+});
+
+describe('getPciRating', () => {
+    it('puts each boundary in the lower band', () => {
+        expect([86, 85, 70, 55, 40, 25, 10].map(getPciRating)).toEqual(['Good', 'Satisfactory', 'Fair', 'Poor', 'Very Poor', 'Serious', 'Failed']);
+        expect(getPciRating(85.01)).toBe('Good');
+        expect(getPciRating(0)).toBe('Failed');
+    });
+});
+
+describe('calculatePci', () => {
+    it('rates a unit without defects as 100', () => {
+        const result = calculatePci([]);
+        expect(result.pci).toBe(100);
+        expect(result.rating).toBe('Good');
+        expect(result.iterations).toHaveLength(0);
+    });
+
+    it('uses the deduct value directly when only one exceeds 2', () => {
+        const result = calculatePci(potholes(1, 'High'));
+        expect(result.iterations).toHaveLength(1);
+        expect(result.iterations[0].q).toBe(1);
+        expect(result.pci).toBeCloseTo(100 - result.deducts[0].deductValue);
+        expect(result.rating).toBe(getPciRating(result.pci));
+    });
+
+    it('sums quantities per distress and severity and counts unmapped defects', () => {
+        const result = calculatePci([...potholes(3, 'Low'), defect('Pothole', undefined), defect('Distress', 'High')]);
+        expect(result.deducts.map(d => [d.severity, d.quantity, d.severityAssumed])).toEqual([['Low', 3, false], ['Medium', 1, true]]);
+        expect(result.unratedDefectCount).toBe(1);
+    });
+
+    it('keeps m deduct values, applying the fractional part to the next', () => {
+        const result = calculatePci([
+            ...potholes(10, 'High'),
+            defect('Alligator Crack', 'High', { area_sq_m: 20 }),
+            defect('Alligator Crack', 'Medium', { area_sq_m: 20 }),
+            defect('Rutting', 'High', { area_sq_m: 20 }),
+            defect('Block Crack', 'High', { area_sq_m: 20 }),
+            defect('Roughness', 'High', { area_sq_m: 20 }),
+            defect('Longitudinal Crack', 'High', { dimensions: { length_m: 20, width_m: 0.01 } }),
+        ]);
+        const values = result.deducts.map(d => d.deductValue);
+        const m = 1 + (9 / 98) * (100 - values[0]);
+        expect(result.allowableDeducts).toBeCloseTo(m);
+        expect(values.length).toBeGreaterThan(Math.ceil(m));
+
+        const whole = Math.floor(m);
+        const first = result.iterations[0].deductValues;
+        expect(first).toHaveLength(whole + 1);
+        expect(first.slice(0, whole)).toEqual(values.slice(0, whole));
+        expect(first[whole]).toBeCloseTo(values[whole] * (m - whole));
+    });
+
+    it('reduces the smallest deduct above 2 each iteration until q = 1 and keeps the highest CDV', () => {
+        const result = calculatePci([
+            ...potholes(3, 'High'),
+            defect('Alligator Crack', 'Medium', { area_sq_m: 10 }),
+            defect('Rutting', 'High', { area_sq_m: 10 }),
+        ]);
+        const { iterations } = result;
+        expect(iterations.map(i => i.q)).toEqual([3, 2, 1]);
+        iterations.slice(1).forEach((iteration, i) => {
+            const previous = iterations[i].deductValues;
+            const smallest = Math.min(...previous.filter(v => v > 2));
+            expect(iteration.deductValues).toEqual(previous.map(v => (v === smallest ? 2 : v)));
+        });
+        iterations.forEach(i => expect(i.correctedDeductValue).toBeCloseTo(correctedDeductValue(i.totalDeductValue, i.q)));
+        expect(result.maxCorrectedDeductValue).toBe(Math.max(...iterations.map(i => i.correctedDeductValue)));
+        expect(result.pci).toBeCloseTo(100 - result.maxCorrectedDeductValue);
+    });
+
+    it('rejects a sample unit without area', () => {
+        expect(() => calculatePci([], 0)).toThrow(/greater than zero/);
+    });
+});
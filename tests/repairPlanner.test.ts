@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { CostSettings, Defect, RepairCandidate } from '../types';
+import { estimateOverlayCost } from '../utils/costEstimator';
+import { calculatePci } from '../utils/pciCalculator';
+import { buildRepairCandidates, planRepairProgramme } from '../utils/repairPlanner';
+import { aggregateBySegment, parseRoadNetwork } from '../utils/roadSegments';
+
+const SETTINGS: CostSettings = {
+    currency: 'USD',
+    patchMaterial: 'Hot Mix',
+    coldMixPerTonne: 200,
+    hotMixPerTonne: 100,
+    crackSealantPerMetre: 3,
+    labourPerHour: 40,
+    coldMixDensity: 2,
+    hotMixDensity: 2.4,
+    defaultPatchDepthM: 0.05,
+    patchHoursPerSqM: 0.5,
+    crackSealHoursPerMetre: 0.1,
+};
+
+const defect = (type: Defect['type'], overrides: Partial<Defect> = {}): Defect => ({
+    type,
+    description: '',
+    boundingBox: { x_min: 0.4, y_min: 0.4, x_max: 0.6, y_max: 0.6 },
+    ...overrides,
+});
+
+const candidate = (id: string, cost: number, benefit: number, coveredDefects: Defect[] = [defect('Pothole')]): RepairCandidate => ({
+    id,
+    kind: coveredDefects.length > 1 ? 'segment' : 'defect',
+    label: id,
+    treatment: 'Patch',
+    cost,
+    pciGain: benefit,
+    severityWeight: 1,
+    trafficWeight: 1,
+    benefit,
+    coveredDefects,
+});
+
+describe('estimateOverlayCost', () => {
+    it('prices hot mix at the default depth', () => {
+        expect(estimateOverlayCost(100, SETTINGS)).toMatchObject({ asphaltTonnes: 12, materialCost: 1200, labourHours: 50, totalCost: 3200 });
+        expect(estimateOverlayCost(0, SETTINGS).unpricedCount).toBe(1);
+    });
+});
+
+describe('buildRepairCandidates', () => {
+    it('rates defects off the network as a sample unit of their own and leaves out unpriced ones', () => {
+        const pothole = defect('Pothole', { severity: 'High', area_sq_m: 1 });
+        const candidates = buildRepairCandidates([pothole, defect('Pothole')], SETTINGS);
+        expect(candidates).toHaveLength(1);
+        expect(candidates[0]).toMatchObject({ kind: 'defect', treatment: 'Patch', severityWeight: 2, trafficWeight: 1 });
+        expect(candidates[0].pciGain).toBeCloseTo(100 - calculatePci([pothole]).pci);
+        expect(candidates[0].benefit).toBeCloseTo(candidates[0].pciGain * 2);
+    });
+
+    it('offers an overlay per segment and weights repairs by road traffic', () => {
+        const network = parseRoadNetwork(JSON.stringify({
+            type: 'FeatureCollection',
+            features: [{ type: 'Feature', properties: { id: 'A1', width_m: 6, traffic_weight: 3 }, geometry: { type: 'LineString', coordinates: [[0, 0], [0.001, 0]] } }],
+        }));
+        const onRoad = defect('Pothole', { severity: 'Medium', area_sq_m: 1, location: { latitude: 0, longitude: 0.0002 } });
+        const aggregation = aggregateBySegment([onRoad], network);
+        const [segment, patch] = buildRepairCandidates([onRoad], SETTINGS, { network, aggregation });
+        expect(segment).toMatchObject({ kind: 'segment', treatment: 'Mill & Overlay', trafficWeight: 3, coveredDefects: [onRoad] });
+        expect(segment.cost).toBeCloseTo(estimateOverlayCost(600, SETTINGS).totalCost);
+        expect(patch).toMatchObject({ kind: 'defect', roadName: 'A1', trafficWeight: 3 });
+        expect(patch.pciGain).toBeCloseTo(100 - calculatePci([onRoad], 600).pci);
+    });
+});
+
+describe('planRepairProgramme', () => {
+    const a = candidate('A', 100, 50);
+    const b = candidate('B', 50, 40);
+    const c = candidate('C', 80, 20);
+
+    it('funds the best benefit per cost first until the budget is spent', () => {
+        const programme = planRepairProgramme([a, b, c], 150);
+        expect(programme.scheduled.map(r => [r.id, r.year, r.rank, r.cumulativeCost])).toEqual([['B', 1, 1, 50], ['A', 1, 2, 150]]);
+        expect(programme.deferred.map(r => r.id)).toEqual(['C']);
+        expect(programme.spentByYear).toEqual([150]);
+        expect(programme.totalBenefit).toBe(90);
+    });
+
+    it('skips a repair that does not fit and funds cheaper ones after it', () => {
+        const programme = planRepairProgramme([candidate('Big', 200, 1000), a, b], 150);
+        expect(programme.scheduled.map(r => r.id)).toEqual(['B', 'A']);
+        expect(programme.deferred.map(r => r.id)).toEqual(['Big']);
+    });
+
+    it('rolls unfunded repairs into later years with a fresh budget', () => {
+        const programme = planRepairProgramme([a, b, c], 150, 2);
+        expect(programme.scheduled.map(r => [r.id, r.year, r.rank, r.cumulativeCost])).toEqual([['B', 1, 1, 50], ['A', 1, 2, 150], ['C', 2, 3, 80]]);
+        expect(programme.spentByYear).toEqual([150, 80]);
+        expect(programme.deferred).toHaveLength(0);
+    });
+
+    it('drops repairs that overlap a funded one instead of deferring them', () => {
+        const first = defect('Pothole');
+        const second = defect('Pothole');
+        const overlay = candidate('Overlay', 100, 100, [first, second]);
+        const patch = candidate('Patch', 10, 5, [first]);
+        const better = planRepairProgramme([overlay, patch], 1000);
+        expect(better.scheduled.map(r => r.id)).toEqual(['Overlay']);
+        expect(better.deferred).toHaveLength(0);
+
+        const cheaper = planRepairProgramme([overlay, candidate('Patch', 1, 5, [first])], 1000);
+        expect(cheaper.scheduled.map(r => r.id)).toEqual(['Patch']);
+        expect(cheaper.deferred).toHaveLength(0);
+    });
+
+    it('leaves out repairs without a cost', () => {
+        const programme = planRepairProgramme([candidate('Free', 0, 10), b], 100);
+        expect(programme.scheduled.map(r => r.id)).toEqual(['B']);
+        expect(programme.deferred).toHaveLength(0);
+    });
+});
@@ -0,0 +1,131 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import type { AnalysisOptions, AreaHealthAssessment } from '../types';
+import { normalizeDefectType, validateAnalysisResponse } from '../utils/responseValidator';
+
+const fixtures = JSON.parse(readFileSync(new URL('./fixtures/detectionResponses.json', import.meta.url), 'utf8'));
+
+const options = (overrides: Partial<AnalysisOptions> = {}): AnalysisOptions => ({
+    isDeepScan: false,
+    isCrackPathAnalysis: false,
+    isHealthAnalysis: false,
+    isRealTime: false,
+    isFidelitySegmentation: false,
+    isInstanceSegmentation: false,
+    ...overrides,
+});
+
+describe('normalizeDefectType', () => {
+    it('keeps exact defect types, ignoring case and separators', () => {
+        expect(normalizeDefectType('Pothole')).toBe('Pothole');
+        expect(normalizeDefectType('block_crack')).toBe('Block Crack');
+        expect(normalizeDefectType('  LONGITUDINAL-CRACK ')).toBe('Longitudinal Crack');
+    });
+
+    it('maps keyword variants onto a defect type', () => {
+        expect(normalizeDefectType('alligator_cracking')).toBe('Alligator Crack');
+        expect(normalizeDefectType('fatigue cracking')).toBe('Alligator Crack');
+        expect(normalizeDefectType('wheel rut')).toBe('Rutting');
+        expect(normalizeDefectType('potholes')).toBe('Pothole');
+    });
+
+    it('returns null for unknown types and non-strings', () => {
+        expect(normalizeDefectType('Manhole')).toBeNull();
+        expect(normalizeDefectType(3)).toBeNull();
+        expect(normalizeDefectType(undefined)).toBeNull();
+    });
+});
+
+describe('validateAnalysisResponse', () => {
+    it('passes a well-formed response through without warnings', () => {
+        const result = validateAnalysisResponse(fixtures.clean, options());
+        expect(result).toEqual(fixtures.clean);
+        expect(result.warnings).toBeUndefined();
+    });
+
+    it('rescales percent boxes and confidences', () => {
+        const [pothole] = validateAnalysisResponse(fixtures.repairable, options()).defects;
+        expect(pothole.type).toBe('Pothole');
+        expect(pothole.severity).toBe('High');
+        expect(pothole.confidence).toBeCloseTo(0.87);
+        expect(pothole.boundingBox.x_min).toBeCloseTo(0.1);
+        expect(pothole.boundingBox.y_min).toBeCloseTo(0.2);
+        expect(pothole.boundingBox.x_max).toBeCloseTo(0.4);
+        expect(pothole.boundingBox.y_max).toBeCloseTo(0.6);
+    });
+
+    it('reorders inverted corners, clamps boxes and clamps confidence overshoots', () => {
+        const { defects, warnings } = validateAnalysisResponse(fixtures.repairable, options());
+        const crack = defects[1];
+        expect(crack.type).toBe('Alligator Crack');
+        expect(crack.boundingBox).toEqual({ x_min: 0.5, y_min: 0.9, x_max: 0.8, y_max: 1 });
+        expect(crack.confidence).toBe(1);
+        expect(crack.dimensions).toBeUndefined();
+        expect(crack.area_sq_m).toBeUndefined();
+        expect(warnings).toEqual(expect.arrayContaining([
+            'Defect 2 (alligator_cracking): bounding box corners were inverted.',
+            'Defect 2 (alligator_cracking): bounding box extended outside the image and was clamped.',
+            'Defect 2 (alligator_cracking): confidence 1.4 was above 1 and was clamped.',
+            'Defect 2 (alligator_cracking): invalid area_sq_m (-3) removed.',
+        ]));
+    });
+
+    it('drops invalid points, polygons left with too few of them and out-of-range confidences', () => {
+        const { defects, warnings } = validateAnalysisResponse(fixtures.repairable, options());
+        const crack = defects[2];
+        expect(crack.segmentationPolygon).toBeUndefined();
+        expect(crack.centerlinePath).toEqual([{ x: 0, y: 0.1 }, { x: 0.15, y: 0.9 }]);
+        expect(crack.confidence).toBeUndefined();
+        expect(warnings).toEqual(expect.arrayContaining([
+            'Defect 3 (Longitudinal Crack): 1 invalid segmentation polygon point(s) removed.',
+            'Defect 3 (Longitudinal Crack): segmentation polygon had fewer than 3 valid points and was removed.',
+            'Defect 3 (Longitudinal Crack): centerline path points outside the image were clamped.',
+            'Defect 3 (Longitudinal Crack): invalid confidence (250) removed.',
+        ]));
+    });
+
+    it('drops detections with no object, an unknown type or no usable box', () => {
+        const { defects, warnings } = validateAnalysisResponse(fixtures.unusable, options());
+        expect(defects).toEqual([]);
+        expect(warnings).toEqual([
+            'Defect 1: not an object, dropped.',
+            'Defect 2 (Manhole): unknown type "Manhole", dropped.',
+            'Defect 3 (Pothole): missing or empty bounding box, dropped.',
+            'Defect 4 (Rutting): missing or empty bounding box, dropped.',
+        ]);
+    });
+
+    it('counts potholes when the instance statistics are invalid', () => {
+        const result = validateAnalysisResponse(fixtures.instance, options({ isInstanceSegmentation: true }));
+        expect(result.pothole_count).toBe(2);
+        expect(result.pothole_density_sq_m).toBeUndefined();
+        expect(result.defects[0].instanceId).toBe(1);
+        expect(result.defects[1].instanceId).toBeUndefined();
+        expect(result.warnings).toEqual([
+            'Defect 2 (Pothole): invalid instanceId (two) removed.',
+            'pothole_count was missing or invalid; counted 2 from the detections.',
+            'Result: invalid pothole_density_sq_m (high) removed.',
+        ]);
+    });
+
+    it('clamps the health score and keeps only string lists', () => {
+        const result = validateAnalysisResponse(fixtures.health, options({ isHealthAnalysis: true })) as AreaHealthAssessment;
+        expect(result.pciScore).toBe(100);
+        expect(result.summary).toBe('Pavement in good condition.');
+        expect(result.potentialCauses).toEqual(['Ageing']);
+        expect(result.recommendations).toEqual([]);
+        expect(result.warnings).toEqual(['pciScore 120 was outside 0–100 and was clamped.']);
+    });
+
+    it('throws when the defects array is missing', () => {
+        const message = "Invalid response format from the detection model. 'defects' array not found.";
+        expect(() => validateAnalysisResponse({ detections: [] }, options())).toThrow(message);
+        expect(() => validateAnalysisResponse(null, options())).toThrow(message);
+        expect(() => validateAnalysisResponse([], options())).toThrow(message);
+    });
+
+    it('throws when a health response has no score or summary', () => {
+        expect(() => validateAnalysisResponse(fixtures.healthWithoutSummary, options({ isHealthAnalysis: true })))
+            .toThrow('Invalid response format for Health Assessment.');
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { Defect } from '../types';
+import { buildDefectsGeoJSON } from '../utils/exportUtils';
+import { parseResultFile } from '../utils/resultFileParser';
+
+const pothole: Defect = {
+    type: 'Pothole',
+    description: 'Deep pothole',
+    severity: 'High',
+    confidence: 0.9,
+    boundingBox: { x_min: 0.1, y_min: 0.2, x_max: 0.3, y_max: 0.4 },
+    dimensions: { length_m: 0.6, width_m: 0.4, depth_m: 0.05 },
+    area_sq_m: 0.24,
+    segmentationPolygon: [{ x: 0.1, y: 0.2 }, { x: 0.3, y: 0.2 }, { x: 0.2, y: 0.4 }],
+    location: { latitude: 51.5, longitude: -0.12, heading: 90 },
+    capturedAt: '2024-05-01T10:00:00.000Z',
+};
+
+describe('parseResultFile', () => {
+    it('reads back a GeoJSON export', () => {
+        const [defect] = parseResultFile(JSON.stringify(buildDefectsGeoJSON([pothole])));
+        expect(defect).toMatchObject(pothole);
+    });
+
+    it('skips features with an unknown type and ignores invalid geometry and fields', () => {
+        const collection = {
+            type: 'FeatureCollection',
+            features: [
+                null,
+                { type: 'Feature', geometry: null, properties: { type: 'Manhole' } },
+                { type: 'Feature', geometry: { type: 'Point', coordinates: ['x', 1] }, properties: { type: 'Rutting', severity: 'Extreme', segmentation_polygon: '[{"x":0.1}]' } },
+            ],
+        };
+        const [defect] = parseResultFile(JSON.stringify(collection));
+        expect(defect.type).toBe('Rutting');
+        expect(defect.location).toBeUndefined();
+        expect(defect.severity).toBeUndefined();
+        expect(defect.segmentationPolygon).toEqual([]);
+    });
+
+    it('reads a defect array or an analysis result', () => {
+        expect(parseResultFile(JSON.stringify([pothole, { type: 'Pothole' }, 3]))).toEqual([pothole]);
+        expect(parseResultFile(JSON.stringify({ defects: [pothole] }))).toEqual([pothole]);
+    });
+
+    it('rejects invalid JSON and files without defects', () => {
+        expect(() => parseResultFile('{')).toThrow('Failed to parse the results file');
+        expect(() => parseResultFile('{"defects": []}')).toThrow('No defects were found');
+        expect(() => parseResultFile('null')).toThrow('No defects were found');
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import type { Defect, Location, RoadNetwork } from '../types';
+import { aggregateBySegment, defectsInSegment, parseRoadNetwork, snapToNetwork } from '../utils/roadSegments';
+
+const ORIGIN: Location = { latitude: 51.5, longitude: -0.12 };
+const METERS_PER_DEGREE = 6371000 * Math.PI / 180;
+
+// A point `eastM` along an east-running road through ORIGIN, `northM` off its centreline.
+const at = (eastM: number, northM = 0): Location => ({
+    latitude: ORIGIN.latitude + northM / METERS_PER_DEGREE,
+    longitude: ORIGIN.longitude + eastM / (METERS_PER_DEGREE * Math.cos(ORIGIN.latitude * Math.PI / 180)),
+});
+
+const lineString = (points: Location[]) => ({ type: 'LineString', coordinates: points.map(p => [p.longitude, p.latitude]) });
+
+const feature = (geometry: unknown, properties: Record<string, unknown> = {}) => ({ type: 'Feature', geometry, properties });
+
+const collection = (...features: unknown[]) => JSON.stringify({ type: 'FeatureCollection', features });
+
+const network = (startChainageM = 0): RoadNetwork =>
+    parseRoadNetwork(collection(feature(lineString([at(0), at(250)]), { id: 'A1', start_chainage_m: startChainageM })));
+
+const defect = (location: Location | undefined, overrides: Partial<Defect> = {}): Defect => ({
+    type: 'Pothole',
+    description: '',
+    boundingBox: { x_min: 0.4, y_min: 0.4, x_max: 0.6, y_max: 0.6 },
+    severity: 'Medium',
+    location,
+    ...overrides,
+});
+
+describe('parseRoadNetwork', () => {
+    it('reads ids, names, chainage, width and traffic weight', () => {
+        const { roads } = parseRoadNetwork(collection(
+            feature(lineString([at(0), at(100)]), { road_id: 'B2', road_name: 'High Street', start_km: 2.5, width_m: '6', aadt: 10000 }),
+        ));
+        expect(roads).toHaveLength(1);
+        expect(roads[0]).toMatchObject({ id: 'B2', name: 'High Street', startChainageM: 2500, widthM: 6, trafficWeight: 2 });
+        expect(roads[0].lengthM).toBeCloseTo(100, 0);
+    });
+
+    it('chains MultiLineString parts one after another', () => {
+        const multi = { type: 'MultiLineString', coordinates: [lineString([at(0), at(100)]).coordinates, lineString([at(100), at(160)]).coordinates] };
+        const { roads } = parseRoadNetwork(collection(feature(multi, { id: 'C3', chainage: 1000 })));
+        expect(roads.map(r => r.id)).toEqual(['C3#1', 'C3#2']);
+        expect(roads[1].startChainageM).toBeCloseTo(1100, 0);
+    });
+
+    it('accepts a single Feature and numbers unnamed roads', () => {
+        const { roads } = parseRoadNetwork(JSON.stringify(feature(lineString([at(0), at(50)]))));
+        expect(roads[0]).toMatchObject({ id: 'road-1', name: 'road-1', startChainageM: 0 });
+    });
+
+    it('skips malformed coordinates and features', () => {
+        const { roads } = parseRoadNetwork(collection(
+            null,
+            feature({ type: 'Point', coordinates: [0, 0] }),
+            feature({ type: 'LineString', coordinates: [['x', 'y'], ...lineString([at(0), at(50)]).coordinates] }),
+        ));
+        expect(roads).toHaveLength(1);
+        expect(roads[0].coordinates).toHaveLength(2);
+    });
+
+    it('rejects input that is not a network of centrelines', () => {
+        expect(() => parseRoadNetwork('not json')).toThrow(/valid GeoJSON/);
+        expect(() => parseRoadNetwork(JSON.stringify({ type: 'FeatureCollection', features: 'none' }))).toThrow(/FeatureCollection/);
+        expect(() => parseRoadNetwork(collection(feature(lineString([at(0)]))))).toThrow(/at least two points/);
+    });
+});
+
+describe('snapToNetwork', () => {
+    it('returns the chainage along the road and the offset from it', () => {
+        const position = snapToNetwork(at(150, 10), network(500));
+        expect(position).not.toBeNull();
+        expect(position!.roadId).toBe('A1');
+        expect(position!.chainageM).toBeCloseTo(650, 0);
+        expect(position!.offsetM).toBeCloseTo(10, 0);
+    });
+
+    it('clamps positions beyond the ends of the road', () => {
+        expect(snapToNetwork(at(-10), network(), 50)!.chainageM).toBe(0);
+    });
+
+    it('leaves locations further than the offset limit unmatched', () => {
+        expect(snapToNetwork(at(100, 35), network())).toBeNull();
+        expect(snapToNetwork(at(100, 35), network(), 40)).not.toBeNull();
+    });
+
+    it('picks the nearest road', () => {
+        const twoRoads = parseRoadNetwork(collection(
+            feature(lineString([at(0), at(200)]), { id: 'south' }),
+            feature(lineString([at(0, 20), at(200, 20)]), { id: 'north' }),
+        ));
+        expect(snapToNetwork(at(100, 12), twoRoads)!.roadId).toBe('north');
+        expect(snapToNetwork(at(100, 8), twoRoads)!.roadId).toBe('south');
+    });
+});
+
+describe('aggregateBySegment', () => {
+    it('bins defects into fixed-length segments and lists clean segments', () => {
+        const { segments, snapped, unmatched } = aggregateBySegment([defect(at(20)), defect(at(60)), defect(at(230))], network());
+        expect(snapped).toHaveLength(3);
+        expect(unmatched).toHaveLength(0);
+        expect(segments.map(s => [s.startChainageM, Math.round(s.endChainageM), s.defectCount])).toEqual([[0, 100, 2], [100, 200, 0], [200, 250, 1]]);
+        expect(segments[0].typeCounts).toEqual({ Pothole: 2 });
+        expect(segments[1].pci).toBe(100);
+        expect(segments[0].pci).toBeLessThan(100);
+    });
+
+    it('aligns segments to chainage multiples when a road starts mid-segment', () => {
+        const { segments } = aggregateBySegment([defect(at(10))], network(50));
+        expect(segments.map(s => s.startChainageM)).toEqual([50, 100, 200]);
+        expect(segments[0].endChainageM).toBe(100);
+    });
+
+    it('reports defects without a location or too far from any road as unmatched', () => {
+        const { segments, unmatched } = aggregateBySegment([defect(undefined), defect(at(100, 100))], network());
+        expect(unmatched).toHaveLength(2);
+        expect(segments).toHaveLength(0);
+    });
+
+    it('returns the defects counted in a segment', () => {
+        const near = defect(at(120), { type: 'Rutting' });
+        const aggregation = aggregateBySegment([defect(at(20)), near], network(), { segmentLengthM: 50 });
+        const segment = aggregation.segments.find(s => s.startChainageM === 100)!;
+        expect(defectsInSegment(aggregation, segment, 50)).toEqual([near]);
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { GisLayer } from '../types';
+import { writeShapefile } from '../utils/shapefileWriter';
+
+const LONG_TEXT = 'x'.repeat(300);
+
+const layer: GisLayer = {
+    name: 'defects',
+    geometryType: 'Point',
+    fields: [
+        { name: 'description', type: 'text' },
+        { name: 'count', type: 'integer' },
+        { name: 'area', type: 'real', decimals: 2 },
+        { name: 'note', type: 'text' },
+    ],
+    features: [
+        { geometry: { type: 'Point', coordinates: [-0.12, 51.5] }, attributes: [LONG_TEXT, 3, 1.234, 'é'.repeat(200)] },
+        { geometry: { type: 'Point', coordinates: [-0.1, 51.6] }, attributes: ['short', undefined, 'n/a', ''] },
+    ],
+};
+
+const bytesOf = (data: Uint8Array | string) => typeof data === 'string' ? new TextEncoder().encode(data) : data;
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('writeShapefile', () => {
+    it('writes .shp and .shx headers and an index that points at each record', () => {
+        const { shp, shx } = writeShapefile(layer);
+        const shpBytes = bytesOf(shp);
+        const shpView = viewOf(shpBytes);
+        const shxView = viewOf(bytesOf(shx));
+        expect(shpView.getInt32(0)).toBe(9994);
+        expect(shpView.getInt32(24) * 2).toBe(shpBytes.length);
+        expect(shpView.getInt32(28, true)).toBe(1000);
+        expect(shpView.getInt32(32, true)).toBe(1);
+        expect([0, 1, 2, 3].map(i => shpView.getFloat64(36 + i * 8, true))).toEqual([-0.12, 51.5, -0.1, 51.6]);
+        expect(shxView.getInt32(24) * 2).toBe(100 + 2 * 8);
+
+        [[-0.12, 51.5], [-0.1, 51.6]].forEach((coordinates, i) => {
+            const offset = shxView.getInt32(100 + i * 8) * 2;
+            expect(shpView.getInt32(offset)).toBe(i + 1);
+            expect(shpView.getInt32(offset + 4)).toBe(shxView.getInt32(100 + i * 8 + 4));
+            expect([shpView.getFloat64(offset + 12, true), shpView.getFloat64(offset + 20, true)]).toEqual(coordinates);
+        });
+    });
+
+    it('closes polygon rings and orients the outer ring clockwise', () => {
+        const { shp } = writeShapefile({
+            name: 'footprints',
+            geometryType: 'Polygon',
+            fields: [],
+            features: [{ geometry: { type: 'Polygon', rings: [[[0, 0], [1, 0], [1, 1], [0, 1]]] }, attributes: [] }],
+        });
+        const view = viewOf(bytesOf(shp));
+        const record = 108;
+        expect(view.getInt32(record, true)).toBe(5);
+        expect([view.getInt32(record + 36, true), view.getInt32(record + 40, true)]).toEqual([1, 5]);
+        const ring = Array.from({ length: 5 }, (_, i) => [view.getFloat64(record + 48 + i * 16, true), view.getFloat64(record + 56 + i * 16, true)]);
+        expect(ring).toEqual([[0, 0], [0, 1], [1, 1], [1, 0], [0, 0]]);
+    });
+
+    it('sizes DBF fields and records from the header', () => {
+        const dbf = bytesOf(writeShapefile(layer).dbf);
+        const view = viewOf(dbf);
+        const headerLength = view.getUint16(8, true);
+        const recordLength = view.getUint16(10, true);
+        expect(view.getUint32(4, true)).toBe(2);
+        expect(headerLength).toBe(32 + 4 * 32 + 1);
+        expect(dbf[headerLength - 1]).toBe(0x0d);
+
+        const fields = [0, 1, 2, 3].map(i => ({
+            name: text(dbf.subarray(32 + i * 32, 32 + i * 32 + 11)).replace(/\0+$/, ''),
+            type: String.fromCharCode(dbf[32 + i * 32 + 11]),
+            length: dbf[32 + i * 32 + 16],
+            decimals: dbf[32 + i * 32 + 17],
+        }));
+        expect(fields).toEqual([
+            { name: 'descriptio', type: 'C', length: 254, decimals: 0 },
+            { name: 'count', type: 'N', length: 18, decimals: 0 },
+            { name: 'area', type: 'N', length: 19, decimals: 2 },
+            { name: 'note', type: 'C', length: 254, decimals: 0 },
+        ]);
+        expect(recordLength).toBe(1 + 254 + 18 + 19 + 254);
+        expect(dbf.length).toBe(headerLength + 2 * recordLength + 1);
+        expect(dbf[dbf.length - 1]).toBe(0x1a);
+    });
+
+    it('caps text at 254 bytes without splitting characters and right-aligns numbers', () => {
+        const dbf = bytesOf(writeShapefile(layer).dbf);
+        const view = viewOf(dbf);
+        const headerLength = view.getUint16(8, true);
+        const recordLength = view.getUint16(10, true);
+        const record = (row: number) => dbf.subarray(headerLength + row * recordLength, headerLength + (row + 1) * recordLength);
+
+        const first = record(0);
+        expect(first[0]).toBe(0x20);
+        expect(text(first.subarray(1, 255))).toBe('x'.repeat(254));
+        expect(text(first.subarray(255, 273))).toBe('3'.padStart(18));
+        expect(text(first.subarray(273, 292))).toBe('1.23'.padStart(19));
+        expect(text(first.subarray(292, 546))).toBe('é'.repeat(127));
+
+        const second = record(1);
+        expect(text(second.subarray(1, 255)).trimEnd()).toBe('short');
+        expect(text(second.subarray(255, 546)).trim()).toBe('');
+    });
+
+    it('declares WGS 84 and UTF-8', () => {
+        const { prj, cpg } = writeShapefile(layer);
+        expect(prj).toContain('GCS_WGS_1984');
+        expect(cpg).toBe('UTF-8');
+    });
+});
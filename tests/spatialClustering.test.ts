@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { Defect } from '../types';
+import { clusterDefects } from '../utils/spatialClustering';
+
+const FIX = { latitude: 51.5, longitude: -0.12 };
+
+const defect = (x: number, overrides: Partial<Defect> = {}): Defect => ({
+    type: 'Pothole',
+    description: '',
+    boundingBox: { x_min: x, y_min: 0.4, x_max: x + 0.2, y_max: 0.6 },
+    location: FIX,
+    capturedAt: '2024-05-01T10:00:00.000Z',
+    ...overrides,
+});
+
+describe('clusterDefects', () => {
+    it('keeps separate defects from the same photo apart', () => {
+        expect(clusterDefects([defect(0.1), defect(0.6)])).toHaveLength(2);
+    });
+
+    it('merges overlapping detections from the same photo', () => {
+        const merged = clusterDefects([defect(0.1), defect(0.2)]);
+        expect(merged).toHaveLength(1);
+        expect(merged[0].observations).toHaveLength(2);
+    });
+
+    it('keeps defects from the same video frame apart', () => {
+        const frame = { capturedAt: undefined, timestamp: 3 } as Partial<Defect>;
+        expect(clusterDefects([defect(0.1, frame), defect(0.6, frame)])).toHaveLength(2);
+    });
+
+    it('merges nearby observations from different captures', () => {
+        const later = defect(0.6, { capturedAt: '2024-06-01T10:00:00.000Z', location: { latitude: 51.50002, longitude: -0.12 } });
+        expect(clusterDefects([defect(0.1), later])).toHaveLength(1);
+    });
+
+    it('keeps an earlier merge when a later capture matches both defects of one photo', () => {
+        const later = defect(0.1, { capturedAt: '2024-06-01T10:00:00.000Z' });
+        const merged = clusterDefects([defect(0.1), defect(0.6), later]);
+        expect(merged.map(m => m.observations.length)).toEqual([2, 1]);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { writeSqliteDatabase, type SqliteTable } from '../utils/sqliteWriter';
+import { readSqliteFile } from './helpers/sqliteReader';
+
+const table = (overrides: Partial<SqliteTable> = {}): SqliteTable => ({
+    name: 'items',
+    sql: 'CREATE TABLE items (a, b)',
+    rows: [],
+    ...overrides,
+});
+
+/** Every page from 1 to the page count must belong to exactly one b-tree. */
+const expectEveryPageUsedOnce = (file: Uint8Array) => {
+    const db = readSqliteFile(file);
+    const used = [1, ...db.schema.flatMap(entry => db.readTree(entry.rootPage).pages)].sort((a, b) => a - b);
+    expect(used).toEqual(Array.from({ length: db.pageCount }, (_, i) => i + 1));
+};
+
+describe('writeSqliteDatabase', () => {
+    it('writes a valid header sized to the page count', () => {
+        const file = writeSqliteDatabase([table()], { applicationId: 0x47504b47, userVersion: 10300 });
+        const db = readSqliteFile(file);
+        expect(db.pageSize).toBe(4096);
+        expect(file.length).toBe(db.pageCount * 4096);
+        expect(db.pageCount).toBe(2);
+        expect([db.applicationId, db.userVersion, db.textEncoding]).toEqual([0x47504b47, 10300, 1]);
+        expect(db.schema).toEqual([{ type: 'table', name: 'items', tableName: 'items', rootPage: 2, sql: 'CREATE TABLE items (a, b)' }]);
+    });
+
+    it('round-trips every value type', () => {
+        const values = [null, 0, 1, 127, -1, -40000, 2 ** 40, -(2 ** 50), 1.5, 'héllo', '', new Uint8Array([1, 2, 255])];
+        const db = readSqliteFile(writeSqliteDatabase([table({ rows: [values] })]));
+        expect(db.readTree(db.schema[0].rootPage).rows).toEqual([{ rowid: 1, values }]);
+    });
+
+    it('takes the rowid from an INTEGER PRIMARY KEY column, stores it as NULL and sorts by it', () => {
+        const db = readSqliteFile(writeSqliteDatabase([table({ rowidColumn: 0, rows: [[3, 'c'], [-1, 'z'], [1, 'a']] })]));
+        expect(db.readTree(db.schema[0].rootPage).rows).toEqual([
+            { rowid: -1, values: [null, 'z'] },
+            { rowid: 1, values: [null, 'a'] },
+            { rowid: 3, values: [null, 'c'] },
+        ]);
+    });
+
+    it('splits a table over several leaves under an interior page', () => {
+        const rows = Array.from({ length: 500 }, (_, i) => [i, `row ${i} `.padEnd(60, '.')]);
+        const file = writeSqliteDatabase([table({ rows })]);
+        const db = readSqliteFile(file);
+        const tree = db.readTree(db.schema[0].rootPage);
+        expect(tree.depth).toBe(1);
+        expect(tree.pages.length).toBeGreaterThan(5);
+        expect(tree.rows.map(r => r.rowid)).toEqual(rows.map((_, i) => i + 1));
+        expect(tree.rows.map(r => r.values)).toEqual(rows);
+        expectEveryPageUsedOnce(file);
+    });
+
+    it('stores large values on overflow pages', () => {
+        const blob = Uint8Array.from({ length: 10000 }, (_, i) => i % 251);
+        const file = writeSqliteDatabase([table({ rows: [['small', 1], ['large', blob]] })]);
+        const db = readSqliteFile(file);
+        const tree = db.readTree(db.schema[0].rootPage);
+        expect(tree.rows[1].values).toEqual(['large', blob]);
+        // One leaf plus two overflow pages for the ~8 KB that does not stay in the cell.
+        expect(tree.pages.length).toBe(3);
+        expectEveryPageUsedOnce(file);
+    });
+
+    it('writes indexes in key order with the rowid last', () => {
+        const db = readSqliteFile(writeSqliteDatabase([table({
+            rows: [['b', 2], ['a', 1], [null, 3], [5, 4]],
+            indexes: [{ name: 'items_a', columns: [0] }],
+        })]));
+        const index = db.schema.find(entry => entry.type === 'index')!;
+        expect(index).toMatchObject({ name: 'items_a', tableName: 'items', sql: null });
+        expect(db.readTree(index.rootPage).keys).toEqual([[null, 3], [5, 4], ['a', 2], ['b', 1]]);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { BoundingBox, Defect, GroundTruthDefect, Point } from '../types';
+import { buildConfusionMatrix, calculatePolygonIou, detectionIou } from '../utils/validationUtils';
+
+const square = (x: number, y: number, size: number): Point[] => [
+    { x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size },
+];
+
+// The unit square with its top-right quarter cut away.
+const L_SHAPE: Point[] = [
+    { x: 0, y: 0 }, { x: 0.5, y: 0 }, { x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 1, y: 1 }, { x: 0, y: 1 },
+];
+
+const box = (x: number, y: number, size = 0.2): BoundingBox => ({ x_min: x, y_min: y, x_max: x + size, y_max: y + size });
+
+const prediction = (type: Defect['type'], boundingBox: BoundingBox, confidence = 0.9): Defect => ({ type, description: '', boundingBox, confidence });
+
+const truth = (type: string, boundingBox: BoundingBox): GroundTruthDefect => ({ type, boundingBox });
+
+describe('calculatePolygonIou', () => {
+    it('is 1 for identical polygons and 0 for disjoint ones', () => {
+        expect(calculatePolygonIou(square(0.1, 0.1, 0.3), square(0.1, 0.1, 0.3))).toBe(1);
+        expect(calculatePolygonIou(square(0, 0, 0.2), square(0.5, 0.5, 0.2))).toBe(0);
+    });
+
+    it('is the area ratio for a polygon contained in another', () => {
+        expect(calculatePolygonIou(square(0.25, 0.25, 0.5), square(0, 0, 1))).toBeCloseTo(0.25, 2);
+    });
+
+    it('follows the outline of concave polygons', () => {
+        expect(calculatePolygonIou(L_SHAPE, square(0, 0, 1))).toBeCloseTo(0.75, 2);
+        expect(calculatePolygonIou(L_SHAPE, square(0.5, 0, 0.5))).toBe(0);
+    });
+
+    it('is 0 for outlines with fewer than three points', () => {
+        expect(calculatePolygonIou(square(0, 0, 1).slice(0, 2), square(0, 0, 1))).toBe(0);
+    });
+});
+
+describe('detectionIou', () => {
+    it('compares masks in mask mode and falls back to boxes without them', () => {
+        const gt: GroundTruthDefect = { type: 'Pothole', boundingBox: box(0, 0, 1), segmentationPolygon: L_SHAPE };
+        const withMask = { boundingBox: box(0, 0, 1), segmentationPolygon: square(0, 0, 1) };
+        expect(detectionIou(withMask, gt, 'box')).toBe(1);
+        expect(detectionIou(withMask, gt, 'mask')).toBeCloseTo(0.75, 2);
+        expect(detectionIou({ boundingBox: box(0, 0, 1) }, gt, 'mask')).toBe(1);
+    });
+});
+
+describe('buildConfusionMatrix', () => {
+    it('keeps crack subtypes apart and counts misses and false alarms against background', () => {
+        const matrix = buildConfusionMatrix(
+            [
+                prediction('Alligator Crack', box(0, 0)),
+                prediction('Transverse Crack', box(0.7, 0.7)),
+                prediction('Pothole', box(0.4, 0), 0.5),
+            ],
+            [truth('Longitudinal Crack', box(0, 0)), truth('pothole', box(0.4, 0)), truth('pothole', box(0, 0.5))],
+        );
+        expect(matrix.groundTruthLabels).toEqual(['Longitudinal Crack', 'Pothole', 'Background']);
+        expect(matrix.predictedLabels).toEqual(['Alligator Crack', 'Pothole', 'Transverse Crack', 'Background']);
+        expect(matrix.counts).toEqual([
+            [1, 0, 0, 0],
+            [0, 1, 0, 1],
+            [0, 0, 1, 0],
+        ]);
+    });
+
+    it('lets the most confident detection claim a shared ground truth', () => {
+        const matrix = buildConfusionMatrix(
+            [prediction('Block Crack', box(0, 0), 0.4), prediction('Alligator Crack', box(0, 0), 0.8)],
+            [truth('Alligator Crack', box(0, 0))],
+        );
+        expect(matrix.predictedLabels).toEqual(['Alligator Crack', 'Block Crack', 'Background']);
+        expect(matrix.counts).toEqual([
+            [1, 0, 0],
+            [0, 1, 0],
+        ]);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { Defect, RoadSegmentSummary } from '../types';
+import { buildSegmentWorkOrders, buildWorkOrders } from '../utils/workOrders';
+
+const defect = (type: Defect['type'], overrides: Partial<Defect> = {}): Defect => ({
+    type,
+    description: '',
+    boundingBox: { x_min: 0.4, y_min: 0.4, x_max: 0.6, y_max: 0.6 },
+    ...overrides,
+});
+
+const segment = (pci: number): RoadSegmentSummary => ({
+    roadId: 'A1',
+    roadName: 'High Street',
+    startChainageM: 200,
+    endChainageM: 300,
+    defectCount: 1,
+    areaSqM: 0.5,
+    typeCounts: { Pothole: 1 },
+    pci,
+    pciRating: 'Poor',
+});
+
+describe('buildWorkOrders', () => {
+    const defects = [
+        defect('Longitudinal Crack', { severity: 'Low', dimensions: { length_m: 3, width_m: 0.01 } }),
+        defect('Transverse Crack', { severity: 'Medium', dimensions: { length_m: 2, width_m: 0.01 } }),
+        defect('Pothole', { severity: 'High', area_sq_m: 0.5, volume_m3: 0.05, location: { latitude: 51, longitude: 0 } }),
+        defect('Alligator Crack', { severity: 'Low', dimensions: { length_m: 1, width_m: 1.5, depth_m: 0.02 }, location: { latitude: 52, longitude: 1 } }),
+        defect('Rutting', { area_sq_m: 10 }),
+    ];
+
+    it('drafts one order per treatment, overlays first', () => {
+        const orders = buildWorkOrders(defects, 'Session');
+        expect(orders.map(o => o.title)).toEqual(['Session: Mill & Overlay', 'Session: Patch', 'Session: Crack Seal']);
+        expect(orders.map(o => o.defectCount)).toEqual([1, 2, 2]);
+    });
+
+    it('quantifies crack sealing in metres and other treatments in square metres', () => {
+        const [overlay, patch, seal] = buildWorkOrders(defects);
+        expect([overlay.quantity, overlay.unit]).toEqual([10, 'm²']);
+        expect([patch.quantity, patch.unit]).toEqual([2, 'm²']);
+        expect([seal.quantity, seal.unit]).toEqual([5, 'm']);
+        expect(patch.volumeM3).toBeCloseTo(0.05 + 1.5 * 0.02);
+        expect(patch.defectTypes).toEqual({ 'Pothole': 1, 'Alligator Crack': 1 });
+        expect(patch.location).toEqual({ latitude: 51.5, longitude: 0.5 });
+    });
+
+    it('takes the priority from the most severe defect, rating unknown severity as Medium', () => {
+        expect(buildWorkOrders(defects).map(o => o.priority)).toEqual(['Medium', 'High', 'Medium']);
+        expect(buildWorkOrders([defect('Pothole', { severity: 'Low' })])[0].priority).toBe('Low');
+    });
+});
+
+describe('buildSegmentWorkOrders', () => {
+    const pothole = defect('Pothole', { severity: 'Low', area_sq_m: 0.5 });
+
+    it('resurfaces the whole carriageway of a segment at or below the overlay threshold', () => {
+        const [order, ...rest] = buildSegmentWorkOrders(segment(40), [pothole], 6);
+        expect(rest).toHaveLength(0);
+        expect(order).toMatchObject({ title: 'High Street km 0.2–0.3: Mill & Overlay', treatment: 'Mill & Overlay', priority: 'Medium', quantity: 600, roadId: 'A1', startChainageM: 200, endChainageM: 300 });
+        expect(buildSegmentWorkOrders(segment(25), [pothole])[0].priority).toBe('High');
+    });
+
+    it('orders the defects of a better segment individually', () => {
+        const orders = buildSegmentWorkOrders(segment(70), [pothole]);
+        expect(orders).toHaveLength(1);
+        expect(orders[0]).toMatchObject({ title: 'High Street km 0.2–0.3: Patch', treatment: 'Patch', quantity: 0.5, roadName: 'High Street' });
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from '../utils/zipUtils';
+
+interface ReadEntry {
+    name: string;
+    crc: number;
+    data: Uint8Array;
+}
+
+/** Reads a stored zip archive through its central directory, checking each local header. */
+const readZip = async (blob: Blob): Promise<ReadEntry[]> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const decoder = new TextDecoder();
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset + centralSize).toBe(end);
+
+    const entries: ReadEntry[] = [];
+    let offset = centralOffset;
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(offset, true)).toBe(0x02014b50);
+        expect(view.getUint16(offset + 10, true)).toBe(0);
+        const crc = view.getUint32(offset + 16, true);
+        const size = view.getUint32(offset + 20, true);
+        expect(view.getUint32(offset + 24, true)).toBe(size);
+        const nameLength = view.getUint16(offset + 28, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        const local = view.getUint32(offset + 42, true);
+
+        expect(view.getUint32(local, true)).toBe(0x04034b50);
+        expect(view.getUint32(local + 14, true)).toBe(crc);
+        expect(view.getUint32(local + 18, true)).toBe(size);
+        expect(decoder.decode(bytes.subarray(local + 30, local + 30 + view.getUint16(local + 26, true)))).toBe(name);
+        const dataStart = local + 30 + nameLength;
+        entries.push({ name, crc, data: bytes.slice(dataStart, dataStart + size) });
+        offset += 46 + nameLength;
+    }
+    expect(offset).toBe(end);
+    return entries;
+};
+
+describe('createZip', () => {
+    it('lists every entry in the central directory with matching local headers', async () => {
+        const binary = new Uint8Array([0, 1, 2, 254, 255]);
+        const entries = await readZip(createZip([
+            { name: 'doc.kml', data: '<kml/>' },
+            { name: 'files/ünïcode.bin', data: binary },
+            { name: 'empty.txt', data: '' },
+        ]));
+        expect(entries.map(e => e.name)).toEqual(['doc.kml', 'files/ünïcode.bin', 'empty.txt']);
+        expect(new TextDecoder().decode(entries[0].data)).toBe('<kml/>');
+        expect(entries[1].data).toEqual(binary);
+        expect(entries[2].data).toHaveLength(0);
+    });
+
+    it('stores the CRC-32 of each entry', async () => {
+        const [hello, empty, digits] = await readZip(createZip([
+            { name: 'a', data: 'hello' },
+            { name: 'b', data: '' },
+            { name: 'c', data: '123456789' },
+        ]));
+        expect(hello.crc).toBe(0x3610a686);
+        expect(empty.crc).toBe(0);
+        expect(digits.crc).toBe(0xcbf43926);
+    });
+
+    it('uses the given MIME type', () => {
+        expect(createZip([], 'application/vnd.google-earth.kmz').type).toBe('application/vnd.google-earth.kmz');
+    });
+});
@@ -2,6 +2,7 @@
 export interface Location {
   latitude: number;
   longitude: number;
+  heading?: number; // Degrees clockwise from true north, when the device or photo reports it
 }
 
 export interface Point {
@@ -37,11 +38,22 @@ export interface Defect {
   perimeter_m?: number; // For high-fidelity segmentation, in meters
   circularity?: number; // For high-fidelity segmentation
   instanceId?: number; // For Instance Segmentation
+  capturedAt?: string; // ISO 8601 time the source photo or frame was taken
+  humanVerified?: boolean; // Set once an inspector has reviewed or corrected the detection
 }
 
 export interface GroundTruthDefect {
   type: string;
   boundingBox: BoundingBox;
+  segmentationPolygon?: Point[]; // Normalized, when the annotation format provides one (COCO, YOLO-seg)
+}
+
+export type AnnotationFormat = 'voc' | 'coco' | 'yolo';
+
+// How dataset labels (e.g. RDD2022 "D40") translate to the app's defect types.
+export interface AnnotationSettings {
+  labelMapping: Record<string, Defect['type']>; // Keys are matched case-insensitively
+  yoloClassNames: string[]; // Class index -> label, as in a YOLO data.yaml
 }
 
 export interface ClassMetrics {
@@ -54,6 +66,19 @@ export interface ClassMetrics {
     totalGroundTruth: number;
 }
 
+// How detections are matched to ground truth: by bounding box, or by segmentation mask
+// where both sides have a polygon.
+export type IouMode = 'box' | 'mask';
+
+// Counts of ground-truth class (rows) against predicted class (columns), matched regardless
+// of class. The last label on each axis is 'Background': unmatched predictions are counted
+// in the Background row, missed ground truth in the Background column.
+export interface ConfusionMatrix {
+  groundTruthLabels: string[];
+  predictedLabels: string[];
+  counts: number[][]; // counts[groundTruthIndex][predictedIndex]
+}
+
 export interface ValidationMetrics {
   matches: number; // True Positives
   misses: number; // False Negatives
@@ -63,8 +88,44 @@ export interface ValidationMetrics {
   recall: number;
   f1Score: number;
   perClassMetrics: Record<string, ClassMetrics>;
+  iouMode?: IouMode;
+  confusionMatrix?: ConfusionMatrix;
+}
+
+export interface ClassBenchmark extends ClassMetrics {
+  predictionCount: number;
+  ap50: number; // Average precision at IoU 0.5
+  ap5095: number; // Average precision averaged over IoU 0.5:0.05:0.95
+}
+
+// Dataset-level results of running analysis over many annotated images.
+export interface BenchmarkReport {
+  imageCount: number;
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  map50: number;
+  map5095: number;
+  perClassMetrics: Record<string, ClassBenchmark>;
 }
 
+// One operating point on a precision-recall curve: the metrics when detections scoring at
+// least `confidence` are kept.
+export interface PrCurvePoint {
+  confidence: number;
+  precision: number;
+  recall: number;
+}
+
+export interface PrCurve {
+  className: string;
+  totalGroundTruth: number;
+  points: PrCurvePoint[];
+  averagePrecision: number;
+}
 
 export interface AnalysisResult {
   defects: Defect[];
@@ -73,6 +134,15 @@ export interface AnalysisResult {
   pothole_density_sq_m?: number; // For instance segmentation
   groundTruth?: GroundTruthDefect[];
   validationMetrics?: ValidationMetrics;
+  // 'review' when the ground truth is the inspector's corrected detections rather than an annotation file.
+  groundTruthSource?: 'file' | 'review';
+  modelDefects?: Defect[]; // The model's original detections, kept once an inspector edits `defects`
+  reviewedAt?: string; // ISO 8601 time the detections were last corrected
+  capturedAt?: string; // ISO 8601 time the source photo was taken
+  warnings?: string[]; // Problems found (and repaired or dropped) when validating the model's response
+  promptVersion?: string; // Prompt registry version that produced the detections
+  schemaVersion?: number; // Response schema version the prompt was written for
+  modelVersion?: string; // Model or fixture generator that produced the detections, set by every backend
 }
 
 export interface AreaHealthAssessment extends AnalysisResult {
@@ -82,6 +152,23 @@ export interface AreaHealthAssessment extends AnalysisResult {
   recommendations: string[];
 }
 
+// A detection from one run paired with the best-overlapping detection of the other run.
+export interface DetectionPair {
+  a: Defect;
+  b: Defect;
+  iou: number;
+  typeChanged: boolean;
+  severityChanged: boolean;
+}
+
+// Differences between two sets of detections for the same image, e.g. from two prompt versions.
+export interface DetectionDiff {
+  pairs: DetectionPair[];
+  onlyA: Defect[];
+  onlyB: Defect[];
+  meanIou: number | null;
+}
+
 export interface SatelliteAnalysisResult {
   location_analyzed: string;
   assessmentSummary: string;
@@ -94,6 +181,29 @@ export interface VideoDefect extends Defect {
   timestamp: number; // in seconds from video start
 }
 
+// A single physical defect linked across several sampled video frames.
+export interface TrackedDefect extends VideoDefect {
+  trackId: number;
+  firstSeen: number; // in seconds from video start
+  lastSeen: number; // in seconds from video start
+  observationCount: number; // Number of frames the defect was detected in
+  bestFrameUrl?: string; // JPEG data URL of the best view, cropped around the defect
+}
+
+// One physical defect (asset) merged from every observation of the same type within a radius.
+export interface MergedDefect extends Defect {
+  assetId: string;
+  observations: Defect[]; // Raw detections that were merged, in recording order
+  firstObservedAt?: string; // ISO 8601, when capture times are known
+  lastObservedAt?: string;
+}
+
+// Location and capture time read from a photo's embedded EXIF/XMP metadata.
+export interface ImageMetadata {
+  location: Location | null;
+  capturedAt: string | null;
+}
+
 export interface GpxPoint {
   lat: number;
   lon: number;
@@ -112,3 +222,345 @@ export interface ResearchResult {
   answer: string;
   sources: ResearchSource[];
 }
+
+export type DetectionBackendId = 'gemini' | 'mock' | 'http';
+
+// The analysis modes offered for still images.
+export type ImageAnalysisType = 'standard' | 'detailed' | 'health' | 'instance';
+
+// Mode flags understood by every detection backend.
+export interface AnalysisOptions {
+  isDeepScan: boolean;
+  isCrackPathAnalysis: boolean;
+  isHealthAnalysis: boolean;
+  isRealTime: boolean;
+  isFidelitySegmentation: boolean;
+  isInstanceSegmentation: boolean;
+  targetDefects?: string[];
+  promptVersion?: string; // Prompt registry version for prompt-based backends; the current version when omitted
+}
+
+export interface DetectionBackendSettings {
+  backendId: DetectionBackendId;
+  httpEndpoint: string;
+  httpApiKey?: string;
+}
+
+export type SessionSource = 'image' | 'camera' | 'realtime' | 'video';
+
+export interface InspectionSession {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  defectCount: number;
+  analysisCount: number;
+}
+
+export interface StoredMedia {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+  mimeType: string;
+  createdAt: string;
+}
+
+export interface StoredAnalysis {
+  id: string;
+  sessionId: string;
+  source: SessionSource;
+  createdAt: string;
+  mediaId?: string;
+  videoRunId?: string; // Queued video frames only: the video run the frame belongs to
+  result: AnalysisResult;
+}
+
+export interface StoredDefect {
+  id?: number;
+  sessionId: string;
+  analysisId: string;
+  defect: Defect;
+}
+
+// The video analysis run a queued frame came from; its frames are de-duplicated together on drain.
+export interface QueuedVideoRun {
+  id: string;
+  frameInterval: number; // Seconds between sampled frames
+}
+
+export interface QueuedAnalysis {
+  id: string;
+  sessionId: string;
+  source: SessionSource;
+  createdAt: string;
+  image: Blob;
+  mimeType: string;
+  location: Location | null;
+  options: AnalysisOptions;
+  timestamp?: number; // Video frames only, in seconds from video start
+  videoRun?: QueuedVideoRun; // Video frames only
+  capturedAt?: string; // ISO 8601 capture time of the image or frame
+  status: 'pending' | 'failed';
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError?: string;
+}
+
+export interface QueueSummary {
+  pending: number;
+  failed: number;
+}
+
+export type BatchItemStatus = 'pending' | 'analyzing' | 'done' | 'failed' | 'queued';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  // Path inside a picked directory, or the file name for a plain multi-select.
+  path: string;
+  status: BatchItemStatus;
+  attempts: number;
+  defectCount?: number;
+  error?: string;
+}
+
+export interface BenchmarkItem {
+  id: string;
+  image: File;
+  annotation: File | null;
+  path: string;
+  status: BatchItemStatus;
+  predictionCount?: number;
+  groundTruthCount?: number;
+  error?: string;
+}
+
+// ASTM D6433 asphalt distresses that the detector's defect types map onto.
+export type PciDistress = 'Alligator Cracking' | 'Block Cracking' | 'Corrugation' | 'Longitudinal & Transverse Cracking' | 'Potholes' | 'Rutting';
+
+export interface PciDeduct {
+  distress: PciDistress;
+  severity: 'Low' | 'Medium' | 'High';
+  quantity: number; // m² for area distresses, m for linear ones, a count for potholes
+  unit: 'm²' | 'm' | 'count';
+  density: number; // Percent of the sample unit, as read off the ASTM deduct curves
+  deductValue: number;
+  defectCount: number;
+  severityAssumed: boolean; // True when some defects had no severity and were rated Medium
+}
+
+export interface PciIteration {
+  deductValues: number[];
+  q: number; // Number of deduct values greater than 2
+  totalDeductValue: number;
+  correctedDeductValue: number;
+}
+
+export interface PciResult {
+  pci: number;
+  rating: 'Good' | 'Satisfactory' | 'Fair' | 'Poor' | 'Very Poor' | 'Serious' | 'Failed';
+  sampleAreaSqM: number;
+  maxCorrectedDeductValue: number;
+  allowableDeducts: number; // m, the number of deduct values considered
+  deducts: PciDeduct[];
+  iterations: PciIteration[];
+  unratedDefectCount: number; // Defects with no ASTM mapping (e.g. generic "Distress")
+}
+
+// A road centreline from a GeoJSON network, used for linear referencing.
+export interface RoadCenterline {
+  id: string;
+  name: string;
+  coordinates: Location[];
+  startChainageM: number; // Chainage at the first vertex, in meters
+  lengthM: number;
+  widthM?: number; // Carriageway width, used as the PCI sample unit width
+  trafficWeight?: number; // Relative importance for repair planning; 1 is an average road
+}
+
+export interface RoadNetwork {
+  name: string;
+  roads: RoadCenterline[];
+}
+
+export interface SnappedPosition {
+  roadId: string;
+  roadName: string;
+  chainageM: number;
+  offsetM: number; // Perpendicular distance from the centreline
+}
+
+export interface RoadSegmentSummary {
+  roadId: string;
+  roadName: string;
+  startChainageM: number;
+  endChainageM: number;
+  defectCount: number;
+  areaSqM: number;
+  typeCounts: Partial<Record<Defect['type'], number>>;
+  pci: number;
+  pciRating: PciResult['rating'];
+}
+
+// 'observed' forecasts are calibrated on repeat observations of the same asset.
+export type ForecastBasis = 'curve' | 'observed';
+
+// When a defect is expected to reach High severity.
+export interface DefectForecast {
+  defect: Defect;
+  monthsToFailure: number; // 0 when already High; Infinity when its observed history shows no change
+  failureDate?: string; // ISO 8601, counted from the last observation
+  basis: ForecastBasis;
+  speedFactor: number; // Observed deterioration speed relative to the standard curve (1 for curve forecasts)
+}
+
+// When a road segment's PCI is expected to fall to the resurfacing threshold.
+export interface SegmentForecast {
+  segment: RoadSegmentSummary;
+  monthsToFailure: number; // 0 when already at or below the threshold; Infinity beyond the forecast horizon
+  pciIn12Months: number;
+  basis: ForecastBasis;
+}
+
+export type TreatmentType = 'Crack Seal' | 'Patch' | 'Mill & Overlay';
+
+export type WorkOrderStatus = 'open' | 'scheduled' | 'done';
+
+export type WorkOrderPriority = 'Low' | 'Medium' | 'High';
+
+export type ChangeStatus = 'new' | 'grown' | 'unchanged' | 'repaired';
+
+// One defect followed from a baseline inspection run to a later one.
+export interface DefectChange {
+  status: ChangeStatus;
+  type: Defect['type'];
+  baseline?: Defect; // Absent for new defects
+  current?: Defect; // Absent for repaired defects
+  distanceM?: number; // Between the matched locations
+  areaChangeSqM?: number; // Only when both runs measured the area
+  severityChange?: number; // Steps on the Low / Medium / High scale
+}
+
+export interface ChangeReport {
+  changes: DefectChange[];
+  counts: Record<ChangeStatus, number>;
+  unlocatedCount: number; // Defects without GPS, which cannot be matched between runs
+  baselineDate?: string; // ISO 8601
+  currentDate?: string; // ISO 8601
+  intervalDays?: number;
+  netAreaChangeSqM: number; // Growth and new defects minus repaired area
+  newPerMonth?: number;
+  areaGrowthSqMPerMonth?: number;
+}
+
+// A repair the planner can fund: one defect with its default treatment, or a segment overlay.
+export interface RepairCandidate {
+  id: string;
+  kind: 'defect' | 'segment';
+  label: string;
+  treatment: TreatmentType;
+  cost: number; // In the cost settings' currency
+  pciGain: number; // PCI points restored on the defect's sample unit or segment
+  severityWeight: number;
+  trafficWeight: number;
+  benefit: number; // pciGain × severityWeight × trafficWeight
+  defect?: Defect;
+  segment?: RoadSegmentSummary;
+  coveredDefects: Defect[]; // Defects the repair fixes; candidates sharing one are mutually exclusive
+  roadName?: string;
+  location?: Location;
+}
+
+export interface PlannedRepair extends RepairCandidate {
+  year: number; // 1-based programme year
+  rank: number; // Order within the whole programme
+  cumulativeCost: number; // Spend up to and including this repair within its year
+}
+
+export interface RepairProgramme {
+  annualBudget: number;
+  years: number;
+  scheduled: PlannedRepair[];
+  deferred: RepairCandidate[]; // Unfunded within the programme, best value first
+  spentByYear: number[];
+  totalBenefit: number;
+}
+
+// Unit rates and material densities for repair estimates. Prices are in `currency`.
+export interface CostSettings {
+  currency: string; // ISO 4217 code, e.g. 'USD'
+  patchMaterial: 'Cold Mix' | 'Hot Mix'; // Used for pothole and area patches; overlays always use hot mix
+  coldMixPerTonne: number;
+  hotMixPerTonne: number;
+  crackSealantPerMetre: number;
+  labourPerHour: number;
+  coldMixDensity: number; // Compacted density in t/m³
+  hotMixDensity: number; // Compacted density in t/m³
+  defaultPatchDepthM: number; // Patch or overlay depth when a defect has no measured depth or volume
+  patchHoursPerSqM: number;
+  crackSealHoursPerMetre: number;
+}
+
+// Estimated materials and cost to repair one or more defects.
+export interface CostEstimate {
+  asphaltTonnes: number;
+  sealantMetres: number;
+  materialCost: number;
+  labourHours: number;
+  labourCost: number;
+  totalCost: number;
+  pricedCount: number; // Defects with enough measurements to be priced
+  unpricedCount: number;
+}
+
+// A maintenance job raised from selected defects or from a whole road segment.
+export interface WorkOrder {
+  id: string;
+  title: string;
+  treatment: TreatmentType;
+  priority: WorkOrderPriority;
+  status: WorkOrderStatus;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  scheduledFor?: string; // YYYY-MM-DD
+  completedAt?: string; // ISO 8601
+  quantity: number; // In `unit`: crack length for sealing, surface area for patching and overlays
+  unit: 'm' | 'm²';
+  areaSqM: number;
+  volumeM3: number;
+  crackLengthM: number;
+  defectCount: number;
+  defectTypes: Partial<Record<Defect['type'], number>>;
+  location?: Location; // Centroid of the located defects
+  roadId?: string;
+  roadName?: string;
+  startChainageM?: number;
+  endChainageM?: number;
+  notes?: string;
+}
+
+// A generated work order before it is stored.
+export type WorkOrderDraft = Omit<WorkOrder, 'id' | 'status' | 'createdAt' | 'updatedAt'>;
+
+// A vector layer handed to the client-side Shapefile / GeoPackage writers (WGS 84 lon/lat).
+export interface GisField {
+  name: string;
+  type: 'text' | 'real' | 'integer';
+  decimals?: number; // For 'real' fields in fixed-width formats
+}
+
+export type GisGeometry =
+  | { type: 'Point'; coordinates: [number, number] }
+  | { type: 'Polygon'; rings: [number, number][][] }; // First ring is the outer boundary
+
+export interface GisFeature {
+  geometry: GisGeometry;
+  attributes: (string | number | undefined)[]; // In the same order as the layer's fields
+}
+
+export interface GisLayer {
+  name: string;
+  geometryType: GisGeometry['type'];
+  fields: GisField[];
+  features: GisFeature[];
+}
@@ -0,0 +1,172 @@
+import type { AnnotationFormat, AnnotationSettings, BoundingBox, GroundTruthDefect, Point } from '../types';
+import { parsePascalVoc } from './xmlParser';
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberList = (value: unknown): value is number[] => Array.isArray(value) && value.every(v => typeof v === 'number' && isFinite(v));
+
+const positiveNumber = (value: unknown): number | undefined => typeof value === 'number' && value > 0 ? value : undefined;
+
+const boundsOfPolygon = (polygon: Point[]): BoundingBox => ({
+    x_min: Math.min(...polygon.map(p => p.x)),
+    y_min: Math.min(...polygon.map(p => p.y)),
+    x_max: Math.max(...polygon.map(p => p.x)),
+    y_max: Math.max(...polygon.map(p => p.y)),
+});
+
+const polygonArea = (polygon: Point[]) => {
+    let area = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        area += a.x * b.y - b.x * a.y;
+    }
+    return Math.abs(area) / 2;
+};
+
+const baseName = (path: string) => path.split(/[\\/]/).pop()!.toLowerCase();
+
+/**
+ * Guesses the annotation format from the file name and content: PASCAL VOC XML, a COCO
+ * JSON dataset, or a YOLO label file (one "class cx cy w h" row per object).
+ */
+export function detectAnnotationFormat(fileName: string, content: string): AnnotationFormat {
+    const trimmed = content.trim();
+    const lowerName = fileName.toLowerCase();
+    if (lowerName.endsWith('.xml') || trimmed.startsWith('<')) return 'voc';
+    if (lowerName.endsWith('.json') || trimmed.startsWith('{')) return 'coco';
+    if (lowerName.endsWith('.txt') || trimmed === '' || /^\d+(\s+-?[\d.eE+-]+){4,}/.test(trimmed)) return 'yolo';
+    throw new Error("Unrecognised annotation file. Supported formats are PASCAL VOC (.xml), COCO (.json) and YOLO (.txt).");
+}
+
+/**
+ * Parses the annotations for one image out of a COCO dataset file. The image is found by
+ * file name; a file describing a single image is used regardless of name. Polygon
+ * segmentations are kept (the largest part, for multi-part objects); RLE masks fall back
+ * to the bounding box.
+ * @param imageWidth/imageHeight - Used when the COCO image entry does not give its size.
+ */
+export function parseCocoAnnotations(jsonString: string, imageFileName: string, imageWidth: number, imageHeight: number): GroundTruthDefect[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(jsonString);
+    } catch (e) {
+        throw new Error("Failed to parse JSON file. Please ensure it's a valid COCO annotation file.");
+    }
+    const { images, annotations, categories } = isRecord(data) ? data : {} as Record<string, unknown>;
+    if (!Array.isArray(images) || !Array.isArray(annotations)) {
+        throw new Error("The JSON file is not a COCO dataset: 'images' or 'annotations' not found.");
+    }
+
+    const image: unknown = images.length === 1
+        ? images[0]
+        : images.find(img => isRecord(img) && typeof img.file_name === 'string' && baseName(img.file_name) === baseName(imageFileName));
+    if (!isRecord(image)) {
+        throw new Error(`No entry for "${imageFileName}" was found in the COCO file.`);
+    }
+
+    const width = positiveNumber(image.width) ?? imageWidth;
+    const height = positiveNumber(image.height) ?? imageHeight;
+    if (!width || !height) {
+        throw new Error("Image dimensions must be greater than zero for coordinate conversion.");
+    }
+
+    const categoryNames = new Map((Array.isArray(categories) ? categories : []).filter(isRecord).map((c): [unknown, string] => [c.id, String(c.name)]));
+
+    return annotations
+        .filter(isRecord)
+        .filter(ann => ann.image_id === image.id)
+        .flatMap((ann): GroundTruthDefect[] => {
+            const type = categoryNames.get(ann.category_id) ?? String(ann.category_id);
+            let segmentationPolygon: Point[] | undefined;
+            if (Array.isArray(ann.segmentation) && ann.segmentation.length > 0) {
+                const parts: Point[][] = ann.segmentation
+                    .filter((part): part is number[] => isNumberList(part) && part.length >= 6)
+                    .map(part => {
+                        const points: Point[] = [];
+                        for (let i = 0; i + 1 < part.length; i += 2) points.push({ x: clamp01(part[i] / width), y: clamp01(part[i + 1] / height) });
+                        return points;
+                    });
+                segmentationPolygon = parts.sort((a, b) => polygonArea(b) - polygonArea(a))[0];
+            }
+
+            let boundingBox: BoundingBox | undefined;
+            if (isNumberList(ann.bbox) && ann.bbox.length === 4) {
+                const [x, y, w, h] = ann.bbox;
+                boundingBox = { x_min: clamp01(x / width), y_min: clamp01(y / height), x_max: clamp01((x + w) / width), y_max: clamp01((y + h) / height) };
+            } else if (segmentationPolygon) {
+                boundingBox = boundsOfPolygon(segmentationPolygon);
+            }
+            return boundingBox ? [{ type, boundingBox, segmentationPolygon }] : [];
+        });
+}
+
+/**
+ * Parses a YOLO label file. Rows are either detection boxes ("class cx cy w h") or
+ * YOLO-seg polygons ("class x1 y1 x2 y2 ..."), all normalized to 0-1 already.
+ * @param classNames - Class index to label, in data.yaml order; unknown indices are kept as numbers.
+ */
+export function parseYoloAnnotations(text: string, classNames: string[]): GroundTruthDefect[] {
+    const defects: GroundTruthDefect[] = [];
+    text.split(/\r?\n/).forEach((line, lineIndex) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+        const values = trimmed.split(/\s+/).map(Number);
+        if (values.some(v => !isFinite(v)) || values.length < 5) {
+            throw new Error(`Invalid YOLO annotation on line ${lineIndex + 1}.`);
+        }
+        const [classIndex, ...coords] = values;
+        const type = classNames[classIndex] ?? String(classIndex);
+
+        if (coords.length === 4) {
+            const [cx, cy, w, h] = coords;
+            defects.push({
+                type,
+                boundingBox: { x_min: clamp01(cx - w / 2), y_min: clamp01(cy - h / 2), x_max: clamp01(cx + w / 2), y_max: clamp01(cy + h / 2) },
+            });
+        } else {
+            const segmentationPolygon: Point[] = [];
+            for (let i = 0; i + 1 < coords.length; i += 2) segmentationPolygon.push({ x: clamp01(coords[i]), y: clamp01(coords[i + 1]) });
+            defects.push({ type, boundingBox: boundsOfPolygon(segmentationPolygon), segmentationPolygon });
+        }
+    });
+    return defects;
+}
+
+/**
+ * Renames ground-truth labels to app defect types using the configured mapping
+ * (case-insensitive). Unmapped labels are left unchanged.
+ */
+export function applyLabelMapping(defects: GroundTruthDefect[], labelMapping: AnnotationSettings['labelMapping']): GroundTruthDefect[] {
+    const lookup = new Map(Object.entries(labelMapping).map(([label, type]) => [label.trim().toLowerCase(), type]));
+    return defects.map(d => ({ ...d, type: lookup.get(d.type.trim().toLowerCase()) ?? d.type }));
+}
+
+interface GroundTruthSource {
+    fileName: string;
+    content: string;
+    imageFileName: string;
+    imageWidth: number;
+    imageHeight: number;
+}
+
+/**
+ * Detects the format of a ground-truth file, parses the annotations for the given image
+ * and maps their labels to app defect types.
+ */
+export function parseGroundTruth(source: GroundTruthSource, settings: AnnotationSettings): { format: AnnotationFormat; defects: GroundTruthDefect[] } {
+    const format = detectAnnotationFormat(source.fileName, source.content);
+    const defects =
+        format === 'voc' ? parsePascalVoc(source.content, source.imageWidth, source.imageHeight) :
+        format === 'coco' ? parseCocoAnnotations(source.content, source.imageFileName, source.imageWidth, source.imageHeight) :
+        parseYoloAnnotations(source.content, settings.yoloClassNames);
+    return { format, defects: applyLabelMapping(defects, settings.labelMapping) };
+}
+
+export const ANNOTATION_FORMAT_LABELS: Record<AnnotationFormat, string> = {
+    voc: 'PASCAL VOC',
+    coco: 'COCO JSON',
+    yolo: 'YOLO',
+};
@@ -0,0 +1,127 @@
+import type { Defect, Point } from '../types';
+import { DEFECT_TYPES } from '../constants';
+
+// An analyzed image with the natural pixel size used to convert the 0-1 coordinates back.
+export interface AnnotatedImage {
+    fileName: string;
+    width: number;
+    height: number;
+    defects: Defect[];
+}
+
+const escapeXml = (value: string) => value.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+
+const toPixels = (value: number, size: number) => Math.round(Math.max(0, Math.min(1, value)) * size);
+
+const hasPolygon = (defect: Defect): defect is Defect & { segmentationPolygon: Point[] } =>
+    (defect.segmentationPolygon?.length ?? 0) >= 3;
+
+const pixelBox = (defect: Defect, width: number, height: number) => ({
+    xmin: toPixels(defect.boundingBox.x_min, width),
+    ymin: toPixels(defect.boundingBox.y_min, height),
+    xmax: toPixels(defect.boundingBox.x_max, width),
+    ymax: toPixels(defect.boundingBox.y_max, height),
+});
+
+const pixelPolygonArea = (polygon: Point[], width: number, height: number) => {
+    let area = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        area += a.x * width * b.y * height - b.x * width * a.y * height;
+    }
+    return Math.abs(area) / 2;
+};
+
+/**
+ * Writes an image's detections as a PASCAL VOC annotation, the inverse of `parsePascalVoc`.
+ * Segmentation polygons are added as CVAT-style `<polygon><x1/><y1/>...</polygon>` elements.
+ */
+export function buildPascalVoc({ fileName, width, height, defects }: AnnotatedImage): string {
+    const objects = defects.map(defect => {
+        const box = pixelBox(defect, width, height);
+        const polygon = hasPolygon(defect)
+            ? `\n    <polygon>${defect.segmentationPolygon.map((p, i) => `<x${i + 1}>${toPixels(p.x, width)}</x${i + 1}><y${i + 1}>${toPixels(p.y, height)}</y${i + 1}>`).join('')}</polygon>`
+            : '';
+        return `  <object>
+    <name>${escapeXml(defect.type)}</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <bndbox>
+      <xmin>${box.xmin}</xmin>
+      <ymin>${box.ymin}</ymin>
+      <xmax>${box.xmax}</xmax>
+      <ymax>${box.ymax}</ymax>
+    </bndbox>${polygon}
+  </object>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<annotation>
+  <folder>images</folder>
+  <filename>${escapeXml(fileName)}</filename>
+  <source><database>RoadGuard AI predictions</database></source>
+  <size>
+    <width>${width}</width>
+    <height>${height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>${defects.some(hasPolygon) ? 1 : 0}</segmented>
+${objects.join('\n')}
+</annotation>
+`;
+}
+
+/**
+ * Writes detections for one or more images as a COCO dataset. Categories are the app's
+ * defect types in a fixed order so ids stay stable between exports; the model's
+ * `confidence` is kept as each annotation's `score`.
+ */
+export function buildCocoDataset(images: AnnotatedImage[]): string {
+    let annotationId = 1;
+    const annotations = images.flatMap((image, imageIndex) => image.defects.map(defect => {
+        const box = pixelBox(defect, image.width, image.height);
+        const segmentation = hasPolygon(defect)
+            ? [defect.segmentationPolygon.flatMap(p => [toPixels(p.x, image.width), toPixels(p.y, image.height)])]
+            : [];
+        return {
+            id: annotationId++,
+            image_id: imageIndex + 1,
+            category_id: DEFECT_TYPES.indexOf(defect.type) + 1,
+            bbox: [box.xmin, box.ymin, box.xmax - box.xmin, box.ymax - box.ymin],
+            area: hasPolygon(defect)
+                ? Math.round(pixelPolygonArea(defect.segmentationPolygon, image.width, image.height))
+                : (box.xmax - box.xmin) * (box.ymax - box.ymin),
+            segmentation,
+            iscrowd: 0,
+            ...(defect.confidence !== undefined ? { score: defect.confidence } : {}),
+        };
+    }));
+
+    return JSON.stringify({
+        info: { description: 'RoadGuard AI predictions', date_created: new Date().toISOString() },
+        images: images.map((image, index) => ({ id: index + 1, file_name: image.fileName, width: image.width, height: image.height })),
+        categories: DEFECT_TYPES.map((name, index) => ({ id: index + 1, name, supercategory: 'road_defect' })),
+        annotations,
+    }, null, 2);
+}
+
+/**
+ * Writes detections as a YOLO label file: "class cx cy w h" rows, or YOLO-seg polygon rows
+ * where a segmentation is available. Class indices follow `YOLO_CLASS_NAMES`.
+ */
+export function buildYoloLabels(defects: Defect[]): string {
+    const format = (value: number) => Math.max(0, Math.min(1, value)).toFixed(6);
+    return defects.map(defect => {
+        const classIndex = DEFECT_TYPES.indexOf(defect.type);
+        if (hasPolygon(defect)) {
+            return [classIndex, ...defect.segmentationPolygon.flatMap(p => [format(p.x), format(p.y)])].join(' ');
+        }
+        const { x_min, y_min, x_max, y_max } = defect.boundingBox;
+        return [classIndex, format((x_min + x_max) / 2), format((y_min + y_max) / 2), format(x_max - x_min), format(y_max - y_min)].join(' ');
+    }).join('\n') + (defects.length > 0 ? '\n' : '');
+}
+
+// Class names in YOLO index order, written alongside the labels as classes.txt.
+export const YOLO_CLASS_NAMES: readonly string[] = DEFECT_TYPES;
@@ -0,0 +1,165 @@
+import type { BenchmarkReport, ClassBenchmark, Defect, GroundTruthDefect, IouMode, PrCurve, PrCurvePoint } from '../types';
+import { aiClassFor, calculatePrf, detectionIou, normalizeGtType } from './validationUtils';
+
+export interface BenchmarkSample {
+    predictions: Defect[];
+    groundTruth: GroundTruthDefect[];
+}
+
+// COCO's IoU thresholds for mAP@[.5:.95].
+export const COCO_IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => 0.5 + i * 0.05);
+
+interface RankedPrediction {
+    sampleIndex: number;
+    confidence: number;
+    prediction: Defect;
+}
+
+interface ClassDetections {
+    ranked: RankedPrediction[]; // Highest confidence first
+    groundTruthBySample: Map<number, GroundTruthDefect[]>;
+    totalGroundTruth: number;
+}
+
+/**
+ * Groups predictions and ground truth by class. Classes are decided across all samples,
+ * so fine-grained and coarse labels are treated the same way in every image; predictions
+ * without a confidence rank last.
+ */
+const groupByClass = (samples: BenchmarkSample[]): Map<string, ClassDetections> => {
+    const gtClasses = new Set(samples.flatMap(s => s.groundTruth.map(gt => normalizeGtType(gt.type))));
+    const classes = new Map<string, ClassDetections>();
+    const entry = (className: string) => {
+        if (!classes.has(className)) classes.set(className, { ranked: [], groundTruthBySample: new Map(), totalGroundTruth: 0 });
+        return classes.get(className)!;
+    };
+
+    samples.forEach((sample, sampleIndex) => {
+        sample.predictions.forEach(prediction => {
+            entry(aiClassFor(prediction.type, gtClasses)).ranked.push({ sampleIndex, confidence: prediction.confidence ?? 0, prediction });
+        });
+        sample.groundTruth.forEach(gt => {
+            const detections = entry(normalizeGtType(gt.type));
+            detections.groundTruthBySample.set(sampleIndex, [...(detections.groundTruthBySample.get(sampleIndex) || []), gt]);
+            detections.totalGroundTruth++;
+        });
+    });
+    classes.forEach(detections => detections.ranked.sort((a, b) => b.confidence - a.confidence));
+    return classes;
+};
+
+/**
+ * Greedily matches confidence-ranked predictions of one class to ground truth in the
+ * same image, as COCO does; returns whether each prediction was a true positive.
+ */
+const matchRanked = ({ ranked, groundTruthBySample }: ClassDetections, iouThreshold: number, iouMode: IouMode): boolean[] => {
+    const matched = new Map<number, Set<number>>();
+    return ranked.map(({ sampleIndex, prediction }) => {
+        const used = matched.get(sampleIndex) || new Set<number>();
+        let best = { iou: 0, index: -1 };
+        (groundTruthBySample.get(sampleIndex) || []).forEach((gt, index) => {
+            if (used.has(index)) return;
+            const iou = detectionIou(prediction, gt, iouMode);
+            if (iou > best.iou) best = { iou, index };
+        });
+        if (best.index < 0 || best.iou < iouThreshold) return false;
+        used.add(best.index);
+        matched.set(sampleIndex, used);
+        return true;
+    });
+};
+
+/** Precision and recall after each ranked prediction is accepted. */
+const curvePoints = (detections: ClassDetections, isTruePositive: boolean[]): PrCurvePoint[] => {
+    let tp = 0;
+    return isTruePositive.map((hit, i) => {
+        if (hit) tp++;
+        return {
+            confidence: detections.ranked[i].confidence,
+            precision: tp / (i + 1),
+            recall: detections.totalGroundTruth > 0 ? tp / detections.totalGroundTruth : 0,
+        };
+    });
+};
+
+/** Average precision using COCO's 101-point interpolated precision. */
+const averagePrecision = (points: PrCurvePoint[], totalGroundTruth: number): number => {
+    if (totalGroundTruth === 0) return 0;
+    const precisions = points.map(p => p.precision);
+
+    // Make precision monotonically decreasing, then sample it at 101 recall levels.
+    for (let i = precisions.length - 2; i >= 0; i--) precisions[i] = Math.max(precisions[i], precisions[i + 1]);
+    let sum = 0;
+    let cursor = 0;
+    for (let r = 0; r <= 100; r++) {
+        while (cursor < points.length && points[cursor].recall < r / 100) cursor++;
+        sum += cursor < precisions.length ? precisions[cursor] : 0;
+    }
+    return sum / 101;
+};
+
+/**
+ * Builds a precision-recall curve per class by sweeping the confidence threshold from the
+ * most to the least confident prediction, with matches made at `iouThreshold`.
+ */
+export function computePrCurves(samples: BenchmarkSample[], iouThreshold = 0.5, iouMode: IouMode = 'box'): PrCurve[] {
+    return [...groupByClass(samples).entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([className, detections]) => {
+            const points = curvePoints(detections, matchRanked(detections, iouThreshold, iouMode));
+            return {
+                className,
+                totalGroundTruth: detections.totalGroundTruth,
+                points,
+                averagePrecision: averagePrecision(points, detections.totalGroundTruth),
+            };
+        });
+}
+
+/**
+ * Aggregates detection quality over a whole dataset. Predictions are ranked by
+ * `confidence` and matched to ground truth per class; TP/FP/FN, precision, recall and F1
+ * are reported at `iouThreshold`, alongside AP per class and mAP@0.5 / mAP@[.5:.95].
+ * Classes with no ground truth are left out of the mAP averages, following COCO.
+ */
+export function evaluateBenchmark(samples: BenchmarkSample[], iouThreshold = 0.5, iouMode: IouMode = 'box'): BenchmarkReport {
+    const perClassMetrics: Record<string, ClassBenchmark> = {};
+    let tp = 0, fp = 0, fn = 0;
+    groupByClass(samples).forEach((detections, className) => {
+        const { ranked, totalGroundTruth } = detections;
+        const hits = matchRanked(detections, iouThreshold, iouMode).filter(Boolean).length;
+        const aps = COCO_IOU_THRESHOLDS.map(t => averagePrecision(curvePoints(detections, matchRanked(detections, t, iouMode)), totalGroundTruth));
+        const classFp = ranked.length - hits;
+        const classFn = totalGroundTruth - hits;
+        const { precision, recall, f1Score } = calculatePrf(hits, classFp, classFn);
+        perClassMetrics[className] = {
+            tp: hits,
+            fp: classFp,
+            fn: classFn,
+            precision,
+            recall,
+            f1Score,
+            totalGroundTruth,
+            predictionCount: ranked.length,
+            ap50: aps[0],
+            ap5095: aps.reduce((sum, ap) => sum + ap, 0) / aps.length,
+        };
+        tp += hits;
+        fp += classFp;
+        fn += classFn;
+    });
+
+    const scored = Object.values(perClassMetrics).filter(m => m.totalGroundTruth > 0);
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+    return {
+        imageCount: samples.length,
+        tp,
+        fp,
+        fn,
+        ...calculatePrf(tp, fp, fn),
+        map50: mean(scored.map(m => m.ap50)),
+        map5095: mean(scored.map(m => m.ap5095)),
+        perClassMetrics,
+    };
+}
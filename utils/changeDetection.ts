@@ -0,0 +1,103 @@
+import type { ChangeReport, ChangeStatus, Defect, DefectChange } from '../types';
+import { distanceInMeters } from './locationUtils';
+import { defectArea } from './roadSegments';
+
+// Two runs' GPS fixes for the same defect rarely agree to better than a few metres.
+export const DEFAULT_CHANGE_MATCH_RADIUS_M = 5;
+// A matched defect whose area grew by at least this fraction is reported as grown.
+export const DEFAULT_GROWTH_THRESHOLD = 0.2;
+
+const DAYS_PER_MONTH = 30.44;
+const MS_PER_DAY = 86400000;
+
+const SEVERITY_RANK: Record<NonNullable<Defect['severity']>, number> = { Low: 1, Medium: 2, High: 3 };
+
+interface ChangeOptions {
+    matchRadiusM?: number;
+    growthThreshold?: number;
+    // Run dates used when the defects carry no capture times, e.g. a session's creation time.
+    baselineDate?: string;
+    currentDate?: string;
+}
+
+/** The median capture time of a run, which is robust to a few stray EXIF clocks. */
+const runDate = (defects: Defect[], fallback?: string): string | undefined => {
+    const times = defects.map(d => d.capturedAt).filter((t): t is string => !!t && !isNaN(Date.parse(t))).sort();
+    return times.length > 0 ? times[Math.floor(times.length / 2)] : fallback;
+};
+
+const classifyMatch = (baseline: Defect, current: Defect, distanceM: number, growthThreshold: number): DefectChange => {
+    const before = defectArea(baseline);
+    const after = defectArea(current);
+    const areaChangeSqM = before > 0 && after > 0 ? after - before : undefined;
+    const severityChange = baseline.severity && current.severity
+        ? SEVERITY_RANK[current.severity] - SEVERITY_RANK[baseline.severity]
+        : undefined;
+    const grew = (areaChangeSqM !== undefined && areaChangeSqM >= before * growthThreshold && areaChangeSqM > 0) || (severityChange ?? 0) > 0;
+    return { status: grew ? 'grown' : 'unchanged', type: current.type, baseline, current, distanceM, areaChangeSqM, severityChange };
+};
+
+/**
+ * Compares two inspection runs of the same route. Defects of the same type within
+ * `matchRadiusM` are paired closest-first; paired defects are grown when their area rose by
+ * `growthThreshold` or their severity went up, otherwise unchanged. Unpaired current defects
+ * are new and unpaired baseline defects are reported as repaired. Rates are per 30.44 days
+ * between the runs' median capture times.
+ */
+export function compareRuns(baseline: Defect[], current: Defect[], options: ChangeOptions = {}): ChangeReport {
+    const matchRadiusM = options.matchRadiusM ?? DEFAULT_CHANGE_MATCH_RADIUS_M;
+    const growthThreshold = options.growthThreshold ?? DEFAULT_GROWTH_THRESHOLD;
+    const located = (defects: Defect[]) => defects.filter(d => d.location);
+    const before = located(baseline);
+    const after = located(current);
+
+    const pairs: { b: number; a: number; distanceM: number }[] = [];
+    before.forEach((b, bi) => {
+        after.forEach((a, ai) => {
+            if (a.type !== b.type) return;
+            const distanceM = distanceInMeters(b.location!, a.location!);
+            if (distanceM <= matchRadiusM) pairs.push({ b: bi, a: ai, distanceM });
+        });
+    });
+    pairs.sort((x, y) => x.distanceM - y.distanceM);
+
+    const matchedBefore = new Set<number>();
+    const matchedAfter = new Set<number>();
+    const changes: DefectChange[] = [];
+    pairs.forEach(({ b, a, distanceM }) => {
+        if (matchedBefore.has(b) || matchedAfter.has(a)) return;
+        matchedBefore.add(b);
+        matchedAfter.add(a);
+        changes.push(classifyMatch(before[b], after[a], distanceM, growthThreshold));
+    });
+    after.forEach((a, ai) => {
+        if (!matchedAfter.has(ai)) changes.push({ status: 'new', type: a.type, current: a });
+    });
+    before.forEach((b, bi) => {
+        if (!matchedBefore.has(bi)) changes.push({ status: 'repaired', type: b.type, baseline: b });
+    });
+
+    const counts: Record<ChangeStatus, number> = { new: 0, grown: 0, unchanged: 0, repaired: 0 };
+    changes.forEach(change => { counts[change.status]++; });
+
+    const grownArea = changes.reduce((sum, c) => sum + Math.max(0, c.areaChangeSqM ?? 0), 0);
+    const newArea = changes.filter(c => c.status === 'new').reduce((sum, c) => sum + defectArea(c.current!), 0);
+    const repairedArea = changes.filter(c => c.status === 'repaired').reduce((sum, c) => sum + defectArea(c.baseline!), 0);
+
+    const baselineDate = runDate(baseline, options.baselineDate);
+    const currentDate = runDate(current, options.currentDate);
+    const intervalDays = baselineDate && currentDate ? (Date.parse(currentDate) - Date.parse(baselineDate)) / MS_PER_DAY : undefined;
+    const months = intervalDays !== undefined && intervalDays > 0 ? intervalDays / DAYS_PER_MONTH : undefined;
+
+    return {
+        changes,
+        counts,
+        unlocatedCount: baseline.length - before.length + current.length - after.length,
+        baselineDate,
+        currentDate,
+        intervalDays,
+        netAreaChangeSqM: grownArea + newArea - repairedArea,
+        newPerMonth: months ? counts.new / months : undefined,
+        areaGrowthSqMPerMonth: months ? (grownArea + newArea) / months : undefined,
+    };
+}
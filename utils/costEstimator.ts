@@ -0,0 +1,92 @@
+import type { CostEstimate, CostSettings, Defect } from '../types';
+import { defectArea } from './roadSegments';
+import { TREATMENT_FOR_TYPE } from './workOrders';
+
+const EMPTY_ESTIMATE: CostEstimate = {
+    asphaltTonnes: 0,
+    sealantMetres: 0,
+    materialCost: 0,
+    labourHours: 0,
+    labourCost: 0,
+    totalCost: 0,
+    pricedCount: 0,
+    unpricedCount: 0,
+};
+
+const unpriced = (): CostEstimate => ({ ...EMPTY_ESTIMATE, unpricedCount: 1 });
+
+const priced = (settings: CostSettings, asphaltTonnes: number, sealantMetres: number, materialCost: number, labourHours: number): CostEstimate => {
+    const labourCost = labourHours * settings.labourPerHour;
+    return {
+        asphaltTonnes,
+        sealantMetres,
+        materialCost,
+        labourHours,
+        labourCost,
+        totalCost: materialCost + labourCost,
+        pricedCount: 1,
+        unpricedCount: 0,
+    };
+};
+
+/**
+ * Estimates the materials and cost to repair one defect with its default treatment
+ * (see `TREATMENT_FOR_TYPE`). Cracks are priced per metre of sealant from `length_m`;
+ * patches use `volume_m3`, else area × measured or default depth, converted to tonnes
+ * with the mix density; overlays are hot mix at the default depth. Defects without the
+ * measurements a treatment needs are counted as unpriced.
+ */
+export function estimateDefectCost(defect: Defect, settings: CostSettings): CostEstimate {
+    const treatment = TREATMENT_FOR_TYPE[defect.type] ?? 'Patch';
+
+    if (treatment === 'Crack Seal') {
+        const lengthM = defect.dimensions?.length_m ?? 0;
+        if (lengthM <= 0) return unpriced();
+        return priced(settings, 0, lengthM, lengthM * settings.crackSealantPerMetre, lengthM * settings.crackSealHoursPerMetre);
+    }
+
+    const areaSqM = defectArea(defect);
+    if (areaSqM <= 0) return unpriced();
+    if (treatment === 'Mill & Overlay') return estimateOverlayCost(areaSqM, settings);
+    const isHotMix = settings.patchMaterial === 'Hot Mix';
+    const volumeM3 = defect.volume_m3 ?? areaSqM * (defect.dimensions?.depth_m ?? settings.defaultPatchDepthM);
+    const tonnes = volumeM3 * (isHotMix ? settings.hotMixDensity : settings.coldMixDensity);
+    const materialCost = tonnes * (isHotMix ? settings.hotMixPerTonne : settings.coldMixPerTonne);
+    return priced(settings, tonnes, 0, materialCost, areaSqM * settings.patchHoursPerSqM);
+}
+
+/** Estimates a mill & overlay of `areaSqM` in hot mix at the default depth. */
+export function estimateOverlayCost(areaSqM: number, settings: CostSettings): CostEstimate {
+    if (areaSqM <= 0) return unpriced();
+    const tonnes = areaSqM * settings.defaultPatchDepthM * settings.hotMixDensity;
+    return priced(settings, tonnes, 0, tonnes * settings.hotMixPerTonne, areaSqM * settings.patchHoursPerSqM);
+}
+
+/** Sums the per-defect estimates for an image or a whole session. */
+export function estimateTotalCost(defects: Defect[], settings: CostSettings): CostEstimate {
+    return defects.reduce<CostEstimate>((total, defect) => {
+        const estimate = estimateDefectCost(defect, settings);
+        return {
+            asphaltTonnes: total.asphaltTonnes + estimate.asphaltTonnes,
+            sealantMetres: total.sealantMetres + estimate.sealantMetres,
+            materialCost: total.materialCost + estimate.materialCost,
+            labourHours: total.labourHours + estimate.labourHours,
+            labourCost: total.labourCost + estimate.labourCost,
+            totalCost: total.totalCost + estimate.totalCost,
+            pricedCount: total.pricedCount + estimate.pricedCount,
+            unpricedCount: total.unpricedCount + estimate.unpricedCount,
+        };
+    }, EMPTY_ESTIMATE);
+}
+
+/**
+ * Formats an amount in the configured currency, falling back to "CODE 12.34" when the
+ * code is not one `Intl` recognises.
+ */
+export const formatCost = (amount: number, currency: string): string => {
+    try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    } catch (e) {
+        return `${currency} ${amount.toFixed(2)}`;
+    }
+};
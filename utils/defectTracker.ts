@@ -0,0 +1,172 @@
+import type { BoundingBox, Location, TrackedDefect, VideoDefect } from '../types';
+import { calculateIou } from './validationUtils';
+import { distanceInMeters } from './locationUtils';
+
+export interface DefectTrackerOptions {
+    // Minimum box overlap to link detections on image position alone.
+    iouThreshold?: number;
+    // Lower overlap that is still accepted when both frames were taken close together on the road.
+    gpsIouThreshold?: number;
+    gpsMatchRadiusM?: number;
+    // Detections further apart than this can never be the same defect, whatever their overlap.
+    maxDistanceM?: number;
+    // A track that has not been seen for this long is closed.
+    maxGapSeconds?: number;
+}
+
+interface Track {
+    defect: TrackedDefect;
+    lastBox: BoundingBox;
+    lastLocation?: Location;
+    bestScore: number;
+}
+
+const DEFAULT_OPTIONS: Required<DefectTrackerOptions> = {
+    iouThreshold: 0.3,
+    gpsIouThreshold: 0.05,
+    gpsMatchRadiusM: 15,
+    maxDistanceM: 50,
+    maxGapSeconds: 10,
+};
+
+/**
+ * How good a view a detection gives of its defect: confident, large detections win.
+ */
+const viewScore = (defect: VideoDefect): number => {
+    const { x_min, y_min, x_max, y_max } = defect.boundingBox;
+    const area = Math.max(0, x_max - x_min) * Math.max(0, y_max - y_min);
+    return (defect.confidence ?? 0.5) * Math.sqrt(area);
+};
+
+/**
+ * Links detections from consecutive sampled video frames into tracks, so a defect seen
+ * in several frames is reported once. Feed frames in timestamp order via `update`, which
+ * returns the track id each detection was assigned to.
+ * @param captureThumbnail - Optional callback returning an image (e.g. a data URL) of the
+ *   current frame cropped to the given box; called whenever a track gets a better view.
+ */
+export function createDefectTracker(options: DefectTrackerOptions = {}) {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const tracks: Track[] = [];
+    let nextTrackId = 1;
+
+    const update = (detections: VideoDefect[], frameTime: number, captureThumbnail?: (box: BoundingBox) => string | undefined): number[] => {
+        const assigned = new Map<VideoDefect, number>();
+        const candidates: { track: Track; detection: VideoDefect; score: number }[] = [];
+
+        tracks.forEach(track => {
+            if (frameTime - track.defect.lastSeen > settings.maxGapSeconds) return;
+            detections.forEach(detection => {
+                if (detection.type !== track.defect.type) return;
+                const distance = detection.location && track.lastLocation ? distanceInMeters(detection.location, track.lastLocation) : null;
+                if (distance !== null && distance > settings.maxDistanceM) return;
+                const iou = calculateIou(detection.boundingBox, track.lastBox);
+                const isNearby = distance !== null && distance <= settings.gpsMatchRadiusM;
+                if (iou >= settings.iouThreshold || (isNearby && iou >= settings.gpsIouThreshold)) {
+                    candidates.push({ track, detection, score: iou + (isNearby ? 1 : 0) });
+                }
+            });
+        });
+
+        // Greedy assignment: best pairs first, each track and detection used at most once per frame.
+        candidates.sort((a, b) => b.score - a.score);
+        const usedTracks = new Set<Track>();
+        const usedDetections = new Set<VideoDefect>();
+        candidates.forEach(({ track, detection }) => {
+            if (usedTracks.has(track) || usedDetections.has(detection)) return;
+            usedTracks.add(track);
+            usedDetections.add(detection);
+
+            const { trackId, firstSeen, observationCount, bestFrameUrl } = track.defect;
+            assigned.set(detection, trackId);
+            track.lastBox = detection.boundingBox;
+            track.lastLocation = detection.location || track.lastLocation;
+            const score = viewScore(detection);
+            if (score > track.bestScore) {
+                track.bestScore = score;
+                track.defect = {
+                    ...detection,
+                    timestamp: frameTime,
+                    trackId,
+                    firstSeen,
+                    lastSeen: frameTime,
+                    observationCount: observationCount + 1,
+                    bestFrameUrl: captureThumbnail?.(detection.boundingBox) ?? bestFrameUrl,
+                };
+            } else {
+                track.defect = { ...track.defect, lastSeen: frameTime, observationCount: observationCount + 1 };
+            }
+        });
+
+        detections.forEach(detection => {
+            if (usedDetections.has(detection)) return;
+            assigned.set(detection, nextTrackId);
+            tracks.push({
+                defect: {
+                    ...detection,
+                    timestamp: frameTime,
+                    trackId: nextTrackId++,
+                    firstSeen: frameTime,
+                    lastSeen: frameTime,
+                    observationCount: 1,
+                    bestFrameUrl: captureThumbnail?.(detection.boundingBox),
+                },
+                lastBox: detection.boundingBox,
+                lastLocation: detection.location,
+                bestScore: viewScore(detection),
+            });
+        });
+        return detections.map(detection => assigned.get(detection)!);
+    };
+
+    const getTracks = (): TrackedDefect[] => tracks.map(track => track.defect).sort((a, b) => a.firstSeen - b.firstSeen);
+
+    return { update, getTracks };
+}
+
+/**
+ * A tracker for frames sampled every `frameInterval` seconds, allowing one missed sample
+ * before a defect is considered gone.
+ */
+export const createVideoDefectTracker = (frameInterval: number) => createDefectTracker({ maxGapSeconds: frameInterval * 2 + 0.5 });
+
+/**
+ * Tracks one video frame that was analyzed on its own, e.g. from the offline queue, against
+ * the already stored detections of other frames of the same run, which may be earlier or
+ * later (retried frames drain out of order). Returns only the detections whose track holds
+ * no stored detection, so a defect seen in several frames is stored once.
+ */
+export function findNewTracks(storedDetections: VideoDefect[], detections: VideoDefect[], frameTime: number, frameInterval: number): VideoDefect[] {
+    const tracker = createVideoDefectTracker(frameInterval);
+    const frameTimes = [...new Set([...storedDetections.map(d => d.timestamp), frameTime])].sort((a, b) => a - b);
+    const storedTrackIds = new Set<number>();
+    let frameTrackIds: number[] = [];
+    frameTimes.forEach(time => {
+        const stored = storedDetections.filter(d => d.timestamp === time);
+        if (stored.length > 0) tracker.update(stored, time).forEach(id => storedTrackIds.add(id));
+        if (time === frameTime) frameTrackIds = tracker.update(detections, frameTime);
+    });
+    return detections.filter((_, i) => !storedTrackIds.has(frameTrackIds[i]));
+}
+
+/**
+ * Crops a region around a normalized bounding box out of a frame and returns it as a
+ * small JPEG data URL, for use as a track's best-view thumbnail.
+ */
+export const cropFrameThumbnail = (frame: HTMLCanvasElement, box: BoundingBox, maxSize = 240): string | undefined => {
+    const padding = 0.05;
+    const x = Math.max(0, box.x_min - padding) * frame.width;
+    const y = Math.max(0, box.y_min - padding) * frame.height;
+    const width = (Math.min(1, box.x_max + padding) * frame.width) - x;
+    const height = (Math.min(1, box.y_max + padding) * frame.height) - y;
+    if (width <= 0 || height <= 0) return undefined;
+
+    const scale = Math.min(1, maxSize / Math.max(width, height));
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = Math.round(width * scale);
+    thumbnail.height = Math.round(height * scale);
+    const ctx = thumbnail.getContext('2d');
+    if (!ctx) return undefined;
+    ctx.drawImage(frame, x, y, width, height, 0, 0, thumbnail.width, thumbnail.height);
+    return thumbnail.toDataURL('image/jpeg', 0.7);
+};
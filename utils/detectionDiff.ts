@@ -0,0 +1,41 @@
+import type { Defect, DetectionDiff, DetectionPair } from '../types';
+import { calculateIou } from './validationUtils';
+
+export const DEFAULT_DIFF_IOU_THRESHOLD = 0.5;
+
+/**
+ * Diffs two runs over the same image. Detections are paired greedily by bounding-box IoU,
+ * highest first, regardless of type, so a defect both runs found but classified differently
+ * shows up as a type change rather than as two one-sided detections.
+ */
+export function diffDetections(a: Defect[], b: Defect[], iouThreshold = DEFAULT_DIFF_IOU_THRESHOLD): DetectionDiff {
+    const candidates: { i: number; j: number; iou: number }[] = [];
+    a.forEach((defectA, i) => b.forEach((defectB, j) => {
+        const iou = calculateIou(defectA.boundingBox, defectB.boundingBox);
+        if (iou >= iouThreshold) candidates.push({ i, j, iou });
+    }));
+    candidates.sort((x, y) => y.iou - x.iou);
+
+    const usedA = new Set<number>();
+    const usedB = new Set<number>();
+    const pairs: DetectionPair[] = [];
+    candidates.forEach(({ i, j, iou }) => {
+        if (usedA.has(i) || usedB.has(j)) return;
+        usedA.add(i);
+        usedB.add(j);
+        pairs.push({
+            a: a[i],
+            b: b[j],
+            iou,
+            typeChanged: a[i].type !== b[j].type,
+            severityChanged: (a[i].severity ?? null) !== (b[j].severity ?? null),
+        });
+    });
+
+    return {
+        pairs,
+        onlyA: a.filter((_, i) => !usedA.has(i)),
+        onlyB: b.filter((_, j) => !usedB.has(j)),
+        meanIou: pairs.length > 0 ? pairs.reduce((sum, p) => sum + p.iou, 0) / pairs.length : null,
+    };
+}
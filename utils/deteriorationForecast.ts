@@ -0,0 +1,116 @@
+import type { Defect, DefectForecast, MergedDefect, RoadSegmentSummary, SegmentForecast } from '../types';
+import { defectArea } from './roadSegments';
+import { MILL_AND_OVERLAY_MAX_PCI } from './workOrders';
+
+// Typical months for a defect to advance one severity level (Low → Medium → High) when untreated.
+export const MONTHS_PER_SEVERITY_STEP: Record<Defect['type'], number> = {
+    'Pothole': 4,
+    'Alligator Crack': 12,
+    'Distress': 18,
+    'Block Crack': 18,
+    'Longitudinal Crack': 24,
+    'Transverse Crack': 24,
+    'Rutting': 24,
+    'Roughness': 36,
+};
+
+// PCI points lost per year by condition band, a piecewise form of the usual S-shaped curve.
+const PCI_LOSS_PER_YEAR: { above: number; loss: number }[] = [
+    { above: 85, loss: 2 },
+    { above: 70, loss: 3 },
+    { above: 55, loss: 4.5 },
+    { above: 40, loss: 6 },
+    { above: 25, loss: 8 },
+    { above: -Infinity, loss: 10 },
+];
+
+// Forecasts stop here; a segment still above the threshold is reported as not failing.
+const FORECAST_HORIZON_MONTHS = 600;
+const MIN_OBSERVED_SPAN_MONTHS = 0.25;
+const MS_PER_MONTH = 30.44 * 86400000;
+
+const SEVERITY_RANK: Record<NonNullable<Defect['severity']>, number> = { Low: 1, Medium: 2, High: 3 };
+
+// Defects without a severity are treated as Medium, as elsewhere in the app.
+const rankOf = (defect: Defect) => SEVERITY_RANK[defect.severity ?? 'Medium'];
+
+const isMerged = (defect: Defect): defect is MergedDefect => 'observations' in defect;
+
+/**
+ * Severity steps per month seen across an asset's repeat observations, or null when the
+ * history is too short. A doubling of area counts as one step when severity did not change.
+ */
+const observedStepsPerMonth = (defect: Defect): number | null => {
+    if (!isMerged(defect)) return null;
+    const timed = defect.observations
+        .filter(o => o.capturedAt && !isNaN(Date.parse(o.capturedAt)))
+        .sort((a, b) => a.capturedAt!.localeCompare(b.capturedAt!));
+    if (timed.length < 2) return null;
+    const first = timed[0];
+    const last = timed[timed.length - 1];
+    const months = (Date.parse(last.capturedAt!) - Date.parse(first.capturedAt!)) / MS_PER_MONTH;
+    if (months < MIN_OBSERVED_SPAN_MONTHS) return null;
+
+    const severitySteps = first.severity && last.severity ? SEVERITY_RANK[last.severity] - SEVERITY_RANK[first.severity] : 0;
+    const firstArea = defectArea(first);
+    const lastArea = defectArea(last);
+    const areaSteps = firstArea > 0 && lastArea > firstArea ? Math.log2(lastArea / firstArea) : 0;
+    return Math.max(0, severitySteps, areaSteps) / months;
+};
+
+const addMonths = (isoDate: string, months: number) => new Date(Date.parse(isoDate) + months * MS_PER_MONTH).toISOString();
+
+/**
+ * Estimates when a defect reaches High severity. Assets with a usable observation history
+ * progress at their observed rate; all others follow `MONTHS_PER_SEVERITY_STEP`. An asset
+ * whose history shows no change is not expected to fail (`monthsToFailure` is Infinity).
+ */
+export function forecastDefect(defect: Defect): DefectForecast {
+    const curveMonthsPerStep = MONTHS_PER_SEVERITY_STEP[defect.type] ?? 18;
+    const stepsRemaining = SEVERITY_RANK.High - rankOf(defect);
+    const observed = observedStepsPerMonth(defect);
+    const monthsToFailure = stepsRemaining <= 0 ? 0
+        : observed === null ? stepsRemaining * curveMonthsPerStep
+        : observed === 0 ? Infinity
+        : stepsRemaining / observed;
+    const lastSeen = (isMerged(defect) ? defect.lastObservedAt : undefined) ?? defect.capturedAt;
+
+    return {
+        defect,
+        monthsToFailure,
+        failureDate: isFinite(monthsToFailure) && lastSeen && !isNaN(Date.parse(lastSeen)) ? addMonths(lastSeen, monthsToFailure) : undefined,
+        basis: observed !== null ? 'observed' : 'curve',
+        speedFactor: observed !== null ? curveMonthsPerStep * observed : 1,
+    };
+}
+
+const pciLossPerMonth = (pci: number) => PCI_LOSS_PER_YEAR.find(band => pci > band.above)!.loss / 12;
+
+/**
+ * Estimates when a segment's PCI falls to `failurePci` (by default the level at which work
+ * orders switch to mill & overlay) by stepping the standard curve month by month. When the
+ * segment's defects have observed histories, the curve is sped up or slowed down by their
+ * median observed speed.
+ */
+export function forecastSegment(segment: RoadSegmentSummary, defectForecasts: DefectForecast[], failurePci = MILL_AND_OVERLAY_MAX_PCI): SegmentForecast {
+    const observedFactors = defectForecasts.filter(f => f.basis === 'observed').map(f => f.speedFactor).sort((a, b) => a - b);
+    const speedFactor = observedFactors.length > 0
+        ? Math.min(4, Math.max(0.25, observedFactors[Math.floor(observedFactors.length / 2)]))
+        : 1;
+
+    let pci = segment.pci;
+    let pciIn12Months = pci;
+    let monthsToFailure = pci <= failurePci ? 0 : Infinity;
+    for (let month = 1; month <= FORECAST_HORIZON_MONTHS && (monthsToFailure === Infinity || month <= 12); month++) {
+        pci = Math.max(0, pci - pciLossPerMonth(pci) * speedFactor);
+        if (month === 12) pciIn12Months = pci;
+        if (monthsToFailure === Infinity && pci <= failurePci) monthsToFailure = month;
+    }
+
+    return {
+        segment,
+        monthsToFailure,
+        pciIn12Months: Math.round(pciIn12Months),
+        basis: observedFactors.length > 0 ? 'observed' : 'curve',
+    };
+}
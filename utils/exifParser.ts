@@ -0,0 +1,316 @@
+import type { ImageMetadata, Location } from '../types';
+
+// EXIF and XMP blocks sit near the start of a JPEG; HEIC files keep their Exif item
+// close to the front as well, so only this much of the file is read.
+const METADATA_SCAN_BYTES = 512 * 1024;
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x01;
+const TAG_GPS_LATITUDE = 0x02;
+const TAG_GPS_LONGITUDE_REF = 0x03;
+const TAG_GPS_LONGITUDE = 0x04;
+const TAG_GPS_TIME_STAMP = 0x07;
+const TAG_GPS_TRACK = 0x0f;
+const TAG_GPS_IMG_DIRECTION = 0x11;
+const TAG_GPS_DATE_STAMP = 0x1d;
+
+// Byte size of each TIFF field type, indexed by type id.
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface RawMetadata {
+    latitude?: number;
+    longitude?: number;
+    heading?: number;
+    capturedAt?: string;
+}
+
+interface IfdEntry {
+    type: number;
+    count: number;
+    valueOffset: number; // Absolute offset into the DataView
+}
+
+const EMPTY_METADATA: ImageMetadata = { location: null, capturedAt: null };
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string => {
+    let result = '';
+    for (let i = start; i < start + length && i < bytes.length; i++) {
+        result += String.fromCharCode(bytes[i]);
+    }
+    return result;
+};
+
+const indexOfAscii = (bytes: Uint8Array, needle: string, from = 0): number => {
+    const first = needle.charCodeAt(0);
+    outer: for (let i = from; i <= bytes.length - needle.length; i++) {
+        if (bytes[i] !== first) continue;
+        for (let j = 1; j < needle.length; j++) {
+            if (bytes[i + j] !== needle.charCodeAt(j)) continue outer;
+        }
+        return i;
+    }
+    return -1;
+};
+
+/**
+ * Minimal TIFF reader for the EXIF block: walks IFD0 and follows the Exif and GPS
+ * sub-IFD pointers. Any structural problem results in no metadata rather than an error.
+ */
+const parseTiff = (view: DataView, tiffStart: number): RawMetadata => {
+    if (tiffStart + 8 > view.byteLength) return {};
+    const byteOrder = view.getUint16(tiffStart);
+    const little = byteOrder === 0x4949;
+    if (!little && byteOrder !== 0x4d4d) return {};
+    if (view.getUint16(tiffStart + 2, little) !== 42) return {};
+
+    const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+
+    const readIfd = (relativeOffset: number): Map<number, IfdEntry> => {
+        const entries = new Map<number, IfdEntry>();
+        const start = tiffStart + relativeOffset;
+        if (relativeOffset <= 0 || start + 2 > view.byteLength) return entries;
+        const count = view.getUint16(start, little);
+        for (let i = 0; i < count; i++) {
+            const entryStart = start + 2 + i * 12;
+            if (entryStart + 12 > view.byteLength) break;
+            const tag = view.getUint16(entryStart, little);
+            const type = view.getUint16(entryStart + 2, little);
+            const valueCount = view.getUint32(entryStart + 4, little);
+            const size = (TIFF_TYPE_SIZES[type] || 0) * valueCount;
+            if (size === 0) continue;
+            const valueOffset = size <= 4 ? entryStart + 8 : tiffStart + view.getUint32(entryStart + 8, little);
+            if (valueOffset + size > view.byteLength) continue;
+            entries.set(tag, { type, count: valueCount, valueOffset });
+        }
+        return entries;
+    };
+
+    const readString = (entry?: IfdEntry): string | undefined => {
+        if (!entry || entry.type !== 2) return undefined;
+        return readAscii(bytes, entry.valueOffset, entry.count).replace(/\0+$/, '').trim() || undefined;
+    };
+
+    const readNumbers = (entry?: IfdEntry): number[] => {
+        if (!entry) return [];
+        const values: number[] = [];
+        for (let i = 0; i < entry.count; i++) {
+            const offset = entry.valueOffset + i * (TIFF_TYPE_SIZES[entry.type] || 0);
+            switch (entry.type) {
+                case 3: values.push(view.getUint16(offset, little)); break;
+                case 4: values.push(view.getUint32(offset, little)); break;
+                case 9: values.push(view.getInt32(offset, little)); break;
+                case 5:
+                case 10: {
+                    const read = entry.type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+                    const denominator = read(offset + 4, little);
+                    values.push(denominator === 0 ? NaN : read(offset, little) / denominator);
+                    break;
+                }
+                default: return values;
+            }
+        }
+        return values;
+    };
+
+    const readPointer = (entry?: IfdEntry): number => readNumbers(entry)[0] ?? 0;
+
+    const ifd0 = readIfd(view.getUint32(tiffStart + 4, little));
+    const exifIfd = readIfd(readPointer(ifd0.get(TAG_EXIF_IFD)));
+    const gpsIfd = readIfd(readPointer(ifd0.get(TAG_GPS_IFD)));
+
+    const result: RawMetadata = {};
+
+    const latitude = dmsToDecimal(readNumbers(gpsIfd.get(TAG_GPS_LATITUDE)), readString(gpsIfd.get(TAG_GPS_LATITUDE_REF)));
+    const longitude = dmsToDecimal(readNumbers(gpsIfd.get(TAG_GPS_LONGITUDE)), readString(gpsIfd.get(TAG_GPS_LONGITUDE_REF)));
+    if (latitude !== undefined && longitude !== undefined) {
+        result.latitude = latitude;
+        result.longitude = longitude;
+    }
+
+    // Prefer the camera direction; dashcams often only record the direction of travel.
+    const heading = readNumbers(gpsIfd.get(TAG_GPS_IMG_DIRECTION))[0] ?? readNumbers(gpsIfd.get(TAG_GPS_TRACK))[0];
+    if (heading !== undefined && isFinite(heading)) {
+        result.heading = ((heading % 360) + 360) % 360;
+    }
+
+    const originalTime = readString(exifIfd.get(TAG_DATE_TIME_ORIGINAL));
+    const offset = readString(exifIfd.get(TAG_OFFSET_TIME_ORIGINAL));
+    const gpsTime = gpsTimestampToIso(readString(gpsIfd.get(TAG_GPS_DATE_STAMP)), readNumbers(gpsIfd.get(TAG_GPS_TIME_STAMP)));
+    // Without an explicit offset the EXIF time is local camera time, so the UTC GPS stamp wins.
+    result.capturedAt =
+        (originalTime && offset ? exifDateToIso(originalTime, offset) : undefined) ??
+        gpsTime ??
+        (originalTime ? exifDateToIso(originalTime) : undefined) ??
+        exifDateToIso(readString(ifd0.get(TAG_DATE_TIME)) || '');
+
+    return result;
+};
+
+const dmsToDecimal = (dms: number[], ref?: string): number | undefined => {
+    if (dms.length === 0 || dms.some(v => !isFinite(v))) return undefined;
+    const [degrees, minutes = 0, seconds = 0] = dms;
+    const value = degrees + minutes / 60 + seconds / 3600;
+    return ref && /^[SW]/i.test(ref) ? -value : value;
+};
+
+/**
+ * Converts an EXIF "YYYY:MM:DD HH:MM:SS" time (optionally with a "+HH:MM" offset) to ISO 8601.
+ * Times without an offset are interpreted in the device's local time zone.
+ */
+const exifDateToIso = (value: string, offset?: string): string | undefined => {
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+    const [, year, month, day, hour, minute, second] = match;
+    if (year === '0000') return undefined;
+    const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+    const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const gpsTimestampToIso = (dateStamp: string | undefined, time: number[]): string | undefined => {
+    const match = dateStamp?.match(/^(\d{4}):(\d{2}):(\d{2})$/);
+    if (!match || time.length < 3 || time.some(v => !isFinite(v))) return undefined;
+    const [, year, month, day] = match;
+    const [hours, minutes, seconds] = time;
+    const ms = Date.UTC(Number(year), Number(month) - 1, Number(day), hours, minutes, 0, Math.round(seconds * 1000));
+    return isNaN(ms) ? undefined : new Date(ms).toISOString();
+};
+
+const getXmpValue = (xmp: string, name: string): string | undefined => {
+    const attribute = xmp.match(new RegExp(`${name}="([^"]*)"`));
+    if (attribute) return attribute[1].trim();
+    const element = xmp.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+    return element ? element[1].trim() : undefined;
+};
+
+// XMP stores GPS coordinates as "DDD,MM.mmmK" or "DDD,MM,SSK", where K is N, S, E or W.
+const parseXmpCoordinate = (value?: string): number | undefined => {
+    if (!value) return undefined;
+    const match = value.match(/^(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+    if (match) {
+        return dmsToDecimal([Number(match[1]), Number(match[2]), Number(match[3] || 0)], match[4]);
+    }
+    const decimal = Number(value);
+    return isFinite(decimal) ? decimal : undefined;
+};
+
+const parseXmpRational = (value?: string): number | undefined => {
+    if (!value) return undefined;
+    const [numerator, denominator = '1'] = value.split('/');
+    const result = Number(numerator) / Number(denominator);
+    return isFinite(result) ? result : undefined;
+};
+
+const parseXmpDate = (value?: string): string | undefined => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const parseXmp = (xmp: string): RawMetadata => {
+    const result: RawMetadata = {};
+    const latitude = parseXmpCoordinate(getXmpValue(xmp, 'exif:GPSLatitude'));
+    const longitude = parseXmpCoordinate(getXmpValue(xmp, 'exif:GPSLongitude'));
+    if (latitude !== undefined && longitude !== undefined) {
+        result.latitude = latitude;
+        result.longitude = longitude;
+    }
+    const heading = parseXmpRational(getXmpValue(xmp, 'exif:GPSImgDirection')) ?? parseXmpRational(getXmpValue(xmp, 'exif:GPSTrack'));
+    if (heading !== undefined) {
+        result.heading = ((heading % 360) + 360) % 360;
+    }
+    result.capturedAt =
+        parseXmpDate(getXmpValue(xmp, 'exif:DateTimeOriginal')) ??
+        parseXmpDate(getXmpValue(xmp, 'photoshop:DateCreated')) ??
+        parseXmpDate(getXmpValue(xmp, 'xmp:CreateDate'));
+    return result;
+};
+
+const isValidCoordinate = (latitude?: number, longitude?: number): boolean => {
+    if (latitude === undefined || longitude === undefined) return false;
+    if (!isFinite(latitude) || !isFinite(longitude)) return false;
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return false;
+    // Many cameras write 0/0 when they have no fix.
+    return !(latitude === 0 && longitude === 0);
+};
+
+/**
+ * Extracts GPS position, heading and capture time from a JPEG (EXIF APP1 and XMP APP1
+ * segments) or from a HEIC/other container carrying a raw "Exif\0\0" block. EXIF values
+ * take precedence over XMP. Missing, zeroed or malformed tags yield null fields.
+ */
+export function parseImageMetadata(buffer: ArrayBuffer): ImageMetadata {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    let exif: RawMetadata = {};
+    let xmp: RawMetadata = {};
+
+    try {
+        if (view.byteLength >= 4 && view.getUint16(0) === 0xffd8) {
+            let offset = 2;
+            while (offset + 4 <= view.byteLength) {
+                if (bytes[offset] !== 0xff) break;
+                const marker = bytes[offset + 1];
+                if (marker === 0xff) { offset++; continue; } // Fill byte
+                if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image
+                if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) { offset += 2; continue; }
+                const length = view.getUint16(offset + 2);
+                const segmentStart = offset + 4;
+                if (marker === 0xe1) {
+                    if (readAscii(bytes, segmentStart, EXIF_HEADER.length) === EXIF_HEADER) {
+                        exif = parseTiff(view, segmentStart + EXIF_HEADER.length);
+                    } else if (readAscii(bytes, segmentStart, XMP_HEADER.length) === XMP_HEADER) {
+                        const xmpStart = segmentStart + XMP_HEADER.length;
+                        xmp = parseXmp(new TextDecoder().decode(bytes.subarray(xmpStart, offset + 2 + length)));
+                    }
+                }
+                offset += 2 + length;
+            }
+        } else {
+            // HEIC and other containers: locate the embedded EXIF block and XMP packet directly.
+            const exifIndex = indexOfAscii(bytes, EXIF_HEADER);
+            if (exifIndex >= 0) exif = parseTiff(view, exifIndex + EXIF_HEADER.length);
+            const xmpIndex = indexOfAscii(bytes, '<x:xmpmeta');
+            if (xmpIndex >= 0) {
+                const xmpEnd = indexOfAscii(bytes, '</x:xmpmeta>', xmpIndex);
+                xmp = parseXmp(new TextDecoder().decode(bytes.subarray(xmpIndex, xmpEnd > 0 ? xmpEnd : undefined)));
+            }
+        }
+    } catch (err) {
+        console.warn("Could not read image metadata:", err);
+        return EMPTY_METADATA;
+    }
+
+    const pick = <K extends keyof RawMetadata>(key: K) => exif[key] ?? xmp[key];
+    const source = isValidCoordinate(exif.latitude, exif.longitude) ? exif : xmp;
+
+    let location: Location | null = null;
+    if (isValidCoordinate(source.latitude, source.longitude)) {
+        location = { latitude: source.latitude!, longitude: source.longitude! };
+        const heading = pick('heading');
+        if (heading !== undefined) location.heading = heading;
+    }
+
+    return { location, capturedAt: pick('capturedAt') ?? null };
+}
+
+/**
+ * Reads the embedded location and capture time of an uploaded photo. Never throws:
+ * files without usable metadata resolve to `{ location: null, capturedAt: null }`.
+ */
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+    try {
+        const buffer = await file.slice(0, METADATA_SCAN_BYTES).arrayBuffer();
+        return parseImageMetadata(buffer);
+    } catch (err) {
+        console.warn("Could not read image metadata:", err);
+        return EMPTY_METADATA;
+    }
+}
@@ -1,4 +1,12 @@
-import type { Defect, AnalysisResult, VideoDefect } from '../types';
+import type { Defect, AnalysisResult, TrackedDefect, RoadNetwork, RoadSegmentSummary, SnappedPosition, GisField, GisLayer, BenchmarkReport, AnnotationFormat, WorkOrder, CostSettings, CostEstimate, RepairCandidate, RepairProgramme } from '../types';
+import { DEFECT_COLORS } from '../constants';
+import { formatChainageRange, snapToNetwork } from './roadSegments';
+import { estimateDefectFootprint } from './locationUtils';
+import { createZip } from './zipUtils';
+import { writeShapefile } from './shapefileWriter';
+import { writeGeoPackage } from './geoPackageWriter';
+import { estimateDefectCost, estimateTotalCost } from './costEstimator';
+import { buildCocoDataset, buildPascalVoc, buildYoloLabels, YOLO_CLASS_NAMES, type AnnotatedImage } from './annotationWriters';
 
 // Declare globals from CDN scripts to satisfy TypeScript
 declare global {
@@ -18,29 +26,11 @@ const escapeCSV = (str: string | undefined | null): string => {
   return result;
 };
 
-export const exportToCSV = (defects: Defect[]) => {
-  const headers = ['Type', 'Severity', 'Description', 'Latitude', 'Longitude', 'Confidence', 'Length (m)', 'Width (m)', 'Depth (m)', 'Area (sq_m)', 'Volume (m³)'];
-  const rows = defects.map(d => [
-    escapeCSV(d.type),
-    escapeCSV(d.severity),
-    escapeCSV(d.description),
-    d.location?.latitude.toFixed(6) ?? '',
-    d.location?.longitude.toFixed(6) ?? '',
-    typeof d.confidence === 'number' ? d.confidence.toFixed(2) : '',
-    d.dimensions?.length_m?.toFixed(2) ?? '',
-    d.dimensions?.width_m?.toFixed(2) ?? '',
-    d.dimensions?.depth_m?.toFixed(2) ?? '',
-    d.area_sq_m?.toFixed(2) ?? '',
-    d.volume_m3?.toFixed(4) ?? '',
-  ].join(','));
-
-  const csvContent = [headers.join(','), ...rows].join('\n');
-  
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+const downloadBlob = (blob: Blob, fileName: string) => {
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
   link.setAttribute('href', url);
-  link.setAttribute('download', 'road_analysis_results.csv');
+  link.setAttribute('download', fileName);
   link.style.visibility = 'hidden';
   document.body.appendChild(link);
   link.click();
@@ -48,7 +38,409 @@ export const exportToCSV = (defects: Defect[]) => {
   URL.revokeObjectURL(url);
 };
 
-export const exportToPDF = async (analysis: AnalysisResult) => {
+interface DefectColumn {
+  header: string; // CSV column heading
+  field: string; // Shapefile / GeoPackage attribute name (dBase allows at most 10 characters)
+  type: GisField['type'];
+  decimals?: number;
+  value: (d: Defect) => string | number | undefined;
+}
+
+const DEFECT_COLUMNS: DefectColumn[] = [
+  { header: 'Type', field: 'type', type: 'text', value: d => d.type },
+  { header: 'Severity', field: 'severity', type: 'text', value: d => d.severity },
+  { header: 'Description', field: 'descript', type: 'text', value: d => d.description },
+  { header: 'Latitude', field: 'latitude', type: 'real', decimals: 6, value: d => d.location?.latitude },
+  { header: 'Longitude', field: 'longitude', type: 'real', decimals: 6, value: d => d.location?.longitude },
+  { header: 'Heading (deg)', field: 'heading', type: 'real', decimals: 1, value: d => d.location?.heading },
+  { header: 'Captured At', field: 'captured', type: 'text', value: d => d.capturedAt },
+  { header: 'Confidence', field: 'confidence', type: 'real', decimals: 2, value: d => d.confidence },
+  { header: 'Human Verified', field: 'verified', type: 'text', value: d => (d.humanVerified ? 'yes' : 'no') },
+  { header: 'Length (m)', field: 'length_m', type: 'real', decimals: 2, value: d => d.dimensions?.length_m },
+  { header: 'Width (m)', field: 'width_m', type: 'real', decimals: 2, value: d => d.dimensions?.width_m },
+  { header: 'Depth (m)', field: 'depth_m', type: 'real', decimals: 2, value: d => d.dimensions?.depth_m },
+  { header: 'Area (sq_m)', field: 'area_sq_m', type: 'real', decimals: 2, value: d => d.area_sq_m },
+  { header: 'Volume (m³)', field: 'volume_m3', type: 'real', decimals: 4, value: d => d.volume_m3 },
+];
+
+/**
+ * The tabular export columns, plus road / chainage columns when a road network is given.
+ * Shared by the CSV, Shapefile and GeoPackage exports so their attributes always match.
+ */
+const getDefectColumns = (network?: RoadNetwork | null): DefectColumn[] => {
+  if (!network) return DEFECT_COLUMNS;
+  const positions = new Map<Defect, SnappedPosition | null>();
+  const snap = (d: Defect) => {
+    if (!positions.has(d)) positions.set(d, d.location ? snapToNetwork(d.location, network) : null);
+    return positions.get(d);
+  };
+  return [
+    ...DEFECT_COLUMNS,
+    { header: 'Road', field: 'road', type: 'text', value: d => snap(d)?.roadName },
+    { header: 'Chainage (m)', field: 'chainage_m', type: 'real', decimals: 1, value: d => snap(d)?.chainageM },
+    { header: 'Offset (m)', field: 'offset_m', type: 'real', decimals: 1, value: d => snap(d)?.offsetM },
+  ];
+};
+
+const formatCSVCell = (column: DefectColumn, d: Defect): string => {
+  const value = column.value(d);
+  if (value === undefined || value === null) return '';
+  return typeof value === 'number' ? value.toFixed(column.decimals ?? 2) : escapeCSV(value);
+};
+
+/**
+ * @param network - When given, each defect is snapped to the road network and its road
+ *   and chainage are added as extra columns.
+ */
+export const exportToCSV = (defects: Defect[], network?: RoadNetwork | null) => {
+  const columns = getDefectColumns(network);
+  const headers = columns.map(column => column.header);
+  const rows = defects.map(d => columns.map(column => formatCSVCell(column, d)).join(','));
+
+  const csvContent = [headers.join(','), ...rows].join('\n');
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), 'road_analysis_results.csv');
+};
+
+/**
+ * Builds the point layer (every located defect) and, where a segmentation polygon,
+ * GPS fix and dimensions allow it, the footprint polygon layer.
+ */
+const buildDefectLayers = (defects: Defect[], network?: RoadNetwork | null): GisLayer[] => {
+  const columns = getDefectColumns(network);
+  const fields: GisField[] = columns.map(({ field, type, decimals }) => ({ name: field, type, decimals }));
+  const attributes = (d: Defect) => columns.map(column => column.value(d));
+
+  const points: GisLayer = {
+    name: 'defect_points',
+    geometryType: 'Point',
+    fields,
+    features: defects.filter(d => d.location).map(d => ({
+      geometry: { type: 'Point', coordinates: [d.location!.longitude, d.location!.latitude] },
+      attributes: attributes(d),
+    })),
+  };
+  const footprints: GisLayer = {
+    name: 'defect_footprints',
+    geometryType: 'Polygon',
+    fields,
+    features: defects.flatMap(d => {
+      const footprint = estimateDefectFootprint(d);
+      return footprint ? [{
+        geometry: { type: 'Polygon' as const, rings: [footprint.map((p): [number, number] => [p.longitude, p.latitude])] },
+        attributes: attributes(d),
+      }] : [];
+    }),
+  };
+  return [points, footprints];
+};
+
+/**
+ * Downloads a zip of ESRI Shapefiles: `road_defects_points` and, if any defect has a
+ * footprint, `road_defects_footprints`. Defects without GPS are left out.
+ */
+export const exportToShapefile = (defects: Defect[], network?: RoadNetwork | null) => {
+  const layers = buildDefectLayers(defects, network).filter(layer => layer.features.length > 0);
+  if (layers.length === 0) {
+    throw new Error("None of the defects have GPS locations, so there is nothing to write to a shapefile.");
+  }
+  const entries = layers.flatMap(layer => {
+    const baseName = layer.name.replace('defect_', 'road_defects_');
+    return Object.entries(writeShapefile(layer)).map(([extension, data]) => ({ name: `${baseName}.${extension}`, data }));
+  });
+  downloadBlob(createZip(entries), 'road_defects_shapefile.zip');
+};
+
+/**
+ * Downloads an OGC GeoPackage with `defect_points` and `defect_footprints` layers.
+ * Defects without GPS are left out.
+ */
+export const exportToGeoPackage = (defects: Defect[], network?: RoadNetwork | null) => {
+  const layers = buildDefectLayers(defects, network);
+  if (layers.every(layer => layer.features.length === 0)) {
+    throw new Error("None of the defects have GPS locations, so there is nothing to write to a GeoPackage.");
+  }
+  downloadBlob(new Blob([writeGeoPackage(layers)], { type: 'application/geopackage+sqlite3' }), 'road_defects.gpkg');
+};
+
+export const exportSegmentsToCSV = (segments: RoadSegmentSummary[]) => {
+  const headers = ['Road ID', 'Road', 'Start Chainage (m)', 'End Chainage (m)', 'Defects', 'Defect Area (sq_m)', 'PCI', 'Rating', 'Defect Types'];
+  const rows = segments.map(s => [
+    escapeCSV(s.roadId),
+    escapeCSV(s.roadName),
+    s.startChainageM.toFixed(1),
+    s.endChainageM.toFixed(1),
+    s.defectCount,
+    s.areaSqM.toFixed(2),
+    s.pci,
+    escapeCSV(s.pciRating),
+    escapeCSV(Object.entries(s.typeCounts).map(([type, count]) => `${type}: ${count}`).join('; ')),
+  ].join(','));
+
+  const csvContent = [headers.join(','), ...rows].join('\n');
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), 'road_segments.csv');
+};
+
+export const exportWorkOrdersToCSV = (orders: WorkOrder[]) => {
+  const headers = ['ID', 'Title', 'Treatment', 'Priority', 'Status', 'Scheduled For', 'Completed At', 'Quantity', 'Unit', 'Area (sq_m)', 'Volume (m3)', 'Crack Length (m)', 'Defects', 'Defect Types', 'Road', 'Start Chainage (m)', 'End Chainage (m)', 'Latitude', 'Longitude', 'Created At', 'Notes'];
+  const rows = orders.map(o => [
+    escapeCSV(o.id),
+    escapeCSV(o.title),
+    escapeCSV(o.treatment),
+    escapeCSV(o.priority),
+    escapeCSV(o.status),
+    escapeCSV(o.scheduledFor),
+    escapeCSV(o.completedAt),
+    o.quantity.toFixed(2),
+    escapeCSV(o.unit),
+    o.areaSqM.toFixed(2),
+    o.volumeM3.toFixed(3),
+    o.crackLengthM.toFixed(2),
+    o.defectCount,
+    escapeCSV(Object.entries(o.defectTypes).map(([type, count]) => `${type}: ${count}`).join('; ')),
+    escapeCSV(o.roadName),
+    o.startChainageM?.toFixed(1) ?? '',
+    o.endChainageM?.toFixed(1) ?? '',
+    o.location?.latitude.toFixed(6) ?? '',
+    o.location?.longitude.toFixed(6) ?? '',
+    escapeCSV(o.createdAt),
+    escapeCSV(o.notes),
+  ].join(','));
+
+  const csvContent = [headers.join(','), ...rows].join('\n');
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), 'work_orders.csv');
+};
+
+export const exportWorkOrdersToJSON = (orders: WorkOrder[]) => {
+  downloadBlob(new Blob([JSON.stringify(orders, null, 2)], { type: 'application/json' }), 'work_orders.json');
+};
+
+/**
+ * Exports a repair programme as a schedule: funded repairs by year and rank, followed by
+ * the deferred repairs (Year "Deferred") in the order they would be funded next.
+ */
+export const exportRepairProgrammeToCSV = (programme: RepairProgramme, currency: string) => {
+  const headers = ['Year', 'Rank', 'Repair', 'Kind', 'Treatment', 'Road', 'Latitude', 'Longitude', `Cost (${currency})`, 'PCI Gain', 'Severity Weight', 'Traffic Weight', 'Benefit', 'Benefit/Cost (per 1000)', `Cumulative Cost (${currency})`];
+  const row = (year: string, rank: string, c: RepairCandidate, cumulativeCost?: number) => [
+    year,
+    rank,
+    escapeCSV(c.label),
+    c.kind,
+    escapeCSV(c.treatment),
+    escapeCSV(c.roadName),
+    c.location?.latitude.toFixed(6) ?? '',
+    c.location?.longitude.toFixed(6) ?? '',
+    c.cost.toFixed(2),
+    c.pciGain.toFixed(1),
+    c.severityWeight.toFixed(1),
+    c.trafficWeight.toFixed(2),
+    c.benefit.toFixed(1),
+    c.cost > 0 ? (c.benefit / c.cost * 1000).toFixed(2) : '',
+    cumulativeCost?.toFixed(2) ?? '',
+  ].join(',');
+  const rows = [
+    ...programme.scheduled.map(r => row(String(r.year), String(r.rank), r, r.cumulativeCost)),
+    ...programme.deferred.map(c => row('Deferred', '', c)),
+  ];
+
+  const csvContent = [headers.join(','), ...rows].join('\n');
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), 'repair_programme.csv');
+};
+
+/**
+ * Exports a dataset benchmark: one row per class followed by an "All classes" row holding
+ * the overall precision/recall/F1 and the mAP values.
+ */
+export const exportBenchmarkToCSV = (report: BenchmarkReport, analysisMode: string) => {
+  const headers = ['Class', 'Ground Truth', 'Predictions', 'TP', 'FP', 'FN', 'Precision', 'Recall', 'F1', 'AP@0.5', 'AP@[.5:.95]'];
+  const rows = Object.entries(report.perClassMetrics).map(([className, m]) => [
+    escapeCSV(className),
+    m.totalGroundTruth,
+    m.predictionCount,
+    m.tp,
+    m.fp,
+    m.fn,
+    m.precision.toFixed(4),
+    m.recall.toFixed(4),
+    m.f1Score.toFixed(4),
+    m.totalGroundTruth > 0 ? m.ap50.toFixed(4) : '',
+    m.totalGroundTruth > 0 ? m.ap5095.toFixed(4) : '',
+  ].join(','));
+  const predictionCount = Object.values(report.perClassMetrics).reduce((sum, m) => sum + m.predictionCount, 0);
+  rows.push([
+    'All classes',
+    report.tp + report.fn,
+    predictionCount,
+    report.tp,
+    report.fp,
+    report.fn,
+    report.precision.toFixed(4),
+    report.recall.toFixed(4),
+    report.f1Score.toFixed(4),
+    report.map50.toFixed(4),
+    report.map5095.toFixed(4),
+  ].join(','));
+
+  const csvContent = [
+    `# Images: ${report.imageCount}, analysis mode: ${analysisMode}`,
+    headers.join(','),
+    ...rows,
+  ].join('\n');
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), `benchmark_${new Date().toISOString().split('T')[0]}.csv`);
+};
+
+type GeoAttributes = Record<string, string | number | undefined>;
+
+/**
+ * Flattens every field of a defect (including video, track and merged-asset fields when
+ * present) into GIS-friendly attributes. Image-space geometry is kept as JSON text.
+ */
+const defectGeoAttributes = (d: Defect): GeoAttributes => {
+  const extra = d as Partial<TrackedDefect> & { assetId?: string; observations?: Defect[] };
+  return {
+    type: d.type,
+    severity: d.severity,
+    description: d.description,
+    confidence: d.confidence,
+    length_m: d.dimensions?.length_m,
+    width_m: d.dimensions?.width_m,
+    depth_m: d.dimensions?.depth_m,
+    area_sq_m: d.area_sq_m,
+    volume_m3: d.volume_m3,
+    perimeter_m: d.perimeter_m,
+    circularity: d.circularity,
+    instance_id: d.instanceId,
+    heading_deg: d.location?.heading,
+    captured_at: d.capturedAt,
+    video_time_s: extra.timestamp,
+    track_id: extra.trackId,
+    first_seen_s: extra.firstSeen,
+    last_seen_s: extra.lastSeen,
+    frame_count: extra.observationCount,
+    asset_id: extra.assetId,
+    observation_count: extra.observations?.length,
+    bbox_x_min: d.boundingBox?.x_min,
+    bbox_y_min: d.boundingBox?.y_min,
+    bbox_x_max: d.boundingBox?.x_max,
+    bbox_y_max: d.boundingBox?.y_max,
+    polygon_points: d.segmentationPolygon?.length,
+    segmentation_polygon: d.segmentationPolygon ? JSON.stringify(d.segmentationPolygon) : undefined,
+    centerline_path: d.centerlinePath ? JSON.stringify(d.centerlinePath) : undefined,
+  };
+};
+
+const defectHexColor = (type: Defect['type']) => (DEFECT_COLORS[type] || DEFECT_COLORS['Distress']).hex;
+
+/**
+ * Builds a GeoJSON FeatureCollection with one Point feature per defect. Defects without
+ * GPS are kept with a null geometry so no data is lost. `marker-color` follows the
+ * simplestyle convention and matches the in-app defect colors.
+ */
+export const buildDefectsGeoJSON = (defects: Defect[]) => ({
+  type: 'FeatureCollection' as const,
+  features: defects.map((d, index) => {
+    const properties: GeoAttributes = { id: index + 1, ...defectGeoAttributes(d), 'marker-color': defectHexColor(d.type) };
+    Object.keys(properties).forEach(key => properties[key] === undefined && delete properties[key]);
+    return {
+      type: 'Feature' as const,
+      geometry: d.location ? { type: 'Point' as const, coordinates: [d.location.longitude, d.location.latitude] } : null,
+      properties,
+    };
+  }),
+});
+
+export const exportToGeoJSON = (defects: Defect[], fileName = 'road_defects.geojson') => {
+  const content = JSON.stringify(buildDefectsGeoJSON(defects), null, 2);
+  downloadBlob(new Blob([content], { type: 'application/geo+json' }), fileName);
+};
+
+const escapeXML = (value: string) => value.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+
+/** KML colors are aabbggrr rather than #rrggbb. */
+const toKmlColor = (hex: string) => `ff${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`;
+
+/**
+ * Builds a KML document with a style per defect type and one Placemark per located
+ * defect; every defect field is carried in ExtendedData. Defects without GPS are skipped,
+ * as KML has no way to represent them.
+ */
+export const buildDefectsKML = (defects: Defect[], documentName = 'RoadGuard AI Defects'): string => {
+  const styles = (Object.keys(DEFECT_COLORS) as Defect['type'][]).map(type => `
+    <Style id="${type.replace(/\s+/g, '-')}">
+      <IconStyle><color>${toKmlColor(defectHexColor(type))}</color><scale>1.1</scale><Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon></IconStyle>
+      <LabelStyle><scale>0</scale></LabelStyle>
+    </Style>`).join('');
+
+  const placemarks = defects.map((d, index) => {
+    if (!d.location) return '';
+    const data = Object.entries(defectGeoAttributes(d))
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `<Data name="${name}"><value>${escapeXML(String(value))}</value></Data>`)
+      .join('');
+    const timeStamp = d.capturedAt ? `<TimeStamp><when>${escapeXML(d.capturedAt)}</when></TimeStamp>` : '';
+    return `
+    <Placemark>
+      <name>${escapeXML(`#${index + 1} ${d.type}${d.severity ? ` (${d.severity})` : ''}`)}</name>
+      <description>${escapeXML(d.description || '')}</description>
+      ${timeStamp}
+      <styleUrl>#${d.type.replace(/\s+/g, '-')}</styleUrl>
+      <ExtendedData>${data}</ExtendedData>
+      <Point><coordinates>${d.location.longitude},${d.location.latitude},0</coordinates></Point>
+    </Placemark>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXML(documentName)}</name>${styles}${placemarks}
+  </Document>
+</kml>
+`;
+};
+
+export const exportToKML = (defects: Defect[], fileName = 'road_defects.kml') => {
+  downloadBlob(new Blob([buildDefectsKML(defects)], { type: 'application/vnd.google-earth.kml+xml' }), fileName);
+};
+
+export const exportToKMZ = (defects: Defect[], fileName = 'road_defects.kmz') => {
+  downloadBlob(createZip([{ name: 'doc.kml', data: buildDefectsKML(defects) }], 'application/vnd.google-earth.kmz'), fileName);
+};
+
+/**
+ * Downloads an image's detections as an annotation file for relabeling: PASCAL VOC XML,
+ * COCO JSON, or a zip holding the YOLO label file and classes.txt.
+ */
+export const exportAnnotations = (format: AnnotationFormat, image: AnnotatedImage) => {
+  const stem = image.fileName.replace(/\.[^.]+$/, '') || 'image';
+  if (format === 'voc') {
+    downloadBlob(new Blob([buildPascalVoc(image)], { type: 'application/xml;charset=utf-8;' }), `${stem}.xml`);
+  } else if (format === 'coco') {
+    downloadBlob(new Blob([buildCocoDataset([image])], { type: 'application/json;charset=utf-8;' }), `${stem}_coco.json`);
+  } else {
+    downloadBlob(createZip([
+      { name: `labels/${stem}.txt`, data: buildYoloLabels(image.defects) },
+      { name: 'classes.txt', data: YOLO_CLASS_NAMES.join('\n') + '\n' },
+    ]), `${stem}_yolo.zip`);
+  }
+};
+
+// jsPDF's built-in fonts cannot draw every currency symbol, so reports print the ISO code.
+const pdfCost = (amount: number, currency: string) => `${currency} ${amount.toFixed(2)}`;
+
+const pdfCostSummary = (estimate: CostEstimate, currency: string) =>
+    `${pdfCost(estimate.totalCost, currency)} (${estimate.asphaltTonnes.toFixed(2)} t asphalt, ${estimate.sealantMetres.toFixed(1)} m sealant, ${estimate.labourHours.toFixed(1)} h labour)`;
+
+const pdfDefectCost = (defect: Defect, settings: CostSettings): string | null => {
+    const estimate = estimateDefectCost(defect, settings);
+    if (estimate.pricedCount === 0) return null;
+    const material = estimate.sealantMetres > 0 ? `${estimate.sealantMetres.toFixed(1)} m sealant` : `${estimate.asphaltTonnes.toFixed(3)} t asphalt`;
+    return `${pdfCost(estimate.totalCost, settings.currency)} (${material}, ${estimate.labourHours.toFixed(1)} h labour)`;
+};
+
+/**
+ * @param costSettings - Unit rates for repair estimates; when given, the report includes the
+ *   estimated cost of the image and of each defect.
+ */
+export const exportToPDF = async (analysis: AnalysisResult, costSettings?: CostSettings) => {
     if (!window.jspdf || !window.html2canvas) {
         alert("PDF generation library is not loaded. Please try again in a moment.");
         console.error("jsPDF or html2canvas not found on window object.");
@@ -104,6 +496,11 @@ export const exportToPDF = async (analysis: AnalysisResult) => {
     doc.setFontSize(16);
     doc.text("Defect Details", 14, 20);
     let y = 30;
+    if (costSettings && defects.length > 0) {
+        doc.setFontSize(10);
+        doc.text(`Estimated repair: ${pdfCostSummary(estimateTotalCost(defects, costSettings), costSettings.currency)}`, 14, 27);
+        y = 34;
+    }
 
     for (const [index, defect] of defects.entries()) {
         const lines: {label: string, value: string}[] = [];
@@ -116,6 +513,8 @@ export const exportToPDF = async (analysis: AnalysisResult) => {
         }
         if (defect.area_sq_m) lines.push({ label: 'Area:', value: `${defect.area_sq_m.toFixed(2)} m²` });
         if (defect.volume_m3) lines.push({ label: 'Volume:', value: `${defect.volume_m3.toFixed(4)} m³` });
+        const repairCost = costSettings && pdfDefectCost(defect, costSettings);
+        if (repairCost) lines.push({ label: 'Est. Repair:', value: repairCost });
         
         const descriptionLines = doc.splitTextToSize(defect.description, 140);
         // Estimate block height: title + padding + lines + description + padding
@@ -166,7 +565,13 @@ export const exportToPDF = async (analysis: AnalysisResult) => {
 };
 
 
-export const exportSessionToPDF = async (defects: Defect[]) => {
+/**
+ * @param segments - Optional per-segment summaries from a loaded road network; when given,
+ *   a segment table precedes the defect details.
+ * @param costSettings - Unit rates for repair estimates; when given, the session total and
+ *   each defect's estimated repair cost are included.
+ */
+export const exportSessionToPDF = async (defects: Defect[], segments?: RoadSegmentSummary[], costSettings?: CostSettings) => {
     if (!window.jspdf) {
         alert("PDF generation library is not loaded. Please try again in a moment.");
         console.error("jsPDF not found on window object.");
@@ -185,12 +590,58 @@ export const exportSessionToPDF = async (defects: Defect[]) => {
     doc.setFontSize(12);
     doc.setTextColor(50);
     doc.text(`Total Defects Detected: ${defects.length}`, 105, 35, { align: 'center' });
+    if (costSettings && defects.length > 0) {
+        doc.setFontSize(10);
+        doc.text(`Estimated Repair: ${pdfCostSummary(estimateTotalCost(defects, costSettings), costSettings.currency)}`, 105, 42, { align: 'center' });
+    }
     
+    let y = 50;
+
+    // === Road Segment Summary ===
+    if (segments && segments.length > 0) {
+        doc.setFontSize(16);
+        doc.setTextColor(0);
+        doc.text("Road Segment Summary", 14, y);
+        y += 8;
+        const columns = [
+            { label: 'Road', x: 16 }, { label: 'Chainage', x: 76 }, { label: 'Defects', x: 116 },
+            { label: 'Area (m²)', x: 136 }, { label: 'PCI', x: 160 }, { label: 'Rating', x: 172 },
+        ];
+        const drawHeader = () => {
+            doc.setFontSize(9);
+            doc.setFont('helvetica', 'bold');
+            columns.forEach(col => doc.text(col.label, col.x, y));
+            doc.setFont('helvetica', 'normal');
+            y += 6;
+        };
+        drawHeader();
+        segments.forEach(segment => {
+            if (y > 280) {
+                doc.addPage();
+                y = 20;
+                drawHeader();
+            }
+            const name = doc.splitTextToSize(segment.roadName, 58)[0];
+            doc.text(name, 16, y);
+            doc.text(formatChainageRange(segment.startChainageM, segment.endChainageM), 76, y);
+            doc.text(String(segment.defectCount), 116, y);
+            doc.text(segment.areaSqM.toFixed(2), 136, y);
+            doc.text(String(segment.pci), 160, y);
+            doc.text(segment.pciRating, 172, y);
+            y += 5;
+        });
+        y += 10;
+        if (y > 260) {
+            doc.addPage();
+            y = 20;
+        }
+    }
+
     // === Defect Details Section ===
     doc.setFontSize(16);
     doc.setTextColor(0);
-    doc.text("Detected Defect Details", 14, 50);
-    let y = 60;
+    doc.text("Detected Defect Details", 14, y);
+    y += 10;
 
     for (const [index, defect] of defects.entries()) {
         const lines: {label: string, value: string}[] = [];
@@ -204,6 +655,8 @@ export const exportSessionToPDF = async (defects: Defect[]) => {
         if (defect.area_sq_m) lines.push({ label: 'Area:', value: `${defect.area_sq_m.toFixed(2)} m²` });
         if (defect.volume_m3) lines.push({ label: 'Volume:', value: `${defect.volume_m3.toFixed(4)} m³` });
         if (typeof defect.confidence === 'number') lines.push({ label: 'Confidence:', value: `${(defect.confidence * 100).toFixed(1)}%` });
+        const repairCost = costSettings && pdfDefectCost(defect, costSettings);
+        if (repairCost) lines.push({ label: 'Est. Repair:', value: repairCost });
         
         const descriptionLines = doc.splitTextToSize(defect.description || 'No description provided.', 140);
         // Estimate block height
@@ -253,9 +706,13 @@ export const exportSessionToPDF = async (defects: Defect[]) => {
     doc.save('road_session_report.pdf');
 };
 
-export const exportVideoReportToCSV = (defects: VideoDefect[]) => {
-  const headers = ['Timestamp (s)', 'Type', 'Severity', 'Description', 'Latitude', 'Longitude', 'Confidence', 'Length (m)', 'Width (m)', 'Depth (m)', 'Area (sq_m)', 'Volume (m³)'];
+export const exportVideoReportToCSV = (defects: TrackedDefect[]) => {
+  const headers = ['Track ID', 'First Seen (s)', 'Last Seen (s)', 'Frames', 'Best View (s)', 'Type', 'Severity', 'Description', 'Latitude', 'Longitude', 'Confidence', 'Length (m)', 'Width (m)', 'Depth (m)', 'Area (sq_m)', 'Volume (m³)'];
   const rows = defects.map(d => [
+    d.trackId,
+    d.firstSeen.toFixed(2),
+    d.lastSeen.toFixed(2),
+    d.observationCount,
     d.timestamp.toFixed(2),
     escapeCSV(d.type),
     escapeCSV(d.severity),
@@ -271,21 +728,15 @@ export const exportVideoReportToCSV = (defects: VideoDefect[]) => {
   ].join(','));
 
   const csvContent = [headers.join(','), ...rows].join('\n');
-  
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  link.setAttribute('href', url);
-  link.setAttribute('download', 'road_video_analysis_report.csv');
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), 'road_video_analysis_report.csv');
 };
 
 
-export const exportVideoReportToPDF = async (defects: VideoDefect[], videoFileName: string) => {
+/**
+ * @param defects - Unique (tracked) defects; each is reported once.
+ * @param detectionCount - Raw per-frame detections before de-duplication, shown for reference.
+ */
+export const exportVideoReportToPDF = async (defects: TrackedDefect[], videoFileName: string, detectionCount?: number) => {
     if (!window.jspdf) {
         alert("PDF generation library is not loaded. Please try again in a moment.");
         return;
@@ -302,7 +753,8 @@ export const exportVideoReportToPDF = async (defects: VideoDefect[], videoFileNa
     doc.setFontSize(12);
     doc.setTextColor(50);
     doc.text(`Analyzed Video: ${videoFileName}`, 105, 35, { align: 'center' });
-    doc.text(`Total Defects Detected: ${defects.length}`, 105, 42, { align: 'center' });
+    const detectionNote = detectionCount && detectionCount > defects.length ? ` (from ${detectionCount} frame detections)` : '';
+    doc.text(`Unique Defects Detected: ${defects.length}${detectionNote}`, 105, 42, { align: 'center' });
     
     doc.setFontSize(16);
     doc.setTextColor(0);
@@ -311,7 +763,8 @@ export const exportVideoReportToPDF = async (defects: VideoDefect[], videoFileNa
 
     for (const [index, defect] of defects.entries()) {
         const lines: {label: string, value: string}[] = [];
-        lines.push({ label: 'Timestamp:', value: `${defect.timestamp.toFixed(2)}s` });
+        const seen = defect.firstSeen === defect.lastSeen ? `${defect.firstSeen.toFixed(2)}s` : `${defect.firstSeen.toFixed(2)}s – ${defect.lastSeen.toFixed(2)}s`;
+        lines.push({ label: 'Seen:', value: `${seen} (${defect.observationCount} frame${defect.observationCount === 1 ? '' : 's'})` });
         if (defect.severity) lines.push({ label: 'Severity:', value: defect.severity });
         if (defect.location) lines.push({ label: 'GPS:', value: `${defect.location.latitude.toFixed(6)}, ${defect.location.longitude.toFixed(6)}` });
         if (defect.dimensions) {
@@ -323,8 +776,8 @@ export const exportVideoReportToPDF = async (defects: VideoDefect[], videoFileNa
         if (defect.volume_m3) lines.push({ label: 'Volume:', value: `${defect.volume_m3.toFixed(4)} m³` });
         if (typeof defect.confidence === 'number') lines.push({ label: 'Confidence:', value: `${(defect.confidence * 100).toFixed(1)}%` });
         
-        const descriptionLines = doc.splitTextToSize(defect.description || 'No description provided.', 140);
-        const blockHeight = 12 + (lines.length * 6) + (descriptionLines.length * 5) + 5;
+        const descriptionLines = doc.splitTextToSize(defect.description || 'No description provided.', defect.bestFrameUrl ? 100 : 140);
+        const blockHeight = Math.max(12 + (lines.length * 6) + (descriptionLines.length * 5) + 5, defect.bestFrameUrl ? 32 : 0);
 
         if (y + blockHeight > 280 && index > 0) {
             doc.addPage();
@@ -359,7 +812,15 @@ export const exportVideoReportToPDF = async (defects: VideoDefect[], videoFileNa
         doc.text(descriptionLines, 55, contentY);
         contentY += descriptionLines.length * 5;
 
-        const finalBlockHeight = contentY - blockStartY + 2;
+        if (defect.bestFrameUrl) {
+            try {
+                doc.addImage(defect.bestFrameUrl, 'JPEG', 160, blockStartY + 6, 30, 22);
+            } catch (e) {
+                console.warn("Could not embed best-view thumbnail:", e);
+            }
+        }
+
+        const finalBlockHeight = Math.max(contentY - blockStartY + 2, defect.bestFrameUrl ? 30 : 0);
         doc.setDrawColor(200);
         doc.roundedRect(16, blockStartY, 180, finalBlockHeight, 3, 3);
         
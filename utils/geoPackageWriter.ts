@@ -0,0 +1,126 @@
+import type { GisGeometry, GisLayer } from '../types';
+import { writeSqliteDatabase, type SqliteTable, type SqliteValue } from './sqliteWriter';
+
+const GPKG_APPLICATION_ID = 0x47504b47; // "GPKG"
+const GPKG_USER_VERSION = 10300; // GeoPackage 1.3
+const WGS84_SRS_ID = 4326;
+
+const WGS84_WKT = 'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+type Envelope = [number, number, number, number]; // minX, maxX, minY, maxY
+
+const geometryPoints = (geometry: GisGeometry): [number, number][] =>
+    geometry.type === 'Point' ? [geometry.coordinates] : geometry.rings.flat();
+
+const envelopeOf = (points: [number, number][]): Envelope => points.reduce<Envelope>(
+    ([minX, maxX, minY, maxY], [x, y]) => [Math.min(minX, x), Math.max(maxX, x), Math.min(minY, y), Math.max(maxY, y)],
+    [Infinity, -Infinity, Infinity, -Infinity]
+);
+
+/** Closes rings and orients them counter-clockwise (outer) / clockwise (holes), as OGC expects. */
+const closeRing = (ring: [number, number][], isOuter: boolean): [number, number][] => {
+    const closed = ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1] ? [...ring, ring[0]] : [...ring];
+    let area = 0;
+    for (let i = 0; i < closed.length - 1; i++) area += closed[i][0] * closed[i + 1][1] - closed[i + 1][0] * closed[i][1];
+    return (area > 0) === isOuter ? closed : closed.reverse();
+};
+
+/**
+ * Encodes a geometry as a GeoPackage binary blob: the "GP" header with an envelope,
+ * followed by little-endian WKB.
+ */
+const encodeGeometry = (geometry: GisGeometry): Uint8Array => {
+    const rings = geometry.type === 'Polygon' ? geometry.rings.map((ring, i) => closeRing(ring, i === 0)) : [];
+    const wkbLength = geometry.type === 'Point' ? 21 : 9 + rings.reduce((sum, ring) => sum + 4 + ring.length * 16, 0);
+    const headerLength = 8 + 32;
+    const view = new DataView(new ArrayBuffer(headerLength + wkbLength));
+
+    view.setUint8(0, 0x47); // 'G'
+    view.setUint8(1, 0x50); // 'P'
+    view.setUint8(2, 0); // version
+    view.setUint8(3, (1 << 1) | 1); // [minx, maxx, miny, maxy] envelope, little-endian
+    view.setInt32(4, WGS84_SRS_ID, true);
+    envelopeOf(geometryPoints(geometry)).forEach((value, i) => view.setFloat64(8 + i * 8, value, true));
+
+    let offset = headerLength;
+    view.setUint8(offset, 1);
+    if (geometry.type === 'Point') {
+        view.setUint32(offset + 1, 1, true);
+        view.setFloat64(offset + 5, geometry.coordinates[0], true);
+        view.setFloat64(offset + 13, geometry.coordinates[1], true);
+    } else {
+        view.setUint32(offset + 1, 3, true);
+        view.setUint32(offset + 5, rings.length, true);
+        offset += 9;
+        rings.forEach(ring => {
+            view.setUint32(offset, ring.length, true);
+            offset += 4;
+            ring.forEach(([x, y]) => {
+                view.setFloat64(offset, x, true);
+                view.setFloat64(offset + 8, y, true);
+                offset += 16;
+            });
+        });
+    }
+    return new Uint8Array(view.buffer);
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const SQL_TYPES = { text: 'TEXT', real: 'DOUBLE', integer: 'INTEGER' } as const;
+
+/**
+ * Builds an OGC GeoPackage (an SQLite database) containing one feature table per layer,
+ * in WGS 84. Empty layers are skipped.
+ */
+export function writeGeoPackage(layers: GisLayer[]): Uint8Array {
+    const nonEmpty = layers.filter(layer => layer.features.length > 0);
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, '.000Z');
+
+    const tables: SqliteTable[] = [
+        {
+            name: 'gpkg_spatial_ref_sys',
+            sql: 'CREATE TABLE gpkg_spatial_ref_sys (srs_name TEXT NOT NULL, srs_id INTEGER PRIMARY KEY, organization TEXT NOT NULL, organization_coordsys_id INTEGER NOT NULL, definition TEXT NOT NULL, description TEXT)',
+            rowidColumn: 1,
+            rows: [
+                ['Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', 'undefined cartesian coordinate reference system'],
+                ['Undefined geographic SRS', 0, 'NONE', 0, 'undefined', 'undefined geographic coordinate reference system'],
+                ['WGS 84 geodetic', WGS84_SRS_ID, 'EPSG', 4326, WGS84_WKT, 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid'],
+            ],
+        },
+        {
+            name: 'gpkg_contents',
+            sql: "CREATE TABLE gpkg_contents (table_name TEXT NOT NULL PRIMARY KEY, data_type TEXT NOT NULL, identifier TEXT, description TEXT DEFAULT '', last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')), min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE, srs_id INTEGER, CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id))",
+            rows: nonEmpty.map(layer => {
+                const [minX, maxX, minY, maxY] = envelopeOf(layer.features.flatMap(f => geometryPoints(f.geometry)));
+                return [layer.name, 'features', layer.name, '', now, minX, minY, maxX, maxY, WGS84_SRS_ID];
+            }),
+            indexes: [{ name: 'sqlite_autoindex_gpkg_contents_1', columns: [0] }],
+        },
+        {
+            name: 'gpkg_geometry_columns',
+            sql: 'CREATE TABLE gpkg_geometry_columns (table_name TEXT NOT NULL, column_name TEXT NOT NULL, geometry_type_name TEXT NOT NULL, srs_id INTEGER NOT NULL, z TINYINT NOT NULL, m TINYINT NOT NULL, CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name), CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name), CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id))',
+            rows: nonEmpty.map(layer => [layer.name, 'geom', layer.geometryType.toUpperCase(), WGS84_SRS_ID, 0, 0]),
+            indexes: [{ name: 'sqlite_autoindex_gpkg_geometry_columns_1', columns: [0, 1] }],
+        },
+    ];
+
+    nonEmpty.forEach(layer => {
+        const columns = layer.fields.map(field => `${quoteIdentifier(field.name)} ${SQL_TYPES[field.type]}`);
+        tables.push({
+            name: layer.name,
+            sql: `CREATE TABLE ${quoteIdentifier(layer.name)} (fid INTEGER PRIMARY KEY, geom ${layer.geometryType.toUpperCase()}, ${columns.join(', ')})`,
+            rowidColumn: 0,
+            rows: layer.features.map((feature, i): SqliteValue[] => [
+                i + 1,
+                encodeGeometry(feature.geometry),
+                ...feature.attributes.map((value, j) => {
+                    if (value === undefined || value === '') return null;
+                    return layer.fields[j].type === 'text' ? String(value) : Number(value);
+                }),
+            ]),
+        });
+    });
+
+    return writeSqliteDatabase(tables, { applicationId: GPKG_APPLICATION_ID, userVersion: GPKG_USER_VERSION });
+}
@@ -1,4 +1,4 @@
-import type { Location } from '../types';
+import type { Defect, Location } from '../types';
 
 // Promise-based wrapper for Geolocation API for robust error handling
 export const requestLocation = (): Promise<Location> => {
@@ -9,10 +9,9 @@ export const requestLocation = (): Promise<Location> => {
 
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        resolve({
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-        });
+        const { latitude, longitude, heading } = position.coords;
+        // Heading is only reported while the device is moving.
+        resolve(typeof heading === 'number' && !isNaN(heading) ? { latitude, longitude, heading } : { latitude, longitude });
       },
       (error) => {
         switch (error.code) {
@@ -34,3 +33,57 @@ export const requestLocation = (): Promise<Location> => {
     );
   });
 };
+
+const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Great-circle (haversine) distance between two coordinates, in meters.
+ */
+export const distanceInMeters = (a: Location, b: Location): number => {
+  const toRadians = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Moves a coordinate by the given east/north distances in meters (flat-earth approximation,
+ * fine for the few meters spanned by a single defect).
+ */
+export const offsetLocation = (origin: Location, eastM: number, northM: number): Location => {
+  const toRadians = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = northM / EARTH_RADIUS_M;
+  const dLon = eastM / (EARTH_RADIUS_M * Math.cos(toRadians(origin.latitude)));
+  return {
+    latitude: origin.latitude + (dLat * 180) / Math.PI,
+    longitude: origin.longitude + (dLon * 180) / Math.PI,
+  };
+};
+
+/**
+ * Estimates a defect's ground footprint from its image segmentation polygon. The bounding
+ * box is scaled to the measured length (image x) and width (image y), centred on the
+ * defect's GPS fix, and rotated so that the top of the image faces the capture heading
+ * (north when unknown). Returns null when the polygon, location or dimensions are missing.
+ */
+export const estimateDefectFootprint = (defect: Defect): Location[] | null => {
+  const polygon = defect.segmentationPolygon;
+  if (!polygon || polygon.length < 3 || !defect.location || !defect.dimensions) return null;
+  const { x_min, y_min, x_max, y_max } = defect.boundingBox;
+  const boxWidth = x_max - x_min;
+  const boxHeight = y_max - y_min;
+  const { length_m, width_m } = defect.dimensions;
+  if (boxWidth <= 0 || boxHeight <= 0 || !(length_m > 0) || !(width_m > 0)) return null;
+
+  const centerX = (x_min + x_max) / 2;
+  const centerY = (y_min + y_max) / 2;
+  const heading = ((defect.location.heading ?? 0) * Math.PI) / 180;
+  return polygon.map(p => {
+    const right = ((p.x - centerX) / boxWidth) * length_m;
+    const forward = ((centerY - p.y) / boxHeight) * width_m;
+    const east = right * Math.cos(heading) + forward * Math.sin(heading);
+    const north = -right * Math.sin(heading) + forward * Math.cos(heading);
+    return offsetLocation(defect.location!, east, north);
+  });
+};
@@ -0,0 +1,263 @@
+import type { Defect, PciDeduct, PciDistress, PciIteration, PciResult } from '../types';
+
+/** ASTM D6433 recommends asphalt sample units of 225 ± 90 m² (2500 ± 1000 ft²). */
+export const DEFAULT_SAMPLE_AREA_SQ_M = 225;
+
+const SQ_FT_PER_SQ_M = 10.7639;
+const FT_PER_M = 3.28084;
+
+type Severity = PciDeduct['severity'];
+type Curve = [density: number, deduct: number][];
+
+interface DistressSpec {
+    measure: 'area' | 'length' | 'count';
+    curves: Record<Severity, Curve>;
+}
+
+/**
+ * Asphalt-concrete deduct curves from ASTM D6433, digitized at fixed densities and
+ * interpolated on a log-density axis. Densities are in percent of the sample unit using
+ * the standard's imperial quantities (ft² / ft / count per ft²).
+ */
+const DISTRESS_SPECS: Record<PciDistress, DistressSpec> = {
+    'Alligator Cracking': {
+        measure: 'area',
+        curves: {
+            Low: [[0.1, 4], [0.3, 8], [1, 14], [3, 22], [10, 32], [30, 44], [100, 57]],
+            Medium: [[0.1, 8], [0.3, 13], [1, 22], [3, 32], [10, 45], [30, 58], [100, 72]],
+            High: [[0.1, 12], [0.3, 18], [1, 30], [3, 42], [10, 57], [30, 70], [100, 83]],
+        },
+    },
+    'Block Cracking': {
+        measure: 'area',
+        curves: {
+            Low: [[0.1, 1], [1, 3], [3, 6], [10, 12], [30, 20], [100, 28]],
+            Medium: [[0.1, 2], [1, 7], [3, 12], [10, 20], [30, 31], [100, 44]],
+            High: [[0.1, 4], [1, 12], [3, 20], [10, 31], [30, 45], [100, 62]],
+        },
+    },
+    'Corrugation': {
+        measure: 'area',
+        curves: {
+            Low: [[0.1, 1], [1, 5], [3, 10], [10, 20], [30, 32], [100, 45]],
+            Medium: [[0.1, 3], [1, 14], [3, 24], [10, 36], [30, 50], [100, 62]],
+            High: [[0.1, 8], [1, 27], [3, 40], [10, 55], [30, 70], [100, 83]],
+        },
+    },
+    'Longitudinal & Transverse Cracking': {
+        measure: 'length',
+        curves: {
+            Low: [[0.1, 0], [1, 3], [3, 6], [10, 12], [30, 20], [100, 28]],
+            Medium: [[0.1, 1], [1, 8], [3, 14], [10, 24], [30, 36], [100, 50]],
+            High: [[0.1, 3], [1, 15], [3, 25], [10, 40], [30, 57], [100, 75]],
+        },
+    },
+    'Potholes': {
+        measure: 'count',
+        curves: {
+            Low: [[0.01, 2], [0.03, 7], [0.1, 16], [0.3, 31], [1, 50], [3, 70], [10, 88]],
+            Medium: [[0.01, 5], [0.03, 14], [0.1, 28], [0.3, 46], [1, 67], [3, 85], [10, 98]],
+            High: [[0.01, 10], [0.03, 22], [0.1, 40], [0.3, 60], [1, 80], [3, 95], [10, 100]],
+        },
+    },
+    'Rutting': {
+        measure: 'area',
+        curves: {
+            Low: [[0.1, 1], [1, 8], [3, 15], [10, 27], [30, 40], [100, 53]],
+            Medium: [[0.1, 4], [1, 15], [3, 25], [10, 38], [30, 52], [100, 66]],
+            High: [[0.1, 8], [1, 24], [3, 36], [10, 52], [30, 67], [100, 80]],
+        },
+    },
+};
+
+/**
+ * Maps the detector's defect types onto ASTM distresses. "Roughness" is rated as
+ * corrugation, the closest surface-profile distress; generic "Distress" has no mapping.
+ */
+const DEFECT_TO_DISTRESS: Partial<Record<Defect['type'], PciDistress>> = {
+    'Alligator Crack': 'Alligator Cracking',
+    'Block Crack': 'Block Cracking',
+    'Longitudinal Crack': 'Longitudinal & Transverse Cracking',
+    'Transverse Crack': 'Longitudinal & Transverse Cracking',
+    'Pothole': 'Potholes',
+    'Rutting': 'Rutting',
+    'Roughness': 'Corrugation',
+};
+
+/**
+ * Corrected deduct value curves for asphalt pavements, one per q (number of deducts > 2),
+ * as [total deduct value, corrected deduct value] points. q = 1 is the identity line.
+ */
+const CDV_CURVES: Record<number, Curve> = {
+    2: [[0, 0], [20, 16], [40, 31], [60, 45], [80, 58], [100, 70], [120, 80], [140, 88], [160, 94], [180, 98], [200, 100]],
+    3: [[0, 0], [20, 12], [40, 26], [60, 38], [80, 50], [100, 60], [120, 69], [140, 77], [160, 84], [180, 90], [200, 95]],
+    4: [[0, 0], [20, 10], [40, 22], [60, 34], [80, 45], [100, 55], [120, 63], [140, 71], [160, 78], [180, 84], [200, 89]],
+    5: [[0, 0], [20, 8], [40, 19], [60, 30], [80, 41], [100, 51], [120, 59], [140, 67], [160, 73], [180, 79], [200, 84]],
+    6: [[0, 0], [20, 6], [40, 17], [60, 28], [80, 38], [100, 47], [120, 55], [140, 63], [160, 69], [180, 75], [200, 80]],
+    7: [[0, 0], [20, 5], [40, 15], [60, 26], [80, 35], [100, 44], [120, 52], [140, 60], [160, 66], [180, 72], [200, 77]],
+};
+
+const interpolate = (x: number, x0: number, y0: number, x1: number, y1: number) =>
+    x1 === x0 ? y0 : y0 + ((x - x0) * (y1 - y0)) / (x1 - x0);
+
+/**
+ * Reads a deduct value off a curve, interpolating on log10(density). Below the first
+ * digitized density the curve is taken as linear to the origin; above the last it is flat.
+ */
+export const deductFromCurve = (curve: Curve, density: number): number => {
+    if (density <= 0) return 0;
+    const [firstDensity, firstDeduct] = curve[0];
+    if (density <= firstDensity) return (firstDeduct * density) / firstDensity;
+    for (let i = 1; i < curve.length; i++) {
+        const [d1, v1] = curve[i];
+        if (density <= d1) {
+            const [d0, v0] = curve[i - 1];
+            return interpolate(Math.log10(density), Math.log10(d0), v0, Math.log10(d1), v1);
+        }
+    }
+    return curve[curve.length - 1][1];
+};
+
+export const correctedDeductValue = (totalDeductValue: number, q: number): number => {
+    if (q <= 1) return Math.min(100, totalDeductValue);
+    const curve = CDV_CURVES[Math.min(q, 7)];
+    for (let i = 1; i < curve.length; i++) {
+        const [t1, c1] = curve[i];
+        if (totalDeductValue <= t1) {
+            const [t0, c0] = curve[i - 1];
+            return Math.min(100, interpolate(totalDeductValue, t0, c0, t1, c1));
+        }
+    }
+    return Math.min(100, curve[curve.length - 1][1]);
+};
+
+export const getPciRating = (pci: number): PciResult['rating'] => {
+    if (pci > 85) return 'Good';
+    if (pci > 70) return 'Satisfactory';
+    if (pci > 55) return 'Fair';
+    if (pci > 40) return 'Poor';
+    if (pci > 25) return 'Very Poor';
+    if (pci > 10) return 'Serious';
+    return 'Failed';
+};
+
+/** Quantity of one defect in the distress's metric unit, or null when it cannot be measured. */
+const measureDefect = (defect: Defect, measure: DistressSpec['measure']): number | null => {
+    if (measure === 'count') return 1;
+    if (measure === 'length') return defect.dimensions?.length_m ?? null;
+    if (typeof defect.area_sq_m === 'number') return defect.area_sq_m;
+    if (defect.dimensions) return defect.dimensions.length_m * defect.dimensions.width_m;
+    return null;
+};
+
+/**
+ * Runs the ASTM D6433 iterative procedure: keep at most m deduct values, then repeatedly
+ * look up the CDV for the current q and reduce the smallest deduct above 2 to 2 until q = 1.
+ */
+const computeMaxCdv = (deductValues: number[]) => {
+    const sorted = [...deductValues].sort((a, b) => b - a);
+    const iterations: PciIteration[] = [];
+    if (sorted.length === 0) return { maxCdv: 0, allowableDeducts: 0, iterations };
+
+    const highest = sorted[0];
+    const allowableDeducts = Math.min(10, 1 + (9 / 98) * (100 - highest));
+
+    // With at most one deduct above 2, the total deduct value is used directly.
+    if (sorted.filter(v => v > 2).length <= 1) {
+        const total = sorted.reduce((sum, v) => sum + v, 0);
+        const cdv = Math.min(100, total);
+        iterations.push({ deductValues: sorted, q: 1, totalDeductValue: total, correctedDeductValue: cdv });
+        return { maxCdv: cdv, allowableDeducts, iterations };
+    }
+
+    const wholeCount = Math.floor(allowableDeducts);
+    let considered = sorted.slice(0, wholeCount);
+    if (sorted.length > wholeCount) {
+        // The fractional part of m applies to the next deduct value.
+        considered.push(sorted[wholeCount] * (allowableDeducts - wholeCount));
+    }
+
+    let maxCdv = 0;
+    while (true) {
+        const q = considered.filter(v => v > 2).length;
+        const total = considered.reduce((sum, v) => sum + v, 0);
+        const cdv = correctedDeductValue(total, q);
+        iterations.push({ deductValues: [...considered], q, totalDeductValue: total, correctedDeductValue: cdv });
+        maxCdv = Math.max(maxCdv, cdv);
+        if (q <= 1) break;
+        let smallestIndex = -1;
+        considered.forEach((v, i) => {
+            if (v > 2 && (smallestIndex === -1 || v < considered[smallestIndex])) smallestIndex = i;
+        });
+        considered = considered.map((v, i) => (i === smallestIndex ? 2 : v));
+    }
+    return { maxCdv, allowableDeducts, iterations };
+};
+
+/**
+ * Computes the Pavement Condition Index of one sample unit from detected defects,
+ * following ASTM D6433 for asphalt pavements. Quantities are summed per distress and
+ * severity; defects without a severity are rated Medium and flagged as assumed.
+ * @param sampleAreaSqM - Area of the inspected sample unit in square meters.
+ */
+export function calculatePci(defects: Defect[], sampleAreaSqM: number = DEFAULT_SAMPLE_AREA_SQ_M): PciResult {
+    if (!(sampleAreaSqM > 0)) {
+        throw new Error("Sample unit area must be greater than zero.");
+    }
+    const sampleAreaSqFt = sampleAreaSqM * SQ_FT_PER_SQ_M;
+    const groups = new Map<string, { distress: PciDistress; severity: Severity; quantity: number; defectCount: number; severityAssumed: boolean }>();
+    let unratedDefectCount = 0;
+
+    defects.forEach(defect => {
+        const distress = DEFECT_TO_DISTRESS[defect.type];
+        if (!distress) {
+            unratedDefectCount++;
+            return;
+        }
+        const quantity = measureDefect(defect, DISTRESS_SPECS[distress].measure);
+        if (quantity === null || !(quantity > 0)) {
+            unratedDefectCount++;
+            return;
+        }
+        const severity = defect.severity || 'Medium';
+        const key = `${distress}|${severity}`;
+        const group = groups.get(key) || { distress, severity, quantity: 0, defectCount: 0, severityAssumed: false };
+        group.quantity += quantity;
+        group.defectCount++;
+        group.severityAssumed = group.severityAssumed || !defect.severity;
+        groups.set(key, group);
+    });
+
+    const deducts: PciDeduct[] = Array.from(groups.values()).map((group): PciDeduct => {
+        const spec = DISTRESS_SPECS[group.distress];
+        const imperialQuantity =
+            spec.measure === 'area' ? group.quantity * SQ_FT_PER_SQ_M :
+            spec.measure === 'length' ? group.quantity * FT_PER_M :
+            group.quantity;
+        const density = (imperialQuantity / sampleAreaSqFt) * 100;
+        return {
+            distress: group.distress,
+            severity: group.severity,
+            quantity: group.quantity,
+            unit: spec.measure === 'area' ? 'm²' : spec.measure === 'length' ? 'm' : 'count',
+            density,
+            deductValue: deductFromCurve(spec.curves[group.severity], density),
+            defectCount: group.defectCount,
+            severityAssumed: group.severityAssumed,
+        };
+    }).sort((a, b) => b.deductValue - a.deductValue);
+
+    const { maxCdv, allowableDeducts, iterations } = computeMaxCdv(deducts.map(d => d.deductValue));
+    const pci = Math.max(0, Math.min(100, 100 - maxCdv));
+
+    return {
+        pci,
+        rating: getPciRating(pci),
+        sampleAreaSqM,
+        maxCorrectedDeductValue: maxCdv,
+        allowableDeducts,
+        deducts,
+        iterations,
+        unratedDefectCount,
+    };
+}
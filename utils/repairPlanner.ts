@@ -0,0 +1,123 @@
+import type { CostSettings, Defect, PlannedRepair, RepairCandidate, RepairProgramme, RoadNetwork, RoadSegmentSummary } from '../types';
+import { estimateDefectCost, estimateOverlayCost } from './costEstimator';
+import { calculatePci } from './pciCalculator';
+import { DEFAULT_ROAD_WIDTH_M, DEFAULT_SEGMENT_LENGTH_M, defectsInSegment, formatChainageRange, type SegmentAggregation } from './roadSegments';
+import { TREATMENT_FOR_TYPE } from './workOrders';
+
+// Urgency multiplier: severe defects carry safety and liability risk beyond their PCI deduct.
+const SEVERITY_WEIGHT: Record<NonNullable<Defect['severity']>, number> = { Low: 1, Medium: 1.5, High: 2 };
+
+const severityWeight = (defects: Defect[]) => Math.max(1, ...defects.map(d => SEVERITY_WEIGHT[d.severity ?? 'Medium']));
+
+interface PlanningContext {
+    network: RoadNetwork;
+    aggregation: SegmentAggregation;
+    segmentLengthM?: number;
+}
+
+/**
+ * Lists every repair the planner can fund: each measurable defect with its default
+ * treatment, plus a mill & overlay for each road segment with defects. A defect's PCI gain is
+ * the rise in its segment's PCI when it alone is removed; defects off the network are rated
+ * as a standard sample unit on their own. Unpriced defects are left out.
+ */
+export function buildRepairCandidates(defects: Defect[], settings: CostSettings, context?: PlanningContext | null): RepairCandidate[] {
+    const roadsById = new Map(context?.network.roads.map(road => [road.id, road]) ?? []);
+    const segmentLengthM = context?.segmentLengthM ?? DEFAULT_SEGMENT_LENGTH_M;
+
+    const segmentOf = new Map<Defect, { segment: RoadSegmentSummary; members: Defect[]; sampleAreaSqM: number }>();
+    const segmentCandidates: RepairCandidate[] = [];
+    context?.aggregation.segments.forEach(segment => {
+        const members = defectsInSegment(context.aggregation, segment, segmentLengthM);
+        if (members.length === 0) return;
+        const road = roadsById.get(segment.roadId);
+        const sampleAreaSqM = Math.max(1, (segment.endChainageM - segment.startChainageM) * (road?.widthM ?? DEFAULT_ROAD_WIDTH_M));
+        members.forEach(d => segmentOf.set(d, { segment, members, sampleAreaSqM }));
+
+        const pciGain = 100 - calculatePci(members, sampleAreaSqM).pci;
+        const weight = severityWeight(members);
+        const trafficWeight = road?.trafficWeight ?? 1;
+        segmentCandidates.push({
+            id: `S:${segment.roadId}@${segment.startChainageM}`,
+            kind: 'segment',
+            label: `${segment.roadName} ${formatChainageRange(segment.startChainageM, segment.endChainageM)}`,
+            treatment: 'Mill & Overlay',
+            cost: estimateOverlayCost(sampleAreaSqM, settings).totalCost,
+            pciGain,
+            severityWeight: weight,
+            trafficWeight,
+            benefit: pciGain * weight * trafficWeight,
+            segment,
+            coveredDefects: members,
+            roadName: segment.roadName,
+        });
+    });
+
+    const defectCandidates: RepairCandidate[] = [];
+    defects.forEach((defect, index) => {
+        const estimate = estimateDefectCost(defect, settings);
+        if (estimate.pricedCount === 0) return;
+        const unit = segmentOf.get(defect);
+        const pciGain = unit
+            ? calculatePci(unit.members.filter(d => d !== defect), unit.sampleAreaSqM).pci - calculatePci(unit.members, unit.sampleAreaSqM).pci
+            : 100 - calculatePci([defect]).pci;
+        const weight = severityWeight([defect]);
+        const trafficWeight = (unit && roadsById.get(unit.segment.roadId)?.trafficWeight) ?? 1;
+        defectCandidates.push({
+            id: `D:${index + 1}`,
+            kind: 'defect',
+            label: `${defect.type}${defect.severity ? ` (${defect.severity})` : ''}`,
+            treatment: TREATMENT_FOR_TYPE[defect.type] ?? 'Patch',
+            cost: estimate.totalCost,
+            pciGain,
+            severityWeight: weight,
+            trafficWeight,
+            benefit: pciGain * weight * trafficWeight,
+            defect,
+            coveredDefects: [defect],
+            roadName: unit?.segment.roadName,
+            location: defect.location,
+        });
+    });
+
+    return [...segmentCandidates, ...defectCandidates];
+}
+
+/**
+ * Builds a multi-year programme by funding candidates in order of benefit per unit cost
+ * until each year's budget is spent, the usual greedy answer to this knapsack problem.
+ * Repairs that fix a defect already covered by a funded repair (a patch inside an overlaid
+ * segment, or the reverse) are dropped rather than deferred.
+ */
+export function planRepairProgramme(candidates: RepairCandidate[], annualBudget: number, years = 1): RepairProgramme {
+    const ranked = candidates
+        .filter(c => c.cost > 0)
+        .sort((a, b) => b.benefit / b.cost - a.benefit / a.cost || b.benefit - a.benefit);
+
+    const covered = new Set<Defect>();
+    const funded = new Set<RepairCandidate>();
+    const scheduled: PlannedRepair[] = [];
+    const spentByYear: number[] = [];
+    const conflicts = (c: RepairCandidate) => c.coveredDefects.some(d => covered.has(d));
+
+    for (let year = 1; year <= years; year++) {
+        let spent = 0;
+        ranked.forEach(candidate => {
+            if (funded.has(candidate) || conflicts(candidate) || spent + candidate.cost > annualBudget) return;
+            spent += candidate.cost;
+            funded.add(candidate);
+            candidate.coveredDefects.forEach(d => covered.add(d));
+            scheduled.push({ ...candidate, year, rank: scheduled.length + 1, cumulativeCost: spent });
+        });
+        spentByYear.push(spent);
+    }
+
+    return {
+        annualBudget,
+        years,
+        scheduled,
+        deferred: ranked.filter(c => !funded.has(c) && !conflicts(c)),
+        spentByYear,
+        totalBenefit: scheduled.reduce((sum, repair) => sum + repair.benefit, 0),
+    };
+}
@@ -0,0 +1,234 @@
+import type { AnalysisOptions, AnalysisResult, AreaHealthAssessment, BoundingBox, Defect, Point } from '../types';
+import { DEFECT_TYPES } from '../constants';
+
+const SEVERITIES: NonNullable<Defect['severity']>[] = ['Low', 'Medium', 'High'];
+
+// Keywords for type strings that are not an exact defect type, checked in order.
+const TYPE_KEYWORDS: [string, Defect['type']][] = [
+    ['pothole', 'Pothole'],
+    ['alligator', 'Alligator Crack'],
+    ['fatigue', 'Alligator Crack'],
+    ['longitudinal', 'Longitudinal Crack'],
+    ['transverse', 'Transverse Crack'],
+    ['block', 'Block Crack'],
+    ['rut', 'Rutting'],
+    ['rough', 'Roughness'],
+    ['distress', 'Distress'],
+];
+
+// Boxes and confidences reaching past this are read as percentages; slight overshoots of 1 are only clamped.
+const PERCENT_THRESHOLD = 2;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isPoint = (value: unknown): value is Point => isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Maps a model's type string onto a defect type, or null when it names none. */
+export function normalizeDefectType(value: unknown): Defect['type'] | null {
+    if (typeof value !== 'string') return null;
+    const key = value.trim().toLowerCase().replace(/[_-]+/g, ' ');
+    const exact = DEFECT_TYPES.find(t => t.toLowerCase() === key);
+    if (exact) return exact;
+    return TYPE_KEYWORDS.find(([keyword]) => key.includes(keyword))?.[1] ?? null;
+}
+
+/**
+ * Brings a bounding box into normalized image coordinates: percentages (a coordinate above
+ * `PERCENT_THRESHOLD`, none above 100) are scaled down, swapped min/max corners are
+ * put back in order and everything is clamped to 0–1. Returns null when no usable box remains.
+ */
+const repairBoundingBox = (raw: unknown, warn: (message: string) => void): BoundingBox | null => {
+    if (!isRecord(raw)) return null;
+    const { x_min, y_min, x_max, y_max } = raw;
+    if (!isFiniteNumber(x_min) || !isFiniteNumber(y_min) || !isFiniteNumber(x_max) || !isFiniteNumber(y_max)) return null;
+
+    const coords = [x_min, y_min, x_max, y_max];
+    let [x1, y1, x2, y2] = coords;
+    if (Math.max(...coords) > PERCENT_THRESHOLD && coords.every(c => c >= 0 && c <= 100)) {
+        [x1, y1, x2, y2] = [x1 / 100, y1 / 100, x2 / 100, y2 / 100];
+        warn('bounding box given in percent, rescaled to 0–1');
+    }
+    if (x1 > x2 || y1 > y2) warn('bounding box corners were inverted');
+    const box = {
+        x_min: clamp01(Math.min(x1, x2)),
+        y_min: clamp01(Math.min(y1, y2)),
+        x_max: clamp01(Math.max(x1, x2)),
+        y_max: clamp01(Math.max(y1, y2)),
+    };
+    if (box.x_min !== Math.min(x1, x2) || box.y_min !== Math.min(y1, y2) || box.x_max !== Math.max(x1, x2) || box.y_max !== Math.max(y1, y2)) {
+        warn('bounding box extended outside the image and was clamped');
+    }
+    return box.x_max > box.x_min && box.y_max > box.y_min ? box : null;
+};
+
+/** Keeps the finite points of a polygon or path, clamped to the image; null when too few remain. */
+const repairPoints = (raw: unknown, minPoints: number, name: string, warn: (message: string) => void): Point[] | undefined => {
+    if (raw === undefined || raw === null) return undefined;
+    if (!Array.isArray(raw)) {
+        warn(`${name} was not a point list and was removed`);
+        return undefined;
+    }
+    const points = raw.filter(isPoint);
+    if (points.length < raw.length) warn(`${raw.length - points.length} invalid ${name} point(s) removed`);
+    if (points.length < minPoints) {
+        if (raw.length > 0) warn(`${name} had fewer than ${minPoints} valid points and was removed`);
+        return undefined;
+    }
+    if (points.some(p => p.x < 0 || p.x > 1 || p.y < 0 || p.y > 1)) warn(`${name} points outside the image were clamped`);
+    return points.map(p => ({ x: clamp01(p.x), y: clamp01(p.y) }));
+};
+
+/** A non-negative finite measurement, or undefined (with a warning) for anything else. */
+const repairMeasurement = (raw: unknown, name: string, warn: (message: string) => void): number | undefined => {
+    if (raw === undefined || raw === null) return undefined;
+    if (isFiniteNumber(raw) && raw >= 0) return raw;
+    warn(`invalid ${name} (${String(raw)}) removed`);
+    return undefined;
+};
+
+/**
+ * Checks one model detection against the `Defect` shape, repairing what can be repaired.
+ * Returns null when the detection must be dropped: an unknown type or no usable bounding box.
+ */
+const repairDefect = (raw: unknown, label: string, warnings: string[]): Defect | null => {
+    const warn = (message: string) => warnings.push(`${label}: ${message}.`);
+    if (!isRecord(raw)) {
+        warn('not an object, dropped');
+        return null;
+    }
+
+    const type = normalizeDefectType(raw.type);
+    if (!type) {
+        warn(`unknown type "${String(raw.type)}", dropped`);
+        return null;
+    }
+    if (type !== raw.type) warn(`type "${raw.type}" read as ${type}`);
+
+    const boundingBox = repairBoundingBox(raw.boundingBox, warn);
+    if (!boundingBox) {
+        warn('missing or empty bounding box, dropped');
+        return null;
+    }
+
+    const defect: Defect = {
+        type,
+        boundingBox,
+        description: typeof raw.description === 'string' ? raw.description : '',
+    };
+
+    if (raw.severity !== undefined && raw.severity !== null) {
+        const severityText = typeof raw.severity === 'string' ? raw.severity.trim().toLowerCase() : null;
+        const severity = SEVERITIES.find(s => s.toLowerCase() === severityText);
+        if (severity) defect.severity = severity;
+        else warn(`unknown severity "${String(raw.severity)}" removed`);
+    }
+
+    const confidence = raw.confidence;
+    if (confidence !== undefined && confidence !== null) {
+        if (!isFiniteNumber(confidence) || confidence < 0 || confidence > 100) {
+            warn(`invalid confidence (${String(confidence)}) removed`);
+        } else if (confidence > PERCENT_THRESHOLD) {
+            defect.confidence = confidence / 100;
+            warn('confidence given in percent, rescaled to 0–1');
+        } else if (confidence > 1) {
+            defect.confidence = 1;
+            warn(`confidence ${confidence} was above 1 and was clamped`);
+        } else {
+            defect.confidence = confidence;
+        }
+    }
+
+    if (raw.dimensions !== undefined && raw.dimensions !== null) {
+        const { length_m, width_m, depth_m } = isRecord(raw.dimensions) ? raw.dimensions : {} as Record<string, unknown>;
+        if (isFiniteNumber(length_m) && isFiniteNumber(width_m) && length_m >= 0 && width_m >= 0) {
+            defect.dimensions = { length_m, width_m };
+            const depth = repairMeasurement(depth_m, 'depth_m', warn);
+            if (depth !== undefined) defect.dimensions.depth_m = depth;
+        } else {
+            warn(`invalid dimensions (${String(length_m)} × ${String(width_m)} m) removed`);
+        }
+    }
+
+    const area = repairMeasurement(raw.area_sq_m, 'area_sq_m', warn);
+    if (area !== undefined) defect.area_sq_m = area;
+    const volume = repairMeasurement(raw.volume_m3, 'volume_m3', warn);
+    if (volume !== undefined) defect.volume_m3 = volume;
+    const perimeter = repairMeasurement(raw.perimeter_m, 'perimeter_m', warn);
+    if (perimeter !== undefined) defect.perimeter_m = perimeter;
+    const circularity = repairMeasurement(raw.circularity, 'circularity', warn);
+    if (circularity !== undefined) defect.circularity = Math.min(1, circularity);
+
+    const polygon = repairPoints(raw.segmentationPolygon, 3, 'segmentation polygon', warn);
+    if (polygon) defect.segmentationPolygon = polygon;
+    const path = repairPoints(raw.centerlinePath, 2, 'centerline path', warn);
+    if (path) defect.centerlinePath = path;
+
+    const instanceId = raw.instanceId;
+    if (instanceId !== undefined && instanceId !== null) {
+        if (isFiniteNumber(instanceId)) defect.instanceId = instanceId;
+        else warn(`invalid instanceId (${String(instanceId)}) removed`);
+    }
+
+    return defect;
+};
+
+const stringList = (value: unknown): string[] => Array.isArray(value) ? value.filter((s): s is string => typeof s === 'string') : [];
+
+/**
+ * Validates a backend response before it reaches the overlay, session or exports. Each
+ * detection is checked against the `Defect` shape: recoverable problems are repaired,
+ * unusable detections are dropped, and either case is listed in the result's `warnings`.
+ * Throws when the response as a whole is unusable.
+ */
+export function validateAnalysisResponse(raw: unknown, options: AnalysisOptions): AnalysisResult | AreaHealthAssessment {
+    const items = isRecord(raw) ? raw.defects : undefined;
+    if (!isRecord(raw) || !Array.isArray(items)) {
+        throw new Error("Invalid response format from the detection model. 'defects' array not found.");
+    }
+
+    const warnings: string[] = [];
+    const defects = items
+        .map((d: unknown, index) => repairDefect(d, `Defect ${index + 1}${isRecord(d) && typeof d.type === 'string' ? ` (${d.type})` : ''}`, warnings))
+        .filter((d): d is Defect => d !== null);
+
+    const result: AnalysisResult = { defects };
+    const { promptVersion, schemaVersion, modelVersion, pothole_count, pciScore, summary } = raw;
+    if (typeof promptVersion === 'string') result.promptVersion = promptVersion;
+    if (isFiniteNumber(schemaVersion)) result.schemaVersion = schemaVersion;
+    if (typeof modelVersion === 'string') result.modelVersion = modelVersion;
+
+    if (options.isInstanceSegmentation) {
+        const potholes = defects.filter(d => d.type === 'Pothole').length;
+        if (isFiniteNumber(pothole_count) && pothole_count >= 0) {
+            result.pothole_count = pothole_count;
+        } else {
+            result.pothole_count = potholes;
+            warnings.push(`pothole_count was missing or invalid; counted ${potholes} from the detections.`);
+        }
+        const density = repairMeasurement(raw.pothole_density_sq_m, 'pothole_density_sq_m', message => warnings.push(`Result: ${message}.`));
+        if (density !== undefined) result.pothole_density_sq_m = density;
+    }
+
+    if (options.isHealthAnalysis) {
+        if (!isFiniteNumber(pciScore) || typeof summary !== 'string' || !summary) {
+            throw new Error("Invalid response format for Health Assessment.");
+        }
+        if (pciScore < 0 || pciScore > 100) warnings.push(`pciScore ${pciScore} was outside 0–100 and was clamped.`);
+        const assessment: AreaHealthAssessment = {
+            ...result,
+            pciScore: Math.min(100, Math.max(0, pciScore)),
+            summary,
+            potentialCauses: stringList(raw.potentialCauses),
+            recommendations: stringList(raw.recommendations),
+        };
+        if (warnings.length > 0) assessment.warnings = warnings;
+        return assessment;
+    }
+
+    if (warnings.length > 0) result.warnings = warnings;
+    return result;
+}
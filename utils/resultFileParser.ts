@@ -0,0 +1,105 @@
+import type { Defect, Point } from '../types';
+import { DEFECT_TYPES } from '../constants';
+
+const SEVERITIES: NonNullable<Defect['severity']>[] = ['Low', 'Medium', 'High'];
+
+// The parts of a GeoJSON feature written by `buildDefectsGeoJSON` that are read back.
+interface ResultFeature {
+    properties: Record<string, unknown>;
+    geometry?: unknown;
+}
+
+interface PointGeometry {
+    type: 'Point';
+    coordinates: number[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const readNumber = (value: unknown): number | undefined => {
+    const n = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof n === 'number' && isFinite(n) ? n : undefined;
+};
+
+const isDefectType = (value: unknown): value is Defect['type'] => DEFECT_TYPES.includes(value as Defect['type']);
+
+const isSeverity = (value: unknown): value is NonNullable<Defect['severity']> => SEVERITIES.includes(value as NonNullable<Defect['severity']>);
+
+const isPoint = (value: unknown): value is Point => isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isFeature = (value: unknown): value is ResultFeature => isRecord(value) && isRecord(value.properties);
+
+const isPointGeometry = (value: unknown): value is PointGeometry =>
+    isRecord(value) && value.type === 'Point' && Array.isArray(value.coordinates) &&
+    isFiniteNumber(value.coordinates[0]) && isFiniteNumber(value.coordinates[1]);
+
+// A defect as the app writes it to JSON: only the type and bounding box are required.
+const isDefect = (value: unknown): value is Defect => isRecord(value) && isDefectType(value.type) && isRecord(value.boundingBox);
+
+const readJsonPoints = (value: unknown): Point[] | undefined => {
+    if (typeof value !== 'string') return undefined;
+    try {
+        const parsed: unknown = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.filter(isPoint) : undefined;
+    } catch (e) {
+        return undefined;
+    }
+};
+
+/** Rebuilds a defect from the properties written by `buildDefectsGeoJSON`. */
+const featureToDefect = (feature: unknown): Defect | null => {
+    if (!isFeature(feature)) return null;
+    const { properties: props, geometry } = feature;
+    const { type, severity } = props;
+    if (!isDefectType(type)) return null;
+    const length_m = readNumber(props.length_m);
+    const width_m = readNumber(props.width_m);
+    return {
+        type,
+        description: typeof props.description === 'string' ? props.description : '',
+        severity: isSeverity(severity) ? severity : undefined,
+        confidence: readNumber(props.confidence),
+        boundingBox: {
+            x_min: readNumber(props.bbox_x_min) ?? 0,
+            y_min: readNumber(props.bbox_y_min) ?? 0,
+            x_max: readNumber(props.bbox_x_max) ?? 0,
+            y_max: readNumber(props.bbox_y_max) ?? 0,
+        },
+        dimensions: length_m !== undefined && width_m !== undefined ? { length_m, width_m, depth_m: readNumber(props.depth_m) } : undefined,
+        area_sq_m: readNumber(props.area_sq_m),
+        volume_m3: readNumber(props.volume_m3),
+        segmentationPolygon: readJsonPoints(props.segmentation_polygon),
+        location: isPointGeometry(geometry)
+            ? { longitude: geometry.coordinates[0], latitude: geometry.coordinates[1], heading: readNumber(props.heading_deg) }
+            : undefined,
+        capturedAt: typeof props.captured_at === 'string' ? props.captured_at : undefined,
+    };
+};
+
+/**
+ * Reads the defects of an earlier inspection run from a file this app exported: a GeoJSON
+ * export, or JSON holding a defect array or an analysis result with a `defects` array.
+ */
+export function parseResultFile(text: string): Defect[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error("Failed to parse the results file. Please select a GeoJSON or JSON export.");
+    }
+
+    let defects: Defect[];
+    if (isRecord(data) && data.type === 'FeatureCollection' && Array.isArray(data.features)) {
+        defects = data.features.map(featureToDefect).filter((d): d is Defect => d !== null);
+    } else {
+        const items: unknown[] = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.defects) ? data.defects : [];
+        defects = items.filter(isDefect);
+    }
+
+    if (defects.length === 0) {
+        throw new Error("No defects were found in the results file.");
+    }
+    return defects;
+}
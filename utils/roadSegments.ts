@@ -0,0 +1,257 @@
+import type { Defect, Location, RoadCenterline, RoadNetwork, RoadSegmentSummary, SnappedPosition } from '../types';
+import { distanceInMeters } from './locationUtils';
+import { calculatePci } from './pciCalculator';
+
+export const DEFAULT_SEGMENT_LENGTH_M = 100;
+// Defects further than this from every centreline are reported as unmatched.
+export const DEFAULT_MAX_SNAP_DISTANCE_M = 30;
+// Two-lane carriageway width used when the network does not specify one.
+export const DEFAULT_ROAD_WIDTH_M = 7.3;
+
+const METERS_PER_DEGREE_LAT = 110574;
+const METERS_PER_DEGREE_LON_AT_EQUATOR = 111320;
+
+// The parts of a GeoJSON feature that are read; everything else is ignored.
+interface NetworkFeature {
+    id?: unknown;
+    geometry?: unknown;
+    properties?: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const readNumber = (value: unknown): number | undefined => {
+    const n = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof n === 'number' && isFinite(n) ? n : undefined;
+};
+
+const isPosition = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.length >= 2 && isFiniteNumber(value[0]) && isFiniteNumber(value[1]);
+
+const toLocations = (coordinates: unknown): Location[] => {
+    if (!Array.isArray(coordinates)) return [];
+    return coordinates
+        .filter(isPosition)
+        .map(([longitude, latitude]) => ({ latitude, longitude }));
+};
+
+const readFeatures = (data: unknown): NetworkFeature[] => {
+    if (!isRecord(data)) return [];
+    if (data.type === 'Feature') return [data];
+    if (data.type === 'FeatureCollection' && Array.isArray(data.features)) return data.features.filter(isRecord);
+    return [];
+};
+
+const lineParts = (geometry: unknown): Location[][] => {
+    if (!isRecord(geometry)) return [];
+    if (geometry.type === 'LineString') return [toLocations(geometry.coordinates)];
+    if (geometry.type === 'MultiLineString' && Array.isArray(geometry.coordinates)) return geometry.coordinates.map(toLocations);
+    return [];
+};
+
+const lineLength = (coordinates: Location[]) => {
+    let length = 0;
+    for (let i = 1; i < coordinates.length; i++) {
+        length += distanceInMeters(coordinates[i - 1], coordinates[i]);
+    }
+    return length;
+};
+
+/**
+ * Parses a GeoJSON FeatureCollection of LineString / MultiLineString centrelines.
+ * Recognised properties: `id`/`road_id`, `name`/`road_name`, a start chainage as
+ * `start_chainage_m`/`chainage` (meters) or `start_km` (kilometers), `width_m`, and a
+ * planning weight as `traffic_weight` or derived from `aadt` (1 at 1,000 vehicles/day,
+ * +1 per tenfold increase, never below 0.5).
+ * MultiLineString parts become consecutive pieces of the same road.
+ */
+export function parseRoadNetwork(geojsonText: string, name = 'Road network'): RoadNetwork {
+    let data: unknown;
+    try {
+        data = JSON.parse(geojsonText);
+    } catch (e) {
+        throw new Error("Failed to parse the road network. Please ensure it is a valid GeoJSON file.");
+    }
+    const features = readFeatures(data);
+    if (features.length === 0) {
+        throw new Error("The road network must be a GeoJSON FeatureCollection of LineString features.");
+    }
+
+    const roads: RoadCenterline[] = [];
+    features.forEach((feature, index) => {
+        const parts = lineParts(feature.geometry);
+        const props = isRecord(feature.properties) ? feature.properties : {};
+        const id = String(feature.id ?? props.id ?? props.road_id ?? `road-${index + 1}`);
+        const roadName = String(props.name ?? props.road_name ?? id);
+        const startKm = readNumber(props.start_km);
+        let chainage = readNumber(props.start_chainage_m) ?? readNumber(props.chainage) ?? (startKm !== undefined ? startKm * 1000 : 0);
+        const widthM = readNumber(props.width_m);
+        const aadt = readNumber(props.aadt);
+        const trafficWeight = readNumber(props.traffic_weight) ?? (aadt !== undefined && aadt > 0 ? Math.max(0.5, Math.log10(aadt) - 2) : undefined);
+
+        parts.filter(part => part.length >= 2).forEach((coordinates, partIndex) => {
+            const lengthM = lineLength(coordinates);
+            roads.push({
+                id: parts.length > 1 ? `${id}#${partIndex + 1}` : id,
+                name: roadName,
+                coordinates,
+                startChainageM: chainage,
+                lengthM,
+                widthM,
+                trafficWeight,
+            });
+            chainage += lengthM;
+        });
+    });
+
+    if (roads.length === 0) {
+        throw new Error("No LineString centrelines with at least two points were found in the road network.");
+    }
+    return { name, roads };
+}
+
+/**
+ * Projects `location` onto one centreline using a local equirectangular approximation,
+ * which is accurate to well under a meter over the distances involved in snapping.
+ */
+const projectOntoRoad = (location: Location, road: RoadCenterline): { chainageM: number; offsetM: number } => {
+    const metersPerDegreeLon = METERS_PER_DEGREE_LON_AT_EQUATOR * Math.cos((location.latitude * Math.PI) / 180);
+    const toXY = (p: Location) => ({
+        x: (p.longitude - location.longitude) * metersPerDegreeLon,
+        y: (p.latitude - location.latitude) * METERS_PER_DEGREE_LAT,
+    });
+
+    let best = { chainageM: road.startChainageM, offsetM: Infinity };
+    let distanceAlong = 0;
+    for (let i = 1; i < road.coordinates.length; i++) {
+        const a = toXY(road.coordinates[i - 1]);
+        const b = toXY(road.coordinates[i]);
+        const segmentLength = distanceInMeters(road.coordinates[i - 1], road.coordinates[i]);
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lengthSq = dx * dx + dy * dy;
+        // The point is the origin, so project (0,0) onto segment a→b.
+        const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq)) : 0;
+        const offset = Math.hypot(a.x + t * dx, a.y + t * dy);
+        if (offset < best.offsetM) {
+            best = { chainageM: road.startChainageM + distanceAlong + t * segmentLength, offsetM: offset };
+        }
+        distanceAlong += segmentLength;
+    }
+    return best;
+};
+
+/**
+ * Snaps a location to the nearest centreline in the network.
+ * @returns The road and chainage, or null when no road is within `maxDistanceM`.
+ */
+export function snapToNetwork(location: Location, network: RoadNetwork, maxDistanceM = DEFAULT_MAX_SNAP_DISTANCE_M): SnappedPosition | null {
+    let best: SnappedPosition | null = null;
+    network.roads.forEach(road => {
+        const { chainageM, offsetM } = projectOntoRoad(location, road);
+        if (offsetM <= maxDistanceM && (!best || offsetM < best.offsetM)) {
+            best = { roadId: road.id, roadName: road.name, chainageM, offsetM };
+        }
+    });
+    return best;
+}
+
+/**
+ * Formats a chainage range the way road reports do, e.g. "km 2.3–2.4".
+ */
+export const formatChainageRange = (startM: number, endM: number): string => {
+    const decimals = startM % 100 === 0 && endM % 100 === 0 ? 1 : 3;
+    return `km ${(startM / 1000).toFixed(decimals)}–${(endM / 1000).toFixed(decimals)}`;
+};
+
+export const formatChainage = (chainageM: number): string => `km ${(chainageM / 1000).toFixed(3)}`;
+
+/** A defect's surface area: `area_sq_m`, else length × width, else 0. */
+export const defectArea = (defect: Defect): number => {
+    if (typeof defect.area_sq_m === 'number') return defect.area_sq_m;
+    if (defect.dimensions) return defect.dimensions.length_m * defect.dimensions.width_m;
+    return 0;
+};
+
+interface SegmentOptions {
+    segmentLengthM?: number;
+    maxSnapDistanceM?: number;
+}
+
+export interface SegmentAggregation {
+    segments: RoadSegmentSummary[];
+    snapped: { defect: Defect; position: SnappedPosition }[];
+    unmatched: Defect[];
+}
+
+/**
+ * The snapped defects that `aggregateBySegment` counted in `segment`, using the same binning.
+ */
+export function defectsInSegment(aggregation: SegmentAggregation, segment: RoadSegmentSummary, segmentLengthM = DEFAULT_SEGMENT_LENGTH_M): Defect[] {
+    // A segment's start chainage always falls in its own bin.
+    const bin = Math.floor(segment.startChainageM / segmentLengthM);
+    return aggregation.snapped
+        .filter(({ position }) => position.roadId === segment.roadId && Math.floor(position.chainageM / segmentLengthM) === bin)
+        .map(({ defect }) => defect);
+}
+
+/**
+ * Snaps every located defect to the network and aggregates them into fixed-length
+ * segments aligned to multiples of `segmentLengthM` along each road's chainage. Every
+ * segment of a road that has at least one defect is listed, so clean stretches show up
+ * with a PCI of 100. Each segment is rated as one PCI sample unit (length × road width).
+ */
+export function aggregateBySegment(defects: Defect[], network: RoadNetwork, options: SegmentOptions = {}): SegmentAggregation {
+    const segmentLengthM = options.segmentLengthM ?? DEFAULT_SEGMENT_LENGTH_M;
+    const maxSnapDistanceM = options.maxSnapDistanceM ?? DEFAULT_MAX_SNAP_DISTANCE_M;
+    const roadsById = new Map(network.roads.map(road => [road.id, road]));
+
+    const snapped: SegmentAggregation['snapped'] = [];
+    const unmatched: Defect[] = [];
+    defects.forEach(defect => {
+        const position = defect.location ? snapToNetwork(defect.location, network, maxSnapDistanceM) : null;
+        if (position) snapped.push({ defect, position });
+        else unmatched.push(defect);
+    });
+
+    const byRoad = new Map<string, Map<number, Defect[]>>();
+    snapped.forEach(({ defect, position }) => {
+        const bins = byRoad.get(position.roadId) || new Map<number, Defect[]>();
+        const bin = Math.floor(position.chainageM / segmentLengthM);
+        bins.set(bin, [...(bins.get(bin) || []), defect]);
+        byRoad.set(position.roadId, bins);
+    });
+
+    const segments: RoadSegmentSummary[] = [];
+    byRoad.forEach((bins, roadId) => {
+        const road = roadsById.get(roadId)!;
+        const roadEnd = road.startChainageM + road.lengthM;
+        const firstBin = Math.floor(road.startChainageM / segmentLengthM);
+        const lastBin = Math.max(firstBin, Math.ceil(roadEnd / segmentLengthM) - 1);
+        for (let bin = firstBin; bin <= lastBin; bin++) {
+            const start = Math.max(road.startChainageM, bin * segmentLengthM);
+            const end = Math.min(roadEnd, (bin + 1) * segmentLengthM);
+            const binDefects = bins.get(bin) || [];
+            const typeCounts: RoadSegmentSummary['typeCounts'] = {};
+            binDefects.forEach(d => { typeCounts[d.type] = (typeCounts[d.type] || 0) + 1; });
+            const sampleArea = Math.max(1, (end - start) * (road.widthM ?? DEFAULT_ROAD_WIDTH_M));
+            const pci = calculatePci(binDefects, sampleArea);
+            segments.push({
+                roadId,
+                roadName: road.name,
+                startChainageM: start,
+                endChainageM: end,
+                defectCount: binDefects.length,
+                areaSqM: binDefects.reduce((sum, d) => sum + defectArea(d), 0),
+                typeCounts,
+                pci: Math.round(pci.pci),
+                pciRating: pci.rating,
+            });
+        }
+    });
+
+    segments.sort((a, b) => a.roadName.localeCompare(b.roadName) || a.startChainageM - b.startChainageM);
+    return { segments, snapped, unmatched };
+}
@@ -0,0 +1,171 @@
+import type { GisFeature, GisField, GisLayer } from '../types';
+
+const SHAPE_TYPE = { Point: 1, Polygon: 5 } as const;
+const MAX_DBF_TEXT_LENGTH = 254;
+
+export const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const encoder = new TextEncoder();
+
+type Bounds = [number, number, number, number];
+
+const featureCoordinates = (feature: GisFeature): [number, number][] =>
+    feature.geometry.type === 'Point' ? [feature.geometry.coordinates] : feature.geometry.rings.flat();
+
+const boundsOf = (points: [number, number][]): Bounds => points.reduce<Bounds>(
+    ([minX, minY, maxX, maxY], [x, y]) => [Math.min(minX, x), Math.min(minY, y), Math.max(maxX, x), Math.max(maxY, y)],
+    [Infinity, Infinity, -Infinity, -Infinity]
+);
+
+/** Signed area via the shoelace formula; negative means clockwise in x-right / y-up space. */
+const signedArea = (ring: [number, number][]) => {
+    let area = 0;
+    for (let i = 0; i < ring.length; i++) {
+        const [x1, y1] = ring[i];
+        const [x2, y2] = ring[(i + 1) % ring.length];
+        area += x1 * y2 - x2 * y1;
+    }
+    return area / 2;
+};
+
+/** Shapefile rings are closed, with outer rings clockwise and holes counter-clockwise. */
+const normalizeRing = (ring: [number, number][], isOuter: boolean): [number, number][] => {
+    const closed = ring.length > 0 && (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1]) ? [...ring, ring[0]] : [...ring];
+    const isClockwise = signedArea(closed) < 0;
+    return isClockwise === isOuter ? closed : closed.reverse();
+};
+
+const shapeContent = (feature: GisFeature): ArrayBuffer => {
+    if (feature.geometry.type === 'Point') {
+        const view = new DataView(new ArrayBuffer(20));
+        view.setInt32(0, SHAPE_TYPE.Point, true);
+        view.setFloat64(4, feature.geometry.coordinates[0], true);
+        view.setFloat64(12, feature.geometry.coordinates[1], true);
+        return view.buffer;
+    }
+    const rings = feature.geometry.rings.map((ring, i) => normalizeRing(ring, i === 0));
+    const points = rings.flat();
+    const view = new DataView(new ArrayBuffer(44 + rings.length * 4 + points.length * 16));
+    view.setInt32(0, SHAPE_TYPE.Polygon, true);
+    boundsOf(points).forEach((value, i) => view.setFloat64(4 + i * 8, value, true));
+    view.setInt32(36, rings.length, true);
+    view.setInt32(40, points.length, true);
+    let partStart = 0;
+    rings.forEach((ring, i) => {
+        view.setInt32(44 + i * 4, partStart, true);
+        partStart += ring.length;
+    });
+    const pointsOffset = 44 + rings.length * 4;
+    points.forEach(([x, y], i) => {
+        view.setFloat64(pointsOffset + i * 16, x, true);
+        view.setFloat64(pointsOffset + i * 16 + 8, y, true);
+    });
+    return view.buffer;
+};
+
+const writeMainHeader = (view: DataView, fileLengthBytes: number, shapeType: number, bounds: Bounds) => {
+    view.setInt32(0, 9994);
+    view.setInt32(24, fileLengthBytes / 2);
+    view.setInt32(28, 1000, true);
+    view.setInt32(32, shapeType, true);
+    bounds.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+};
+
+/** Truncates UTF-8 text to a byte budget without splitting a multi-byte character. */
+const encodeText = (value: string, maxBytes: number): Uint8Array => {
+    let bytes = encoder.encode(value);
+    if (bytes.length <= maxBytes) return bytes;
+    let end = maxBytes;
+    while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+    bytes = bytes.subarray(0, end);
+    return bytes;
+};
+
+const dbfFieldLength = (field: GisField, features: GisFeature[], index: number): number => {
+    if (field.type === 'integer') return 18;
+    if (field.type === 'real') return 19;
+    const longest = features.reduce((max, f) => Math.max(max, encoder.encode(String(f.attributes[index] ?? '')).length), 1);
+    return Math.min(MAX_DBF_TEXT_LENGTH, longest);
+};
+
+const writeDbf = (fields: GisField[], features: GisFeature[]): Uint8Array => {
+    const lengths = fields.map((field, i) => dbfFieldLength(field, features, i));
+    const headerLength = 32 + fields.length * 32 + 1;
+    const recordLength = 1 + lengths.reduce((sum, length) => sum + length, 0);
+    const file = new Uint8Array(headerLength + features.length * recordLength + 1);
+    const view = new DataView(file.buffer);
+
+    const now = new Date();
+    file[0] = 0x03;
+    file[1] = now.getFullYear() - 1900;
+    file[2] = now.getMonth() + 1;
+    file[3] = now.getDate();
+    view.setUint32(4, features.length, true);
+    view.setUint16(8, headerLength, true);
+    view.setUint16(10, recordLength, true);
+    file[29] = 0x00; // no code page mark; the .cpg file declares UTF-8
+
+    fields.forEach((field, i) => {
+        const offset = 32 + i * 32;
+        file.set(encodeText(field.name.slice(0, 10), 10), offset);
+        file[offset + 11] = (field.type === 'text' ? 'C' : 'N').charCodeAt(0);
+        file[offset + 16] = lengths[i];
+        file[offset + 17] = field.type === 'real' ? (field.decimals ?? 6) : 0;
+    });
+    file[headerLength - 1] = 0x0d;
+
+    features.forEach((feature, row) => {
+        let offset = headerLength + row * recordLength;
+        file[offset++] = 0x20; // not deleted
+        fields.forEach((field, i) => {
+            const value = feature.attributes[i];
+            const length = lengths[i];
+            file.fill(0x20, offset, offset + length);
+            if (value !== undefined && value !== '') {
+                if (field.type === 'text') {
+                    file.set(encodeText(String(value), length), offset);
+                } else {
+                    const n = Number(value);
+                    const text = field.type === 'integer' ? Math.round(n).toString() : n.toFixed(field.decimals ?? 6);
+                    if (isFinite(n) && text.length <= length) file.set(encoder.encode(text), offset + length - text.length);
+                }
+            }
+            offset += length;
+        });
+    });
+    file[file.length - 1] = 0x1a;
+    return file;
+};
+
+/**
+ * Writes a single-geometry-type layer as the files of an ESRI Shapefile (.shp, .shx,
+ * .dbf, .prj and .cpg), keyed by file extension. Field names are cut to the 10-character
+ * dBase limit and text values to 254 bytes.
+ */
+export function writeShapefile(layer: GisLayer): Record<'shp' | 'shx' | 'dbf' | 'prj' | 'cpg', Uint8Array | string> {
+    const shapeType = SHAPE_TYPE[layer.geometryType];
+    const contents = layer.features.map(shapeContent);
+    const allPoints = layer.features.flatMap(featureCoordinates);
+    const bounds: Bounds = allPoints.length > 0 ? boundsOf(allPoints) : [0, 0, 0, 0];
+
+    const shpLength = 100 + contents.reduce((sum, content) => sum + 8 + content.byteLength, 0);
+    const shp = new Uint8Array(shpLength);
+    const shpView = new DataView(shp.buffer);
+    const shxLength = 100 + contents.length * 8;
+    const shx = new Uint8Array(shxLength);
+    const shxView = new DataView(shx.buffer);
+    writeMainHeader(shpView, shpLength, shapeType, bounds);
+    writeMainHeader(shxView, shxLength, shapeType, bounds);
+
+    let offset = 100;
+    contents.forEach((content, i) => {
+        shpView.setInt32(offset, i + 1);
+        shpView.setInt32(offset + 4, content.byteLength / 2);
+        shp.set(new Uint8Array(content), offset + 8);
+        shxView.setInt32(100 + i * 8, offset / 2);
+        shxView.setInt32(100 + i * 8 + 4, content.byteLength / 2);
+        offset += 8 + content.byteLength;
+    });
+
+    return { shp, shx, dbf: writeDbf(layer.fields, layer.features), prj: WGS84_PRJ, cpg: 'UTF-8' };
+}
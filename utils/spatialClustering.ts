@@ -0,0 +1,96 @@
+import type { Defect, Location, MergedDefect, VideoDefect } from '../types';
+import { distanceInMeters } from './locationUtils';
+import { calculateIou } from './validationUtils';
+
+export const DEFAULT_MERGE_RADIUS_M = 10;
+
+const SEVERITY_RANK: Record<NonNullable<Defect['severity']>, number> = { Low: 1, Medium: 2, High: 3 };
+
+interface Cluster {
+    type: Defect['type'];
+    centroid: Location;
+    members: Defect[];
+}
+
+/**
+ * Identifies the photo or video frame a defect was detected in. Defects from one capture
+ * share its GPS fix, so their distance says nothing about whether they are the same defect.
+ */
+const captureKey = (defect: Defect): string => {
+    const { latitude, longitude } = defect.location!;
+    const { timestamp } = defect as Partial<VideoDefect>;
+    return `${latitude},${longitude},${defect.capturedAt ?? ''},${timestamp ?? ''}`;
+};
+
+/** True when the cluster holds detections from the same capture, none of which overlaps the defect. */
+const isSeparateInSameCapture = (cluster: Cluster, defect: Defect, key: string): boolean => {
+    const sameCapture = cluster.members.filter(member => captureKey(member) === key);
+    return sameCapture.length > 0 && sameCapture.every(member => calculateIou(member.boundingBox, defect.boundingBox) === 0);
+};
+
+const worstSeverity = (defects: Defect[]): Defect['severity'] => {
+    return defects.reduce<Defect['severity']>((worst, d) => {
+        if (!d.severity) return worst;
+        return !worst || SEVERITY_RANK[d.severity] > SEVERITY_RANK[worst] ? d.severity : worst;
+    }, undefined);
+};
+
+const toMergedDefect = (members: Defect[], centroid: Location | undefined, index: number): MergedDefect => {
+    // The most confident observation describes the asset; severity is the worst ever recorded.
+    const representative = members.reduce((best, d) => ((d.confidence ?? 0) > (best.confidence ?? 0) ? d : best), members[0]);
+    const times = members.map(d => d.capturedAt).filter((t): t is string => !!t).sort();
+    return {
+        ...representative,
+        location: centroid ?? representative.location,
+        severity: worstSeverity(members) ?? representative.severity,
+        assetId: `A${String(index + 1).padStart(4, '0')}`,
+        observations: members,
+        firstObservedAt: times[0],
+        lastObservedAt: times[times.length - 1],
+    };
+};
+
+/**
+ * Merges defects of the same type whose locations lie within `radiusM` of a cluster's
+ * running centroid into a single asset, so repeated passes over a street produce one
+ * pin per defect. Detections from the same photo or frame are only merged when their
+ * boxes overlap. Defects without a location cannot be matched and stay as their own asset.
+ */
+export function clusterDefects(defects: Defect[], radiusM: number = DEFAULT_MERGE_RADIUS_M): MergedDefect[] {
+    const clusters: Cluster[] = [];
+    const unlocated: Defect[] = [];
+
+    defects.forEach(defect => {
+        if (!defect.location) {
+            unlocated.push(defect);
+            return;
+        }
+        const key = captureKey(defect);
+        let nearest: Cluster | null = null;
+        let nearestDistance = Infinity;
+        clusters.forEach(cluster => {
+            if (cluster.type !== defect.type || isSeparateInSameCapture(cluster, defect, key)) return;
+            const distance = distanceInMeters(cluster.centroid, defect.location!);
+            if (distance <= radiusM && distance < nearestDistance) {
+                nearest = cluster;
+                nearestDistance = distance;
+            }
+        });
+
+        if (nearest) {
+            const cluster: Cluster = nearest;
+            const n = cluster.members.length;
+            cluster.members.push(defect);
+            cluster.centroid = {
+                latitude: (cluster.centroid.latitude * n + defect.location.latitude) / (n + 1),
+                longitude: (cluster.centroid.longitude * n + defect.location.longitude) / (n + 1),
+            };
+        } else {
+            clusters.push({ type: defect.type, centroid: { latitude: defect.location.latitude, longitude: defect.location.longitude }, members: [defect] });
+        }
+    });
+
+    const merged = clusters.map((cluster, index) => toMergedDefect(cluster.members, cluster.centroid, index));
+    unlocated.forEach(defect => merged.push(toMergedDefect([defect], undefined, merged.length)));
+    return merged;
+}
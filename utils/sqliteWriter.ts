@@ -0,0 +1,318 @@
+/**
+ * A minimal writer for SQLite 3 database files, just enough to produce GeoPackages in the
+ * browser: tables are written once, in full, as rowid b-trees (with overflow pages for
+ * large values) plus single-page indexes for the automatic primary key / unique indexes
+ * SQLite expects to find. There is no update, delete or free-list support.
+ */
+
+export type SqliteValue = null | number | string | Uint8Array;
+
+export interface SqliteIndex {
+    name: string;
+    columns: number[]; // Positions of the indexed columns within each row
+}
+
+export interface SqliteTable {
+    name: string;
+    sql: string; // CREATE TABLE statement stored in sqlite_schema
+    rows: SqliteValue[][];
+    // Position of an INTEGER PRIMARY KEY column; its value becomes the rowid and is stored as NULL.
+    rowidColumn?: number;
+    indexes?: SqliteIndex[];
+}
+
+export interface SqliteHeaderOptions {
+    applicationId?: number;
+    userVersion?: number;
+}
+
+const PAGE_SIZE = 4096;
+const USABLE_SIZE = PAGE_SIZE;
+const MAX_LOCAL_TABLE = USABLE_SIZE - 35;
+const MAX_LOCAL_INDEX = Math.floor(((USABLE_SIZE - 12) * 64) / 255) - 23;
+const MIN_LOCAL = Math.floor(((USABLE_SIZE - 12) * 32) / 255) - 23;
+
+const PAGE_TYPE = { interiorTable: 0x05, leafTable: 0x0d, leafIndex: 0x0a } as const;
+
+const encoder = new TextEncoder();
+
+const varint = (value: number): number[] => {
+    if (!Number.isSafeInteger(value)) throw new Error(`Unsupported SQLite varint value: ${value}`);
+    if (value < 0) {
+        // Negative values (e.g. rowid -1) use the full nine-byte form of the 64-bit two's complement.
+        let v = BigInt.asUintN(64, BigInt(value));
+        const bytes = [Number(v & 0xffn)];
+        v >>= 8n;
+        for (let i = 0; i < 8; i++) {
+            bytes.unshift(Number(v & 0x7fn) | 0x80);
+            v >>= 7n;
+        }
+        return bytes;
+    }
+    const bytes: number[] = [];
+    let v = value;
+    do {
+        bytes.unshift(v % 128);
+        v = Math.floor(v / 128);
+    } while (v > 0);
+    for (let i = 0; i < bytes.length - 1; i++) bytes[i] |= 0x80;
+    return bytes;
+};
+
+const integerBytes = (value: number): { serialType: number; bytes: number[] } => {
+    if (value === 0) return { serialType: 8, bytes: [] };
+    if (value === 1) return { serialType: 9, bytes: [] };
+    const sizes: [number, number][] = [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6], [6, 8]];
+    for (const [serialType, size] of sizes) {
+        const limit = 2 ** (size * 8 - 1);
+        if (value >= -limit && value < limit) {
+            // Two's complement; exact for every safe integer we store.
+            let v = value < 0 ? 2 ** (size * 8) + value : value;
+            const bytes: number[] = [];
+            for (let i = 0; i < size; i++) {
+                bytes.unshift(v % 256);
+                v = Math.floor(v / 256);
+            }
+            return { serialType, bytes };
+        }
+    }
+    throw new Error(`Integer out of range for SQLite: ${value}`);
+};
+
+/** Serializes one row in the SQLite record format. */
+const encodeRecord = (values: SqliteValue[]): Uint8Array => {
+    const types: number[] = [];
+    const body: number[] = [];
+    values.forEach(value => {
+        if (value === null || value === undefined) {
+            types.push(0);
+        } else if (typeof value === 'number') {
+            if (Number.isSafeInteger(value)) {
+                const { serialType, bytes } = integerBytes(value);
+                types.push(serialType);
+                body.push(...bytes);
+            } else {
+                const view = new DataView(new ArrayBuffer(8));
+                view.setFloat64(0, value);
+                types.push(7);
+                body.push(...new Uint8Array(view.buffer));
+            }
+        } else if (typeof value === 'string') {
+            const bytes = encoder.encode(value);
+            types.push(13 + bytes.length * 2);
+            for (let i = 0; i < bytes.length; i++) body.push(bytes[i]);
+        } else {
+            types.push(12 + value.length * 2);
+            for (let i = 0; i < value.length; i++) body.push(value[i]);
+        }
+    });
+
+    const typeBytes = types.flatMap(varint);
+    // The header size counts its own varint, which is one byte unless the header is large.
+    const headerSize = typeBytes.length < 127 ? typeBytes.length + 1 : typeBytes.length + varint(typeBytes.length + 2).length;
+    const record = new Uint8Array(headerSize + body.length);
+    record.set([...varint(headerSize), ...typeBytes], 0);
+    record.set(body, headerSize);
+    return record;
+};
+
+/** Compares two values the way SQLite orders index keys (NULL < numbers < text < blobs). */
+const compareValues = (a: SqliteValue, b: SqliteValue): number => {
+    const rank = (v: SqliteValue) => v === null ? 0 : typeof v === 'number' ? 1 : typeof v === 'string' ? 2 : 3;
+    if (rank(a) !== rank(b)) return rank(a) - rank(b);
+    if (a === null) return 0;
+    if (typeof a === 'number') return a - (b as number);
+    const x = typeof a === 'string' ? encoder.encode(a) : a;
+    const y = typeof b === 'string' ? encoder.encode(b as string) : b as Uint8Array;
+    for (let i = 0; i < Math.min(x.length, y.length); i++) {
+        if (x[i] !== y[i]) return x[i] - y[i];
+    }
+    return x.length - y.length;
+};
+
+class PageAllocator {
+    pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)]; // page 1 is the schema root
+
+    allocate(): number {
+        this.pages.push(new Uint8Array(PAGE_SIZE));
+        return this.pages.length;
+    }
+
+    get(pageNumber: number): Uint8Array {
+        return this.pages[pageNumber - 1];
+    }
+}
+
+/**
+ * Splits a payload into the part stored in the cell and a chain of overflow pages,
+ * following the SQLite file format's local payload rules.
+ */
+const storePayload = (alloc: PageAllocator, payload: Uint8Array, maxLocal: number): number[] => {
+    if (payload.length <= maxLocal) return Array.from(payload);
+    let local = MIN_LOCAL + ((payload.length - MIN_LOCAL) % (USABLE_SIZE - 4));
+    if (local > maxLocal) local = MIN_LOCAL;
+
+    const overflowPages: number[] = [];
+    for (let offset = local; offset < payload.length; offset += USABLE_SIZE - 4) overflowPages.push(alloc.allocate());
+    overflowPages.forEach((pageNumber, i) => {
+        const page = alloc.get(pageNumber);
+        new DataView(page.buffer).setUint32(0, overflowPages[i + 1] ?? 0);
+        const start = local + i * (USABLE_SIZE - 4);
+        page.set(payload.subarray(start, Math.min(payload.length, start + USABLE_SIZE - 4)), 4);
+    });
+
+    const cell = Array.from(payload.subarray(0, local));
+    const pointer = new Uint8Array(4);
+    new DataView(pointer.buffer).setUint32(0, overflowPages[0]);
+    return [...cell, ...pointer];
+};
+
+/** Writes cells into a b-tree page, returning false if they do not fit. */
+const writePage = (page: Uint8Array, headerOffset: number, type: number, cells: number[][], rightPointer?: number): boolean => {
+    const headerSize = type === PAGE_TYPE.interiorTable ? 12 : 8;
+    const pointersEnd = headerOffset + headerSize + cells.length * 2;
+    const contentSize = cells.reduce((sum, cell) => sum + cell.length, 0);
+    if (pointersEnd + contentSize > PAGE_SIZE) return false;
+
+    const view = new DataView(page.buffer);
+    let contentStart = PAGE_SIZE;
+    cells.forEach((cell, i) => {
+        contentStart -= cell.length;
+        page.set(cell, contentStart);
+        view.setUint16(headerOffset + headerSize + i * 2, contentStart);
+    });
+    page[headerOffset] = type;
+    view.setUint16(headerOffset + 1, 0);
+    view.setUint16(headerOffset + 3, cells.length);
+    view.setUint16(headerOffset + 5, contentStart);
+    page[headerOffset + 7] = 0;
+    if (rightPointer !== undefined) view.setUint32(headerOffset + 8, rightPointer);
+    return true;
+};
+
+const fitsInPage = (headerOffset: number, headerSize: number, cells: number[][]) =>
+    headerOffset + headerSize + cells.length * 2 + cells.reduce((sum, cell) => sum + cell.length, 0) <= PAGE_SIZE;
+
+/**
+ * Writes a rowid table as a b-tree and returns its root page number. Rows must be
+ * supplied in ascending rowid order.
+ */
+const writeTableTree = (alloc: PageAllocator, entries: { rowid: number; record: Uint8Array }[]): number => {
+    let level: { page: number; maxRowid: number }[] = [];
+    let pending: number[][] = [];
+    let pendingMax = 0;
+    const flushLeaf = () => {
+        const page = alloc.allocate();
+        writePage(alloc.get(page), 0, PAGE_TYPE.leafTable, pending);
+        level.push({ page, maxRowid: pendingMax });
+        pending = [];
+    };
+
+    entries.forEach(({ rowid, record }) => {
+        const cell = [...varint(record.length), ...varint(rowid), ...storePayload(alloc, record, MAX_LOCAL_TABLE)];
+        if (pending.length > 0 && !fitsInPage(0, 8, [...pending, cell])) flushLeaf();
+        pending.push(cell);
+        pendingMax = rowid;
+    });
+    if (pending.length > 0 || level.length === 0) flushLeaf();
+
+    while (level.length > 1) {
+        const parents: { page: number; maxRowid: number }[] = [];
+        let children: { page: number; maxRowid: number }[] = [];
+        const flushInterior = () => {
+            const right = children[children.length - 1];
+            const cells = children.slice(0, -1).map(child => {
+                const pointer = new Uint8Array(4);
+                new DataView(pointer.buffer).setUint32(0, child.page);
+                return [...pointer, ...varint(child.maxRowid)];
+            });
+            const page = alloc.allocate();
+            writePage(alloc.get(page), 0, PAGE_TYPE.interiorTable, cells, right.page);
+            parents.push({ page, maxRowid: right.maxRowid });
+            children = [];
+        };
+        level.forEach(child => {
+            // Each interior cell is at most 4 + 9 bytes plus a 2-byte pointer.
+            if (children.length > 0 && 12 + (children.length + 1) * 15 > PAGE_SIZE) flushInterior();
+            children.push(child);
+        });
+        flushInterior();
+        level = parents;
+    }
+    return level[0].page;
+};
+
+const writeIndexPage = (alloc: PageAllocator, keys: SqliteValue[][]): number => {
+    const sorted = [...keys].sort((a, b) => {
+        for (let i = 0; i < a.length; i++) {
+            const diff = compareValues(a[i], b[i]);
+            if (diff !== 0) return diff;
+        }
+        return 0;
+    });
+    const cells = sorted.map(key => {
+        const record = encodeRecord(key);
+        if (record.length > MAX_LOCAL_INDEX) throw new Error("Index key is too large for the GeoPackage writer.");
+        return [...varint(record.length), ...record];
+    });
+    const page = alloc.allocate();
+    if (!writePage(alloc.get(page), 0, PAGE_TYPE.leafIndex, cells)) {
+        throw new Error("Too many index entries for the GeoPackage writer.");
+    }
+    return page;
+};
+
+/**
+ * Builds a complete SQLite database file containing the given tables.
+ */
+export function writeSqliteDatabase(tables: SqliteTable[], options: SqliteHeaderOptions = {}): Uint8Array {
+    const alloc = new PageAllocator();
+    const schemaRows: SqliteValue[][] = [];
+
+    tables.forEach(table => {
+        const entries = table.rows.map((row, i) => {
+            const rowid = table.rowidColumn !== undefined ? Number(row[table.rowidColumn]) : i + 1;
+            const stored = table.rowidColumn !== undefined ? row.map((v, col) => col === table.rowidColumn ? null : v) : row;
+            return { rowid, row, record: encodeRecord(stored) };
+        }).sort((a, b) => a.rowid - b.rowid);
+        const rootPage = writeTableTree(alloc, entries);
+        schemaRows.push(['table', table.name, table.name, rootPage, table.sql]);
+
+        (table.indexes || []).forEach(index => {
+            const keys = entries.map(({ rowid, row }) => [...index.columns.map(col => row[col]), rowid]);
+            schemaRows.push(['index', index.name, table.name, writeIndexPage(alloc, keys), null]);
+        });
+    });
+
+    const schemaCells = schemaRows.map((row, i) => {
+        const record = encodeRecord(row);
+        return [...varint(record.length), ...varint(i + 1), ...storePayload(alloc, record, MAX_LOCAL_TABLE)];
+    });
+    const page1 = alloc.get(1);
+    if (!writePage(page1, 100, PAGE_TYPE.leafTable, schemaCells)) {
+        throw new Error("The database schema is too large for the GeoPackage writer.");
+    }
+
+    const header = new DataView(page1.buffer);
+    page1.set(encoder.encode('SQLite format 3\0'), 0);
+    header.setUint16(16, PAGE_SIZE);
+    page1[18] = 1; // legacy file format write version
+    page1[19] = 1; // read version
+    page1[20] = 0; // reserved bytes per page
+    page1[21] = 64;
+    page1[22] = 32;
+    page1[23] = 32;
+    header.setUint32(24, 1); // file change counter
+    header.setUint32(28, alloc.pages.length); // database size in pages
+    header.setUint32(40, 1); // schema cookie
+    header.setUint32(44, 4); // schema format number
+    header.setUint32(56, 1); // UTF-8
+    header.setUint32(60, options.userVersion ?? 0);
+    header.setUint32(68, options.applicationId ?? 0);
+    header.setUint32(92, 1); // version-valid-for, matches the change counter
+    header.setUint32(96, 3045000); // SQLITE_VERSION_NUMBER of the format we emulate
+
+    const file = new Uint8Array(alloc.pages.length * PAGE_SIZE);
+    alloc.pages.forEach((page, i) => file.set(page, i * PAGE_SIZE));
+    return file;
+}
@@ -1,10 +1,11 @@
-import type { Defect, GroundTruthDefect, ValidationMetrics, BoundingBox, ClassMetrics } from '../types';
+import type { Defect, GroundTruthDefect, ValidationMetrics, BoundingBox, ClassMetrics, ConfusionMatrix, IouMode, Point } from '../types';
+import { DEFECT_TYPES } from '../constants';
 
 /**
  * Calculates the Intersection over Union (IoU) of two bounding boxes.
  * Bounding boxes are expected to be in percentage coordinates (0.0 to 1.0).
  */
-function calculateIou(boxA: BoundingBox, boxB: BoundingBox): number {
+export function calculateIou(boxA: BoundingBox, boxB: BoundingBox): number {
     const xA = Math.max(boxA.x_min, boxB.x_min);
     const yA = Math.max(boxA.y_min, boxB.y_min);
     const xB = Math.min(boxA.x_max, boxB.x_max);
@@ -25,6 +26,74 @@ function calculateIou(boxA: BoundingBox, boxB: BoundingBox): number {
     return iou;
 }
 
+/**
+ * Rasterizes a polygon onto a grid with the even-odd rule, marking the cells whose centres
+ * fall inside it.
+ */
+function rasterizePolygon(polygon: Point[], origin: Point, cellSize: number, cols: number, rows: number): Uint8Array {
+    const mask = new Uint8Array(cols * rows);
+    for (let row = 0; row < rows; row++) {
+        const y = origin.y + (row + 0.5) * cellSize;
+        const crossings: number[] = [];
+        for (let i = 0; i < polygon.length; i++) {
+            const a = polygon[i];
+            const b = polygon[(i + 1) % polygon.length];
+            if ((a.y <= y) !== (b.y <= y)) {
+                crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+            }
+        }
+        crossings.sort((p, q) => p - q);
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+            const start = Math.max(0, Math.ceil((crossings[i] - origin.x) / cellSize - 0.5));
+            const end = Math.min(cols - 1, Math.floor((crossings[i + 1] - origin.x) / cellSize - 0.5));
+            for (let col = start; col <= end; col++) mask[row * cols + col] = 1;
+        }
+    }
+    return mask;
+}
+
+/**
+ * Calculates the mask IoU of two polygons (normalized 0-1 coordinates) by rasterizing both
+ * onto a shared grid of `resolution` cells along the longer side of their combined extent.
+ * Works for concave and self-touching outlines such as crack masks.
+ */
+export function calculatePolygonIou(polygonA: Point[], polygonB: Point[], resolution = 256): number {
+    if (polygonA.length < 3 || polygonB.length < 3) return 0;
+    const all = [...polygonA, ...polygonB];
+    const origin = { x: Math.min(...all.map(p => p.x)), y: Math.min(...all.map(p => p.y)) };
+    const extent = Math.max(Math.max(...all.map(p => p.x)) - origin.x, Math.max(...all.map(p => p.y)) - origin.y);
+    if (extent <= 0) return 0;
+
+    const cellSize = extent / resolution;
+    const cols = Math.max(1, Math.ceil((Math.max(...all.map(p => p.x)) - origin.x) / cellSize));
+    const rows = Math.max(1, Math.ceil((Math.max(...all.map(p => p.y)) - origin.y) / cellSize));
+    const maskA = rasterizePolygon(polygonA, origin, cellSize, cols, rows);
+    const maskB = rasterizePolygon(polygonB, origin, cellSize, cols, rows);
+
+    let intersection = 0;
+    let union = 0;
+    for (let i = 0; i < maskA.length; i++) {
+        if (maskA[i] & maskB[i]) intersection++;
+        if (maskA[i] | maskB[i]) union++;
+    }
+    return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * IoU between a detection and a ground-truth annotation. In 'mask' mode their segmentation
+ * polygons are compared when both have one; otherwise the bounding boxes are used.
+ */
+export function detectionIou(
+    prediction: Pick<Defect, 'boundingBox' | 'segmentationPolygon'>,
+    groundTruth: GroundTruthDefect,
+    iouMode: IouMode = 'box'
+): number {
+    if (iouMode === 'mask' && (prediction.segmentationPolygon?.length ?? 0) >= 3 && (groundTruth.segmentationPolygon?.length ?? 0) >= 3) {
+        return calculatePolygonIou(prediction.segmentationPolygon!, groundTruth.segmentationPolygon!);
+    }
+    return calculateIou(prediction.boundingBox, groundTruth.boundingBox);
+}
+
 /**
  * Normalizes AI defect types for comparison with simpler ground truth labels.
  * E.g., 'Alligator Crack' becomes 'Crack'.
@@ -37,28 +106,105 @@ function normalizeAiType(type: Defect['type']): string {
     return type;
 }
 
+/**
+ * Normalizes a ground truth label: exact app defect types (e.g. from a label mapping) keep
+ * their canonical spelling, anything else is capitalized ('pothole' -> 'Pothole').
+ */
+export function normalizeGtType(type: string): string {
+    const exact = DEFECT_TYPES.find(t => t.toLowerCase() === type.trim().toLowerCase());
+    return exact ?? type.charAt(0).toUpperCase() + type.slice(1).toLowerCase();
+}
+
+/**
+ * The class an AI defect is scored under: its own type when the ground truth uses that
+ * type, otherwise the coarse family the ground truth is likely to use ('Crack').
+ */
+export const aiClassFor = (type: Defect['type'], gtClasses: Set<string>): string =>
+    gtClasses.has(type) ? type : normalizeAiType(type);
+
 /**
  * Helper to calculate precision, recall, and F1-score.
  */
-const calculatePrf = (tp: number, fp: number, fn: number) => {
+export const calculatePrf = (tp: number, fp: number, fn: number) => {
     const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
     const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
     const f1Score = precision + recall > 0 ? 2 * (precision * recall) / (precision + recall) : 0;
     return { precision, recall, f1Score };
 };
 
+/**
+ * Uses inspector-reviewed detections as ground truth for validating the model's output.
+ */
+export const defectsAsGroundTruth = (defects: Defect[]): GroundTruthDefect[] =>
+    defects.map(({ type, boundingBox, segmentationPolygon }) => ({ type, boundingBox, segmentationPolygon }));
+
+const BACKGROUND_LABEL = 'Background';
+
+/**
+ * Builds a confusion matrix by matching each detection (most confident first) to the
+ * unmatched ground truth it overlaps most, whatever the classes. Predicted classes are the
+ * AI's own types, so the four crack types stay distinct; ground-truth labels are normalized
+ * as in `compareDetections`.
+ */
+export function buildConfusionMatrix(
+    aiDefects: Defect[],
+    gtDefects: GroundTruthDefect[],
+    iouThreshold = 0.5,
+    iouMode: IouMode = 'box'
+): ConfusionMatrix {
+    const groundTruthLabels = [...new Set(gtDefects.map(d => normalizeGtType(d.type)))].sort();
+    const predictedLabels = [...new Set(aiDefects.map(d => d.type as string))].sort();
+    groundTruthLabels.push(BACKGROUND_LABEL);
+    predictedLabels.push(BACKGROUND_LABEL);
+    const counts = groundTruthLabels.map(() => predictedLabels.map(() => 0));
+    const background = { row: groundTruthLabels.length - 1, col: predictedLabels.length - 1 };
+
+    const matchedGtIndices = new Set<number>();
+    [...aiDefects]
+        .sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))
+        .forEach(aiDefect => {
+            let bestMatch = { iou: 0, gtIndex: -1 };
+            gtDefects.forEach((gtDefect, gtIndex) => {
+                if (matchedGtIndices.has(gtIndex)) return;
+                const iou = detectionIou(aiDefect, gtDefect, iouMode);
+                if (iou > bestMatch.iou) bestMatch = { iou, gtIndex };
+            });
+            const col = predictedLabels.indexOf(aiDefect.type);
+            if (bestMatch.gtIndex >= 0 && bestMatch.iou >= iouThreshold) {
+                matchedGtIndices.add(bestMatch.gtIndex);
+                counts[groundTruthLabels.indexOf(normalizeGtType(gtDefects[bestMatch.gtIndex].type))][col]++;
+            } else {
+                counts[background.row][col]++;
+            }
+        });
+
+    gtDefects.forEach((gtDefect, gtIndex) => {
+        if (!matchedGtIndices.has(gtIndex)) counts[groundTruthLabels.indexOf(normalizeGtType(gtDefect.type))][background.col]++;
+    });
+
+    return { groundTruthLabels, predictedLabels, counts };
+}
+
 /**
  * Compares AI detections with ground truth annotations to calculate validation metrics.
  * @param aiDefects - Array of defects detected by the AI.
  * @param gtDefects - Array of ground truth defects from annotations.
  * @param iouThreshold - The IoU threshold to consider a detection a match.
+ * @param confidenceThreshold - Detections with a lower `confidence` (missing counts as 0) are ignored.
+ * @param iouMode - Match on bounding boxes, or on segmentation masks where both sides have one.
  * @returns A ValidationMetrics object.
  */
 export function compareDetections(
-    aiDefects: Defect[], 
+    allAiDefects: Defect[], 
     gtDefects: GroundTruthDefect[], 
-    iouThreshold = 0.5
+    iouThreshold = 0.5,
+    confidenceThreshold = 0,
+    iouMode: IouMode = 'box'
 ): ValidationMetrics {
+    // Most confident detections claim ground truth first, as on a precision-recall curve.
+    const aiDefects = allAiDefects
+        .filter(d => (d.confidence ?? 0) >= confidenceThreshold)
+        .sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
     const matchedGtIndices = new Set<number>();
     const perClassData: Record<string, {
         tp: number;
@@ -70,8 +216,8 @@ export function compareDetections(
 
     // Get all unique classes from both ground truth and AI predictions
     // Normalize GT types for consistent grouping (e.g., 'pothole' -> 'Pothole')
-    const gtClasses = new Set(gtDefects.map(d => d.type.charAt(0).toUpperCase() + d.type.slice(1).toLowerCase()));
-    const aiClasses = new Set(aiDefects.map(d => normalizeAiType(d.type)));
+    const gtClasses = new Set(gtDefects.map(d => normalizeGtType(d.type)));
+    const aiClasses = new Set(aiDefects.map(d => aiClassFor(d.type, gtClasses)));
     const allClasses = new Set([...gtClasses, ...aiClasses]);
 
     // Initialize per-class data
@@ -81,20 +227,20 @@ export function compareDetections(
             fp: 0,
             fn: 0,
             iouSum: 0,
-            totalGroundTruth: gtDefects.filter(d => d.type.charAt(0).toUpperCase() + d.type.slice(1).toLowerCase() === className).length
+            totalGroundTruth: gtDefects.filter(d => normalizeGtType(d.type) === className).length
         };
     }
     
     // Calculate True Positives and False Positives
     aiDefects.forEach(aiDefect => {
-        const aiType = normalizeAiType(aiDefect.type);
+        const aiType = aiClassFor(aiDefect.type, gtClasses);
         let bestMatch = { iou: -1, gtIndex: -1 };
 
         gtDefects.forEach((gtDefect, gtIndex) => {
-            const gtType = gtDefect.type.charAt(0).toUpperCase() + gtDefect.type.slice(1).toLowerCase();
+            const gtType = normalizeGtType(gtDefect.type);
             // Check if this GT defect has been matched, and if types match
             if (!matchedGtIndices.has(gtIndex) && gtType === aiType) {
-                const iou = calculateIou(aiDefect.boundingBox, gtDefect.boundingBox);
+                const iou = detectionIou(aiDefect, gtDefect, iouMode);
                 if (iou > bestMatch.iou) {
                     bestMatch = { iou, gtIndex };
                 }
@@ -117,7 +263,7 @@ export function compareDetections(
     // Calculate False Negatives for each class by checking unmatched ground truth items
     gtDefects.forEach((gtDefect, gtIndex) => {
         if (!matchedGtIndices.has(gtIndex)) {
-            const gtType = gtDefect.type.charAt(0).toUpperCase() + gtDefect.type.slice(1).toLowerCase();
+            const gtType = normalizeGtType(gtDefect.type);
             if (perClassData[gtType]) {
                 perClassData[gtType].fn++;
             }
@@ -155,5 +301,7 @@ export function compareDetections(
         recall: overallMetrics.recall,
         f1Score: overallMetrics.f1Score,
         perClassMetrics,
+        iouMode,
+        confusionMatrix: buildConfusionMatrix(aiDefects, gtDefects, iouThreshold, iouMode),
     };
 }
@@ -0,0 +1,112 @@
+import type { Defect, Location, RoadSegmentSummary, TreatmentType, WorkOrderDraft, WorkOrderPriority } from '../types';
+import { DEFAULT_ROAD_WIDTH_M, defectArea, formatChainageRange } from './roadSegments';
+
+// The default repair for each defect type when defects are ordered individually.
+export const TREATMENT_FOR_TYPE: Record<Defect['type'], TreatmentType> = {
+    'Longitudinal Crack': 'Crack Seal',
+    'Transverse Crack': 'Crack Seal',
+    'Block Crack': 'Crack Seal',
+    'Pothole': 'Patch',
+    'Alligator Crack': 'Patch',
+    'Distress': 'Patch',
+    'Rutting': 'Mill & Overlay',
+    'Roughness': 'Mill & Overlay',
+};
+
+// Segments rated Very Poor or worse are resurfaced as a whole rather than repaired defect by defect.
+export const MILL_AND_OVERLAY_MAX_PCI = 40;
+
+const TREATMENT_ORDER: TreatmentType[] = ['Mill & Overlay', 'Patch', 'Crack Seal'];
+const SEVERITY_RANK: Record<WorkOrderPriority, number> = { Low: 0, Medium: 1, High: 2 };
+
+/** The most severe defect decides the priority; defects without a severity count as Medium. */
+const priorityFor = (defects: Defect[]): WorkOrderPriority =>
+    defects.reduce<WorkOrderPriority>((worst, d) => {
+        const severity = d.severity ?? 'Medium';
+        return SEVERITY_RANK[severity] > SEVERITY_RANK[worst] ? severity : worst;
+    }, 'Low');
+
+const defectVolume = (defect: Defect): number => {
+    if (typeof defect.volume_m3 === 'number') return defect.volume_m3;
+    if (defect.dimensions?.depth_m) return defectArea(defect) * defect.dimensions.depth_m;
+    return 0;
+};
+
+const centroid = (defects: Defect[]): Location | undefined => {
+    const located = defects.filter(d => d.location);
+    if (located.length === 0) return undefined;
+    return {
+        latitude: located.reduce((sum, d) => sum + d.location!.latitude, 0) / located.length,
+        longitude: located.reduce((sum, d) => sum + d.location!.longitude, 0) / located.length,
+    };
+};
+
+const summarize = (defects: Defect[]) => {
+    const defectTypes: WorkOrderDraft['defectTypes'] = {};
+    defects.forEach(d => { defectTypes[d.type] = (defectTypes[d.type] || 0) + 1; });
+    return {
+        areaSqM: defects.reduce((sum, d) => sum + defectArea(d), 0),
+        volumeM3: defects.reduce((sum, d) => sum + defectVolume(d), 0),
+        crackLengthM: defects
+            .filter(d => TREATMENT_FOR_TYPE[d.type] === 'Crack Seal')
+            .reduce((sum, d) => sum + (d.dimensions?.length_m ?? 0), 0),
+        defectCount: defects.length,
+        defectTypes,
+        location: centroid(defects),
+    };
+};
+
+/**
+ * Groups defects by treatment and drafts one work order per treatment. Crack sealing is
+ * quantified in linear metres of crack, patching and overlays in square metres.
+ */
+export function buildWorkOrders(defects: Defect[], titlePrefix = 'Selected defects'): WorkOrderDraft[] {
+    const groups = new Map<TreatmentType, Defect[]>();
+    defects.forEach(d => {
+        const treatment = TREATMENT_FOR_TYPE[d.type] ?? 'Patch';
+        groups.set(treatment, [...(groups.get(treatment) || []), d]);
+    });
+
+    return TREATMENT_ORDER.filter(treatment => groups.has(treatment)).map(treatment => {
+        const group = groups.get(treatment)!;
+        const summary = summarize(group);
+        return {
+            title: `${titlePrefix}: ${treatment}`,
+            treatment,
+            priority: priorityFor(group),
+            quantity: treatment === 'Crack Seal' ? summary.crackLengthM : summary.areaSqM,
+            unit: treatment === 'Crack Seal' ? 'm' : 'm²',
+            ...summary,
+        };
+    });
+}
+
+/**
+ * Drafts work orders for one road segment. A segment at or below `MILL_AND_OVERLAY_MAX_PCI`
+ * gets a single mill & overlay over its full carriageway; otherwise its defects are ordered
+ * by treatment as in `buildWorkOrders`.
+ */
+export function buildSegmentWorkOrders(segment: RoadSegmentSummary, defects: Defect[], roadWidthM = DEFAULT_ROAD_WIDTH_M): WorkOrderDraft[] {
+    const title = `${segment.roadName} ${formatChainageRange(segment.startChainageM, segment.endChainageM)}`;
+    const road = {
+        roadId: segment.roadId,
+        roadName: segment.roadName,
+        startChainageM: segment.startChainageM,
+        endChainageM: segment.endChainageM,
+    };
+
+    if (segment.pci <= MILL_AND_OVERLAY_MAX_PCI) {
+        const summary = summarize(defects);
+        return [{
+            title: `${title}: Mill & Overlay`,
+            treatment: 'Mill & Overlay',
+            priority: segment.pci <= 25 ? 'High' : 'Medium',
+            quantity: (segment.endChainageM - segment.startChainageM) * roadWidthM,
+            unit: 'm²',
+            ...summary,
+            ...road,
+            notes: `PCI ${segment.pci} (${segment.pciRating})`,
+        }];
+    }
+    return buildWorkOrders(defects, title).map(order => ({ ...order, ...road }));
+}
@@ -1,4 +1,31 @@
-import type { GroundTruthDefect, BoundingBox } from '../types';
+import type { GroundTruthDefect, BoundingBox, Point } from '../types';
+
+const childNumber = (parent: Element, tagName: string): number | null => {
+    const text = Array.from(parent.children).find(c => c.tagName.toLowerCase() === tagName)?.textContent;
+    const value = text ? parseFloat(text) : NaN;
+    return isFinite(value) ? value : null;
+};
+
+/**
+ * Reads an object's `<polygon>` outline in pixels, written either as `<pt><x/><y/></pt>`
+ * points (LabelMe style) or as numbered `<x1/><y1/><x2/><y2/>...` children (CVAT style).
+ */
+const parseVocPolygon = (polygonNode: Element): Point[] => {
+    const pts = Array.from(polygonNode.querySelectorAll("pt"));
+    if (pts.length > 0) {
+        return pts
+            .map(pt => ({ x: childNumber(pt, 'x'), y: childNumber(pt, 'y') }))
+            .filter((p): p is Point => p.x !== null && p.y !== null);
+    }
+    const points: Point[] = [];
+    for (let i = 1; ; i++) {
+        const x = childNumber(polygonNode, `x${i}`);
+        const y = childNumber(polygonNode, `y${i}`);
+        if (x === null || y === null) break;
+        points.push({ x, y });
+    }
+    return points;
+};
 
 /**
  * Parses a PASCAL VOC XML string to extract ground truth defect annotations.
@@ -26,8 +53,26 @@ export function parsePascalVoc(xmlString: string, imageWidth: number, imageHeigh
     objects.forEach(obj => {
         const nameNode = obj.querySelector("name");
         const bndboxNode = obj.querySelector("bndbox");
+        const polygonNode = obj.querySelector("polygon");
+        const pixelPolygon = polygonNode ? parseVocPolygon(polygonNode) : [];
+        const segmentationPolygon: Point[] | undefined = pixelPolygon.length >= 3
+            ? pixelPolygon.map(p => ({ x: Math.max(0, Math.min(1, p.x / imageWidth)), y: Math.max(0, Math.min(1, p.y / imageHeight)) }))
+            : undefined;
+        // Capitalize the first letter of the type to match app's convention
+        const type = nameNode?.textContent ? nameNode.textContent.charAt(0).toUpperCase() + nameNode.textContent.slice(1).toLowerCase() : '';
 
-        if (nameNode?.textContent && bndboxNode) {
+        if (type && !bndboxNode && segmentationPolygon) {
+            defects.push({
+                type,
+                boundingBox: {
+                    x_min: Math.min(...segmentationPolygon.map(p => p.x)),
+                    y_min: Math.min(...segmentationPolygon.map(p => p.y)),
+                    x_max: Math.max(...segmentationPolygon.map(p => p.x)),
+                    y_max: Math.max(...segmentationPolygon.map(p => p.y)),
+                },
+                segmentationPolygon,
+            });
+        } else if (type && bndboxNode) {
             const xminNode = bndboxNode.querySelector("xmin");
             const yminNode = bndboxNode.querySelector("ymin");
             const xmaxNode = bndboxNode.querySelector("xmax");
@@ -45,11 +90,8 @@ export function parsePascalVoc(xmlString: string, imageWidth: number, imageHeigh
                     x_max: xmax / imageWidth,
                     y_max: ymax / imageHeight,
                 };
-                
-                // Capitalize the first letter of the type to match app's convention
-                const type = nameNode.textContent.charAt(0).toUpperCase() + nameNode.textContent.slice(1).toLowerCase();
 
-                defects.push({ type, boundingBox });
+                defects.push({ type, boundingBox, segmentationPolygon });
             }
         }
     });